@@ -0,0 +1,48 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+contract DocumentRegistry {
+    struct Record {
+        address registrant;
+        uint64 timestamp;
+    }
+
+    address public immutable operator;
+
+    mapping(bytes32 => Record) public records;
+    mapping(bytes32 => uint64) public revokedAt;
+
+    event DocumentRegistered(bytes32 indexed documentHash, address indexed registrant, uint256 timestamp);
+    event DocumentRevoked(bytes32 indexed documentHash, address indexed revoker, uint256 timestamp);
+
+    modifier onlyOperator() {
+        require(msg.sender == operator, "not operator");
+        _;
+    }
+
+    constructor() {
+        operator = msg.sender;
+    }
+
+    function register(bytes32 documentHash) external onlyOperator {
+        require(records[documentHash].timestamp == 0, "already registered");
+        records[documentHash] = Record(msg.sender, uint64(block.timestamp));
+        emit DocumentRegistered(documentHash, msg.sender, block.timestamp);
+    }
+
+    // documentHash is the document's Merkle leaf hash, which identifies a
+    // single document even when only its batch root was registered.
+    function revoke(bytes32 documentHash) external onlyOperator {
+        require(revokedAt[documentHash] == 0, "already revoked");
+        revokedAt[documentHash] = uint64(block.timestamp);
+        emit DocumentRevoked(documentHash, msg.sender, block.timestamp);
+    }
+
+    function isRegistered(bytes32 documentHash) external view returns (bool) {
+        return records[documentHash].timestamp != 0;
+    }
+
+    function isRevoked(bytes32 documentHash) external view returns (bool) {
+        return revokedAt[documentHash] != 0;
+    }
+}
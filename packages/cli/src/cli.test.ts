@@ -0,0 +1,160 @@
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { run } from "./cli.ts";
+
+const DIGEST = "a".repeat(64);
+const OTHER_DIGEST = "b".repeat(64);
+
+let directory: string;
+let stdout: string[];
+let stderr: string[];
+
+// Answers each function with the JSON `respond` returns for its request body.
+function serve(respond: (fn: string, body: Record<string, unknown>) => { status?: number; json: unknown }) {
+  vi.stubGlobal(
+    "fetch",
+    vi.fn(async (url: string, init: RequestInit) => {
+      const fn = new URL(url).pathname.split("/").pop() || "";
+      const { status = 200, json } = respond(fn, JSON.parse(String(init.body || "{}")));
+      return new Response(JSON.stringify(json), { status, headers: { "Content-Type": "application/json" } });
+    })
+  );
+}
+
+beforeAll(async () => {
+  directory = await mkdtemp(join(tmpdir(), "docverify-cli-"));
+});
+
+afterAll(async () => {
+  await rm(directory, { recursive: true, force: true });
+});
+
+beforeEach(() => {
+  stdout = [];
+  stderr = [];
+  vi.spyOn(process.stdout, "write").mockImplementation((chunk) => stdout.push(String(chunk)) > 0);
+  vi.spyOn(process.stderr, "write").mockImplementation((chunk) => stderr.push(String(chunk)) > 0);
+  vi.stubEnv("DOCVERIFY_URL", "https://example.supabase.co");
+  vi.stubEnv("DOCVERIFY_ANON_KEY", "anon-key");
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+  vi.unstubAllEnvs();
+});
+
+describe("usage", () => {
+  it("prints the help with exit code 0", async () => {
+    expect(await run([])).toBe(0);
+    expect(stdout.join("")).toContain("Exit codes:");
+  });
+
+  it.each([
+    [["frobnicate"], 'Unknown command "frobnicate"'],
+    [["verify", "--bogus", DIGEST], "bogus"],
+    [["verify"], "verify needs a file, a digest or a document ID"],
+    [["verify", "--algorithm", "md5", DIGEST], 'Unknown hash algorithm "md5"'],
+    [["receipt"], "receipt takes one document ID"],
+  ])("exits with 2 for %j", async (argv, message) => {
+    expect(await run(argv)).toBe(2);
+    expect(stderr.join("")).toContain(message);
+  });
+
+  it("exits with 2 when the project is not configured", async () => {
+    vi.stubEnv("DOCVERIFY_URL", "");
+    expect(await run(["verify", DIGEST])).toBe(2);
+  });
+});
+
+describe("verify", () => {
+  it.each([
+    ["verified", 0],
+    ["not_found", 3],
+    ["revoked", 4],
+    ["tampered", 5],
+  ])("exits for a %s document with %i", async (status, code) => {
+    serve(() => ({ json: { status } }));
+
+    expect(await run(["verify", DIGEST])).toBe(code);
+    expect(JSON.parse(stdout.join(""))).toEqual({ status });
+  });
+
+  it("exits with the most serious outcome of several documents", async () => {
+    serve((_fn, body) => {
+      const documents = body.documents as Array<{ file_hash: string }>;
+      const statuses = ["verified", "revoked", "tampered", "not_found"];
+      return {
+        json: {
+          success: true,
+          results: documents.map((doc, index) => ({ index, file_hash: doc.file_hash, status: statuses[index] })),
+          summary: { total: 4, verified: 1, tampered: 1, not_found: 1, revoked: 1, error: 0 },
+        },
+      };
+    });
+
+    expect(await run(["verify", DIGEST, OTHER_DIGEST, "c".repeat(64), "d".repeat(64)])).toBe(5);
+  });
+
+  it("exits with 1 when a document could not be checked", async () => {
+    serve(() => ({
+      json: {
+        success: true,
+        results: [
+          { index: 0, file_hash: DIGEST, status: "tampered" },
+          { index: 1, file_hash: OTHER_DIGEST, error: "lookup failed" },
+        ],
+        summary: { total: 2, verified: 0, tampered: 1, not_found: 0, revoked: 0, error: 1 },
+      },
+    }));
+
+    expect(await run(["verify", DIGEST, OTHER_DIGEST])).toBe(1);
+  });
+
+  it("exits with 1 and reports the status when the request fails", async () => {
+    serve(() => ({ status: 429, json: { success: false, error: "Rate limit exceeded" } }));
+
+    expect(await run(["verify", DIGEST])).toBe(1);
+    expect(JSON.parse(stderr.join(""))).toEqual({ success: false, error: "Rate limit exceeded", status: 429 });
+  });
+});
+
+describe("register", () => {
+  it("exits with 0 when every file is registered or already was", async () => {
+    const files = [join(directory, "a.txt"), join(directory, "b.txt")];
+    await Promise.all(files.map((file, i) => writeFile(file, `contents ${i}`)));
+    serve(() => ({
+      json: {
+        success: true,
+        results: [
+          { index: 0, filename: "a.txt", file_hash: DIGEST, status: "registered" },
+          { index: 1, filename: "b.txt", file_hash: OTHER_DIGEST, status: "duplicate" },
+        ],
+        summary: { total: 2, registered: 1, duplicates: 1, failed: 0 },
+      },
+    }));
+
+    expect(await run(["register", ...files])).toBe(0);
+    expect(JSON.parse(stdout.join("")).results.map((r: { path: string }) => r.path)).toEqual(files);
+  });
+
+  it("exits with 1 when a file could not be registered", async () => {
+    const file = join(directory, "c.txt");
+    await writeFile(file, "contents");
+    serve(() => ({
+      json: {
+        success: true,
+        results: [{ index: 0, filename: "c.txt", file_hash: DIGEST, status: "failed", error: "File too large" }],
+        summary: { total: 1, registered: 0, duplicates: 0, failed: 1 },
+      },
+    }));
+
+    expect(await run(["register", file])).toBe(1);
+  });
+
+  it("exits with 2 for a path that is not a file", async () => {
+    expect(await run(["register", directory])).toBe(2);
+  });
+});
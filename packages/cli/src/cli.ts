@@ -0,0 +1,379 @@
+import { createWriteStream } from "node:fs";
+import { writeFile } from "node:fs/promises";
+import { Readable } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import type { ReadableStream } from "node:stream/web";
+import { parseArgs } from "node:util";
+import {
+  ApiError,
+  DocVerifyClient,
+  DocumentQuerySchema,
+  EXPORT_COLUMNS,
+  EXPORT_FORMATS,
+  validate,
+  type BatchRegisterItem,
+  type BatchVerifyItem,
+  type BatchVerifyResponse,
+  type ExportColumn,
+  type ExportFormat,
+  type LookupRequest,
+  type RegisterRequest,
+  type VerificationStatus,
+} from "../../client/src/index.ts";
+import { isHashAlgorithm, type HashAlgorithm } from "../../../src/utils/crypto.ts";
+import { hashFile, isFile } from "./files.ts";
+
+const USAGE = `Usage: docverify <command> [options]
+
+Commands:
+  register <files...>     Hash and register files
+      --tags <a,b>        Tags for every file
+      --algorithm <ids>   Digests to register, primary first (default sha256)
+      --parent <id|hash>  Previous version, when registering a single file
+  verify <file|hash|id>...
+                          Look files up by digest, or a document by ID
+      --algorithm <id>    Digest algorithm (default sha256 for files, guessed for hashes)
+  export                  Stream the registry as CSV, JSON or NDJSON
+      --format <format>   csv, json or ndjson (default csv)
+      --columns <a,b>     Columns to include
+      --status, --search, --hash, --tags, --owner, --mime-type, --from, --to,
+      --sort, --order     Registry filters, as in the web app
+  receipt <id>            Print a document's signed receipt
+
+Options:
+  -o, --output <file>     Write export or receipt to a file instead of stdout
+      --url <url>         Project URL (DOCVERIFY_URL)
+      --anon-key <key>    Project anon key (DOCVERIFY_ANON_KEY)
+  -h, --help              Show this help
+
+The API key is read from DOCVERIFY_API_KEY. Results are printed as JSON.
+
+Exit codes:
+  0  success; every document verified
+  1  request failed, or a document could not be registered or checked
+  2  invalid arguments
+  3  not found
+  4  revoked
+  5  tampered
+`;
+
+const EXIT_CODES = { ok: 0, error: 1, usage: 2, verified: 0, not_found: 3, revoked: 4, tampered: 5 } as const;
+
+// When several documents are verified, the exit code is that of the most
+// serious outcome.
+const SEVERITY = ["error", "tampered", "revoked", "not_found", "verified"] as const;
+
+// Well under the server limits, so a large run still reports progress in
+// reasonable steps and one bad request does not lose much work.
+const BATCH_SIZE = 100;
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const HEX_DIGEST = /^(0x)?[0-9a-f]+$/i;
+const PARENT_HASH = /^(0x)?[0-9a-f]{64}([0-9a-f]{64})?$/i;
+
+type Values = Record<string, string | boolean | undefined>;
+
+interface Command {
+  options: Record<string, { type: "string" | "boolean"; short?: string }>;
+  run(client: DocVerifyClient, args: string[], values: Values): Promise<number>;
+}
+
+class UsageError extends Error {}
+
+function print(value: unknown) {
+  process.stdout.write(JSON.stringify(value, null, 2) + "\n");
+}
+
+function option(values: Values, name: string): string | undefined {
+  const value = values[name];
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+function list(value: string | undefined): string[] {
+  return (value || "")
+    .split(",")
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+}
+
+function algorithms(value: string | undefined, fallback: HashAlgorithm[]): HashAlgorithm[] {
+  const ids = list(value);
+  for (const id of ids) {
+    if (!isHashAlgorithm(id)) throw new UsageError(`Unknown hash algorithm "${id}"`);
+  }
+  return ids.length ? (ids as HashAlgorithm[]) : fallback;
+}
+
+function createClient(values: Values): DocVerifyClient {
+  const url = option(values, "url") || process.env.DOCVERIFY_URL;
+  const anonKey = option(values, "anon-key") || process.env.DOCVERIFY_ANON_KEY;
+
+  if (!url || !anonKey) {
+    throw new UsageError("Set DOCVERIFY_URL and DOCVERIFY_ANON_KEY, or pass --url and --anon-key");
+  }
+
+  return new DocVerifyClient({ url, anonKey, apiKey: process.env.DOCVERIFY_API_KEY });
+}
+
+async function writeOutput(output: string | undefined, body: Readable) {
+  await pipeline(body, output ? createWriteStream(output) : process.stdout);
+}
+
+async function register(client: DocVerifyClient, paths: string[], values: Values): Promise<number> {
+  if (!paths.length) throw new UsageError("register needs at least one file");
+
+  const selected = algorithms(option(values, "algorithm"), ["sha256"]);
+  const tags = list(option(values, "tags"));
+  const parent = option(values, "parent");
+
+  if (parent && paths.length > 1) {
+    throw new UsageError("--parent only applies when registering a single file");
+  }
+
+  for (const path of paths) {
+    if (!(await isFile(path))) throw new UsageError(`${path} is not a file`);
+  }
+
+  const results: Array<BatchRegisterItem & { path: string }> = [];
+  const summary = { total: 0, registered: 0, duplicates: 0, failed: 0 };
+
+  for (let start = 0; start < paths.length; start += BATCH_SIZE) {
+    const batch = paths.slice(start, start + BATCH_SIZE);
+    const documents: RegisterRequest[] = [];
+
+    for (const path of batch) {
+      const file = await hashFile(path, selected);
+      const isParentHash = !!parent && PARENT_HASH.test(parent);
+
+      documents.push({
+        filename: file.filename,
+        file_hash: file.digests[selected[0]],
+        hash_algorithm: selected[0],
+        digests: selected.slice(1).map((algorithm) => ({ algorithm, digest: file.digests[algorithm] })),
+        file_size: file.size,
+        mime_type: file.mimeType,
+        tags,
+        parent_document_id: parent && !isParentHash ? parent : undefined,
+        parent_hash: isParentHash ? parent.toLowerCase() : undefined,
+      });
+    }
+
+    const response = await client.registerBatch(documents);
+
+    for (const item of response.results) {
+      results.push({ ...item, index: start + item.index, path: batch[item.index] });
+    }
+    summary.total += response.summary.total;
+    summary.registered += response.summary.registered;
+    summary.duplicates += response.summary.duplicates;
+    summary.failed += response.summary.failed;
+  }
+
+  print({ success: summary.failed === 0, results, summary });
+  return summary.failed ? EXIT_CODES.error : EXIT_CODES.ok;
+}
+
+async function lookupFor(target: string, algorithm: HashAlgorithm | undefined): Promise<LookupRequest> {
+  if (await isFile(target)) {
+    const hashAlgorithm = algorithm || "sha256";
+    const file = await hashFile(target, [hashAlgorithm]);
+    return { file_hash: file.digests[hashAlgorithm], hash_algorithm: hashAlgorithm };
+  }
+  if (UUID.test(target)) {
+    return { document_id: target };
+  }
+  if (HEX_DIGEST.test(target)) {
+    return { file_hash: target, hash_algorithm: algorithm };
+  }
+  throw new UsageError(`${target} is not a file, a digest or a document ID`);
+}
+
+async function verify(client: DocVerifyClient, targets: string[], values: Values): Promise<number> {
+  if (!targets.length) throw new UsageError("verify needs a file, a digest or a document ID");
+
+  const [algorithm, ...more] = algorithms(option(values, "algorithm"), []);
+  if (more.length) throw new UsageError("verify takes a single --algorithm");
+
+  if (targets.length === 1) {
+    const response = await client.verify(await lookupFor(targets[0], algorithm));
+    print(response);
+    return EXIT_CODES[response.status];
+  }
+
+  const results: Array<BatchVerifyItem & { target: string }> = [];
+  const summary: BatchVerifyResponse["summary"] = {
+    total: 0,
+    verified: 0,
+    tampered: 0,
+    not_found: 0,
+    revoked: 0,
+    error: 0,
+  };
+
+  for (let start = 0; start < targets.length; start += BATCH_SIZE) {
+    const batch = targets.slice(start, start + BATCH_SIZE);
+    const documents: Array<{ file_hash: string; hash_algorithm?: HashAlgorithm }> = [];
+
+    for (const target of batch) {
+      const lookup = await lookupFor(target, algorithm);
+      if (!lookup.file_hash) {
+        throw new UsageError("Document IDs can only be verified one at a time");
+      }
+      documents.push({ file_hash: lookup.file_hash, hash_algorithm: lookup.hash_algorithm });
+    }
+
+    const response = await client.verifyBatch(documents);
+
+    for (const item of response.results) {
+      results.push({ ...item, index: start + item.index, target: batch[item.index] });
+    }
+    for (const key of Object.keys(summary) as Array<keyof typeof summary>) {
+      summary[key] += response.summary[key];
+    }
+  }
+
+  print({ success: true, results, summary });
+
+  const outcomes = results.map((item): VerificationStatus | "error" => (item.error ? "error" : item.status!));
+  return EXIT_CODES[SEVERITY.find((outcome) => outcomes.includes(outcome)) || "verified"];
+}
+
+async function exportProofs(client: DocVerifyClient, args: string[], values: Values): Promise<number> {
+  if (args.length) throw new UsageError("export takes no arguments");
+
+  const format = option(values, "format") || "csv";
+  if (!EXPORT_FORMATS.includes(format as ExportFormat)) {
+    throw new UsageError(`--format must be one of ${EXPORT_FORMATS.join(", ")}`);
+  }
+
+  const columns = list(option(values, "columns"));
+  for (const column of columns) {
+    if (!EXPORT_COLUMNS.some((c) => c.id === column)) throw new UsageError(`Unknown column "${column}"`);
+  }
+
+  const query = validate(DocumentQuerySchema, {
+    status: option(values, "status"),
+    q: option(values, "search"),
+    hash: option(values, "hash"),
+    tags: option(values, "tags"),
+    owner: option(values, "owner"),
+    mime_type: option(values, "mime-type"),
+    from: option(values, "from"),
+    to: option(values, "to"),
+    sort: option(values, "sort"),
+    order: option(values, "order"),
+  });
+  if (!query.ok) throw new UsageError(query.error);
+
+  const response = await client.exportProofs({
+    format: format as ExportFormat,
+    query: query.value,
+    columns: columns.length ? (columns as ExportColumn[]) : undefined,
+  });
+
+  await writeOutput(option(values, "output"), Readable.fromWeb(response.body as ReadableStream<Uint8Array>));
+  return EXIT_CODES.ok;
+}
+
+async function receipt(client: DocVerifyClient, args: string[], values: Values): Promise<number> {
+  if (args.length !== 1) throw new UsageError("receipt takes one document ID");
+
+  const bytes = new Uint8Array(await (await client.getReceipt(args[0])).arrayBuffer());
+  const output = option(values, "output");
+
+  if (output) {
+    await writeFile(output, bytes);
+  } else {
+    process.stdout.write(bytes);
+  }
+  return EXIT_CODES.ok;
+}
+
+const COMMON_OPTIONS = {
+  url: { type: "string" },
+  "anon-key": { type: "string" },
+  help: { type: "boolean", short: "h" },
+} as const;
+
+const COMMANDS: Record<string, Command> = {
+  register: {
+    options: { tags: { type: "string" }, algorithm: { type: "string" }, parent: { type: "string" } },
+    run: register,
+  },
+  verify: {
+    options: { algorithm: { type: "string" } },
+    run: verify,
+  },
+  export: {
+    options: {
+      output: { type: "string", short: "o" },
+      format: { type: "string" },
+      columns: { type: "string" },
+      status: { type: "string" },
+      search: { type: "string" },
+      hash: { type: "string" },
+      tags: { type: "string" },
+      owner: { type: "string" },
+      "mime-type": { type: "string" },
+      from: { type: "string" },
+      to: { type: "string" },
+      sort: { type: "string" },
+      order: { type: "string" },
+    },
+    run: exportProofs,
+  },
+  receipt: {
+    options: { output: { type: "string", short: "o" } },
+    run: receipt,
+  },
+};
+
+async function main(argv: string[]): Promise<number> {
+  const [name, ...rest] = argv;
+
+  if (!name || name === "help" || name === "--help" || name === "-h") {
+    process.stdout.write(USAGE);
+    return EXIT_CODES.ok;
+  }
+
+  const command = COMMANDS[name];
+  if (!command) throw new UsageError(`Unknown command "${name}"`);
+
+  const { values, positionals } = parseArgs({
+    args: rest,
+    options: { ...COMMON_OPTIONS, ...command.options },
+    allowPositionals: true,
+  });
+
+  if (values.help) {
+    process.stdout.write(USAGE);
+    return EXIT_CODES.ok;
+  }
+
+  return command.run(createClient(values), positionals, values);
+}
+
+function isParseArgsError(error: unknown): error is Error {
+  return error instanceof Error && String((error as { code?: unknown }).code).startsWith("ERR_PARSE_ARGS");
+}
+
+// Runs one command and returns the exit code, reporting failures on stderr.
+export async function run(argv: string[]): Promise<number> {
+  try {
+    return await main(argv);
+  } catch (error) {
+    if (error instanceof UsageError || isParseArgsError(error)) {
+      process.stderr.write(`docverify: ${error.message}\nRun "docverify --help" for usage.\n`);
+      return EXIT_CODES.usage;
+    }
+
+    process.stderr.write(
+      JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+        status: error instanceof ApiError ? error.status : undefined,
+      }) + "\n"
+    );
+    return EXIT_CODES.error;
+  }
+}
@@ -0,0 +1,63 @@
+import { createReadStream } from "node:fs";
+import { stat } from "node:fs/promises";
+import { basename, extname } from "node:path";
+import type { HashAlgorithm } from "../../../src/utils/crypto.ts";
+import { createDigester } from "../../../src/utils/digester.ts";
+
+export interface HashedFile {
+  path: string;
+  filename: string;
+  size: number;
+  mimeType: string;
+  digests: Record<HashAlgorithm, string>;
+}
+
+// The browser takes the type from the file picker; here it comes from the
+// extension, and the server treats it as informational either way.
+const MIME_TYPES: Record<string, string> = {
+  ".pdf": "application/pdf",
+  ".json": "application/json",
+  ".xml": "application/xml",
+  ".zip": "application/zip",
+  ".doc": "application/msword",
+  ".docx": "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  ".xls": "application/vnd.ms-excel",
+  ".xlsx": "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  ".pptx": "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+  ".odt": "application/vnd.oasis.opendocument.text",
+  ".txt": "text/plain",
+  ".csv": "text/csv",
+  ".md": "text/markdown",
+  ".html": "text/html",
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+  ".svg": "image/svg+xml",
+  ".tif": "image/tiff",
+  ".tiff": "image/tiff",
+  ".mp3": "audio/mpeg",
+  ".mp4": "video/mp4",
+};
+
+export function mimeType(path: string): string {
+  return MIME_TYPES[extname(path).toLowerCase()] || "application/octet-stream";
+}
+
+export async function isFile(path: string): Promise<boolean> {
+  return (await stat(path).catch(() => null))?.isFile() ?? false;
+}
+
+// Streams the file through every requested hash in one pass, with the same
+// hash implementations the browser uses.
+export async function hashFile(path: string, algorithms: HashAlgorithm[]): Promise<HashedFile> {
+  const { size } = await stat(path);
+  const digester = createDigester(algorithms);
+
+  for await (const chunk of createReadStream(path, { highWaterMark: 4 * 1024 * 1024 })) {
+    digester.update(chunk as Buffer);
+  }
+
+  return { path, filename: basename(path), size, mimeType: mimeType(path), digests: digester.digests() };
+}
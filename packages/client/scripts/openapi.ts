@@ -0,0 +1,7 @@
+// Prints the OpenAPI document for a project:
+//   npm run openapi -- https://abcd.supabase.co > openapi.json
+import { buildOpenApiDocument } from "../../../supabase/functions/_shared/openapi.ts";
+
+const url = (process.argv[2] || "http://localhost:54321").replace(/\/+$/, "");
+
+process.stdout.write(JSON.stringify(buildOpenApiDocument(`${url}/functions/v1`), null, 2) + "\n");
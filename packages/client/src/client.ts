@@ -0,0 +1,199 @@
+import {
+  BatchRegisterRequestSchema,
+  BatchVerifyRequestSchema,
+  LookupRequestSchema,
+  RegisterRequestSchema,
+  RevokeRequestSchema,
+  validate,
+  type BatchRegisterResponse,
+  type BatchVerifyResponse,
+  type DocumentQuery,
+  type DocumentResponse,
+  type DocumentsResponse,
+  type ExportColumn,
+  type ExportFormat,
+  type LookupRequest,
+  type RegisterRequest,
+  type RegisterResponse,
+  type RevokeRequest,
+  type RevokeResponse,
+  type Schema,
+  type VerifyRequest,
+  type VerifyResponse,
+} from "../../../supabase/functions/_shared/contract.ts";
+
+export interface DocVerifyClientOptions {
+  // Supabase project URL, e.g. https://abcd.supabase.co
+  url: string;
+  anonKey: string;
+  // Sent as X-API-Key; the server prefers it over a wallet session.
+  apiKey?: string;
+  // Current wallet session token from siwe-verify, read on every request.
+  accessToken?: () => string | null | undefined;
+  // Called when the server turns the session token down (401), e.g. once it
+  // has expired, so the session can be dropped and the user asked to sign in.
+  onSessionRejected?: () => void;
+  fetch?: typeof fetch;
+}
+
+export interface ExportOptions {
+  format?: ExportFormat;
+  query?: DocumentQuery;
+  // Leaving these out gives the default CSV columns, and whole documents for
+  // JSON and NDJSON.
+  columns?: ExportColumn[];
+}
+
+// Every failed call rejects with an ApiError carrying the server's message.
+export class ApiError extends Error {
+  // HTTP status; 0 when the request was rejected before it was sent.
+  readonly status: number;
+  // Seconds to wait before retrying, when the server said (rate limits).
+  readonly retryAfter?: number;
+  // Parsed error body, when there was one.
+  readonly body?: unknown;
+
+  constructor(message: string, status: number, options: { retryAfter?: number; body?: unknown } = {}) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+    this.retryAfter = options.retryAfter;
+    this.body = options.body;
+  }
+
+  static async fromResponse(response: Response, fallback: string): Promise<ApiError> {
+    const body = await response.json().catch(() => undefined);
+    const message = typeof body?.error === "string" && body.error ? body.error : fallback;
+    const retryAfter = parseInt(response.headers.get("Retry-After") || "");
+
+    return new ApiError(message, response.status, {
+      retryAfter: Number.isNaN(retryAfter) ? undefined : retryAfter,
+      body,
+    });
+  }
+}
+
+function checked<T>(schema: Schema<T>, value: unknown): T {
+  const result = validate(schema, value);
+  if (!result.ok) {
+    throw new ApiError(result.error, 0);
+  }
+  return result.value;
+}
+
+// Query strings are left to the server to check, as it ignores some values
+// (unknown statuses) rather than rejecting them.
+function searchParams(query: DocumentQuery, extra: Record<string, string | number | undefined> = {}): string {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries({ ...query, ...extra })) {
+    if (value !== undefined && value !== "") params.append(key, String(value));
+  }
+  return params.toString();
+}
+
+// Typed access to the DocVerify API. Request bodies are checked against the
+// same contract the edge functions enforce, so a malformed request fails
+// before it is sent.
+export class DocVerifyClient {
+  private base: string;
+  private options: DocVerifyClientOptions;
+
+  constructor(options: DocVerifyClientOptions) {
+    this.base = `${options.url.replace(/\/+$/, "")}/functions/v1`;
+    this.options = options;
+  }
+
+  // Sends a request and returns the response once it is known to be a
+  // success; anything else becomes an ApiError.
+  async request(path: string, init: RequestInit & { fallback: string }): Promise<Response> {
+    const { fallback, ...rest } = init;
+    const headers = new Headers(rest.headers);
+    const token = this.options.accessToken?.();
+
+    headers.set("Authorization", `Bearer ${token || this.options.anonKey}`);
+    headers.set("apikey", this.options.anonKey);
+    if (this.options.apiKey) headers.set("X-API-Key", this.options.apiKey);
+    if (rest.body !== undefined) headers.set("Content-Type", "application/json");
+
+    const response = await (this.options.fetch || fetch)(`${this.base}/${path}`, { ...rest, headers });
+
+    if (response.status === 401 && token && !this.options.apiKey) {
+      this.options.onSessionRejected?.();
+    }
+
+    if (!response.ok) {
+      throw await ApiError.fromResponse(response, fallback);
+    }
+
+    return response;
+  }
+
+  async requestJson<T>(path: string, init: RequestInit & { fallback: string }): Promise<T> {
+    const response = await this.request(path, init);
+    return response.json();
+  }
+
+  private post<T>(path: string, body: unknown, fallback: string): Promise<T> {
+    return this.requestJson<T>(path, { method: "POST", body: JSON.stringify(body), fallback });
+  }
+
+  register(request: RegisterRequest): Promise<RegisterResponse> {
+    return this.post("register-document", checked(RegisterRequestSchema, request), "Failed to register document");
+  }
+
+  registerBatch(documents: RegisterRequest[]): Promise<BatchRegisterResponse> {
+    return this.post(
+      "register-documents",
+      checked(BatchRegisterRequestSchema, { documents }),
+      "Failed to register documents"
+    );
+  }
+
+  // Looks up a digest, a transaction or a document ID; a digest that is not
+  // registered is a "not_found" result, not an error.
+  verify(request: LookupRequest): Promise<VerifyResponse> {
+    return this.post("verify-document", checked(LookupRequestSchema, request), "Failed to verify document");
+  }
+
+  verifyBatch(documents: VerifyRequest[]): Promise<BatchVerifyResponse> {
+    return this.post("verify-documents", checked(BatchVerifyRequestSchema, { documents }), "Failed to verify documents");
+  }
+
+  revoke(request: RevokeRequest): Promise<RevokeResponse> {
+    return this.post("revoke-document", checked(RevokeRequestSchema, request), "Failed to revoke document");
+  }
+
+  // Pages through the registry; pass the previous page's
+  // `pagination.next_cursor` (with the same query) to continue.
+  getDocuments(query: DocumentQuery = {}, page: { limit?: number; cursor?: string } = {}): Promise<DocumentsResponse> {
+    return this.requestJson(`get-documents?${searchParams(query, page)}`, {
+      method: "GET",
+      fallback: "Failed to fetch documents",
+    });
+  }
+
+  getDocument(documentId: string, page: { limit?: number; offset?: number } = {}): Promise<DocumentResponse> {
+    return this.requestJson(`get-document?${searchParams({}, { document_id: documentId, ...page })}`, {
+      method: "GET",
+      fallback: "Failed to fetch document",
+    });
+  }
+
+  // Resolves as soon as the export starts; read the body to stream it.
+  exportProofs(options: ExportOptions = {}): Promise<Response> {
+    const params = searchParams(options.query || {}, {
+      format: options.format || "csv",
+      columns: options.columns?.join(","),
+    });
+    return this.request(`export-proofs?${params}`, { method: "GET", fallback: "Failed to export proofs" });
+  }
+
+  // The signed receipt file, unparsed, for saving or verifying offline.
+  async getReceipt(documentId: string): Promise<Blob> {
+    const response = await this.request(`get-receipt?${new URLSearchParams({ document_id: documentId })}`, {
+      method: "GET",
+      fallback: "Failed to fetch receipt",
+    });
+    return response.blob();
+  }
+}
@@ -0,0 +1,2 @@
+export * from "../../../supabase/functions/_shared/contract.ts";
+export { ApiError, DocVerifyClient, type DocVerifyClientOptions, type ExportOptions } from "./client.ts";
@@ -1,18 +1,30 @@
 import { useState } from "react";
-import { Shield, FileText, Search } from "lucide-react";
+import { Shield, FileText, Search, Webhook, KeyRound } from "lucide-react";
 import { DocumentUpload } from "./components/DocumentUpload";
 import { DocumentVerify } from "./components/DocumentVerify";
 import { DocumentRegistry } from "./components/DocumentRegistry";
+import { WalletButton } from "./components/WalletButton";
+import { LinkedVerification } from "./components/LinkedVerification";
+import { DocumentDetail } from "./components/DocumentDetail";
+import { WebhookSettings } from "./components/WebhookSettings";
+import { ApiKeySettings } from "./components/ApiKeySettings";
+import { useRoute } from "./hooks/useRoute";
+import { navigate } from "./utils/router";
 
 function App() {
-  const [activeTab, setActiveTab] = useState<"register" | "verify" | "registry">("register");
+  const route = useRoute();
   const [refreshTrigger, setRefreshTrigger] = useState(0);
 
+  // Deep-link and detail pages belong to the tab they were opened from.
+  const activeTab =
+    route.name === "verify-hash" || route.name === "document"
+      ? "verify"
+      : route.name === "registry-document"
+        ? "registry"
+        : route.name;
+
   const handleRegisterSuccess = () => {
     setRefreshTrigger((prev) => prev + 1);
-    setTimeout(() => {
-      setActiveTab("registry");
-    }, 2500);
   };
 
   return (
@@ -28,6 +40,9 @@ function App() {
           <p className="text-gray-600 max-w-2xl mx-auto">
             Blockchain-backed verification system. Register documents with cryptographic hashes and verify their integrity anytime.
           </p>
+          <div className="flex justify-center mt-6">
+            <WalletButton />
+          </div>
         </header>
 
         <div className="mb-8">
@@ -36,10 +51,12 @@ function App() {
               { id: "register", label: "Register", icon: FileText },
               { id: "verify", label: "Verify", icon: Search },
               { id: "registry", label: "Registry", icon: FileText },
+              { id: "webhooks", label: "Webhooks", icon: Webhook },
+              { id: "api-keys", label: "API Keys", icon: KeyRound },
             ].map(({ id, label, icon: Icon }) => (
               <button
                 key={id}
-                onClick={() => setActiveTab(id as "register" | "verify" | "registry")}
+                onClick={() => navigate(`/${id}`)}
                 className={`flex items-center gap-2 px-6 py-3 rounded-lg font-semibold transition ${
                   activeTab === id
                     ? "bg-blue-600 text-white shadow-lg"
@@ -54,9 +71,14 @@ function App() {
         </div>
 
         <div className="pb-12">
-          {activeTab === "register" && <DocumentUpload onSuccess={handleRegisterSuccess} />}
-          {activeTab === "verify" && <DocumentVerify />}
-          {activeTab === "registry" && <DocumentRegistry refreshTrigger={refreshTrigger} />}
+          {route.name === "register" && <DocumentUpload onSuccess={handleRegisterSuccess} />}
+          {route.name === "verify" && <DocumentVerify />}
+          {route.name === "verify-hash" && <LinkedVerification key={route.hash} lookup={{ file_hash: route.hash }} />}
+          {route.name === "document" && <LinkedVerification key={route.id} lookup={{ document_id: route.id }} />}
+          {route.name === "registry" && <DocumentRegistry refreshTrigger={refreshTrigger} />}
+          {route.name === "registry-document" && <DocumentDetail documentId={route.id} />}
+          {route.name === "webhooks" && <WebhookSettings />}
+          {route.name === "api-keys" && <ApiKeySettings />}
         </div>
 
         <footer className="border-t border-gray-200 py-8 text-center text-sm text-gray-600">
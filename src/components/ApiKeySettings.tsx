@@ -0,0 +1,239 @@
+import { useCallback, useEffect, useState } from "react";
+import { KeyRound, Loader, AlertCircle, Plus, Ban, Copy, Check } from "lucide-react";
+import { API_KEY_SCOPES, createApiKey, getApiKeys, revokeApiKey, type ApiKey, type ApiKeyScope } from "../utils/api";
+import { formatDate } from "../utils/crypto";
+import { useSession } from "../hooks/useSession";
+
+const DEFAULT_RATE_LIMIT = 60;
+
+export function ApiKeySettings() {
+  const session = useSession();
+  const [keys, setKeys] = useState<ApiKey[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [creating, setCreating] = useState(false);
+  const [revoking, setRevoking] = useState<string | null>(null);
+  const [error, setError] = useState("");
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<ApiKeyScope[]>(["verify", "read"]);
+  const [rateLimit, setRateLimit] = useState(DEFAULT_RATE_LIMIT);
+  // The key is only returned once, so it stays on screen until dismissed.
+  const [created, setCreated] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const address = session?.address;
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError("");
+
+    try {
+      const data = await getApiKeys();
+      setKeys(data.keys);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load API keys");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    setKeys([]);
+    setCreated(null);
+    if (address) load();
+  }, [address, load]);
+
+  const toggleScope = (scope: ApiKeyScope) => {
+    setScopes((prev) => (prev.includes(scope) ? prev.filter((s) => s !== scope) : [...prev, scope]));
+  };
+
+  const handleCreate = async () => {
+    setCreating(true);
+    setError("");
+
+    try {
+      const { key } = await createApiKey(name.trim(), scopes, rateLimit);
+      setCreated(key.key || null);
+      setCopied(false);
+      setName("");
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to create API key");
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleRevoke = async (key: ApiKey) => {
+    if (!window.confirm(`Revoke "${key.name}"? Requests using it are rejected immediately.`)) return;
+
+    setRevoking(key.id);
+    setError("");
+
+    try {
+      await revokeApiKey(key.id);
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to revoke API key");
+    } finally {
+      setRevoking(null);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!created) return;
+    await navigator.clipboard.writeText(created);
+    setCopied(true);
+  };
+
+  if (!session) {
+    return (
+      <div className="w-full max-w-4xl mx-auto">
+        <div className="flex items-center gap-3 bg-blue-50 border border-blue-200 rounded-lg p-4">
+          <AlertCircle className="w-5 h-5 text-blue-600 flex-shrink-0" />
+          <p className="text-sm text-blue-800">
+            Sign in with your Ethereum wallet to manage API keys. Keys act for your address.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-full max-w-4xl mx-auto space-y-6">
+      <div className="bg-white rounded-lg shadow-lg border border-gray-200 p-8 space-y-4">
+        <h2 className="text-2xl font-bold text-gray-900 flex items-center gap-2">
+          <KeyRound className="w-6 h-6 text-blue-600" />
+          API Keys
+        </h2>
+        <p className="text-sm text-gray-600">
+          Integrations send a key in the <code className="font-mono text-xs bg-gray-100 px-1 rounded">X-API-Key</code>{" "}
+          header. A key can only do what its scopes allow, documents it registers belong to your address, and each key
+          has its own per-minute rate limit.
+        </p>
+
+        <div className="space-y-3">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            maxLength={100}
+            placeholder="Key name, e.g. ERP integration"
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition"
+            disabled={creating}
+          />
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            {API_KEY_SCOPES.map(({ id, label }) => (
+              <label key={id} className="flex items-center gap-2 text-sm text-gray-700">
+                <input type="checkbox" checked={scopes.includes(id)} onChange={() => toggleScope(id)} />
+                <span className="font-mono">{id}</span>
+                <span className="text-gray-500">{label}</span>
+              </label>
+            ))}
+          </div>
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            Requests per minute
+            <input
+              type="number"
+              min={1}
+              value={rateLimit}
+              onChange={(e) => setRateLimit(parseInt(e.target.value) || 1)}
+              className="w-24 px-2 py-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+              disabled={creating}
+            />
+          </label>
+          <button
+            onClick={handleCreate}
+            disabled={!name.trim() || scopes.length === 0 || creating}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white hover:bg-blue-700 rounded-lg font-semibold transition disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {creating ? <Loader className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+            Create Key
+          </button>
+        </div>
+
+        {created && (
+          <div className="bg-green-50 border border-green-200 rounded-lg p-4 space-y-2">
+            <p className="text-sm text-green-800">Your new API key. Store it now; it will not be shown again.</p>
+            <div className="flex items-center gap-2">
+              <code className="flex-1 font-mono text-xs bg-white border border-green-200 rounded px-2 py-1 break-all">
+                {created}
+              </code>
+              <button
+                onClick={handleCopy}
+                className="flex items-center gap-1 px-3 py-1 text-sm text-green-700 bg-white border border-green-200 hover:bg-green-100 rounded-lg font-medium transition"
+              >
+                {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+                {copied ? "Copied" : "Copy"}
+              </button>
+              <button onClick={() => setCreated(null)} className="text-sm text-gray-600 hover:text-gray-800">
+                Dismiss
+              </button>
+            </div>
+          </div>
+        )}
+
+        {error && (
+          <div className="flex items-center gap-3 bg-red-50 border border-red-200 rounded-lg p-4">
+            <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0" />
+            <p className="text-sm text-red-700">{error}</p>
+          </div>
+        )}
+      </div>
+
+      {loading && keys.length === 0 ? (
+        <div className="flex justify-center py-12">
+          <Loader className="w-8 h-8 text-blue-600 animate-spin" />
+        </div>
+      ) : (
+        keys.length > 0 && (
+          <div className="bg-white rounded-lg shadow border border-gray-200 overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 border-b border-gray-200">
+                <tr className="text-left text-gray-700">
+                  <th className="px-4 py-3 font-semibold">Name</th>
+                  <th className="px-4 py-3 font-semibold">Scopes</th>
+                  <th className="px-4 py-3 font-semibold">Limit</th>
+                  <th className="px-4 py-3 font-semibold">Usage</th>
+                  <th className="px-4 py-3 font-semibold">Last used</th>
+                  <th className="px-4 py-3" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {keys.map((key) => (
+                  <tr key={key.id} className={key.revoked_at ? "text-gray-400" : "text-gray-900"}>
+                    <td className="px-4 py-3">
+                      <div className="font-medium">{key.name}</div>
+                      <code className="font-mono text-xs">{key.key_prefix}…</code>
+                    </td>
+                    <td className="px-4 py-3 font-mono text-xs">{key.scopes.join(", ")}</td>
+                    <td className="px-4 py-3">{key.rate_limit_per_minute}/min</td>
+                    <td className="px-4 py-3 text-xs">
+                      <div>{key.requests_last_hour ?? 0} last hour</div>
+                      <div>{key.requests_last_day ?? 0} last day</div>
+                      <div>{key.request_count} total</div>
+                    </td>
+                    <td className="px-4 py-3 text-xs">{key.last_used_at ? formatDate(key.last_used_at) : "Never"}</td>
+                    <td className="px-4 py-3 text-right">
+                      {key.revoked_at ? (
+                        <span className="text-xs">Revoked {formatDate(key.revoked_at)}</span>
+                      ) : (
+                        <button
+                          onClick={() => handleRevoke(key)}
+                          disabled={revoking === key.id}
+                          className="inline-flex items-center gap-1 px-3 py-1 text-sm text-red-700 bg-red-50 hover:bg-red-100 rounded-lg font-medium transition disabled:opacity-50"
+                        >
+                          {revoking === key.id ? <Loader className="w-4 h-4 animate-spin" /> : <Ban className="w-4 h-4" />}
+                          Revoke
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )
+      )}
+    </div>
+  );
+}
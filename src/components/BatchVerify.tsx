@@ -0,0 +1,389 @@
+import { useState, useRef, useEffect } from "react";
+import {
+  Upload,
+  FolderOpen,
+  Loader,
+  AlertCircle,
+  X,
+  Download,
+  ArrowUp,
+  ArrowDown,
+  ArrowUpDown,
+  FileCheck,
+} from "lucide-react";
+import {
+  computeDigest,
+  formatFileSize,
+  formatHash,
+  formatDate,
+  isAbortError,
+  HASH_ALGORITHMS,
+  type HashAlgorithm,
+} from "../utils/crypto";
+import { verifyDocuments, type VerifyResult } from "../utils/api";
+import { verifyInclusion } from "../utils/merkle";
+import { collectDroppedFiles, pickedFromInput, type PickedFile } from "../utils/files";
+import { toCsv } from "../utils/csv";
+import { downloadBlob } from "../utils/download";
+
+interface BatchRow {
+  id: number;
+  path: string;
+  file: File;
+  hash?: string;
+  status: VerifyResult["status"] | "pending" | "error";
+  result?: VerifyResult;
+  error?: string;
+}
+
+type SortKey = "path" | "size" | "status" | "registered_as" | "block" | "anchored_at";
+
+const VERIFY_CHUNK_SIZE = 200;
+
+const STATUS_STYLES: Record<BatchRow["status"], string> = {
+  verified: "bg-green-100 text-green-800",
+  tampered: "bg-red-100 text-red-800",
+  not_found: "bg-yellow-100 text-yellow-800",
+  revoked: "bg-rose-100 text-rose-800",
+  error: "bg-red-100 text-red-800",
+  pending: "bg-gray-100 text-gray-700",
+};
+
+function sortValue(row: BatchRow, key: SortKey): string | number {
+  switch (key) {
+    case "path":
+      return row.path.toLowerCase();
+    case "size":
+      return row.file.size;
+    case "status":
+      return row.status;
+    case "registered_as":
+      return row.result?.document?.filename?.toLowerCase() || "";
+    case "block":
+      return row.result?.blockchain?.block_number ?? -1;
+    case "anchored_at":
+      return row.result?.blockchain?.block_timestamp ?? -1;
+  }
+}
+
+export function BatchVerify() {
+  const [rows, setRows] = useState<BatchRow[]>([]);
+  const [algorithm, setAlgorithm] = useState<HashAlgorithm>("sha256");
+  const [phase, setPhase] = useState<"idle" | "hashing" | "verifying" | "done">("idle");
+  const [hashed, setHashed] = useState(0);
+  const [error, setError] = useState("");
+  const [sort, setSort] = useState<{ key: SortKey; direction: "asc" | "desc" }>({
+    key: "status",
+    direction: "asc",
+  });
+  const abortRef = useRef<AbortController | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    folderInputRef.current?.setAttribute("webkitdirectory", "");
+    return () => abortRef.current?.abort();
+  }, []);
+
+  const run = async (picked: PickedFile[]) => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    const batch: BatchRow[] = picked.map(({ file, path }, id) => ({ id, file, path, status: "pending" }));
+    setRows(batch);
+    setHashed(0);
+    setError("");
+    setPhase("hashing");
+
+    for (const [index, row] of batch.entries()) {
+      try {
+        row.hash = await computeDigest(row.file, algorithm, { signal: controller.signal });
+      } catch (err) {
+        if (isAbortError(err)) return;
+        row.status = "error";
+        row.error = "Failed to compute file hash";
+      }
+      setHashed(index + 1);
+    }
+
+    setPhase("verifying");
+    const hashedRows = batch.filter((row) => row.hash);
+
+    try {
+      for (let start = 0; start < hashedRows.length; start += VERIFY_CHUNK_SIZE) {
+        const chunk = hashedRows.slice(start, start + VERIFY_CHUNK_SIZE);
+        const { results } = await verifyDocuments(
+          chunk.map((row) => ({ file_hash: row.hash!, hash_algorithm: algorithm }))
+        );
+
+        for (const item of results) {
+          const row = chunk[item.index];
+          if (item.error) {
+            row.status = "error";
+            row.error = item.error;
+            continue;
+          }
+
+          // An item without an error carries a whole result.
+          row.result = item as VerifyResult;
+          row.status = row.result.status;
+
+          // Same client-side check as single verification, when the proof is over this digest.
+          if (item.status === "verified" && item.proof && item.document?.hash_algorithm === algorithm) {
+            if (!(await verifyInclusion(row.hash!, item.proof))) {
+              row.status = "tampered";
+              row.error = "Inclusion proof does not lead to the anchored Merkle root";
+            }
+          }
+        }
+
+        if (controller.signal.aborted) return;
+        setRows([...batch]);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Batch verification failed");
+    }
+
+    setRows([...batch]);
+    setPhase("done");
+  };
+
+  const handleDrop = async (e: React.DragEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    if (phase === "hashing" || phase === "verifying") return;
+    const picked = await collectDroppedFiles(e.dataTransfer);
+    if (picked.length > 0) run(picked);
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+  };
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const picked = pickedFromInput(e.target.files);
+    e.target.value = "";
+    if (picked.length > 0) run(picked);
+  };
+
+  const handleCancel = () => {
+    abortRef.current?.abort();
+    setRows([]);
+    setPhase("idle");
+  };
+
+  const toggleSort = (key: SortKey) => {
+    setSort((current) =>
+      current.key === key
+        ? { key, direction: current.direction === "asc" ? "desc" : "asc" }
+        : { key, direction: "asc" }
+    );
+  };
+
+  const sortedRows = [...rows].sort((a, b) => {
+    const left = sortValue(a, sort.key);
+    const right = sortValue(b, sort.key);
+    const order = left < right ? -1 : left > right ? 1 : 0;
+    return sort.direction === "asc" ? order : -order;
+  });
+
+  const reportRows = () =>
+    sortedRows.map((row) => ({
+      path: row.path,
+      file_size: row.file.size,
+      hash_algorithm: algorithm,
+      hash: row.hash || "",
+      status: row.status,
+      message: row.error || row.result?.message || "",
+      document_id: row.result?.document?.id || "",
+      registered_filename: row.result?.document?.filename || "",
+      version: row.result?.document?.version ?? "",
+      owner_address: row.result?.blockchain?.owner_address || "",
+      transaction_hash: row.result?.blockchain?.transaction_hash || "",
+      block_number: row.result?.blockchain?.block_number ?? "",
+      block_timestamp: row.result?.blockchain?.block_timestamp ?? "",
+      revoked_at: row.result?.revocation?.revoked_at || "",
+      revocation_reason: row.result?.revocation?.reason || "",
+    }));
+
+  const handleExport = (format: "csv" | "json") => {
+    const date = new Date().toISOString().split("T")[0];
+    const report = reportRows();
+
+    if (format === "json") {
+      const body = JSON.stringify({ generated_at: new Date().toISOString(), results: report }, null, 2);
+      downloadBlob(new Blob([body], { type: "application/json" }), `verification-report-${date}.json`);
+      return;
+    }
+
+    const headers = Object.keys(report[0] || {});
+    const csv = toCsv(headers, report.map((row) => Object.values(row)));
+    downloadBlob(new Blob([csv], { type: "text/csv" }), `verification-report-${date}.csv`);
+  };
+
+  const count = (status: BatchRow["status"]) => rows.filter((row) => row.status === status).length;
+  const busy = phase === "hashing" || phase === "verifying";
+
+  const header = (key: SortKey, label: string) => (
+    <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700">
+      <button onClick={() => toggleSort(key)} className="flex items-center gap-1 hover:text-gray-900">
+        {label}
+        {sort.key !== key ? (
+          <ArrowUpDown className="w-3 h-3 opacity-40" />
+        ) : sort.direction === "asc" ? (
+          <ArrowUp className="w-3 h-3" />
+        ) : (
+          <ArrowDown className="w-3 h-3" />
+        )}
+      </button>
+    </th>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div
+        className="border-2 border-dashed rounded-lg p-8 text-center transition border-gray-300 bg-gray-50 hover:border-gray-400"
+        onDragOver={handleDragOver}
+        onDrop={handleDrop}
+      >
+        <input ref={fileInputRef} type="file" multiple onChange={handleInputChange} className="hidden" />
+        <input ref={folderInputRef} type="file" onChange={handleInputChange} className="hidden" />
+        <FileCheck className="w-12 h-12 mx-auto mb-3 text-gray-400" />
+        <p className="text-lg font-semibold text-gray-700">Drag files or a folder to verify</p>
+        <div className="flex justify-center gap-3 mt-4">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={busy}
+            className="flex items-center gap-2 px-4 py-2 bg-white border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-100 transition disabled:opacity-50"
+          >
+            <Upload className="w-4 h-4" />
+            Choose files
+          </button>
+          <button
+            onClick={() => folderInputRef.current?.click()}
+            disabled={busy}
+            className="flex items-center gap-2 px-4 py-2 bg-white border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-100 transition disabled:opacity-50"
+          >
+            <FolderOpen className="w-4 h-4" />
+            Choose folder
+          </button>
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">Hash algorithm</label>
+        <select
+          value={algorithm}
+          onChange={(e) => setAlgorithm(e.target.value as HashAlgorithm)}
+          className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition"
+          disabled={busy}
+        >
+          {HASH_ALGORITHMS.map((a) => (
+            <option key={a.id} value={a.id}>
+              {a.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {busy && (
+        <div className="flex items-center justify-between bg-gray-50 rounded-lg p-4 border border-gray-200 text-sm text-gray-700">
+          <span className="flex items-center gap-2">
+            <Loader className="w-4 h-4 animate-spin" />
+            {phase === "hashing" ? `Hashing ${hashed} of ${rows.length} files...` : "Checking the registry..."}
+          </span>
+          <button onClick={handleCancel} className="flex items-center gap-1 text-gray-600 hover:text-gray-900">
+            <X className="w-4 h-4" />
+            Cancel
+          </button>
+        </div>
+      )}
+
+      {error && (
+        <div className="flex items-center gap-3 bg-red-50 border border-red-200 rounded-lg p-4">
+          <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0" />
+          <p className="text-sm text-red-700">{error}</p>
+        </div>
+      )}
+
+      {phase === "done" && rows.length > 0 && (
+        <>
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <p className="text-sm text-gray-700">
+              {rows.length} files · {count("verified")} verified · {count("revoked")} revoked ·{" "}
+              {count("not_found")} not found · {count("tampered")} tampered
+              {count("error") > 0 && ` · ${count("error")} errors`}
+            </p>
+            <div className="flex gap-2">
+              <button
+                onClick={() => handleExport("csv")}
+                className="flex items-center gap-2 px-3 py-2 bg-green-600 text-white hover:bg-green-700 rounded-lg text-sm font-medium transition"
+              >
+                <Download className="w-4 h-4" />
+                CSV
+              </button>
+              <button
+                onClick={() => handleExport("json")}
+                className="flex items-center gap-2 px-3 py-2 bg-purple-600 text-white hover:bg-purple-700 rounded-lg text-sm font-medium transition"
+              >
+                <Download className="w-4 h-4" />
+                JSON
+              </button>
+            </div>
+          </div>
+
+          <div className="overflow-x-auto border border-gray-200 rounded-lg">
+            <table className="w-full">
+              <thead className="bg-gray-50 border-b border-gray-200">
+                <tr>
+                  {header("path", "File")}
+                  {header("size", "Size")}
+                  {header("status", "Status")}
+                  {header("registered_as", "Registered As")}
+                  {header("block", "Block")}
+                  {header("anchored_at", "Anchored")}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {sortedRows.map((row) => (
+                  <tr key={row.id} className="hover:bg-gray-50 transition text-sm">
+                    <td className="px-4 py-3 max-w-xs">
+                      <p className="truncate text-gray-900" title={row.path}>
+                        {row.path}
+                      </p>
+                      {row.hash && <code className="text-xs font-mono text-gray-500">{formatHash(row.hash, 6)}</code>}
+                    </td>
+                    <td className="px-4 py-3 text-gray-600">{formatFileSize(row.file.size)}</td>
+                    <td className="px-4 py-3">
+                      <span
+                        className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[row.status]}`}
+                        title={row.error || row.result?.message}
+                      >
+                        {row.status.replace("_", " ")}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3 text-gray-600">
+                      {row.result?.document
+                        ? `${row.result.document.filename}${
+                            row.result.document.version ? ` (v${row.result.document.version})` : ""
+                          }`
+                        : "—"}
+                    </td>
+                    <td className="px-4 py-3 text-gray-600">
+                      {row.result?.blockchain?.block_number ? `#${row.result.blockchain.block_number}` : "—"}
+                    </td>
+                    <td className="px-4 py-3 text-gray-600">
+                      {row.result?.blockchain?.block_timestamp ? formatDate(row.result.blockchain.block_timestamp) : "—"}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,351 @@
+import { useState, useRef, useEffect } from "react";
+import { Upload, FolderOpen, Loader, CheckCircle, AlertCircle, Copy, X, Download } from "lucide-react";
+import {
+  computeDigest,
+  formatFileSize,
+  formatHash,
+  isAbortError,
+  HASH_ALGORITHMS,
+  type HashAlgorithm,
+} from "../utils/crypto";
+import { registerDocuments } from "../utils/api";
+import { collectDroppedFiles, pickedFromInput, type PickedFile } from "../utils/files";
+import { toCsv } from "../utils/csv";
+import { downloadBlob } from "../utils/download";
+import { useSession } from "../hooks/useSession";
+
+interface BulkItem {
+  file: File;
+  path: string;
+  status: "queued" | "hashing" | "hashed" | "registering" | "registered" | "duplicate" | "failed";
+  hash?: string;
+  percent?: number;
+  document_id?: string;
+  error?: string;
+}
+
+const REGISTER_CHUNK_SIZE = 100;
+
+export function BulkUpload() {
+  const session = useSession();
+  const [items, setItems] = useState<BulkItem[]>([]);
+  const [algorithm, setAlgorithm] = useState<HashAlgorithm>("sha256");
+  const [tags, setTags] = useState("");
+  const [phase, setPhase] = useState<"idle" | "hashing" | "registering" | "done">("idle");
+  const abortRef = useRef<AbortController | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    // Not a typed React prop; lets the second input pick whole folders.
+    folderInputRef.current?.setAttribute("webkitdirectory", "");
+    return () => abortRef.current?.abort();
+  }, []);
+
+  const updateItem = (index: number, patch: Partial<BulkItem>) => {
+    setItems((current) => current.map((item, i) => (i === index ? { ...item, ...patch } : item)));
+  };
+
+  const hashAll = async (picked: PickedFile[]) => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    setItems(picked.map(({ file, path }) => ({ file, path, status: "queued" })));
+    setPhase("hashing");
+
+    // One file at a time keeps a single worker busy instead of hundreds.
+    for (const [index, { file }] of picked.entries()) {
+      updateItem(index, { status: "hashing", percent: 0 });
+      try {
+        const hash = await computeDigest(file, algorithm, {
+          signal: controller.signal,
+          onProgress: ({ bytesHashed, totalBytes }) =>
+            updateItem(index, { percent: totalBytes ? Math.floor((bytesHashed / totalBytes) * 100) : 100 }),
+        });
+        updateItem(index, { status: "hashed", hash });
+      } catch (err) {
+        if (isAbortError(err)) return;
+        updateItem(index, { status: "failed", error: "Failed to compute file hash" });
+      }
+    }
+
+    setPhase("idle");
+  };
+
+  const handleDrop = async (e: React.DragEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    if (phase === "hashing" || phase === "registering") return;
+    const picked = await collectDroppedFiles(e.dataTransfer);
+    if (picked.length > 0) hashAll(picked);
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+  };
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const picked = pickedFromInput(e.target.files);
+    e.target.value = "";
+    if (picked.length > 0) hashAll(picked);
+  };
+
+  const handleRegister = async () => {
+    const pending = items
+      .map((item, index) => ({ item, index }))
+      .filter(({ item }) => item.status === "hashed" && item.hash);
+    if (pending.length === 0 || !session) return;
+
+    setPhase("registering");
+
+    const tagList = tags
+      .split(",")
+      .map((t) => t.trim())
+      .filter((t) => t.length > 0);
+
+    for (let start = 0; start < pending.length; start += REGISTER_CHUNK_SIZE) {
+      const chunk = pending.slice(start, start + REGISTER_CHUNK_SIZE);
+      chunk.forEach(({ index }) => updateItem(index, { status: "registering" }));
+
+      try {
+        const { results } = await registerDocuments(
+          chunk.map(({ item }) => ({
+            filename: item.file.name,
+            file_hash: item.hash!,
+            hash_algorithm: algorithm,
+            file_size: item.file.size,
+            mime_type: item.file.type || "application/octet-stream",
+            tags: tagList,
+          }))
+        );
+
+        for (const result of results) {
+          updateItem(chunk[result.index].index, {
+            status: result.status,
+            document_id: result.document_id,
+            error: result.error,
+          });
+        }
+      } catch (err) {
+        const message = err instanceof Error ? err.message : "Failed to register documents";
+        chunk.forEach(({ index }) => updateItem(index, { status: "failed", error: message }));
+      }
+    }
+
+    setPhase("done");
+  };
+
+  const handleCancel = () => {
+    abortRef.current?.abort();
+    setItems([]);
+    setPhase("idle");
+  };
+
+  const handleDownloadReport = () => {
+    const csv = toCsv(
+      ["Path", "Filename", "File Size (bytes)", "Hash Algorithm", "Hash", "Status", "Document ID", "Error"],
+      items.map((item) => [
+        item.path,
+        item.file.name,
+        item.file.size,
+        algorithm,
+        item.hash,
+        item.status,
+        item.document_id,
+        item.error,
+      ])
+    );
+    downloadBlob(
+      new Blob([csv], { type: "text/csv" }),
+      `bulk-registration-${new Date().toISOString().split("T")[0]}.csv`
+    );
+  };
+
+  const count = (status: BulkItem["status"]) => items.filter((item) => item.status === status).length;
+  const hashedCount = count("hashed");
+  const busy = phase === "hashing" || phase === "registering";
+
+  const statusBadge = (item: BulkItem) => {
+    switch (item.status) {
+      case "registered":
+        return (
+          <span className="flex items-center gap-1 text-green-700">
+            <CheckCircle className="w-4 h-4" /> Registered
+          </span>
+        );
+      case "duplicate":
+        return (
+          <span className="flex items-center gap-1 text-yellow-700">
+            <Copy className="w-4 h-4" /> Duplicate
+          </span>
+        );
+      case "failed":
+        return (
+          <span className="flex items-center gap-1 text-red-700" title={item.error}>
+            <AlertCircle className="w-4 h-4" /> Failed
+          </span>
+        );
+      case "hashing":
+        return (
+          <span className="flex items-center gap-1 text-blue-700">
+            <Loader className="w-4 h-4 animate-spin" /> {item.percent ?? 0}%
+          </span>
+        );
+      case "registering":
+        return (
+          <span className="flex items-center gap-1 text-blue-700">
+            <Loader className="w-4 h-4 animate-spin" /> Registering
+          </span>
+        );
+      case "hashed":
+        return <span className="text-gray-700">Ready</span>;
+      default:
+        return <span className="text-gray-500">Queued</span>;
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div
+        className="border-2 border-dashed rounded-lg p-8 text-center transition border-gray-300 bg-gray-50 hover:border-gray-400"
+        onDragOver={handleDragOver}
+        onDrop={handleDrop}
+      >
+        <input ref={fileInputRef} type="file" multiple onChange={handleInputChange} className="hidden" />
+        <input ref={folderInputRef} type="file" onChange={handleInputChange} className="hidden" />
+        <Upload className="w-12 h-12 mx-auto mb-3 text-gray-400" />
+        <p className="text-lg font-semibold text-gray-700">Drag and drop files or folders</p>
+        <div className="flex justify-center gap-3 mt-4">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={busy}
+            className="flex items-center gap-2 px-4 py-2 bg-white border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-100 transition disabled:opacity-50"
+          >
+            <Upload className="w-4 h-4" />
+            Choose files
+          </button>
+          <button
+            onClick={() => folderInputRef.current?.click()}
+            disabled={busy}
+            className="flex items-center gap-2 px-4 py-2 bg-white border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-100 transition disabled:opacity-50"
+          >
+            <FolderOpen className="w-4 h-4" />
+            Choose folder
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Hash algorithm</label>
+          <select
+            value={algorithm}
+            onChange={(e) => setAlgorithm(e.target.value as HashAlgorithm)}
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition"
+            disabled={busy || items.length > 0}
+          >
+            {HASH_ALGORITHMS.map((a) => (
+              <option key={a.id} value={a.id}>
+                {a.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Tags for every file (optional)</label>
+          <input
+            type="text"
+            value={tags}
+            onChange={(e) => setTags(e.target.value)}
+            placeholder="e.g. archive, scanned"
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition"
+            disabled={busy}
+          />
+        </div>
+      </div>
+
+      {items.length > 0 && (
+        <div className="border border-gray-200 rounded-lg overflow-hidden">
+          <div className="flex items-center justify-between px-4 py-2 bg-gray-50 border-b border-gray-200 text-sm text-gray-700">
+            <span>
+              {items.length} files · {count("registered")} registered · {count("duplicate")} duplicates ·{" "}
+              {count("failed")} failed
+            </span>
+            {phase === "hashing" && (
+              <button onClick={handleCancel} className="flex items-center gap-1 text-gray-600 hover:text-gray-900">
+                <X className="w-4 h-4" />
+                Cancel
+              </button>
+            )}
+          </div>
+          <div className="max-h-80 overflow-y-auto divide-y divide-gray-100">
+            {items.map((item, index) => (
+              <div key={`${item.path}-${index}`} className="flex items-center gap-3 px-4 py-2 text-sm">
+                <div className="flex-1 min-w-0">
+                  <p className="truncate text-gray-900" title={item.path}>
+                    {item.path}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {formatFileSize(item.file.size)}
+                    {item.hash && <code className="ml-2 font-mono">{formatHash(item.hash, 6)}</code>}
+                    {item.error && (
+                      <span className={`ml-2 ${item.status === "failed" ? "text-red-600" : ""}`}>{item.error}</span>
+                    )}
+                  </p>
+                </div>
+                <div className="flex-shrink-0 text-xs font-medium">{statusBadge(item)}</div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {!session && (
+        <div className="flex items-center gap-3 bg-blue-50 border border-blue-200 rounded-lg p-4">
+          <AlertCircle className="w-5 h-5 text-blue-600 flex-shrink-0" />
+          <p className="text-sm text-blue-800">Sign in with your Ethereum wallet to register documents.</p>
+        </div>
+      )}
+
+      <div className="flex gap-3">
+        {phase === "done" && (
+          <button
+            onClick={handleDownloadReport}
+            className="flex items-center gap-2 px-4 py-2 text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg font-medium transition"
+          >
+            <Download className="w-4 h-4" />
+            Summary Report
+          </button>
+        )}
+        <button
+          onClick={handleRegister}
+          disabled={hashedCount === 0 || !session || busy}
+          className={`flex-1 flex items-center justify-center gap-2 px-6 py-3 rounded-lg font-semibold transition ${
+            hashedCount === 0 || !session || busy
+              ? "bg-gray-300 text-gray-700 cursor-not-allowed"
+              : "bg-blue-600 text-white hover:bg-blue-700 active:bg-blue-800"
+          }`}
+        >
+          {phase === "hashing" ? (
+            <>
+              <Loader className="w-4 h-4 animate-spin" />
+              Computing Hashes...
+            </>
+          ) : phase === "registering" ? (
+            <>
+              <Loader className="w-4 h-4 animate-spin" />
+              Registering...
+            </>
+          ) : (
+            <>
+              <Upload className="w-4 h-4" />
+              Register {hashedCount} Document{hashedCount === 1 ? "" : "s"}
+            </>
+          )}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,230 @@
+import { useEffect, useState } from "react";
+import { ArrowLeft, AlertCircle, Loader, History, QrCode } from "lucide-react";
+import { getDocument, type DocumentDetails, type VerificationEvent } from "../utils/api";
+import { formatFileSize, formatHash, formatDate, hashAlgorithmLabel } from "../utils/crypto";
+import { describeFinality, getStatusBadge } from "../utils/status";
+import { absoluteUrl, documentPath, navigate } from "../utils/router";
+import { VerificationTimeline } from "./VerificationTimeline";
+import { QrCodeDialog } from "./QrCodeDialog";
+
+interface Props {
+  documentId: string;
+}
+
+const HISTORY_PAGE_SIZE = 20;
+
+export function DocumentDetail({ documentId }: Props) {
+  const [details, setDetails] = useState<DocumentDetails | null>(null);
+  const [history, setHistory] = useState<VerificationEvent[]>([]);
+  const [total, setTotal] = useState(0);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState("");
+  const [sharing, setSharing] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    setLoading(true);
+    setError("");
+
+    getDocument(documentId, HISTORY_PAGE_SIZE, 0)
+      .then((result) => {
+        if (cancelled) return;
+        setDetails(result.document);
+        setHistory(result.verification_history);
+        setTotal(result.pagination.total);
+        setHasMore(result.pagination.hasMore);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : "Failed to fetch document");
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [documentId]);
+
+  const handleLoadMore = async () => {
+    setLoadingMore(true);
+
+    try {
+      const result = await getDocument(documentId, HISTORY_PAGE_SIZE, history.length);
+      setHistory((prev) => [...prev, ...result.verification_history]);
+      setTotal(result.pagination.total);
+      setHasMore(result.pagination.hasMore);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to fetch verification history");
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const bc = details?.blockchain_record;
+
+  return (
+    <div className="w-full max-w-4xl">
+      <button
+        onClick={() => navigate("/registry")}
+        className="flex items-center gap-2 mb-4 text-sm font-medium text-gray-600 hover:text-gray-900"
+      >
+        <ArrowLeft className="w-4 h-4" />
+        Back to registry
+      </button>
+
+      <div className="bg-white rounded-lg shadow-lg border border-gray-200 p-8 space-y-8">
+        {loading && (
+          <div className="flex items-center justify-center py-12">
+            <Loader className="w-8 h-8 text-blue-600 animate-spin" />
+          </div>
+        )}
+
+        {error && (
+          <div className="flex items-center gap-3 bg-red-50 border border-red-200 rounded-lg p-4">
+            <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0" />
+            <p className="text-sm text-red-700">{error}</p>
+          </div>
+        )}
+
+        {details && (
+          <>
+            <div className="flex items-start justify-between gap-4 flex-wrap">
+              <div className="min-w-0">
+                <h2 className="text-2xl font-bold text-gray-900 break-all">{details.filename}</h2>
+                <div className="flex items-center gap-2 mt-2">
+                  <span className={getStatusBadge(details.status)}>
+                    {details.status.charAt(0).toUpperCase() + details.status.slice(1)}
+                  </span>
+                  {details.version > 1 && (
+                    <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-indigo-100 text-indigo-800">
+                      v{details.version}
+                    </span>
+                  )}
+                </div>
+              </div>
+              <button
+                onClick={() => setSharing(true)}
+                className="flex items-center gap-2 px-4 py-2 bg-gray-100 text-gray-700 hover:bg-gray-200 rounded-lg text-sm font-medium transition"
+              >
+                <QrCode className="w-4 h-4" />
+                Share
+              </button>
+            </div>
+
+            <dl className="grid grid-cols-1 sm:grid-cols-2 gap-x-8 gap-y-4 text-sm">
+              <div>
+                <dt className="font-semibold text-gray-700">Size</dt>
+                <dd className="text-gray-600">{formatFileSize(details.file_size)}</dd>
+              </div>
+              <div>
+                <dt className="font-semibold text-gray-700">Type</dt>
+                <dd className="text-gray-600">{details.mime_type}</dd>
+              </div>
+              <div>
+                <dt className="font-semibold text-gray-700">Registered</dt>
+                <dd className="text-gray-600">{formatDate(details.created_at)}</dd>
+              </div>
+              <div>
+                <dt className="font-semibold text-gray-700">Uploader</dt>
+                <dd>
+                  <code className="text-xs bg-gray-100 px-2 py-1 rounded font-mono text-gray-700">
+                    {formatHash(details.uploader_address)}
+                  </code>
+                </dd>
+              </div>
+              <div className="sm:col-span-2">
+                <dt className="font-semibold text-gray-700">Digests</dt>
+                <dd className="mt-1 space-y-1">
+                  {details.digests.map((d) => (
+                    <div key={d.algorithm} className="flex items-center gap-2 text-xs">
+                      <span className="w-20 text-gray-600">{hashAlgorithmLabel(d.algorithm)}</span>
+                      <code className="bg-gray-100 px-2 py-0.5 rounded font-mono text-gray-700 break-all">
+                        {d.digest}
+                      </code>
+                      {d.algorithm === details.hash_algorithm && <span className="text-gray-500">anchored</span>}
+                    </div>
+                  ))}
+                </dd>
+              </div>
+              {details.tags && details.tags.length > 0 && (
+                <div className="sm:col-span-2">
+                  <dt className="font-semibold text-gray-700">Tags</dt>
+                  <dd className="flex flex-wrap gap-2 mt-1">
+                    {details.tags.map((tag) => (
+                      <span
+                        key={tag}
+                        className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-50 text-blue-700"
+                      >
+                        {tag}
+                      </span>
+                    ))}
+                  </dd>
+                </div>
+              )}
+              <div>
+                <dt className="font-semibold text-gray-700">Transaction</dt>
+                <dd>
+                  {bc?.transaction_hash ? (
+                    <code className="text-xs bg-gray-100 px-2 py-1 rounded font-mono text-gray-700">
+                      {formatHash(bc.transaction_hash)}
+                    </code>
+                  ) : (
+                    <span className="text-gray-500">Pending</span>
+                  )}
+                </dd>
+              </div>
+              <div>
+                <dt className="font-semibold text-gray-700">Block</dt>
+                <dd className="text-gray-600">
+                  {bc?.block_number ? `#${bc.block_number}` : "Pending"}
+                  {bc?.block_timestamp ? ` · ${formatDate(bc.block_timestamp)}` : ""}
+                  {bc?.block_number ? ` · ${describeFinality(bc)}` : ""}
+                </dd>
+              </div>
+              {details.revoked_at && (
+                <div className="sm:col-span-2 bg-rose-50 border border-rose-200 rounded-lg p-3 text-rose-900">
+                  <dt className="font-semibold">Revoked {formatDate(details.revoked_at)}</dt>
+                  <dd className="mt-1">
+                    {details.revocation_reason}
+                    {bc?.revocation_block_number && (
+                      <span className="block text-xs mt-1 opacity-75">
+                        Anchored in block #{bc.revocation_block_number}
+                      </span>
+                    )}
+                  </dd>
+                </div>
+              )}
+            </dl>
+
+            <div>
+              <h3 className="text-lg font-bold text-gray-900 flex items-center gap-2 mb-4">
+                <History className="w-5 h-5 text-blue-600" />
+                Verification History
+              </h3>
+              <VerificationTimeline
+                events={history}
+                total={total}
+                hasMore={hasMore}
+                loadingMore={loadingMore}
+                onLoadMore={handleLoadMore}
+              />
+            </div>
+          </>
+        )}
+      </div>
+
+      {sharing && details && (
+        <QrCodeDialog
+          url={absoluteUrl(documentPath(details.id))}
+          title={details.filename}
+          filename={`verify-${details.file_hash.substring(0, 16)}`}
+          onClose={() => setSharing(false)}
+        />
+      )}
+    </div>
+  );
+}
@@ -1,87 +1,237 @@
-import { useState, useEffect } from "react";
-import { Download, Loader, AlertCircle, RefreshCw, FileText } from "lucide-react";
-import { getDocuments, exportProofs } from "../utils/api";
-import { formatFileSize, formatHash, formatDate } from "../utils/crypto";
-
-interface Document {
-  id: string;
-  filename: string;
-  file_hash: string;
-  file_size: number;
-  mime_type: string;
-  status: string;
-  created_at: string;
-  blockchain_records: Array<{
-    transaction_hash: string;
-    block_number: number;
-    owner_address: string;
-    block_timestamp: number;
-    status: string;
-  }>;
-}
+import { useState, useEffect, useCallback, useMemo, useRef } from "react";
+import {
+  Download,
+  Loader,
+  AlertCircle,
+  RefreshCw,
+  FileText,
+  FileCheck,
+  Ban,
+  QrCode,
+  ArrowUp,
+  ArrowDown,
+  Award,
+} from "lucide-react";
+import { getDocuments, getReceipt, type DocumentQuery, type RegistryDocument } from "../utils/api";
+import { formatFileSize, formatHash, formatDate, hashAlgorithmLabel } from "../utils/crypto";
+import { downloadBlob } from "../utils/download";
+import { createCertificate } from "../utils/certificate";
+import { useSession } from "../hooks/useSession";
+import { useSearchParams } from "../hooks/useSearchParams";
+import { useRegistryChanges } from "../hooks/useRegistryChanges";
+import { describeFinality, getStatusBadge } from "../utils/status";
+import { absoluteUrl, documentPath, navigate, registryDocumentPath, replaceSearch } from "../utils/router";
+import { RevokeDialog } from "./RevokeDialog";
+import { QrCodeDialog } from "./QrCodeDialog";
+import { RegistryFilters } from "./RegistryFilters";
+import { ExportDialog } from "./ExportDialog";
 
 interface Props {
   refreshTrigger?: number;
 }
 
+type SortColumn = NonNullable<DocumentQuery["sort"]>;
+
+const PAGE_SIZE = 50;
+
+const QUERY_KEYS: Array<keyof DocumentQuery> = [
+  "status",
+  "q",
+  "hash",
+  "tags",
+  "owner",
+  "mime_type",
+  "from",
+  "to",
+  "sort",
+  "order",
+];
+
 export function DocumentRegistry({ refreshTrigger = 0 }: Props) {
-  const [documents, setDocuments] = useState<Document[]>([]);
+  const session = useSession();
+  const searchParams = useSearchParams();
+  const search = searchParams.toString();
+  const query = useMemo(
+    () =>
+      Object.fromEntries(
+        QUERY_KEYS.flatMap((key) => (searchParams.get(key) ? [[key, searchParams.get(key)]] : []))
+      ) as DocumentQuery,
+    [searchParams]
+  );
+  const statusFilter = query.status || "all";
+  const sortColumn: SortColumn = query.sort || "created_at";
+  const sortOrder = query.order || "desc";
+  const [documents, setDocuments] = useState<RegistryDocument[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [error, setError] = useState<string>("");
-  const [statusFilter, setStatusFilter] = useState<"all" | "pending" | "confirmed">("all");
-  const [exporting, setExporting] = useState(false);
+  const [showExport, setShowExport] = useState(false);
+  const [receiptLoading, setReceiptLoading] = useState<string | null>(null);
+  const [certificateLoading, setCertificateLoading] = useState<string | null>(null);
+  const [revoking, setRevoking] = useState<RegistryDocument | null>(null);
+  const [sharing, setSharing] = useState<RegistryDocument | null>(null);
+  const [newDocumentIds, setNewDocumentIds] = useState<string[]>([]);
+  // Bumped by every first-page fetch so pages of an older search are dropped.
+  const requestRef = useRef(0);
+  const sentinelRef = useRef<HTMLDivElement>(null);
 
   const fetchDocuments = async () => {
+    const request = ++requestRef.current;
     setLoading(true);
     setError("");
 
     try {
-      const result = await getDocuments(
-        statusFilter === "all" ? undefined : statusFilter,
-        50,
-        0
-      );
+      const result = await getDocuments(query, PAGE_SIZE);
+      if (request !== requestRef.current) return;
       setDocuments(result.documents || []);
+      setNextCursor(result.pagination?.next_cursor ?? null);
+      setNewDocumentIds([]);
     } catch (err) {
-      setError(err instanceof Error ? err.message : "Failed to fetch documents");
+      if (request === requestRef.current) {
+        setError(err instanceof Error ? err.message : "Failed to fetch documents");
+      }
     } finally {
-      setLoading(false);
+      if (request === requestRef.current) setLoading(false);
     }
   };
 
   useEffect(() => {
     fetchDocuments();
-  }, [statusFilter, refreshTrigger]);
+  }, [search, refreshTrigger]);
+
+  // Patch rows in place as they are anchored or revoked. Documents only become
+  // visible to the registry once confirmed, so an unknown confirmed document is
+  // a new one; it is announced rather than spliced into a filtered, sorted list.
+  useRegistryChanges((change) => {
+    if (change.table === "documents") {
+      const { row } = change;
+      if (!documents.some((doc) => doc.id === row.id)) {
+        if (row.status === "confirmed" && !newDocumentIds.includes(row.id)) {
+          setNewDocumentIds((prev) => [...prev, row.id]);
+        }
+        return;
+      }
+      setDocuments((prev) =>
+        prev.map((doc) =>
+          doc.id === row.id
+            ? { ...doc, status: row.status, revoked_at: row.revoked_at, revocation_reason: row.revocation_reason }
+            : doc
+        )
+      );
+    } else {
+      const { row } = change;
+      setDocuments((prev) =>
+        prev.map((doc) =>
+          doc.id === row.document_id
+            ? {
+                ...doc,
+                blockchain_records: [
+                  {
+                    transaction_hash: row.transaction_hash || "",
+                    block_number: row.block_number || 0,
+                    owner_address: row.owner_address,
+                    block_timestamp: row.block_timestamp || 0,
+                    status: row.status,
+                    confirmations: row.confirmations,
+                    finalized_at: row.finalized_at,
+                  },
+                ],
+              }
+            : doc
+        )
+      );
+    }
+  });
+
+  const loadMore = useCallback(async () => {
+    if (!nextCursor || loadingMore) return;
+
+    const request = requestRef.current;
+    setLoadingMore(true);
+
+    try {
+      const result = await getDocuments(query, PAGE_SIZE, nextCursor);
+      if (request !== requestRef.current) return;
+      setDocuments((prev) => [...prev, ...(result.documents || [])]);
+      setNextCursor(result.pagination?.next_cursor ?? null);
+    } catch (err) {
+      if (request === requestRef.current) {
+        setError(err instanceof Error ? err.message : "Failed to fetch documents");
+      }
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [query, nextCursor, loadingMore]);
+
+  // Load the next page when the end of the table scrolls into view.
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !nextCursor) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0].isIntersecting) loadMore();
+      },
+      { rootMargin: "200px" }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [nextCursor, loadMore, loading]);
+
+  const updateQuery = (changes: Partial<DocumentQuery>) => {
+    const params = new URLSearchParams(window.location.search);
+    for (const [key, value] of Object.entries(changes)) {
+      if (value) {
+        params.set(key, value);
+      } else {
+        params.delete(key);
+      }
+    }
+    replaceSearch(params);
+  };
+
+  const handleSort = (column: SortColumn) => {
+    const order = column === sortColumn && sortOrder === "desc" ? "asc" : "desc";
+    updateQuery({
+      sort: column === "created_at" ? undefined : column,
+      order: order === "desc" ? undefined : order,
+    });
+  };
+
+  const sortHeader = (column: SortColumn, label: string) => (
+    <th className="text-left px-4 py-3 font-semibold text-gray-700">
+      <button onClick={() => handleSort(column)} className="flex items-center gap-1 hover:text-blue-700">
+        {label}
+        {sortColumn === column &&
+          (sortOrder === "asc" ? <ArrowUp className="w-4 h-4" /> : <ArrowDown className="w-4 h-4" />)}
+      </button>
+    </th>
+  );
 
-  const handleExport = async (format: "csv" | "json") => {
-    setExporting(true);
+  const handleReceipt = async (doc: RegistryDocument) => {
+    setReceiptLoading(doc.id);
 
     try {
-      const blob = await exportProofs(format, statusFilter === "all" ? undefined : statusFilter);
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement("a");
-      a.href = url;
-      a.download = `document-proofs.${format}`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
+      const blob = await getReceipt(doc.id);
+      downloadBlob(blob, `receipt-${doc.file_hash.substring(0, 16)}.json`);
     } catch (err) {
-      setError(err instanceof Error ? err.message : "Export failed");
+      setError(err instanceof Error ? err.message : "Failed to download receipt");
     } finally {
-      setExporting(false);
+      setReceiptLoading(null);
     }
   };
 
-  const getStatusBadge = (status: string) => {
-    const baseClass = "inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium";
-    switch (status) {
-      case "confirmed":
-        return `${baseClass} bg-green-100 text-green-800`;
-      case "pending":
-        return `${baseClass} bg-yellow-100 text-yellow-800`;
-      default:
-        return `${baseClass} bg-gray-100 text-gray-800`;
+  const handleCertificate = async (doc: RegistryDocument) => {
+    setCertificateLoading(doc.id);
+
+    try {
+      const blob = await createCertificate(doc.id);
+      downloadBlob(blob, `certificate-${doc.file_hash.substring(0, 16)}.pdf`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to create certificate");
+    } finally {
+      setCertificateLoading(null);
     }
   };
 
@@ -105,10 +255,10 @@ export function DocumentRegistry({ refreshTrigger = 0 }: Props) {
 
         <div className="flex gap-4 mb-6 flex-wrap">
           <div className="flex gap-2">
-            {(["all", "pending", "confirmed"] as const).map((filter) => (
+            {(["all", "pending", "confirmed", "revoked"] as const).map((filter) => (
               <button
                 key={filter}
-                onClick={() => setStatusFilter(filter)}
+                onClick={() => updateQuery({ status: filter === "all" ? undefined : filter })}
                 className={`px-4 py-2 rounded-lg font-medium transition ${
                   statusFilter === filter
                     ? "bg-blue-600 text-white"
@@ -122,24 +272,28 @@ export function DocumentRegistry({ refreshTrigger = 0 }: Props) {
 
           <div className="flex gap-2 ml-auto">
             <button
-              onClick={() => handleExport("csv")}
-              disabled={exporting || documents.length === 0}
+              onClick={() => setShowExport(true)}
+              disabled={documents.length === 0}
               className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white hover:bg-green-700 rounded-lg font-medium transition disabled:opacity-50 disabled:cursor-not-allowed"
             >
               <Download className="w-4 h-4" />
-              Export CSV
-            </button>
-            <button
-              onClick={() => handleExport("json")}
-              disabled={exporting || documents.length === 0}
-              className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white hover:bg-blue-700 rounded-lg font-medium transition disabled:opacity-50 disabled:cursor-not-allowed"
-            >
-              <Download className="w-4 h-4" />
-              Export JSON
+              Export
             </button>
           </div>
         </div>
 
+        <RegistryFilters key={search} query={query} onApply={updateQuery} />
+
+        {newDocumentIds.length > 0 && (
+          <button
+            onClick={fetchDocuments}
+            className="w-full flex items-center justify-center gap-2 bg-blue-50 border border-blue-200 text-blue-800 hover:bg-blue-100 rounded-lg p-3 mb-6 text-sm font-medium transition"
+          >
+            <RefreshCw className="w-4 h-4" />
+            {newDocumentIds.length} new document{newDocumentIds.length === 1 ? "" : "s"} confirmed. Show latest
+          </button>
+        )}
+
         {error && (
           <div className="flex items-center gap-3 bg-red-50 border border-red-200 rounded-lg p-4 mb-6">
             <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0" />
@@ -161,22 +315,34 @@ export function DocumentRegistry({ refreshTrigger = 0 }: Props) {
             <table className="w-full">
               <thead>
                 <tr className="border-b-2 border-gray-200">
-                  <th className="text-left px-4 py-3 font-semibold text-gray-700">Filename</th>
+                  {sortHeader("filename", "Filename")}
                   <th className="text-left px-4 py-3 font-semibold text-gray-700">Hash</th>
-                  <th className="text-left px-4 py-3 font-semibold text-gray-700">Size</th>
-                  <th className="text-left px-4 py-3 font-semibold text-gray-700">Status</th>
+                  {sortHeader("file_size", "Size")}
+                  {sortHeader("status", "Status")}
                   <th className="text-left px-4 py-3 font-semibold text-gray-700">Block</th>
-                  <th className="text-left px-4 py-3 font-semibold text-gray-700">Registered</th>
+                  {sortHeader("created_at", "Registered")}
+                  <th className="text-left px-4 py-3 font-semibold text-gray-700">Actions</th>
                 </tr>
               </thead>
               <tbody>
                 {documents.map((doc) => {
                   const bc = doc.blockchain_records?.[0];
                   return (
-                    <tr key={doc.id} className="border-b border-gray-100 hover:bg-gray-50 transition">
+                    <tr
+                      key={doc.id}
+                      onClick={() => navigate(registryDocumentPath(doc.id))}
+                      className="border-b border-gray-100 hover:bg-gray-50 transition cursor-pointer"
+                    >
                       <td className="px-4 py-3">
                         <div className="max-w-xs">
-                          <p className="font-medium text-gray-900 truncate">{doc.filename}</p>
+                          <p className="font-medium text-gray-900 truncate">
+                            {doc.filename}
+                            {doc.version > 1 && (
+                              <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-indigo-100 text-indigo-800">
+                                v{doc.version}
+                              </span>
+                            )}
+                          </p>
                           <p className="text-xs text-gray-600 truncate">{doc.mime_type}</p>
                         </div>
                       </td>
@@ -184,18 +350,32 @@ export function DocumentRegistry({ refreshTrigger = 0 }: Props) {
                         <code className="text-xs bg-gray-100 px-2 py-1 rounded font-mono text-gray-700">
                           {formatHash(doc.file_hash, 6)}
                         </code>
+                        <p className="text-xs text-gray-500 mt-1">{hashAlgorithmLabel(doc.hash_algorithm)}</p>
                       </td>
                       <td className="px-4 py-3 text-sm text-gray-600">
                         {formatFileSize(doc.file_size)}
                       </td>
                       <td className="px-4 py-3">
-                        <span className={getStatusBadge(doc.status)}>
+                        <span
+                          className={getStatusBadge(doc.status)}
+                          title={doc.revocation_reason ? `Revoked: ${doc.revocation_reason}` : undefined}
+                        >
                           {doc.status.charAt(0).toUpperCase() + doc.status.slice(1)}
                         </span>
                       </td>
                       <td className="px-4 py-3">
                         {bc?.block_number ? (
-                          <code className="text-sm font-mono text-gray-700">#{bc.block_number}</code>
+                          <>
+                            <code className="text-sm font-mono text-gray-700">#{bc.block_number}</code>
+                            {!!bc.block_timestamp && (
+                              <p className="text-xs text-gray-500 mt-1">{formatDate(bc.block_timestamp)}</p>
+                            )}
+                            <p
+                              className={`text-xs mt-1 ${bc.status === "finalized" ? "text-green-700" : "text-amber-700"}`}
+                            >
+                              {describeFinality(bc)}
+                            </p>
+                          </>
                         ) : (
                           <span className="text-sm text-gray-500">Pending</span>
                         )}
@@ -203,14 +383,102 @@ export function DocumentRegistry({ refreshTrigger = 0 }: Props) {
                       <td className="px-4 py-3 text-sm text-gray-600">
                         {formatDate(doc.created_at)}
                       </td>
+                      <td className="px-4 py-3" onClick={(e) => e.stopPropagation()}>
+                        <div className="flex gap-2">
+                          <button
+                            onClick={() => handleReceipt(doc)}
+                            disabled={doc.status !== "confirmed" || receiptLoading === doc.id}
+                            title="Download signed proof receipt"
+                            className="flex items-center gap-1 px-3 py-1 text-sm text-blue-700 bg-blue-50 hover:bg-blue-100 rounded-lg font-medium transition disabled:opacity-50 disabled:cursor-not-allowed"
+                          >
+                            {receiptLoading === doc.id ? (
+                              <Loader className="w-4 h-4 animate-spin" />
+                            ) : (
+                              <FileCheck className="w-4 h-4" />
+                            )}
+                            Receipt
+                          </button>
+                          <button
+                            onClick={() => handleCertificate(doc)}
+                            disabled={!bc?.transaction_hash || certificateLoading === doc.id}
+                            title="Download printable PDF certificate"
+                            className="flex items-center gap-1 px-3 py-1 text-sm text-green-700 bg-green-50 hover:bg-green-100 rounded-lg font-medium transition disabled:opacity-50 disabled:cursor-not-allowed"
+                          >
+                            {certificateLoading === doc.id ? (
+                              <Loader className="w-4 h-4 animate-spin" />
+                            ) : (
+                              <Award className="w-4 h-4" />
+                            )}
+                            Certificate
+                          </button>
+                          <button
+                            onClick={() => setSharing(doc)}
+                            title="Show verification link and QR code"
+                            className="flex items-center gap-1 px-3 py-1 text-sm text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg font-medium transition"
+                          >
+                            <QrCode className="w-4 h-4" />
+                            QR
+                          </button>
+                          {session?.address === doc.uploader_address.toLowerCase() &&
+                            doc.status !== "revoked" && (
+                              <button
+                                onClick={() => setRevoking(doc)}
+                                title="Revoke this document"
+                                className="flex items-center gap-1 px-3 py-1 text-sm text-red-700 bg-red-50 hover:bg-red-100 rounded-lg font-medium transition"
+                              >
+                                <Ban className="w-4 h-4" />
+                                Revoke
+                              </button>
+                            )}
+                        </div>
+                      </td>
                     </tr>
                   );
                 })}
               </tbody>
             </table>
+
+            <div ref={sentinelRef} className="flex items-center justify-between pt-4 text-sm text-gray-600">
+              <span>
+                Showing {documents.length} document{documents.length === 1 ? "" : "s"}
+              </span>
+              {nextCursor && (
+                <button
+                  onClick={loadMore}
+                  disabled={loadingMore}
+                  className="flex items-center gap-2 px-4 py-2 text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg font-medium transition disabled:opacity-50"
+                >
+                  {loadingMore && <Loader className="w-4 h-4 animate-spin" />}
+                  Load more
+                </button>
+              )}
+            </div>
           </div>
         )}
       </div>
+
+      {revoking && (
+        <RevokeDialog
+          documentId={revoking.id}
+          filename={revoking.filename}
+          onClose={() => setRevoking(null)}
+          onRevoked={() => {
+            setRevoking(null);
+            fetchDocuments();
+          }}
+        />
+      )}
+
+      {showExport && <ExportDialog query={query} onClose={() => setShowExport(false)} />}
+
+      {sharing && (
+        <QrCodeDialog
+          url={absoluteUrl(documentPath(sharing.id))}
+          title={sharing.filename}
+          filename={`verify-${sharing.file_hash.substring(0, 16)}`}
+          onClose={() => setSharing(null)}
+        />
+      )}
     </div>
   );
 }
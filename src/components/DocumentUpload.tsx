@@ -1,44 +1,92 @@
-import { useState, useRef } from "react";
-import { Upload, Loader, CheckCircle, AlertCircle, X } from "lucide-react";
-import { computeSHA256, formatFileSize } from "../utils/crypto";
-import { registerDocument } from "../utils/api";
+import { useState, useRef, useEffect } from "react";
+import { Upload, Loader, CheckCircle, AlertCircle, X, Link2 } from "lucide-react";
+import {
+  computeDigests,
+  formatFileSize,
+  formatHash,
+  formatDate,
+  isAbortError,
+  hashAlgorithmLabel,
+  HASH_ALGORITHMS,
+  type HashAlgorithm,
+  type HashProgress,
+} from "../utils/crypto";
+import { isAnchored, registerDocument } from "../utils/api";
+import { useSession } from "../hooks/useSession";
+import { useRegistryChanges } from "../hooks/useRegistryChanges";
+import type { BlockchainRecordRow } from "../utils/realtime";
+import { navigate, registryDocumentPath } from "../utils/router";
+import { describeFinality } from "../utils/status";
+import { HashProgressBar } from "./HashProgressBar";
+import { BulkUpload } from "./BulkUpload";
 
 interface DocumentUploadProps {
   onSuccess: (documentId: string) => void;
 }
 
 export function DocumentUpload({ onSuccess }: DocumentUploadProps) {
+  const session = useSession();
+  const [mode, setMode] = useState<"single" | "bulk">("single");
   const [file, setFile] = useState<File | null>(null);
   const [tags, setTags] = useState<string>("");
+  const [parentRef, setParentRef] = useState<string>("");
   const [loading, setLoading] = useState(false);
-  const [hash, setHash] = useState<string>("");
+  const [primaryAlgorithm, setPrimaryAlgorithm] = useState<HashAlgorithm>("sha256");
+  const [extraAlgorithms, setExtraAlgorithms] = useState<HashAlgorithm[]>([]);
+  const [digests, setDigests] = useState<Partial<Record<HashAlgorithm, string>>>({});
+  const [progress, setProgress] = useState<HashProgress | null>(null);
   const [status, setStatus] = useState<"idle" | "computing" | "registering" | "success" | "error">(
     "idle"
   );
   const [errorMessage, setErrorMessage] = useState("");
+  const [registeredId, setRegisteredId] = useState<string | null>(null);
+  const [anchor, setAnchor] = useState<BlockchainRecordRow | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const handleFileSelect = async (selectedFile: File | null) => {
     if (!selectedFile) return;
 
-    if (selectedFile.size > 104857600) {
-      setErrorMessage("File size exceeds 100MB limit");
-      setStatus("error");
-      return;
-    }
-
     setFile(selectedFile);
-    setHash("");
-    setStatus("computing");
     setErrorMessage("");
+  };
 
-    try {
-      const computedHash = await computeSHA256(selectedFile);
-      setHash(computedHash);
-    } catch (error) {
-      setErrorMessage("Failed to compute file hash");
-      setStatus("error");
-    }
+  const selectedAlgorithms = [primaryAlgorithm, ...extraAlgorithms.filter((a) => a !== primaryAlgorithm)];
+  const hash = digests[primaryAlgorithm] || "";
+
+  useEffect(() => {
+    if (!file) return;
+
+    const controller = new AbortController();
+    setDigests({});
+    setStatus("computing");
+    setProgress({ bytesHashed: 0, totalBytes: file.size });
+
+    computeDigests(file, [primaryAlgorithm, ...extraAlgorithms.filter((a) => a !== primaryAlgorithm)], {
+      onProgress: setProgress,
+      signal: controller.signal,
+    })
+      .then((computed) => {
+        setDigests(computed);
+        setStatus("idle");
+      })
+      .catch((error) => {
+        if (isAbortError(error)) return;
+        setErrorMessage("Failed to compute file hash");
+        setStatus("error");
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setProgress(null);
+      });
+
+    return () => {
+      controller.abort();
+    };
+  }, [file, primaryAlgorithm, extraAlgorithms]);
+
+  const toggleExtraAlgorithm = (algorithm: HashAlgorithm) => {
+    setExtraAlgorithms((current) =>
+      current.includes(algorithm) ? current.filter((a) => a !== algorithm) : [...current, algorithm]
+    );
   };
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -59,7 +107,7 @@ export function DocumentUpload({ onSuccess }: DocumentUploadProps) {
   };
 
   const handleRegister = async () => {
-    if (!file || !hash) return;
+    if (!file || !hash || !session) return;
 
     setLoading(true);
     setStatus("registering");
@@ -71,20 +119,29 @@ export function DocumentUpload({ onSuccess }: DocumentUploadProps) {
         .map((t) => t.trim())
         .filter((t) => t.length > 0);
 
+      const parent = parentRef.trim();
+      const isParentHash = /^(0x)?[0-9a-f]{64}([0-9a-f]{64})?$/i.test(parent);
+
       const result = await registerDocument({
         filename: file.name,
         file_hash: hash,
+        hash_algorithm: primaryAlgorithm,
+        digests: selectedAlgorithms.slice(1).map((algorithm) => ({
+          algorithm,
+          digest: digests[algorithm] || "",
+        })),
         file_size: file.size,
         mime_type: file.type || "application/octet-stream",
-        uploader_address: `0x${"0".repeat(40)}`,
         tags: tagList,
+        parent_document_id: parent && !isParentHash ? parent : undefined,
+        parent_hash: isParentHash ? parent.toLowerCase() : undefined,
       });
 
+      setRegisteredId(result.document_id);
+      setAnchor(null);
       setStatus("success");
-      setTimeout(() => {
-        onSuccess(result.document_id);
-        resetForm();
-      }, 2000);
+      setLoading(false);
+      onSuccess(result.document_id);
     } catch (error) {
       setErrorMessage(error instanceof Error ? error.message : "Failed to register document");
       setStatus("error");
@@ -92,10 +149,22 @@ export function DocumentUpload({ onSuccess }: DocumentUploadProps) {
     }
   };
 
+  useRegistryChanges(
+    (change) => {
+      if (change.table === "blockchain_records") setAnchor(change.row);
+    },
+    { document_id: registeredId || undefined },
+    status === "success" && !!registeredId
+  );
+
   const resetForm = () => {
+    setRegisteredId(null);
+    setAnchor(null);
     setFile(null);
-    setHash("");
+    setDigests({});
+    setProgress(null);
     setTags("");
+    setParentRef("");
     setStatus("idle");
     setErrorMessage("");
     if (fileInputRef.current) {
@@ -106,17 +175,69 @@ export function DocumentUpload({ onSuccess }: DocumentUploadProps) {
   return (
     <div className="w-full max-w-2xl">
       <div className="bg-white rounded-lg shadow-lg border border-gray-200 p-8">
-        <h2 className="text-2xl font-bold text-gray-900 mb-6">Register Document</h2>
+        <div className="flex items-center justify-between flex-wrap gap-4 mb-6">
+          <h2 className="text-2xl font-bold text-gray-900">Register Document</h2>
+          <div className="flex gap-2">
+            {([
+              { id: "single", label: "Single File" },
+              { id: "bulk", label: "Bulk" },
+            ] as const).map(({ id, label }) => (
+              <button
+                key={id}
+                onClick={() => setMode(id)}
+                disabled={loading}
+                className={`px-4 py-2 rounded-lg text-sm font-medium transition ${
+                  mode === id ? "bg-blue-600 text-white" : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
 
-        {status === "success" ? (
+        {mode === "bulk" ? (
+          <BulkUpload />
+        ) : status === "success" ? (
           <div className="space-y-4">
             <div className="flex items-center justify-center p-8 bg-green-50 rounded-lg border-2 border-green-200">
               <div className="text-center">
                 <CheckCircle className="w-16 h-16 text-green-600 mx-auto mb-4" />
                 <p className="text-lg font-semibold text-green-900">Document registered successfully!</p>
-                <p className="text-sm text-green-700 mt-2">Awaiting blockchain confirmation...</p>
+                {anchor && isAnchored(anchor.status) ? (
+                  <div className="text-sm text-green-800 mt-3 space-y-1">
+                    <p className="flex items-center justify-center gap-2 font-semibold">
+                      <Link2 className="w-4 h-4" />
+                      Anchored in block #{anchor.block_number}
+                    </p>
+                    {anchor.transaction_hash && (
+                      <code className="block text-xs font-mono">{formatHash(anchor.transaction_hash)}</code>
+                    )}
+                    {anchor.block_timestamp && <p>Confirmed {formatDate(anchor.block_timestamp)}</p>}
+                    <p className="text-xs">{describeFinality(anchor)}</p>
+                  </div>
+                ) : (
+                  <p className="text-sm text-green-700 mt-2 flex items-center justify-center gap-2">
+                    <Loader className="w-4 h-4 animate-spin" />
+                    Awaiting blockchain confirmation...
+                  </p>
+                )}
               </div>
             </div>
+            <div className="flex gap-3">
+              <button
+                onClick={() => registeredId && navigate(registryDocumentPath(registeredId))}
+                className="flex-1 px-6 py-3 rounded-lg font-semibold transition bg-blue-600 text-white hover:bg-blue-700"
+              >
+                View in Registry
+              </button>
+              <button
+                onClick={resetForm}
+                className="flex-1 px-6 py-3 rounded-lg font-semibold transition bg-gray-100 text-gray-700 hover:bg-gray-200"
+              >
+                Register Another
+              </button>
+            </div>
           </div>
         ) : (
           <div className="space-y-6">
@@ -150,10 +271,56 @@ export function DocumentUpload({ onSuccess }: DocumentUploadProps) {
               )}
             </div>
 
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Primary hash algorithm</label>
+                <select
+                  value={primaryAlgorithm}
+                  onChange={(e) => setPrimaryAlgorithm(e.target.value as HashAlgorithm)}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition"
+                  disabled={loading}
+                >
+                  {HASH_ALGORITHMS.map((a) => (
+                    <option key={a.id} value={a.id}>
+                      {a.label}
+                    </option>
+                  ))}
+                </select>
+                <p className="text-xs text-gray-500 mt-1">The primary digest is the one anchored on chain.</p>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Also register</label>
+                <div className="flex flex-wrap gap-x-4 gap-y-1">
+                  {HASH_ALGORITHMS.filter((a) => a.id !== primaryAlgorithm).map((a) => (
+                    <label key={a.id} className="flex items-center gap-1.5 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={extraAlgorithms.includes(a.id)}
+                        onChange={() => toggleExtraAlgorithm(a.id)}
+                        disabled={loading}
+                      />
+                      {a.label}
+                    </label>
+                  ))}
+                </div>
+              </div>
+            </div>
+
+            {progress && <HashProgressBar progress={progress} onCancel={resetForm} />}
+
             {hash && (
-              <div className="bg-gray-50 rounded-lg p-4 border border-gray-200">
-                <p className="text-sm font-semibold text-gray-700 mb-2">SHA-256 Hash</p>
-                <p className="font-mono text-xs text-gray-600 break-all">{hash}</p>
+              <div className="bg-gray-50 rounded-lg p-4 border border-gray-200 space-y-3">
+                {selectedAlgorithms.map((algorithm) => (
+                  <div key={algorithm}>
+                    <p className="text-sm font-semibold text-gray-700 mb-1">
+                      {hashAlgorithmLabel(algorithm)} Hash
+                      {algorithm === primaryAlgorithm && selectedAlgorithms.length > 1 && (
+                        <span className="ml-2 text-xs font-normal text-blue-700">(primary)</span>
+                      )}
+                    </p>
+                    <p className="font-mono text-xs text-gray-600 break-all">{digests[algorithm]}</p>
+                  </div>
+                ))}
               </div>
             )}
 
@@ -171,6 +338,30 @@ export function DocumentUpload({ onSuccess }: DocumentUploadProps) {
               />
             </div>
 
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                New version of (optional)
+              </label>
+              <input
+                type="text"
+                value={parentRef}
+                onChange={(e) => setParentRef(e.target.value)}
+                placeholder="Document ID or any registered hash of the previous version"
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg font-mono text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition"
+                disabled={loading}
+              />
+            </div>
+
+            {!session && (
+              <div className="flex items-center gap-3 bg-blue-50 border border-blue-200 rounded-lg p-4">
+                <AlertCircle className="w-5 h-5 text-blue-600 flex-shrink-0" />
+                <p className="text-sm text-blue-800">
+                  Sign in with your Ethereum wallet to register documents. The signing address becomes the
+                  document owner.
+                </p>
+              </div>
+            )}
+
             {errorMessage && (
               <div className="flex items-center gap-3 bg-red-50 border border-red-200 rounded-lg p-4">
                 <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0" />
@@ -191,9 +382,9 @@ export function DocumentUpload({ onSuccess }: DocumentUploadProps) {
               )}
               <button
                 onClick={handleRegister}
-                disabled={!file || !hash || loading}
+                disabled={!file || !hash || !session || loading}
                 className={`flex-1 flex items-center justify-center gap-2 px-6 py-3 rounded-lg font-semibold transition ${
-                  !file || !hash || loading
+                  !file || !hash || !session || loading
                     ? "bg-gray-300 text-gray-700 cursor-not-allowed"
                     : "bg-blue-600 text-white hover:bg-blue-700 active:bg-blue-800"
                 }`}
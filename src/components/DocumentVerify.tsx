@@ -1,52 +1,89 @@
-import { useState, useRef } from "react";
-import { Upload, Loader, CheckCircle, AlertCircle, ExternalLink } from "lucide-react";
-import { computeSHA256, formatFileSize, formatHash, formatDate } from "../utils/crypto";
-import { verifyDocument } from "../utils/api";
-
-interface VerificationResult {
-  status: "verified" | "tampered" | "not_found";
-  document?: {
-    id: string;
-    filename: string;
-    file_size: number;
-    mime_type: string;
-  };
-  blockchain?: {
-    transaction_hash: string;
-    block_number: number;
-    owner_address: string;
-    block_timestamp: number;
-    status: string;
-  };
-  message: string;
+import { useState, useRef, useEffect } from "react";
+import { Upload, Loader, AlertCircle, Search } from "lucide-react";
+import {
+  computeDigest,
+  formatFileSize,
+  isAbortError,
+  formatHash,
+  hashAlgorithmLabel,
+  HASH_ALGORITHMS,
+  type HashAlgorithm,
+  type HashProgress,
+} from "../utils/crypto";
+import { verifyDocument, getReceipt, type LookupRequest, type VerifyResponse } from "../utils/api";
+import { verifyInclusion } from "../utils/merkle";
+import { downloadBlob } from "../utils/download";
+import { createCertificate } from "../utils/certificate";
+import { ReceiptVerify } from "./ReceiptVerify";
+import { BatchVerify } from "./BatchVerify";
+import { HashProgressBar } from "./HashProgressBar";
+import { getStatusColor } from "../utils/status";
+import { VerificationResultCard } from "./VerificationResultCard";
+import { useRegistryChanges } from "../hooks/useRegistryChanges";
+import { changeAdvancesResult } from "../utils/realtime";
+
+type LookupKind = "file_hash" | "transaction_hash" | "document_id";
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// A 0x-prefixed 32-byte value is far more likely a transaction than a pasted digest.
+function detectLookupKind(value: string): LookupKind {
+  const trimmed = value.trim();
+  if (UUID_PATTERN.test(trimmed)) return "document_id";
+  if (/^0x[0-9a-f]{64}$/i.test(trimmed)) return "transaction_hash";
+  return "file_hash";
 }
 
 export function DocumentVerify() {
+  const [mode, setMode] = useState<"registry" | "lookup" | "receipt" | "batch">("registry");
   const [file, setFile] = useState<File | null>(null);
   const [loading, setLoading] = useState(false);
+  const [algorithm, setAlgorithm] = useState<HashAlgorithm>("sha256");
   const [hash, setHash] = useState<string>("");
-  const [result, setResult] = useState<VerificationResult | null>(null);
+  const [progress, setProgress] = useState<HashProgress | null>(null);
+  const [result, setResult] = useState<VerifyResponse | null>(null);
+  const [lookupValue, setLookupValue] = useState("");
+  const [lookupKind, setLookupKind] = useState<LookupKind>("file_hash");
   const [error, setError] = useState<string>("");
+  const [downloadingReceipt, setDownloadingReceipt] = useState(false);
+  const [downloadingCertificate, setDownloadingCertificate] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const handleFileSelect = async (selectedFile: File | null) => {
     if (!selectedFile) return;
 
-    if (selectedFile.size > 104857600) {
-      setError("File size exceeds 100MB limit");
-      return;
-    }
-
     setFile(selectedFile);
-    setHash("");
     setResult(null);
     setError("");
+  };
 
-    try {
-      const computedHash = await computeSHA256(selectedFile);
-      setHash(computedHash);
-    } catch (err) {
-      setError("Failed to compute file hash");
+  useEffect(() => {
+    if (!file) return;
+
+    const controller = new AbortController();
+    setHash("");
+    setResult(null);
+    setProgress({ bytesHashed: 0, totalBytes: file.size });
+
+    computeDigest(file, algorithm, { onProgress: setProgress, signal: controller.signal })
+      .then(setHash)
+      .catch((err) => {
+        if (!isAbortError(err)) setError("Failed to compute file hash");
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setProgress(null);
+      });
+
+    return () => {
+      controller.abort();
+    };
+  }, [file, algorithm]);
+
+  const handleCancelHashing = () => {
+    setFile(null);
+    setProgress(null);
+    if (fileInputRef.current) {
+      fileInputRef.current.value = "";
     }
   };
 
@@ -67,19 +104,39 @@ export function DocumentVerify() {
     handleFileSelect(selectedFile || null);
   };
 
-  const handleVerify = async () => {
+  // `refresh` re-runs the check in place when the registry changes underneath
+  // a shown result, keeping it on screen until the new one arrives.
+  const handleVerify = async (refresh = false) => {
     if (!file || !hash) return;
 
-    setLoading(true);
-    setError("");
-    setResult(null);
+    if (!refresh) {
+      setLoading(true);
+      setError("");
+      setResult(null);
+    }
 
     try {
       const verifyResult = await verifyDocument({
         file_hash: hash,
-        verifier_address: `0x${"0".repeat(40)}`,
+        hash_algorithm: algorithm,
       });
 
+      if (verifyResult.status === "verified" && verifyResult.proof) {
+        const anchoredAlgorithm = verifyResult.document?.hash_algorithm || "sha256";
+        const anchoredHash =
+          anchoredAlgorithm === algorithm ? hash : await computeDigest(file, anchoredAlgorithm);
+        const included = await verifyInclusion(anchoredHash, verifyResult.proof);
+        if (!included) {
+          setResult({
+            ...verifyResult,
+            status: "tampered",
+            message:
+              "WARNING: The inclusion proof does not lead to the anchored Merkle root. The registry response cannot be trusted.",
+          });
+          return;
+        }
+      }
+
       setResult(verifyResult);
     } catch (err) {
       setError(err instanceof Error ? err.message : "Verification failed");
@@ -88,161 +145,287 @@ export function DocumentVerify() {
     }
   };
 
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case "verified":
-        return "bg-green-50 border-green-200 text-green-900";
-      case "tampered":
-        return "bg-red-50 border-red-200 text-red-900";
-      case "not_found":
-        return "bg-yellow-50 border-yellow-200 text-yellow-900";
-      default:
-        return "bg-gray-50 border-gray-200 text-gray-900";
+  const handleLookupChange = (value: string) => {
+    setLookupValue(value);
+    setLookupKind(detectLookupKind(value));
+  };
+
+  const handleLookup = async (refresh = false) => {
+    const value = lookupValue.trim();
+    if (!value) return;
+
+    if (!refresh) {
+      setLoading(true);
+      setError("");
+      setResult(null);
+    }
+
+    const payload: LookupRequest =
+      lookupKind === "file_hash"
+        ? { file_hash: value, hash_algorithm: algorithm }
+        : lookupKind === "transaction_hash"
+          ? { transaction_hash: value }
+          : { document_id: value };
+
+    try {
+      const lookupResult = await verifyDocument(payload);
+
+      // Without the file this only shows the registry's own data is consistent
+      // with the anchored root, not that any particular file is genuine.
+      if (lookupResult.status === "verified" && lookupResult.proof && lookupResult.document?.file_hash) {
+        const included = await verifyInclusion(lookupResult.document.file_hash, lookupResult.proof);
+        if (!included) {
+          setResult({
+            ...lookupResult,
+            status: "tampered",
+            message:
+              "WARNING: The inclusion proof does not lead to the anchored Merkle root. The registry response cannot be trusted.",
+          });
+          return;
+        }
+      }
+
+      setResult(lookupResult);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Lookup failed");
+    } finally {
+      setLoading(false);
     }
   };
 
-  const getStatusIcon = (status: string) => {
-    switch (status) {
-      case "verified":
-        return <CheckCircle className="w-6 h-6 text-green-600" />;
-      case "tampered":
-        return <AlertCircle className="w-6 h-6 text-red-600" />;
-      case "not_found":
-        return <AlertCircle className="w-6 h-6 text-yellow-600" />;
-      default:
-        return null;
+  // Follow the shown document; a hash that is not (yet) visible in the registry
+  // is followed by digest until its document is confirmed.
+  const followedId = result?.document?.id;
+  const followedHash = !followedId && result?.status === "not_found" && mode === "registry" ? hash : undefined;
+
+  useRegistryChanges(
+    (change) => {
+      if (!result || !changeAdvancesResult(change, result)) return;
+      if (mode === "lookup") {
+        handleLookup(true);
+      } else {
+        handleVerify(true);
+      }
+    },
+    { document_id: followedId, file_hash: followedHash },
+    !!(followedId || followedHash) && (mode === "registry" || mode === "lookup")
+  );
+
+  const handleDownloadReceipt = async () => {
+    if (!result?.document) return;
+
+    setDownloadingReceipt(true);
+    try {
+      const blob = await getReceipt(result.document.id);
+      downloadBlob(blob, `receipt-${(result.document.file_hash || hash).substring(0, 16)}.json`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to download receipt");
+    } finally {
+      setDownloadingReceipt(false);
     }
   };
 
+  const handleDownloadCertificate = async () => {
+    if (!result?.document) return;
+
+    setDownloadingCertificate(true);
+    try {
+      const blob = await createCertificate(result.document.id);
+      downloadBlob(blob, `certificate-${(result.document.file_hash || hash).substring(0, 16)}.pdf`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to create certificate");
+    } finally {
+      setDownloadingCertificate(false);
+    }
+  };
+
+  const verifyDisabled = loading || (mode === "lookup" ? !lookupValue.trim() : !file || !hash);
+
   return (
-    <div className="w-full max-w-2xl">
+    <div className={`w-full ${mode === "batch" ? "max-w-5xl" : "max-w-2xl"}`}>
       <div className="bg-white rounded-lg shadow-lg border border-gray-200 p-8">
-        <h2 className="text-2xl font-bold text-gray-900 mb-6">Verify Document</h2>
-
-        <div className="space-y-6">
-          <div
-            className={`border-2 border-dashed rounded-lg p-8 text-center cursor-pointer transition ${
-              file
-                ? "border-blue-500 bg-blue-50"
-                : "border-gray-300 bg-gray-50 hover:border-gray-400"
-            }`}
-            onDragOver={handleDragOver}
-            onDrop={handleDrop}
-            onClick={() => fileInputRef.current?.click()}
-          >
-            <input
-              ref={fileInputRef}
-              type="file"
-              onChange={handleFileChange}
-              className="hidden"
-              disabled={loading}
-            />
-            <Upload className="w-12 h-12 mx-auto mb-3 text-gray-400" />
-            <p className="text-lg font-semibold text-gray-700">
-              {file ? "File selected" : "Drag file to verify"}
-            </p>
-            <p className="text-sm text-gray-600 mt-1">or click to browse</p>
-            {file && (
-              <div className="mt-4 space-y-2">
-                <p className="font-mono text-sm text-gray-700">{file.name}</p>
-                <p className="text-xs text-gray-600">{formatFileSize(file.size)}</p>
-              </div>
-            )}
+        <div className="flex items-center justify-between flex-wrap gap-4 mb-6">
+          <h2 className="text-2xl font-bold text-gray-900">Verify Document</h2>
+          <div className="flex gap-2">
+            {([
+              { id: "registry", label: "Registry" },
+              { id: "lookup", label: "Lookup" },
+              { id: "receipt", label: "With Receipt" },
+              { id: "batch", label: "Batch" },
+            ] as const).map(({ id, label }) => (
+              <button
+                key={id}
+                onClick={() => {
+                  setMode(id);
+                  setResult(null);
+                  setError("");
+                }}
+                className={`px-4 py-2 rounded-lg text-sm font-medium transition ${
+                  mode === id ? "bg-blue-600 text-white" : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                }`}
+              >
+                {label}
+              </button>
+            ))}
           </div>
+        </div>
 
-          {hash && (
-            <div className="bg-gray-50 rounded-lg p-4 border border-gray-200">
-              <p className="text-sm font-semibold text-gray-700 mb-2">SHA-256 Hash</p>
-              <p className="font-mono text-xs text-gray-600 break-all">{hash}</p>
-            </div>
-          )}
-
-          {error && (
-            <div className="flex items-center gap-3 bg-red-50 border border-red-200 rounded-lg p-4">
-              <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0" />
-              <p className="text-sm text-red-700">{error}</p>
-            </div>
-          )}
-
-          {result && (
-            <div className={`border-2 rounded-lg p-6 flex gap-4 ${getStatusColor(result.status)}`}>
-              <div className="flex-shrink-0">{getStatusIcon(result.status)}</div>
-              <div className="flex-1">
-                <p className="font-bold text-lg mb-2 capitalize">{result.status}</p>
-                <p className="text-sm mb-4">{result.message}</p>
-
-                {result.document && (
-                  <div className="bg-white bg-opacity-50 rounded p-3 mb-4 text-sm space-y-2">
-                    <div>
-                      <span className="font-semibold">Filename:</span> {result.document.filename}
-                    </div>
-                    <div>
-                      <span className="font-semibold">Size:</span>{" "}
-                      {formatFileSize(result.document.file_size)}
-                    </div>
-                    <div>
-                      <span className="font-semibold">Type:</span> {result.document.mime_type}
-                    </div>
+        {mode === "receipt" ? (
+          <ReceiptVerify />
+        ) : mode === "batch" ? (
+          <BatchVerify />
+        ) : (
+          <div className="space-y-6">
+            {mode === "lookup" ? (
+              <div className="space-y-3">
+                <label className="block text-sm font-medium text-gray-700">
+                  Hash, transaction hash or document ID
+                </label>
+                <div className="flex gap-2">
+                  <input
+                    type="text"
+                    value={lookupValue}
+                    onChange={(e) => handleLookupChange(e.target.value)}
+                    onKeyDown={(e) => e.key === "Enter" && handleLookup()}
+                    placeholder="Paste a hex digest, 0x transaction hash or document UUID"
+                    className="flex-1 px-4 py-2 border border-gray-300 rounded-lg font-mono text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition"
+                    disabled={loading}
+                  />
+                  <select
+                    value={lookupKind}
+                    onChange={(e) => setLookupKind(e.target.value as LookupKind)}
+                    className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition"
+                    disabled={loading}
+                  >
+                    <option value="file_hash">File hash</option>
+                    <option value="transaction_hash">Transaction</option>
+                    <option value="document_id">Document ID</option>
+                  </select>
+                </div>
+              </div>
+            ) : (
+              <div
+                className={`border-2 border-dashed rounded-lg p-8 text-center cursor-pointer transition ${
+                  file
+                    ? "border-blue-500 bg-blue-50"
+                    : "border-gray-300 bg-gray-50 hover:border-gray-400"
+                }`}
+                onDragOver={handleDragOver}
+                onDrop={handleDrop}
+                onClick={() => fileInputRef.current?.click()}
+              >
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  onChange={handleFileChange}
+                  className="hidden"
+                  disabled={loading}
+                />
+                <Upload className="w-12 h-12 mx-auto mb-3 text-gray-400" />
+                <p className="text-lg font-semibold text-gray-700">
+                  {file ? "File selected" : "Drag file to verify"}
+                </p>
+                <p className="text-sm text-gray-600 mt-1">or click to browse</p>
+                {file && (
+                  <div className="mt-4 space-y-2">
+                    <p className="font-mono text-sm text-gray-700">{file.name}</p>
+                    <p className="text-xs text-gray-600">{formatFileSize(file.size)}</p>
                   </div>
                 )}
+              </div>
+            )}
 
-                {result.blockchain && (
-                  <div className="bg-white bg-opacity-50 rounded p-3 text-sm space-y-2">
-                    <div className="font-semibold mb-2">Blockchain Details</div>
-                    <div className="flex items-center gap-2">
-                      <span className="font-semibold">Transaction:</span>
-                      <code className="text-xs bg-black bg-opacity-10 px-2 py-1 rounded font-mono">
-                        {formatHash(result.blockchain.transaction_hash)}
-                      </code>
-                      <ExternalLink className="w-3 h-3 opacity-60" />
-                    </div>
-                    <div>
-                      <span className="font-semibold">Block:</span> #{result.blockchain.block_number}
-                    </div>
-                    <div>
-                      <span className="font-semibold">Owner:</span>
-                      <code className="text-xs bg-black bg-opacity-10 px-2 py-1 rounded font-mono ml-1">
-                        {formatHash(result.blockchain.owner_address)}
-                      </code>
-                    </div>
-                    <div>
-                      <span className="font-semibold">Timestamp:</span>{" "}
-                      {formatDate(result.blockchain.block_timestamp)}
-                    </div>
-                    <div>
-                      <span className="font-semibold">Status:</span>
-                      <span className="ml-2 inline-block px-2 py-1 bg-blue-600 text-white text-xs rounded font-semibold">
-                        {result.blockchain.status}
-                      </span>
+            {(mode === "registry" || lookupKind === "file_hash") && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Hash algorithm</label>
+                <select
+                  value={algorithm}
+                  onChange={(e) => setAlgorithm(e.target.value as HashAlgorithm)}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition"
+                  disabled={loading}
+                >
+                  {HASH_ALGORITHMS.map((a) => (
+                    <option key={a.id} value={a.id}>
+                      {a.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            {mode === "registry" && progress && <HashProgressBar progress={progress} onCancel={handleCancelHashing} />}
+
+            {mode === "registry" && hash && (
+              <div className="bg-gray-50 rounded-lg p-4 border border-gray-200">
+                <p className="text-sm font-semibold text-gray-700 mb-2">{hashAlgorithmLabel(algorithm)} Hash</p>
+                <p className="font-mono text-xs text-gray-600 break-all">{hash}</p>
+              </div>
+            )}
+
+            {error && (
+              <div className="flex items-center gap-3 bg-red-50 border border-red-200 rounded-lg p-4">
+                <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0" />
+                <p className="text-sm text-red-700">{error}</p>
+              </div>
+            )}
+
+            {result && (
+              <VerificationResultCard
+                result={result}
+                onDownloadReceipt={handleDownloadReceipt}
+                downloadingReceipt={downloadingReceipt}
+                onDownloadCertificate={handleDownloadCertificate}
+                downloadingCertificate={downloadingCertificate}
+              />
+            )}
+
+            {result?.anchored_documents && result.anchored_documents.length > 1 && (
+              <div className="border border-gray-200 rounded-lg p-4">
+                <p className="text-sm font-semibold text-gray-700 mb-3">
+                  {result.anchored_documents.length} documents anchored in this transaction
+                </p>
+                <div className="space-y-2">
+                  {result.anchored_documents.map((doc, index) => (
+                    <div
+                      key={doc.document?.id || index}
+                      className={`flex items-center justify-between gap-3 border rounded px-3 py-2 text-sm ${getStatusColor(doc.status)}`}
+                    >
+                      <div className="min-w-0">
+                        <p className="truncate font-medium">{doc.document?.filename || "Unknown document"}</p>
+                        {doc.document?.file_hash && (
+                          <code className="text-xs font-mono opacity-75">{formatHash(doc.document.file_hash, 6)}</code>
+                        )}
+                      </div>
+                      <span className="text-xs font-semibold capitalize">{doc.status.replace("_", " ")}</span>
                     </div>
-                  </div>
-                )}
+                  ))}
+                </div>
               </div>
-            </div>
-          )}
-
-          <button
-            onClick={handleVerify}
-            disabled={!file || !hash || loading}
-            className={`w-full flex items-center justify-center gap-2 px-6 py-3 rounded-lg font-semibold transition ${
-              !file || !hash || loading
-                ? "bg-gray-300 text-gray-700 cursor-not-allowed"
-                : "bg-blue-600 text-white hover:bg-blue-700 active:bg-blue-800"
-            }`}
-          >
-            {loading ? (
-              <>
-                <Loader className="w-4 h-4 animate-spin" />
-                Verifying...
-              </>
-            ) : (
-              <>
-                <Upload className="w-4 h-4" />
-                Verify Document
-              </>
             )}
-          </button>
-        </div>
+
+            <button
+              onClick={() => (mode === "lookup" ? handleLookup() : handleVerify())}
+              disabled={verifyDisabled}
+              className={`w-full flex items-center justify-center gap-2 px-6 py-3 rounded-lg font-semibold transition ${
+                verifyDisabled
+                  ? "bg-gray-300 text-gray-700 cursor-not-allowed"
+                  : "bg-blue-600 text-white hover:bg-blue-700 active:bg-blue-800"
+              }`}
+            >
+              {loading ? (
+                <>
+                  <Loader className="w-4 h-4 animate-spin" />
+                  Verifying...
+                </>
+              ) : (
+                <>
+                  {mode === "lookup" ? <Search className="w-4 h-4" /> : <Upload className="w-4 h-4" />}
+                  {mode === "lookup" ? "Look Up" : "Verify Document"}
+                </>
+              )}
+            </button>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,132 @@
+import { useState } from "react";
+import { Download, Loader, AlertCircle, X } from "lucide-react";
+import { exportProofs, EXPORT_COLUMNS, type DocumentQuery, type ExportColumn, type ExportFormat } from "../utils/api";
+import { downloadBlob } from "../utils/download";
+
+interface Props {
+  query: DocumentQuery;
+  onClose: () => void;
+}
+
+const FORMATS: Array<{ id: ExportFormat; label: string }> = [
+  { id: "csv", label: "CSV" },
+  { id: "json", label: "JSON" },
+  { id: "ndjson", label: "NDJSON" },
+];
+
+const DEFAULT_COLUMNS = EXPORT_COLUMNS.filter((c) => !("extra" in c)).map((c) => c.id);
+
+export function ExportDialog({ query, onClose }: Props) {
+  const [format, setFormat] = useState<ExportFormat>("csv");
+  const [columns, setColumns] = useState<ExportColumn[]>(DEFAULT_COLUMNS);
+  const [allFields, setAllFields] = useState(true);
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState("");
+
+  // JSON and NDJSON can carry whole documents; CSV always needs columns.
+  const useColumns = format === "csv" || !allFields;
+  const filtered = Object.keys(query).some((key) => key !== "sort" && key !== "order");
+
+  // Keeps the selection in the server's column order whatever the click order.
+  const toggleColumn = (id: ExportColumn) => {
+    setColumns((prev) =>
+      prev.includes(id)
+        ? prev.filter((c) => c !== id)
+        : EXPORT_COLUMNS.map((c) => c.id).filter((c) => c === id || prev.includes(c))
+    );
+  };
+
+  const handleExport = async () => {
+    setExporting(true);
+    setError("");
+
+    try {
+      const blob = await exportProofs(format, query, useColumns ? columns : undefined);
+      downloadBlob(blob, `document-proofs.${format}`);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Export failed");
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-40 p-4">
+      <div className="w-full max-w-lg bg-white rounded-lg shadow-xl border border-gray-200 p-6">
+        <div className="flex items-start justify-between mb-4">
+          <h3 className="text-lg font-bold text-gray-900 flex items-center gap-2">
+            <Download className="w-5 h-5 text-blue-600" />
+            Export Proofs
+          </h3>
+          <button onClick={onClose} disabled={exporting} className="text-gray-500 hover:text-gray-700">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <p className="text-sm text-gray-600 mb-4">
+          {filtered
+            ? "Exports every document matching the registry's current filters, in its current order."
+            : "Exports every document in the registry, in its current order."}
+        </p>
+
+        <div className="flex gap-2 mb-4">
+          {FORMATS.map(({ id, label }) => (
+            <button
+              key={id}
+              onClick={() => setFormat(id)}
+              disabled={exporting}
+              className={`flex-1 px-4 py-2 rounded-lg text-sm font-medium transition ${
+                format === id ? "bg-blue-600 text-white" : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        {format !== "csv" && (
+          <label className="flex items-center gap-2 text-sm text-gray-700 mb-3">
+            <input type="checkbox" checked={allFields} onChange={(e) => setAllFields(e.target.checked)} />
+            Whole documents, including their blockchain records
+          </label>
+        )}
+
+        {useColumns && (
+          <div className="grid grid-cols-2 gap-x-4 gap-y-2 mb-4">
+            {EXPORT_COLUMNS.map(({ id, label }) => (
+              <label key={id} className="flex items-center gap-2 text-sm text-gray-700">
+                <input type="checkbox" checked={columns.includes(id)} onChange={() => toggleColumn(id)} />
+                {label}
+              </label>
+            ))}
+          </div>
+        )}
+
+        {error && (
+          <div className="flex items-center gap-3 bg-red-50 border border-red-200 rounded-lg p-3 mb-4">
+            <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0" />
+            <p className="text-sm text-red-700">{error}</p>
+          </div>
+        )}
+
+        <div className="flex gap-3 mt-6">
+          <button
+            onClick={onClose}
+            disabled={exporting}
+            className="flex-1 px-4 py-2 text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg font-medium transition disabled:opacity-50"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={exporting || (useColumns && columns.length === 0)}
+            className="flex-1 flex items-center justify-center gap-2 px-4 py-2 bg-blue-600 text-white hover:bg-blue-700 rounded-lg font-semibold transition disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {exporting ? <Loader className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+            Export
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
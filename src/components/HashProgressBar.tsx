@@ -0,0 +1,37 @@
+import { Loader, X } from "lucide-react";
+import { formatFileSize, type HashProgress } from "../utils/crypto";
+
+interface Props {
+  progress: HashProgress;
+  onCancel: () => void;
+}
+
+export function HashProgressBar({ progress, onCancel }: Props) {
+  const percent = progress.totalBytes
+    ? Math.floor((progress.bytesHashed / progress.totalBytes) * 100)
+    : 100;
+
+  return (
+    <div className="bg-gray-50 rounded-lg p-4 border border-gray-200">
+      <div className="flex items-center justify-between mb-2">
+        <p className="text-sm font-semibold text-gray-700 flex items-center gap-2">
+          <Loader className="w-4 h-4 animate-spin" />
+          Computing hash... {percent}%
+        </p>
+        <button
+          onClick={onCancel}
+          className="flex items-center gap-1 text-sm text-gray-600 hover:text-gray-900"
+        >
+          <X className="w-4 h-4" />
+          Cancel
+        </button>
+      </div>
+      <div className="w-full h-2 bg-gray-200 rounded-full overflow-hidden">
+        <div className="h-full bg-blue-600 transition-all" style={{ width: `${percent}%` }} />
+      </div>
+      <p className="text-xs text-gray-600 mt-2">
+        {formatFileSize(progress.bytesHashed)} of {formatFileSize(progress.totalBytes)}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,173 @@
+import { useEffect, useState } from "react";
+import { Loader, AlertCircle, QrCode, Upload } from "lucide-react";
+import { verifyDocument, getReceipt, type LookupRequest, type VerifyResult } from "../utils/api";
+import { verifyInclusion } from "../utils/merkle";
+import { downloadBlob } from "../utils/download";
+import { createCertificate } from "../utils/certificate";
+import { absoluteUrl, documentPath, navigate, verifyPath } from "../utils/router";
+import { VerificationResultCard } from "./VerificationResultCard";
+import { QrCodeDialog } from "./QrCodeDialog";
+import { useRegistryChanges } from "../hooks/useRegistryChanges";
+import { changeAdvancesResult } from "../utils/realtime";
+
+interface Props {
+  lookup: { file_hash: string } | { document_id: string };
+}
+
+// Public landing page for /verify/<hash> and /document/<id> links. The lookup
+// runs as soon as the page opens, so a scanned QR code lands on a result.
+// Rendered with a `key` per link, so state never carries over between links.
+export function LinkedVerification({ lookup }: Props) {
+  const [result, setResult] = useState<VerifyResult | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [downloadingReceipt, setDownloadingReceipt] = useState(false);
+  const [downloadingCertificate, setDownloadingCertificate] = useState(false);
+  const [showQr, setShowQr] = useState(false);
+  // Bumped to re-run the lookup in place when the document changes.
+  const [revision, setRevision] = useState(0);
+
+  const byHash = "file_hash" in lookup;
+  const key = byHash ? lookup.file_hash : lookup.document_id;
+  const path = byHash ? verifyPath(key) : documentPath(key);
+
+  useEffect(() => {
+    let cancelled = false;
+    const payload: LookupRequest = byHash ? { file_hash: key } : { document_id: key };
+
+    if (revision === 0) {
+      setLoading(true);
+      setError("");
+      setResult(null);
+    }
+
+    verifyDocument(payload)
+      .then(async (lookupResult: VerifyResult) => {
+        if (
+          lookupResult.status === "verified" &&
+          lookupResult.proof &&
+          lookupResult.document?.file_hash &&
+          !(await verifyInclusion(lookupResult.document.file_hash, lookupResult.proof))
+        ) {
+          lookupResult = {
+            ...lookupResult,
+            status: "tampered",
+            message:
+              "WARNING: The inclusion proof does not lead to the anchored Merkle root. The registry response cannot be trusted.",
+          };
+        }
+        if (!cancelled) setResult(lookupResult);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : "Verification failed");
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [byHash, key, revision]);
+
+  const followedId = result?.document?.id || (byHash ? undefined : key);
+
+  useRegistryChanges(
+    (change) => {
+      if (result && changeAdvancesResult(change, result)) setRevision((prev) => prev + 1);
+    },
+    { document_id: followedId, file_hash: followedId ? undefined : key.trim().toLowerCase().replace(/^0x/, "") },
+    !loading
+  );
+
+  const handleDownloadReceipt = async () => {
+    if (!result?.document) return;
+
+    setDownloadingReceipt(true);
+    try {
+      const blob = await getReceipt(result.document.id);
+      downloadBlob(blob, `receipt-${(result.document.file_hash || key).substring(0, 16)}.json`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to download receipt");
+    } finally {
+      setDownloadingReceipt(false);
+    }
+  };
+
+  const handleDownloadCertificate = async () => {
+    if (!result?.document) return;
+
+    setDownloadingCertificate(true);
+    try {
+      const blob = await createCertificate(result.document.id);
+      downloadBlob(blob, `certificate-${(result.document.file_hash || key).substring(0, 16)}.pdf`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to create certificate");
+    } finally {
+      setDownloadingCertificate(false);
+    }
+  };
+
+  return (
+    <div className="w-full max-w-2xl">
+      <div className="bg-white rounded-lg shadow-lg border border-gray-200 p-8 space-y-6">
+        <div className="flex items-center justify-between flex-wrap gap-4">
+          <h2 className="text-2xl font-bold text-gray-900">Verification Result</h2>
+          <button
+            onClick={() => setShowQr(true)}
+            className="flex items-center gap-2 px-4 py-2 bg-gray-100 text-gray-700 hover:bg-gray-200 rounded-lg text-sm font-medium transition"
+          >
+            <QrCode className="w-4 h-4" />
+            Share
+          </button>
+        </div>
+
+        <p className="text-sm text-gray-600">
+          This page shows what the registry records for{" "}
+          <code className="font-mono text-xs bg-gray-100 px-1 rounded break-all">{key}</code>. To confirm that a
+          copy in your hands is this document, verify the file itself.
+        </p>
+
+        {loading && (
+          <div className="flex items-center justify-center py-12">
+            <Loader className="w-8 h-8 text-blue-600 animate-spin" />
+          </div>
+        )}
+
+        {error && (
+          <div className="flex items-center gap-3 bg-red-50 border border-red-200 rounded-lg p-4">
+            <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0" />
+            <p className="text-sm text-red-700">{error}</p>
+          </div>
+        )}
+
+        {result && (
+          <VerificationResultCard
+            result={result}
+            onDownloadReceipt={handleDownloadReceipt}
+            downloadingReceipt={downloadingReceipt}
+            onDownloadCertificate={handleDownloadCertificate}
+            downloadingCertificate={downloadingCertificate}
+          />
+        )}
+
+        <button
+          onClick={() => navigate("/verify")}
+          className="w-full flex items-center justify-center gap-2 px-6 py-3 rounded-lg font-semibold transition bg-blue-600 text-white hover:bg-blue-700 active:bg-blue-800"
+        >
+          <Upload className="w-4 h-4" />
+          Verify a File
+        </button>
+      </div>
+
+      {showQr && (
+        <QrCodeDialog
+          url={absoluteUrl(path)}
+          title={result?.document?.filename || key}
+          filename={`verify-${key.substring(0, 16)}`}
+          onClose={() => setShowQr(false)}
+        />
+      )}
+    </div>
+  );
+}
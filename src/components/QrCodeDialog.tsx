@@ -0,0 +1,90 @@
+import { useEffect, useState } from "react";
+import QRCode from "qrcode";
+import { QrCode, Download, Copy, Check, X } from "lucide-react";
+import { downloadBlob } from "../utils/download";
+
+interface Props {
+  url: string;
+  title: string;
+  filename: string;
+  onClose: () => void;
+}
+
+const QR_OPTIONS = { errorCorrectionLevel: "M" as const, margin: 2 };
+
+export function QrCodeDialog({ url, title, filename, onClose }: Props) {
+  const [preview, setPreview] = useState("");
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    QRCode.toDataURL(url, { ...QR_OPTIONS, width: 240 }).then(setPreview);
+  }, [url]);
+
+  const handleDownloadPng = async () => {
+    const dataUrl = await QRCode.toDataURL(url, { ...QR_OPTIONS, width: 1024 });
+    downloadBlob(await (await fetch(dataUrl)).blob(), `${filename}.png`);
+  };
+
+  const handleDownloadSvg = async () => {
+    const svg = await QRCode.toString(url, { ...QR_OPTIONS, type: "svg" });
+    downloadBlob(new Blob([svg], { type: "image/svg+xml" }), `${filename}.svg`);
+  };
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(url);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 1500);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-40 p-4">
+      <div className="w-full max-w-sm bg-white rounded-lg shadow-xl border border-gray-200 p-6">
+        <div className="flex items-start justify-between mb-4">
+          <h3 className="text-lg font-bold text-gray-900 flex items-center gap-2">
+            <QrCode className="w-5 h-5 text-blue-600" />
+            Verification Link
+          </h3>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <p className="text-sm text-gray-600 mb-4 truncate" title={title}>
+          {title}
+        </p>
+
+        <div className="flex justify-center mb-4">
+          {preview ? (
+            <img src={preview} alt={`QR code for ${url}`} className="w-60 h-60" />
+          ) : (
+            <div className="w-60 h-60 bg-gray-100 rounded animate-pulse" />
+          )}
+        </div>
+
+        <div className="flex items-center gap-2 mb-6">
+          <code className="flex-1 text-xs bg-gray-100 px-2 py-1 rounded font-mono text-gray-700 truncate">{url}</code>
+          <button onClick={handleCopy} className="text-gray-600 hover:text-gray-900" title="Copy link">
+            {copied ? <Check className="w-4 h-4 text-green-600" /> : <Copy className="w-4 h-4" />}
+          </button>
+        </div>
+
+        <div className="flex gap-3">
+          <button
+            onClick={handleDownloadPng}
+            className="flex-1 flex items-center justify-center gap-2 px-4 py-2 bg-blue-600 text-white hover:bg-blue-700 rounded-lg text-sm font-medium transition"
+          >
+            <Download className="w-4 h-4" />
+            PNG
+          </button>
+          <button
+            onClick={handleDownloadSvg}
+            className="flex-1 flex items-center justify-center gap-2 px-4 py-2 bg-gray-100 text-gray-700 hover:bg-gray-200 rounded-lg text-sm font-medium transition"
+          >
+            <Download className="w-4 h-4" />
+            SVG
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,263 @@
+import { useState, useRef } from "react";
+import { Upload, Loader, CheckCircle, AlertCircle, FileCheck, XCircle, MinusCircle } from "lucide-react";
+import {
+  formatFileSize,
+  formatHash,
+  formatDate,
+  hashAlgorithmLabel,
+  isAbortError,
+  type HashProgress,
+} from "../utils/crypto";
+import { checkFileAgainstReceipt, parseReceipt, type Receipt, type ReceiptCheck } from "../utils/receipt";
+import { HashProgressBar } from "./HashProgressBar";
+
+export function ReceiptVerify() {
+  const [file, setFile] = useState<File | null>(null);
+  const [receipt, setReceipt] = useState<Receipt | null>(null);
+  const [receiptName, setReceiptName] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [check, setCheck] = useState<ReceiptCheck | null>(null);
+  const [progress, setProgress] = useState<HashProgress | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const [error, setError] = useState("");
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const receiptInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileSelect = (selectedFile: File | null) => {
+    if (!selectedFile) return;
+    setFile(selectedFile);
+    setCheck(null);
+    setError("");
+  };
+
+  const handleReceiptSelect = async (selectedFile: File | null) => {
+    if (!selectedFile) return;
+    setCheck(null);
+    setError("");
+
+    try {
+      setReceipt(parseReceipt(await selectedFile.text()));
+      setReceiptName(selectedFile.name);
+    } catch (err) {
+      setReceipt(null);
+      setReceiptName("");
+      setError(err instanceof Error ? err.message : "Failed to read receipt");
+    }
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+  };
+
+  const handleVerify = async () => {
+    if (!file || !receipt) return;
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setLoading(true);
+    setError("");
+    setCheck(null);
+    setProgress({ bytesHashed: 0, totalBytes: file.size });
+
+    try {
+      setCheck(
+        await checkFileAgainstReceipt(file, receipt, {
+          onProgress: setProgress,
+          signal: controller.signal,
+        })
+      );
+    } catch (err) {
+      if (!isAbortError(err)) {
+        setError(err instanceof Error ? err.message : "Receipt verification failed");
+      }
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+      setLoading(false);
+    }
+  };
+
+  // Anyone can sign a receipt with a key of their own, so an intact receipt is
+  // only verified once its key is known to be the registry's.
+  const intact = check !== null && check.hashMatches && check.signatureValid && check.proofValid !== false;
+  const verified = intact && check?.trustedSigner === true;
+  const unknownSigner = intact && check?.trustedSigner === null;
+
+  const renderCheck = (label: string, value: boolean | null, skippedLabel: string) => (
+    <div className="flex items-center gap-2">
+      {value === null ? (
+        <MinusCircle className="w-4 h-4 text-gray-500" />
+      ) : value ? (
+        <CheckCircle className="w-4 h-4 text-green-600" />
+      ) : (
+        <XCircle className="w-4 h-4 text-red-600" />
+      )}
+      <span>{value === null ? skippedLabel : label}</span>
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div
+          className={`border-2 border-dashed rounded-lg p-6 text-center cursor-pointer transition ${
+            file ? "border-blue-500 bg-blue-50" : "border-gray-300 bg-gray-50 hover:border-gray-400"
+          }`}
+          onDragOver={handleDragOver}
+          onDrop={(e) => {
+            handleDragOver(e);
+            handleFileSelect(e.dataTransfer.files?.[0] || null);
+          }}
+          onClick={() => fileInputRef.current?.click()}
+        >
+          <input
+            ref={fileInputRef}
+            type="file"
+            onChange={(e) => handleFileSelect(e.target.files?.[0] || null)}
+            className="hidden"
+            disabled={loading}
+          />
+          <Upload className="w-10 h-10 mx-auto mb-3 text-gray-400" />
+          <p className="font-semibold text-gray-700">{file ? "Document selected" : "Drop document"}</p>
+          {file && (
+            <div className="mt-3 space-y-1">
+              <p className="font-mono text-sm text-gray-700 truncate">{file.name}</p>
+              <p className="text-xs text-gray-600">{formatFileSize(file.size)}</p>
+            </div>
+          )}
+        </div>
+
+        <div
+          className={`border-2 border-dashed rounded-lg p-6 text-center cursor-pointer transition ${
+            receipt ? "border-blue-500 bg-blue-50" : "border-gray-300 bg-gray-50 hover:border-gray-400"
+          }`}
+          onDragOver={handleDragOver}
+          onDrop={(e) => {
+            handleDragOver(e);
+            handleReceiptSelect(e.dataTransfer.files?.[0] || null);
+          }}
+          onClick={() => receiptInputRef.current?.click()}
+        >
+          <input
+            ref={receiptInputRef}
+            type="file"
+            accept="application/json,.json"
+            onChange={(e) => handleReceiptSelect(e.target.files?.[0] || null)}
+            className="hidden"
+            disabled={loading}
+          />
+          <FileCheck className="w-10 h-10 mx-auto mb-3 text-gray-400" />
+          <p className="font-semibold text-gray-700">{receipt ? "Receipt loaded" : "Drop receipt"}</p>
+          {receipt && (
+            <div className="mt-3 space-y-1">
+              <p className="font-mono text-sm text-gray-700 truncate">{receiptName}</p>
+              <p className="text-xs text-gray-600 truncate">{receipt.document.filename}</p>
+            </div>
+          )}
+        </div>
+      </div>
+
+      <p className="text-xs text-gray-500 text-center">
+        Receipt checks run entirely in your browser. Nothing is sent to the registry.
+      </p>
+
+      {error && (
+        <div className="flex items-center gap-3 bg-red-50 border border-red-200 rounded-lg p-4">
+          <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0" />
+          <p className="text-sm text-red-700">{error}</p>
+        </div>
+      )}
+
+      {check && receipt && (
+        <div
+          className={`border-2 rounded-lg p-6 flex gap-4 ${
+            verified
+              ? "bg-green-50 border-green-200 text-green-900"
+              : unknownSigner
+                ? "bg-yellow-50 border-yellow-200 text-yellow-900"
+                : "bg-red-50 border-red-200 text-red-900"
+          }`}
+        >
+          <div className="flex-shrink-0">
+            {verified ? (
+              <CheckCircle className="w-6 h-6 text-green-600" />
+            ) : (
+              <AlertCircle className={`w-6 h-6 ${unknownSigner ? "text-yellow-600" : "text-red-600"}`} />
+            )}
+          </div>
+          <div className="flex-1">
+            <p className="font-bold text-lg mb-2">
+              {verified ? "Verified" : unknownSigner ? "Signer not verified" : "Not verified"}
+            </p>
+            <p className="text-sm mb-4">
+              {verified
+                ? "The document matches the receipt and the receipt was signed by the registry."
+                : unknownSigner
+                  ? "The document matches the receipt, but anyone can sign a receipt with their own key. " +
+                    "Set VITE_RECEIPT_PUBLIC_KEY to the registry's public key to confirm who signed it."
+                  : "The document or the receipt failed one or more checks."}
+            </p>
+
+            <div className="bg-white bg-opacity-50 rounded p-3 mb-4 text-sm space-y-2">
+              {renderCheck(`File ${hashAlgorithmLabel(receipt.hash.algorithm)} hash matches receipt`, check.hashMatches, "")}
+              {renderCheck("Merkle proof leads to anchored root", check.proofValid, "No Merkle proof (anchored individually)")}
+              {renderCheck("Receipt signature matches its embedded key", check.signatureValid, "")}
+              {renderCheck("Signed by the trusted registry key", check.trustedSigner, "Signer unknown: no trusted registry key configured")}
+            </div>
+
+            <div className="bg-white bg-opacity-50 rounded p-3 text-sm space-y-2">
+              <div className="font-semibold mb-2">Receipt Details</div>
+              <div>
+                <span className="font-semibold">Filename:</span> {receipt.document.filename}
+              </div>
+              <div className="flex items-center gap-2">
+                <span className="font-semibold">Transaction:</span>
+                <code className="text-xs bg-black bg-opacity-10 px-2 py-1 rounded font-mono">
+                  {formatHash(receipt.anchor.transaction_hash)}
+                </code>
+              </div>
+              <div>
+                <span className="font-semibold">Block:</span> #{receipt.anchor.block_number}
+                {receipt.anchor.chain_id !== null && ` on chain ${receipt.anchor.chain_id}`}
+              </div>
+              <div>
+                <span className="font-semibold">Timestamp:</span> {formatDate(receipt.anchor.block_timestamp)}
+              </div>
+              <div>
+                <span className="font-semibold">Key ID:</span>
+                <code className="text-xs bg-black bg-opacity-10 px-2 py-1 rounded font-mono ml-1">
+                  {formatHash(receipt.signature.key_id)}
+                </code>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {progress && <HashProgressBar progress={progress} onCancel={() => abortRef.current?.abort()} />}
+
+      <button
+        onClick={handleVerify}
+        disabled={!file || !receipt || loading}
+        className={`w-full flex items-center justify-center gap-2 px-6 py-3 rounded-lg font-semibold transition ${
+          !file || !receipt || loading
+            ? "bg-gray-300 text-gray-700 cursor-not-allowed"
+            : "bg-blue-600 text-white hover:bg-blue-700 active:bg-blue-800"
+        }`}
+      >
+        {loading ? (
+          <>
+            <Loader className="w-4 h-4 animate-spin" />
+            Checking...
+          </>
+        ) : (
+          <>
+            <FileCheck className="w-4 h-4" />
+            Verify with Receipt
+          </>
+        )}
+      </button>
+    </div>
+  );
+}
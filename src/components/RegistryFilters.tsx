@@ -0,0 +1,114 @@
+import { useState, type FormEvent } from "react";
+import { Search, X } from "lucide-react";
+import type { DocumentQuery } from "../utils/api";
+
+type FilterField = "q" | "hash" | "tags" | "owner" | "mime_type" | "from" | "to";
+
+const FILTER_FIELDS: FilterField[] = ["q", "hash", "tags", "owner", "mime_type", "from", "to"];
+
+interface Props {
+  query: DocumentQuery;
+  onApply: (changes: Partial<DocumentQuery>) => void;
+}
+
+const inputClass =
+  "w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+function draftFrom(query: DocumentQuery): Record<FilterField, string> {
+  return Object.fromEntries(FILTER_FIELDS.map((field) => [field, query[field] || ""])) as Record<
+    FilterField,
+    string
+  >;
+}
+
+export function RegistryFilters({ query, onApply }: Props) {
+  // Seeded from the URL; the parent remounts this form when the URL changes.
+  const [draft, setDraft] = useState(() => draftFrom(query));
+
+  const update = (field: FilterField) => (e: { target: { value: string } }) =>
+    setDraft((prev) => ({ ...prev, [field]: e.target.value }));
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    onApply(Object.fromEntries(FILTER_FIELDS.map((field) => [field, draft[field].trim() || undefined])));
+  };
+
+  const handleClear = () => {
+    onApply(Object.fromEntries(FILTER_FIELDS.map((field) => [field, undefined])));
+  };
+
+  const hasFilters = FILTER_FIELDS.some((field) => query[field]);
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-gray-50 border border-gray-200 rounded-lg p-4 mb-6 space-y-3">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <input
+          type="search"
+          value={draft.q}
+          onChange={update("q")}
+          placeholder="Search filenames"
+          className={`${inputClass} md:col-span-2`}
+        />
+        <input
+          type="text"
+          value={draft.hash}
+          onChange={update("hash")}
+          placeholder="Hash prefix"
+          className={`${inputClass} font-mono`}
+        />
+        <input
+          type="text"
+          value={draft.tags}
+          onChange={update("tags")}
+          placeholder="Tags (comma-separated, all must match)"
+          className={inputClass}
+        />
+        <input
+          type="text"
+          value={draft.owner}
+          onChange={update("owner")}
+          placeholder="Owner address (0x...)"
+          className={`${inputClass} font-mono`}
+        />
+        <input
+          type="text"
+          value={draft.mime_type}
+          onChange={update("mime_type")}
+          placeholder="MIME type, e.g. application/pdf or image/*"
+          className={inputClass}
+        />
+      </div>
+
+      <div className="flex items-center gap-3 flex-wrap">
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          Registered from
+          <input type="date" value={draft.from} onChange={update("from")} className={inputClass} />
+        </label>
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          to
+          <input type="date" value={draft.to} onChange={update("to")} className={inputClass} />
+        </label>
+
+        <div className="flex gap-2 ml-auto">
+          {hasFilters && (
+            <button
+              type="button"
+              onClick={handleClear}
+              className="flex items-center gap-2 px-4 py-2 text-gray-700 bg-white border border-gray-300 hover:bg-gray-100 rounded-lg text-sm font-medium transition"
+            >
+              <X className="w-4 h-4" />
+              Clear
+            </button>
+          )}
+          <button
+            type="submit"
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white hover:bg-blue-700 rounded-lg text-sm font-medium transition"
+          >
+            <Search className="w-4 h-4" />
+            Search
+          </button>
+        </div>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,49 @@
+import { GitCommit } from "lucide-react";
+import type { Lineage } from "../utils/api";
+import { formatHash, formatDate } from "../utils/crypto";
+
+interface Props {
+  lineage: Lineage;
+}
+
+export function RevisionTimeline({ lineage }: Props) {
+  return (
+    <div className="bg-white bg-opacity-50 rounded p-3 text-sm">
+      <div className="flex items-center justify-between mb-3">
+        <span className="font-semibold">Revision History</span>
+        <span
+          className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+            lineage.is_latest ? "bg-green-100 text-green-800" : "bg-orange-100 text-orange-800"
+          }`}
+        >
+          {lineage.is_latest ? "Latest version" : `Superseded by v${lineage.latest_version}`}
+        </span>
+      </div>
+      <ol className="relative border-l-2 border-gray-300 ml-2 space-y-4">
+        {lineage.versions.map((v) => {
+          const current = v.version === lineage.version;
+          return (
+            <li key={v.id} className="ml-4">
+              <span
+                className={`absolute -left-[9px] flex items-center justify-center w-4 h-4 rounded-full ${
+                  current ? "bg-blue-600" : "bg-gray-300"
+                }`}
+              >
+                <GitCommit className="w-3 h-3 text-white" />
+              </span>
+              <div className={current ? "font-semibold" : ""}>
+                v{v.version} · {v.filename}
+                {current && <span className="ml-2 text-xs text-blue-700">(this file)</span>}
+              </div>
+              <div className="text-xs opacity-75 flex flex-wrap gap-x-3">
+                <code className="font-mono">{formatHash(v.file_hash, 6)}</code>
+                <span>{formatDate(v.created_at)}</span>
+                <span className="capitalize">{v.status}</span>
+              </div>
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+}
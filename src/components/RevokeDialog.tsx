@@ -0,0 +1,88 @@
+import { useState } from "react";
+import { Ban, Loader, AlertCircle, X } from "lucide-react";
+import { revokeDocument } from "../utils/api";
+
+interface Props {
+  documentId: string;
+  filename: string;
+  onClose: () => void;
+  onRevoked: () => void;
+}
+
+export function RevokeDialog({ documentId, filename, onClose, onRevoked }: Props) {
+  const [reason, setReason] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  const handleRevoke = async () => {
+    if (!reason.trim()) return;
+
+    setLoading(true);
+    setError("");
+
+    try {
+      await revokeDocument(documentId, reason.trim());
+      onRevoked();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to revoke document");
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-40 p-4">
+      <div className="w-full max-w-md bg-white rounded-lg shadow-xl border border-gray-200 p-6">
+        <div className="flex items-start justify-between mb-4">
+          <h3 className="text-lg font-bold text-gray-900 flex items-center gap-2">
+            <Ban className="w-5 h-5 text-red-600" />
+            Revoke Document
+          </h3>
+          <button onClick={onClose} disabled={loading} className="text-gray-500 hover:text-gray-700">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <p className="text-sm text-gray-600 mb-4">
+          Revoking <span className="font-semibold text-gray-900">{filename}</span> is permanent. Anyone who
+          verifies it afterwards will see it as revoked, with the reason below.
+        </p>
+
+        <label className="block text-sm font-medium text-gray-700 mb-2">Reason</label>
+        <textarea
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          maxLength={500}
+          rows={3}
+          placeholder="e.g. Issued in error, replaced by corrected certificate"
+          className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent outline-none transition"
+          disabled={loading}
+        />
+
+        {error && (
+          <div className="flex items-center gap-3 bg-red-50 border border-red-200 rounded-lg p-3 mt-4">
+            <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0" />
+            <p className="text-sm text-red-700">{error}</p>
+          </div>
+        )}
+
+        <div className="flex gap-3 mt-6">
+          <button
+            onClick={onClose}
+            disabled={loading}
+            className="flex-1 px-4 py-2 text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg font-medium transition disabled:opacity-50"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleRevoke}
+            disabled={!reason.trim() || loading}
+            className="flex-1 flex items-center justify-center gap-2 px-4 py-2 bg-red-600 text-white hover:bg-red-700 rounded-lg font-semibold transition disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {loading ? <Loader className="w-4 h-4 animate-spin" /> : <Ban className="w-4 h-4" />}
+            Revoke
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,209 @@
+import { Loader, CheckCircle, AlertCircle, ExternalLink, Download, Ban, Award } from "lucide-react";
+import type { VerifyResult } from "../utils/api";
+import { formatFileSize, formatHash, formatDate, hashAlgorithmLabel } from "../utils/crypto";
+import { describeFinality, getStatusColor } from "../utils/status";
+import { RevisionTimeline } from "./RevisionTimeline";
+
+interface Props {
+  result: VerifyResult;
+  onDownloadReceipt?: () => void;
+  downloadingReceipt?: boolean;
+  onDownloadCertificate?: () => void;
+  downloadingCertificate?: boolean;
+}
+
+function getStatusIcon(status: string) {
+  switch (status) {
+    case "verified":
+      return <CheckCircle className="w-6 h-6 text-green-600" />;
+    case "tampered":
+      return <AlertCircle className="w-6 h-6 text-red-600" />;
+    case "not_found":
+      return <AlertCircle className="w-6 h-6 text-yellow-600" />;
+    case "revoked":
+      return <Ban className="w-6 h-6 text-rose-600" />;
+    default:
+      return null;
+  }
+}
+
+export function VerificationResultCard({
+  result,
+  onDownloadReceipt,
+  downloadingReceipt,
+  onDownloadCertificate,
+  downloadingCertificate,
+}: Props) {
+  return (
+    <div className={`border-2 rounded-lg p-6 flex gap-4 ${getStatusColor(result.status)}`}>
+      <div className="flex-shrink-0">{getStatusIcon(result.status)}</div>
+      <div className="flex-1">
+        <p className="font-bold text-lg mb-2 capitalize">{result.status}</p>
+        <p className="text-sm mb-4">{result.message}</p>
+
+        {result.document && (
+          <div className="bg-white bg-opacity-50 rounded p-3 mb-4 text-sm space-y-2">
+            <div>
+              <span className="font-semibold">Filename:</span> {result.document.filename}
+            </div>
+            <div>
+              <span className="font-semibold">Size:</span>{" "}
+              {formatFileSize(result.document.file_size)}
+            </div>
+            <div>
+              <span className="font-semibold">Type:</span> {result.document.mime_type}
+            </div>
+            {result.document.version !== undefined && (
+              <div>
+                <span className="font-semibold">Version:</span> {result.document.version}
+              </div>
+            )}
+            {result.document.digests && result.document.digests.length > 0 && (
+              <div>
+                <span className="font-semibold">Registered digests:</span>
+                <div className="mt-1 space-y-1">
+                  {result.document.digests.map((d) => (
+                    <div key={d.algorithm} className="flex items-center gap-2 text-xs">
+                      <span className="w-20">{hashAlgorithmLabel(d.algorithm)}</span>
+                      <code className="bg-black bg-opacity-10 px-2 py-0.5 rounded font-mono">
+                        {formatHash(d.digest)}
+                      </code>
+                      {d.algorithm === result.document?.hash_algorithm && (
+                        <span className="opacity-75">anchored</span>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
+        {result.blockchain && (
+          <div className="bg-white bg-opacity-50 rounded p-3 text-sm space-y-2">
+            <div className="font-semibold mb-2">Blockchain Details</div>
+            <div className="flex items-center gap-2">
+              <span className="font-semibold">Transaction:</span>
+              {result.blockchain.transaction_hash ? (
+                <>
+                  <code className="text-xs bg-black bg-opacity-10 px-2 py-1 rounded font-mono">
+                    {formatHash(result.blockchain.transaction_hash)}
+                  </code>
+                  <ExternalLink className="w-3 h-3 opacity-60" />
+                </>
+              ) : (
+                "Pending"
+              )}
+            </div>
+            <div>
+              <span className="font-semibold">Block:</span>{" "}
+              {result.blockchain.block_number ? `#${result.blockchain.block_number}` : "Pending"}
+            </div>
+            <div>
+              <span className="font-semibold">Owner:</span>
+              <code className="text-xs bg-black bg-opacity-10 px-2 py-1 rounded font-mono ml-1">
+                {formatHash(result.blockchain.owner_address)}
+              </code>
+            </div>
+            <div>
+              <span className="font-semibold">Timestamp:</span>{" "}
+              {result.blockchain.block_timestamp ? formatDate(result.blockchain.block_timestamp) : "Pending"}
+            </div>
+            <div>
+              <span className="font-semibold">Status:</span>
+              <span className="ml-2 inline-block px-2 py-1 bg-blue-600 text-white text-xs rounded font-semibold">
+                {result.blockchain.status}
+              </span>
+              {result.blockchain.status === "confirmed" && (
+                <span className="ml-2 text-xs opacity-75">{describeFinality(result.blockchain)}, not yet final</span>
+              )}
+            </div>
+            {result.proof && (
+              <>
+                <div className="flex items-center gap-2">
+                  <span className="font-semibold">Merkle Root:</span>
+                  <code className="text-xs bg-black bg-opacity-10 px-2 py-1 rounded font-mono">
+                    {formatHash(result.proof.merkle_root)}
+                  </code>
+                </div>
+                <div>
+                  <span className="font-semibold">Inclusion Proof:</span> leaf #
+                  {result.proof.leaf_index}, {result.proof.sibling_path.length} sibling
+                  {result.proof.sibling_path.length === 1 ? "" : "s"}
+                  {result.status === "verified" && " (recomputed locally)"}
+                </div>
+              </>
+            )}
+          </div>
+        )}
+
+        {result.revocation && (
+          <div className="bg-white bg-opacity-50 rounded p-3 mt-4 text-sm space-y-2">
+            <div className="font-semibold mb-2">Revocation</div>
+            <div>
+              <span className="font-semibold">Revoked:</span> {formatDate(result.revocation.revoked_at)}
+            </div>
+            <div>
+              <span className="font-semibold">Reason:</span> {result.revocation.reason}
+            </div>
+            <div>
+              <span className="font-semibold">Revoked by:</span>
+              <code className="text-xs bg-black bg-opacity-10 px-2 py-1 rounded font-mono ml-1">
+                {formatHash(result.revocation.revoked_by)}
+              </code>
+            </div>
+            <div>
+              <span className="font-semibold">Revocation transaction:</span>{" "}
+              {result.revocation.transaction_hash ? (
+                <code className="text-xs bg-black bg-opacity-10 px-2 py-1 rounded font-mono">
+                  {formatHash(result.revocation.transaction_hash)}
+                </code>
+              ) : (
+                "pending"
+              )}
+            </div>
+          </div>
+        )}
+
+        {result.lineage && result.lineage.versions.length > 1 && (
+          <div className="mt-4">
+            <RevisionTimeline lineage={result.lineage} />
+          </div>
+        )}
+
+        {result.status === "verified" && result.document && (onDownloadReceipt || onDownloadCertificate) && (
+          <div className="mt-4 flex flex-wrap gap-2">
+            {onDownloadReceipt && (
+              <button
+                onClick={onDownloadReceipt}
+                disabled={downloadingReceipt}
+                className="flex items-center gap-2 px-4 py-2 bg-white text-green-800 border border-green-300 hover:bg-green-100 rounded-lg text-sm font-medium transition disabled:opacity-50"
+              >
+                {downloadingReceipt ? (
+                  <Loader className="w-4 h-4 animate-spin" />
+                ) : (
+                  <Download className="w-4 h-4" />
+                )}
+                Download Receipt
+              </button>
+            )}
+            {onDownloadCertificate && (
+              <button
+                onClick={onDownloadCertificate}
+                disabled={downloadingCertificate}
+                className="flex items-center gap-2 px-4 py-2 bg-white text-green-800 border border-green-300 hover:bg-green-100 rounded-lg text-sm font-medium transition disabled:opacity-50"
+              >
+                {downloadingCertificate ? (
+                  <Loader className="w-4 h-4 animate-spin" />
+                ) : (
+                  <Award className="w-4 h-4" />
+                )}
+                Download Certificate
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
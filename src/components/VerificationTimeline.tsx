@@ -0,0 +1,89 @@
+import { CheckCircle, AlertCircle, Ban, Loader } from "lucide-react";
+import type { VerificationEvent } from "../utils/api";
+import { formatHash, formatDate, hashAlgorithmLabel } from "../utils/crypto";
+
+interface Props {
+  events: VerificationEvent[];
+  total: number;
+  hasMore: boolean;
+  loadingMore: boolean;
+  onLoadMore: () => void;
+}
+
+const STATUS_STYLES: Record<VerificationEvent["status"], { dot: string; label: string }> = {
+  verified: { dot: "bg-green-600", label: "Verified" },
+  tampered: { dot: "bg-red-600", label: "Hash mismatch" },
+  not_found: { dot: "bg-yellow-500", label: "Not found" },
+  revoked: { dot: "bg-rose-600", label: "Checked after revocation" },
+};
+
+function StatusIcon({ status }: { status: VerificationEvent["status"] }) {
+  if (status === "verified") return <CheckCircle className="w-3 h-3 text-white" />;
+  if (status === "revoked") return <Ban className="w-3 h-3 text-white" />;
+  return <AlertCircle className="w-3 h-3 text-white" />;
+}
+
+export function VerificationTimeline({ events, total, hasMore, loadingMore, onLoadMore }: Props) {
+  if (events.length === 0) {
+    return (
+      <p className="text-sm text-gray-600">
+        Nobody has checked this document yet. Checks are recorded when a signed-in wallet verifies it.
+      </p>
+    );
+  }
+
+  return (
+    <div>
+      <ol className="relative border-l-2 border-gray-200 ml-2 space-y-5">
+        {events.map((event) => {
+          const style = STATUS_STYLES[event.status] || STATUS_STYLES.not_found;
+          return (
+            <li key={event.id} className="ml-5">
+              <span
+                className={`absolute -left-[9px] flex items-center justify-center w-4 h-4 rounded-full ${style.dot}`}
+              >
+                <StatusIcon status={event.status} />
+              </span>
+              <div className="flex flex-wrap items-baseline justify-between gap-x-4">
+                <span className="font-semibold text-gray-900">{style.label}</span>
+                <span className="text-xs text-gray-500">{formatDate(event.verification_timestamp)}</span>
+              </div>
+              <div className="text-sm text-gray-600 flex flex-wrap gap-x-3 mt-1">
+                <span>
+                  by{" "}
+                  {event.verifier_address ? (
+                    <code className="font-mono text-xs bg-gray-100 px-1 rounded">
+                      {formatHash(event.verifier_address, 6)}
+                    </code>
+                  ) : (
+                    "an anonymous verifier"
+                  )}
+                </span>
+                <span>
+                  {hashAlgorithmLabel(event.hash_algorithm)}{" "}
+                  <code className="font-mono text-xs">{formatHash(event.verified_hash, 6)}</code>
+                </span>
+              </div>
+            </li>
+          );
+        })}
+      </ol>
+
+      <div className="flex items-center justify-between mt-6 text-sm text-gray-600">
+        <span>
+          Showing {events.length} of {total} checks
+        </span>
+        {hasMore && (
+          <button
+            onClick={onLoadMore}
+            disabled={loadingMore}
+            className="flex items-center gap-2 px-4 py-2 text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg font-medium transition disabled:opacity-50"
+          >
+            {loadingMore && <Loader className="w-4 h-4 animate-spin" />}
+            Load older checks
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
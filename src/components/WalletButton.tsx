@@ -0,0 +1,57 @@
+import { useState } from "react";
+import { Wallet, LogOut, Loader } from "lucide-react";
+import { useSession } from "../hooks/useSession";
+import { signInWithEthereum } from "../utils/wallet";
+import { signOut } from "../utils/session";
+import { formatHash } from "../utils/crypto";
+
+export function WalletButton() {
+  const session = useSession();
+  const [signingIn, setSigningIn] = useState(false);
+  const [error, setError] = useState("");
+
+  const handleSignIn = async () => {
+    setSigningIn(true);
+    setError("");
+
+    try {
+      await signInWithEthereum();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Sign-in failed");
+    } finally {
+      setSigningIn(false);
+    }
+  };
+
+  if (session) {
+    return (
+      <div className="flex items-center gap-2">
+        <span className="flex items-center gap-2 px-4 py-2 bg-white border border-gray-200 rounded-lg text-sm">
+          <Wallet className="w-4 h-4 text-blue-600" />
+          <code className="font-mono text-gray-700">{formatHash(session.address, 6)}</code>
+        </span>
+        <button
+          onClick={signOut}
+          title="Sign out"
+          className="p-2 text-gray-600 bg-gray-100 hover:bg-gray-200 rounded-lg transition"
+        >
+          <LogOut className="w-4 h-4" />
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col items-center gap-2">
+      <button
+        onClick={handleSignIn}
+        disabled={signingIn}
+        className="flex items-center gap-2 px-4 py-2 bg-slate-900 text-white hover:bg-slate-800 rounded-lg text-sm font-semibold transition disabled:opacity-50"
+      >
+        {signingIn ? <Loader className="w-4 h-4 animate-spin" /> : <Wallet className="w-4 h-4" />}
+        Sign in with Ethereum
+      </button>
+      {error && <p className="text-xs text-red-600 max-w-xs">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,177 @@
+import { useCallback, useEffect, useState } from "react";
+import { Loader, AlertCircle, RotateCw, RefreshCw } from "lucide-react";
+import { getWebhookDeliveries, redeliverWebhook, type WebhookDelivery } from "../utils/api";
+import { formatDate } from "../utils/crypto";
+
+interface Props {
+  subscriptionId: string;
+}
+
+const PAGE_SIZE = 20;
+
+const STATUS_STYLES: Record<WebhookDelivery["status"], string> = {
+  queued: "bg-yellow-100 text-yellow-800",
+  running: "bg-blue-100 text-blue-800",
+  succeeded: "bg-green-100 text-green-800",
+  dead: "bg-red-100 text-red-800",
+};
+
+export function WebhookDeliveries({ subscriptionId }: Props) {
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [redelivering, setRedelivering] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [error, setError] = useState("");
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError("");
+
+    try {
+      const data = await getWebhookDeliveries(subscriptionId, PAGE_SIZE, 0);
+      setDeliveries(data.deliveries);
+      setHasMore(data.pagination.hasMore);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load deliveries");
+    } finally {
+      setLoading(false);
+    }
+  }, [subscriptionId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const handleLoadMore = async () => {
+    setLoadingMore(true);
+
+    try {
+      const data = await getWebhookDeliveries(subscriptionId, PAGE_SIZE, deliveries.length);
+      setDeliveries((prev) => [...prev, ...data.deliveries]);
+      setHasMore(data.pagination.hasMore);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load deliveries");
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const handleRedeliver = async (delivery: WebhookDelivery) => {
+    setRedelivering(delivery.id);
+    setError("");
+
+    try {
+      await redeliverWebhook(delivery.id);
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to redeliver");
+    } finally {
+      setRedelivering(null);
+    }
+  };
+
+  if (loading && deliveries.length === 0) {
+    return (
+      <div className="flex justify-center py-6">
+        <Loader className="w-6 h-6 text-blue-600 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-semibold text-gray-900">Recent deliveries</h4>
+        <button
+          onClick={load}
+          disabled={loading}
+          className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-700 disabled:opacity-50"
+        >
+          <RefreshCw className={`w-4 h-4 ${loading ? "animate-spin" : ""}`} />
+          Refresh
+        </button>
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-3 bg-red-50 border border-red-200 rounded-lg p-3">
+          <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0" />
+          <p className="text-sm text-red-700">{error}</p>
+        </div>
+      )}
+
+      {deliveries.length === 0 ? (
+        <p className="text-sm text-gray-600">No events have been sent to this endpoint yet.</p>
+      ) : (
+        <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg bg-white">
+          {deliveries.map((delivery) => (
+            <li key={delivery.id} className="p-3 text-sm">
+              <div className="flex flex-wrap items-center gap-3">
+                <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${STATUS_STYLES[delivery.status]}`}>
+                  {delivery.status}
+                </span>
+                <button
+                  onClick={() => setExpanded(expanded === delivery.id ? null : delivery.id)}
+                  className="font-mono text-gray-900 hover:text-blue-600"
+                >
+                  {delivery.event_type}
+                </button>
+                <span className="text-gray-500">
+                  {delivery.attempts}/{delivery.max_attempts} attempts
+                  {delivery.response_status !== null && ` · HTTP ${delivery.response_status}`}
+                  {delivery.redelivery_of && " · redelivery"}
+                </span>
+                <span className="text-xs text-gray-500 ml-auto">{formatDate(delivery.created_at)}</span>
+                <button
+                  onClick={() => handleRedeliver(delivery)}
+                  disabled={redelivering === delivery.id}
+                  title="Send this event again"
+                  className="flex items-center gap-1 px-2 py-1 text-xs text-blue-600 bg-blue-50 hover:bg-blue-100 rounded font-medium transition disabled:opacity-50"
+                >
+                  {redelivering === delivery.id ? (
+                    <Loader className="w-3 h-3 animate-spin" />
+                  ) : (
+                    <RotateCw className="w-3 h-3" />
+                  )}
+                  Redeliver
+                </button>
+              </div>
+
+              {delivery.last_error && (
+                <p className="text-xs text-red-700 mt-1">
+                  {delivery.last_error}
+                  {delivery.status === "queued" && ` · next attempt ${formatDate(delivery.run_after)}`}
+                </p>
+              )}
+
+              {expanded === delivery.id && (
+                <div className="mt-2 space-y-2">
+                  <pre className="text-xs bg-gray-50 border border-gray-200 rounded p-2 overflow-x-auto">
+                    {JSON.stringify(delivery.payload, null, 2)}
+                  </pre>
+                  {delivery.response_body && (
+                    <pre className="text-xs bg-gray-50 border border-gray-200 rounded p-2 overflow-x-auto whitespace-pre-wrap">
+                      {delivery.response_body}
+                    </pre>
+                  )}
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {hasMore && (
+        <button
+          onClick={handleLoadMore}
+          disabled={loadingMore}
+          className="w-full flex items-center justify-center gap-2 px-4 py-2 text-sm text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg font-medium transition disabled:opacity-50"
+        >
+          {loadingMore && <Loader className="w-4 h-4 animate-spin" />}
+          Load older deliveries
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,281 @@
+import { useCallback, useEffect, useState } from "react";
+import { Webhook, Loader, AlertCircle, Plus, Trash2, KeyRound, Copy, Check, ChevronDown, ChevronUp } from "lucide-react";
+import {
+  createWebhook,
+  deleteWebhook,
+  getWebhooks,
+  updateWebhook,
+  WEBHOOK_EVENTS,
+  type WebhookEvent,
+  type WebhookSubscription,
+} from "../utils/api";
+import { useSession } from "../hooks/useSession";
+import { WebhookDeliveries } from "./WebhookDeliveries";
+
+export function WebhookSettings() {
+  const session = useSession();
+  const [subscriptions, setSubscriptions] = useState<WebhookSubscription[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState("");
+  const [url, setUrl] = useState("");
+  const [description, setDescription] = useState("");
+  const [events, setEvents] = useState<WebhookEvent[]>([]);
+  // Secrets are only returned once, so the latest one stays on screen until dismissed.
+  const [revealed, setRevealed] = useState<{ id: string; secret: string } | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [open, setOpen] = useState<string | null>(null);
+
+  const address = session?.address;
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError("");
+
+    try {
+      const data = await getWebhooks();
+      setSubscriptions(data.subscriptions);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load webhooks");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    setSubscriptions([]);
+    setRevealed(null);
+    if (address) load();
+  }, [address, load]);
+
+  const toggleEvent = (event: WebhookEvent) => {
+    setEvents((prev) => (prev.includes(event) ? prev.filter((e) => e !== event) : [...prev, event]));
+  };
+
+  const reveal = (subscription: WebhookSubscription) => {
+    if (subscription.secret) {
+      setRevealed({ id: subscription.id, secret: subscription.secret });
+      setCopied(false);
+    }
+  };
+
+  const handleCreate = async () => {
+    setSaving(true);
+    setError("");
+
+    try {
+      const { subscription } = await createWebhook({
+        url: url.trim(),
+        events,
+        description: description.trim() || undefined,
+      });
+      reveal(subscription);
+      setUrl("");
+      setDescription("");
+      setEvents([]);
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to create webhook");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleUpdate = async (subscription: WebhookSubscription, changes: Parameters<typeof updateWebhook>[1]) => {
+    setBusy(subscription.id);
+    setError("");
+
+    try {
+      const { subscription: updated } = await updateWebhook(subscription.id, changes);
+      reveal(updated);
+      setSubscriptions((prev) => prev.map((s) => (s.id === updated.id ? { ...updated, secret: undefined } : s)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update webhook");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleDelete = async (subscription: WebhookSubscription) => {
+    if (!window.confirm(`Delete the webhook for ${subscription.url}? Its delivery log is deleted too.`)) return;
+
+    setBusy(subscription.id);
+    setError("");
+
+    try {
+      await deleteWebhook(subscription.id);
+      setSubscriptions((prev) => prev.filter((s) => s.id !== subscription.id));
+      if (revealed?.id === subscription.id) setRevealed(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete webhook");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!revealed) return;
+    await navigator.clipboard.writeText(revealed.secret);
+    setCopied(true);
+  };
+
+  if (!session) {
+    return (
+      <div className="w-full max-w-4xl mx-auto">
+        <div className="flex items-center gap-3 bg-blue-50 border border-blue-200 rounded-lg p-4">
+          <AlertCircle className="w-5 h-5 text-blue-600 flex-shrink-0" />
+          <p className="text-sm text-blue-800">
+            Sign in with your Ethereum wallet to manage webhooks. Events are sent for the documents your address
+            owns.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-full max-w-4xl mx-auto space-y-6">
+      <div className="bg-white rounded-lg shadow-lg border border-gray-200 p-8 space-y-4">
+        <h2 className="text-2xl font-bold text-gray-900 flex items-center gap-2">
+          <Webhook className="w-6 h-6 text-blue-600" />
+          Webhooks
+        </h2>
+        <p className="text-sm text-gray-600">
+          Each event concerning your documents is posted as signed JSON to your endpoints. Failed deliveries are
+          retried with backoff.
+        </p>
+
+        <div className="space-y-3">
+          <input
+            type="url"
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+            placeholder="https://example.com/hooks/documents"
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition"
+            disabled={saving}
+          />
+          <input
+            type="text"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            maxLength={200}
+            placeholder="Description (optional)"
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition"
+            disabled={saving}
+          />
+          <div className="flex flex-wrap gap-x-4 gap-y-2">
+            {WEBHOOK_EVENTS.map((event) => (
+              <label key={event} className="flex items-center gap-2 text-sm text-gray-700">
+                <input type="checkbox" checked={events.includes(event)} onChange={() => toggleEvent(event)} />
+                <span className="font-mono">{event}</span>
+              </label>
+            ))}
+          </div>
+          <p className="text-xs text-gray-500">Leave every event unchecked to receive all of them.</p>
+          <button
+            onClick={handleCreate}
+            disabled={!url.trim() || saving}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white hover:bg-blue-700 rounded-lg font-semibold transition disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {saving ? <Loader className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+            Add Webhook
+          </button>
+        </div>
+
+        {revealed && (
+          <div className="bg-green-50 border border-green-200 rounded-lg p-4 space-y-2">
+            <p className="text-sm text-green-800">
+              Signing secret for this endpoint. Store it now; it will not be shown again.
+            </p>
+            <div className="flex items-center gap-2">
+              <code className="flex-1 font-mono text-xs bg-white border border-green-200 rounded px-2 py-1 break-all">
+                {revealed.secret}
+              </code>
+              <button
+                onClick={handleCopy}
+                className="flex items-center gap-1 px-3 py-1 text-sm text-green-700 bg-white border border-green-200 hover:bg-green-100 rounded-lg font-medium transition"
+              >
+                {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+                {copied ? "Copied" : "Copy"}
+              </button>
+              <button onClick={() => setRevealed(null)} className="text-sm text-gray-600 hover:text-gray-800">
+                Dismiss
+              </button>
+            </div>
+          </div>
+        )}
+
+        {error && (
+          <div className="flex items-center gap-3 bg-red-50 border border-red-200 rounded-lg p-4">
+            <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0" />
+            <p className="text-sm text-red-700">{error}</p>
+          </div>
+        )}
+      </div>
+
+      {loading && subscriptions.length === 0 ? (
+        <div className="flex justify-center py-12">
+          <Loader className="w-8 h-8 text-blue-600 animate-spin" />
+        </div>
+      ) : (
+        subscriptions.map((subscription) => (
+          <div key={subscription.id} className="bg-white rounded-lg shadow border border-gray-200 p-6 space-y-4">
+            <div className="flex flex-wrap items-start justify-between gap-4">
+              <div className="min-w-0">
+                <p className="font-mono text-sm text-gray-900 break-all">{subscription.url}</p>
+                {subscription.description && <p className="text-sm text-gray-600 mt-1">{subscription.description}</p>}
+                <div className="flex flex-wrap gap-1 mt-2">
+                  {(subscription.events.length ? subscription.events : ["all events"]).map((event) => (
+                    <span key={event} className="px-2 py-0.5 rounded bg-gray-100 text-xs font-mono text-gray-700">
+                      {event}
+                    </span>
+                  ))}
+                </div>
+              </div>
+
+              <div className="flex items-center gap-2">
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={subscription.active}
+                    disabled={busy === subscription.id}
+                    onChange={(e) => handleUpdate(subscription, { active: e.target.checked })}
+                  />
+                  Active
+                </label>
+                <button
+                  onClick={() => handleUpdate(subscription, { rotate_secret: true })}
+                  disabled={busy === subscription.id}
+                  title="Replace the signing secret"
+                  className="flex items-center gap-1 px-3 py-1 text-sm text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg font-medium transition disabled:opacity-50"
+                >
+                  <KeyRound className="w-4 h-4" />
+                  Rotate Secret
+                </button>
+                <button
+                  onClick={() => handleDelete(subscription)}
+                  disabled={busy === subscription.id}
+                  className="flex items-center gap-1 px-3 py-1 text-sm text-red-700 bg-red-50 hover:bg-red-100 rounded-lg font-medium transition disabled:opacity-50"
+                >
+                  <Trash2 className="w-4 h-4" />
+                  Delete
+                </button>
+              </div>
+            </div>
+
+            <button
+              onClick={() => setOpen(open === subscription.id ? null : subscription.id)}
+              className="flex items-center gap-1 text-sm font-medium text-blue-600 hover:text-blue-700"
+            >
+              {open === subscription.id ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+              Delivery log
+            </button>
+
+            {open === subscription.id && <WebhookDeliveries subscriptionId={subscription.id} />}
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,23 @@
+import { useEffect, useRef } from "react";
+import { subscribeRegistryChanges, type ChangeFilter, type RegistryChange } from "../utils/realtime";
+
+// Subscribes while mounted and `enabled`; the latest `onChange` is always
+// called, so callers need not memoize it.
+export function useRegistryChanges(
+  onChange: (change: RegistryChange) => void,
+  filter: ChangeFilter = {},
+  enabled: boolean = true
+) {
+  const handlerRef = useRef(onChange);
+
+  useEffect(() => {
+    handlerRef.current = onChange;
+  });
+
+  const { document_id, file_hash } = filter;
+
+  useEffect(() => {
+    if (!enabled) return;
+    return subscribeRegistryChanges((change) => handlerRef.current(change), { document_id, file_hash });
+  }, [enabled, document_id, file_hash]);
+}
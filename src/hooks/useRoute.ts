@@ -0,0 +1,6 @@
+import { useSyncExternalStore } from "react";
+import { getPath, parseRoute, subscribeRoute } from "../utils/router";
+
+export function useRoute() {
+  return parseRoute(useSyncExternalStore(subscribeRoute, getPath));
+}
@@ -0,0 +1,7 @@
+import { useMemo, useSyncExternalStore } from "react";
+import { getSearch, subscribeRoute } from "../utils/router";
+
+export function useSearchParams() {
+  const search = useSyncExternalStore(subscribeRoute, getSearch);
+  return useMemo(() => new URLSearchParams(search), [search]);
+}
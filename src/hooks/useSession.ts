@@ -0,0 +1,6 @@
+import { useSyncExternalStore } from "react";
+import { getSession, subscribeSession } from "../utils/session";
+
+export function useSession() {
+  return useSyncExternalStore(subscribeSession, getSession);
+}
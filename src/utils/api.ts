@@ -1,98 +1,247 @@
+import { getSession, setSession, type WalletSession } from "./session";
+import {
+  ApiError,
+  DocVerifyClient,
+  EXPORT_COLUMNS,
+  isAnchored,
+  WEBHOOK_EVENTS,
+  type AnchorStatus,
+  type ApiKeyScope,
+  type BatchRegisterItem,
+  type DocumentDetails,
+  type DocumentQuery,
+  type ExportColumn,
+  type ExportFormat,
+  type Lineage,
+  type LookupRequest,
+  type RegisterRequest,
+  type RegistryDocument,
+  type VerificationEvent,
+  type VerifyRequest,
+  type VerifyResponse,
+  type VerifyResult,
+  type WebhookEventType,
+} from "../../packages/client/src";
+
 const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
 const SUPABASE_ANON_KEY = import.meta.env.VITE_SUPABASE_ANON_KEY;
 
-const API_BASE = `${SUPABASE_URL}/functions/v1`;
+const client = new DocVerifyClient({
+  url: SUPABASE_URL,
+  anonKey: SUPABASE_ANON_KEY,
+  accessToken: () => getSession()?.access_token,
+  onSessionRejected: () => setSession(null),
+});
+
+// Sign-in always goes out with just the anon key, whatever session is stored.
+const anonymousClient = new DocVerifyClient({ url: SUPABASE_URL, anonKey: SUPABASE_ANON_KEY });
+
+export { ApiError, EXPORT_COLUMNS, isAnchored, WEBHOOK_EVENTS };
+export type {
+  AnchorStatus,
+  ApiKeyScope,
+  BatchRegisterItem,
+  DocumentDetails,
+  DocumentQuery,
+  ExportColumn,
+  ExportFormat,
+  Lineage,
+  LookupRequest,
+  RegisterRequest,
+  RegistryDocument,
+  VerificationEvent,
+  VerifyRequest,
+  VerifyResponse,
+  VerifyResult,
+};
+
+export function registerDocument(payload: RegisterRequest) {
+  return client.register(payload);
+}
+
+export function registerDocuments(documents: RegisterRequest[]) {
+  return client.registerBatch(documents);
+}
+
+export function verifyDocument(payload: LookupRequest) {
+  return client.verify(payload);
+}
+
+export function verifyDocuments(documents: VerifyRequest[]) {
+  return client.verifyBatch(documents);
+}
 
-interface RegisterPayload {
-  filename: string;
-  file_hash: string;
-  file_size: number;
-  mime_type: string;
-  uploader_address: string;
-  tags?: string[];
+// Pages through the registry; pass the previous page's `pagination.next_cursor`
+// (with the same query) to continue.
+export function getDocuments(query: DocumentQuery = {}, limit: number = 50, cursor?: string) {
+  return client.getDocuments(query, { limit, cursor });
 }
 
-interface VerifyPayload {
-  file_hash: string;
-  verifier_address?: string;
+export function getDocument(documentId: string, limit: number = 20, offset: number = 0) {
+  return client.getDocument(documentId, { limit, offset });
 }
 
-export async function registerDocument(payload: RegisterPayload) {
-  const response = await fetch(`${API_BASE}/register-document`, {
+// Exports every document matching `query`. Leaving out `columns` gives the
+// default CSV columns, and whole documents for JSON and NDJSON.
+export async function exportProofs(format: ExportFormat = "csv", query: DocumentQuery = {}, columns?: ExportColumn[]) {
+  const response = await client.exportProofs({ format, query, columns });
+  return response.blob();
+}
+
+export function getReceipt(documentId: string) {
+  return client.getReceipt(documentId);
+}
+
+export function requestSiweNonce(): Promise<{ nonce: string; expires_at: string }> {
+  return anonymousClient.requestJson("siwe-nonce", { method: "POST", fallback: "Failed to start sign-in" });
+}
+
+export function submitSiweSignature(message: string, signature: string) {
+  return anonymousClient.requestJson<WalletSession>("siwe-verify", {
     method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${SUPABASE_ANON_KEY}`,
-    },
-    body: JSON.stringify(payload),
+    body: JSON.stringify({ message, signature }),
+    fallback: "Sign-in failed",
   });
+}
+
+export function revokeDocument(documentId: string, reason: string) {
+  return client.revoke({ document_id: documentId, reason });
+}
 
-  if (!response.ok) {
-    const error = await response.json();
-    throw new Error(error.error || "Failed to register document");
-  }
+export type WebhookEvent = WebhookEventType;
+
+export interface WebhookSubscription {
+  id: string;
+  url: string;
+  events: WebhookEvent[];
+  description: string | null;
+  active: boolean;
+  created_at: string;
+  updated_at: string;
+  // Only present right after the subscription is created or its secret rotated.
+  secret?: string;
+}
 
-  return response.json();
+export interface WebhookDelivery {
+  id: string;
+  subscription_id: string;
+  event_id: string;
+  event_type: WebhookEvent;
+  payload: Record<string, unknown>;
+  status: "queued" | "running" | "succeeded" | "dead";
+  attempts: number;
+  max_attempts: number;
+  run_after: string;
+  response_status: number | null;
+  response_body: string | null;
+  last_error: string | null;
+  redelivery_of: string | null;
+  created_at: string;
+  completed_at: string | null;
+  url: string;
 }
 
-export async function verifyDocument(payload: VerifyPayload) {
-  const response = await fetch(`${API_BASE}/verify-document`, {
+export interface WebhookSubscriptionInput {
+  url?: string;
+  events?: WebhookEvent[];
+  description?: string;
+  active?: boolean;
+  rotate_secret?: boolean;
+}
+
+export function getWebhooks(): Promise<{ subscriptions: WebhookSubscription[] }> {
+  return client.requestJson("webhooks", { method: "GET", fallback: "Failed to fetch webhooks" });
+}
+
+export function createWebhook(input: WebhookSubscriptionInput): Promise<{ subscription: WebhookSubscription }> {
+  return client.requestJson("webhooks", {
     method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${SUPABASE_ANON_KEY}`,
-    },
-    body: JSON.stringify(payload),
+    body: JSON.stringify(input),
+    fallback: "Failed to create webhook",
   });
+}
 
-  if (!response.ok) {
-    const error = await response.json();
-    throw new Error(error.error || "Failed to verify document");
-  }
+export function updateWebhook(
+  subscriptionId: string,
+  input: WebhookSubscriptionInput
+): Promise<{ subscription: WebhookSubscription }> {
+  return client.requestJson("webhooks", {
+    method: "PUT",
+    body: JSON.stringify({ subscription_id: subscriptionId, ...input }),
+    fallback: "Failed to update webhook",
+  });
+}
 
-  return response.json();
+export function deleteWebhook(subscriptionId: string) {
+  const params = new URLSearchParams({ subscription_id: subscriptionId });
+  return client.requestJson(`webhooks?${params.toString()}`, { method: "DELETE", fallback: "Failed to delete webhook" });
 }
 
-export async function getDocuments(
-  status?: string,
-  limit: number = 50,
+export function getWebhookDeliveries(
+  subscriptionId: string,
+  limit: number = 20,
   offset: number = 0
-) {
-  const params = new URLSearchParams();
-  if (status) params.append("status", status);
-  params.append("limit", limit.toString());
-  params.append("offset", offset.toString());
+): Promise<{ deliveries: WebhookDelivery[]; pagination: { total: number; hasMore: boolean } }> {
+  const params = new URLSearchParams({
+    subscription_id: subscriptionId,
+    limit: limit.toString(),
+    offset: offset.toString(),
+  });
 
-  const response = await fetch(`${API_BASE}/get-documents?${params.toString()}`, {
+  return client.requestJson(`webhook-deliveries?${params.toString()}`, {
     method: "GET",
-    headers: {
-      Authorization: `Bearer ${SUPABASE_ANON_KEY}`,
-    },
+    fallback: "Failed to fetch webhook deliveries",
   });
+}
 
-  if (!response.ok) {
-    const error = await response.json();
-    throw new Error(error.error || "Failed to fetch documents");
-  }
+export function redeliverWebhook(deliveryId: string) {
+  return client.requestJson("webhook-deliveries", {
+    method: "POST",
+    body: JSON.stringify({ delivery_id: deliveryId }),
+    fallback: "Failed to redeliver webhook",
+  });
+}
 
-  return response.json();
+export const API_KEY_SCOPES: Array<{ id: ApiKeyScope; label: string }> = [
+  { id: "register", label: "Register and revoke documents" },
+  { id: "verify", label: "Verify documents" },
+  { id: "export", label: "Export proofs" },
+  { id: "read", label: "Read the registry and receipts" },
+];
+
+export interface ApiKey {
+  id: string;
+  name: string;
+  key_prefix: string;
+  scopes: ApiKeyScope[];
+  rate_limit_per_minute: number;
+  request_count: number;
+  requests_last_hour?: number;
+  requests_last_day?: number;
+  last_used_at: string | null;
+  revoked_at: string | null;
+  created_at: string;
+  // Only present in the response that creates the key.
+  key?: string;
 }
 
-export async function exportProofs(format: "csv" | "json" = "csv", status?: string) {
-  const params = new URLSearchParams();
-  params.append("format", format);
-  if (status) params.append("status", status);
+export function getApiKeys(): Promise<{ keys: ApiKey[] }> {
+  return client.requestJson("api-keys", { method: "GET", fallback: "Failed to fetch API keys" });
+}
 
-  const response = await fetch(`${API_BASE}/export-proofs?${params.toString()}`, {
-    method: "GET",
-    headers: {
-      Authorization: `Bearer ${SUPABASE_ANON_KEY}`,
-    },
+export function createApiKey(
+  name: string,
+  scopes: ApiKeyScope[],
+  rateLimitPerMinute?: number
+): Promise<{ key: ApiKey }> {
+  return client.requestJson("api-keys", {
+    method: "POST",
+    body: JSON.stringify({ name, scopes, rate_limit_per_minute: rateLimitPerMinute }),
+    fallback: "Failed to create API key",
   });
+}
 
-  if (!response.ok) {
-    throw new Error("Failed to export proofs");
-  }
-
-  return response.blob();
+export function revokeApiKey(keyId: string) {
+  const params = new URLSearchParams({ key_id: keyId });
+  return client.requestJson(`api-keys?${params.toString()}`, { method: "DELETE", fallback: "Failed to revoke API key" });
 }
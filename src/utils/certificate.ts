@@ -0,0 +1,113 @@
+import QRCode from "qrcode";
+import { getDocument, isAnchored, type DocumentDetails } from "./api";
+import { formatDate, hashAlgorithmLabel } from "./crypto";
+import { absoluteUrl, documentPath } from "./router";
+import { describeFinality } from "./status";
+
+const PAGE_WIDTH = 210;
+const MARGIN = 20;
+const LABEL_WIDTH = 42;
+const QR_SIZE = 45;
+
+// SHA-256 first, as that is what most readers will check a copy against.
+function orderedDigests(doc: DocumentDetails) {
+  const digests = doc.digests.length ? doc.digests : [{ algorithm: doc.hash_algorithm, digest: doc.file_hash }];
+  return [...digests].sort((a, b) => Number(b.algorithm === "sha256") - Number(a.algorithm === "sha256"));
+}
+
+// Builds a printable PDF certificate for an anchored document, with a QR code
+// linking to its public verification page. jsPDF is loaded on first use.
+export async function createCertificate(documentId: string): Promise<Blob> {
+  const { document: doc } = await getDocument(documentId, 1, 0);
+  const bc = doc.blockchain_record;
+
+  if (!bc || !isAnchored(bc.status) || !bc.transaction_hash) {
+    throw new Error("Document is not yet anchored on chain");
+  }
+
+  const [{ jsPDF }, qr] = await Promise.all([
+    import("jspdf"),
+    QRCode.toDataURL(absoluteUrl(documentPath(doc.id)), { errorCorrectionLevel: "M", margin: 1, width: 512 }),
+  ]);
+
+  const pdf = new jsPDF({ unit: "mm", format: "a4", compress: true });
+  const contentWidth = PAGE_WIDTH - 2 * MARGIN;
+  let y = 30;
+
+  pdf.setDrawColor(37, 99, 235);
+  pdf.setLineWidth(1);
+  pdf.rect(10, 10, PAGE_WIDTH - 20, 277);
+
+  pdf.setFont("helvetica", "bold");
+  pdf.setFontSize(22);
+  pdf.setTextColor(15, 23, 42);
+  pdf.text("Document Verification Certificate", PAGE_WIDTH / 2, y, { align: "center" });
+  y += 10;
+
+  pdf.setFont("helvetica", "normal");
+  pdf.setFontSize(11);
+  pdf.setTextColor(75, 85, 99);
+  pdf.text("The document below was registered and its hash anchored on chain.", PAGE_WIDTH / 2, y, {
+    align: "center",
+  });
+  y += 16;
+
+  const field = (label: string, value: string, monospace = false) => {
+    pdf.setFont("helvetica", "bold");
+    pdf.setFontSize(10);
+    pdf.setTextColor(55, 65, 81);
+    pdf.text(label, MARGIN, y);
+
+    pdf.setFont(monospace ? "courier" : "helvetica", "normal");
+    pdf.setTextColor(17, 24, 39);
+    const lines: string[] = pdf.splitTextToSize(value, contentWidth - LABEL_WIDTH);
+    pdf.text(lines, MARGIN + LABEL_WIDTH, y);
+    y += lines.length * 5 + 4;
+  };
+
+  field("Filename", doc.filename);
+  field("Document ID", doc.id, true);
+  for (const { algorithm, digest } of orderedDigests(doc)) {
+    field(hashAlgorithmLabel(algorithm), digest, true);
+  }
+  field("Registered", formatDate(doc.created_at));
+  field("Transaction", bc.transaction_hash, true);
+  field("Block", `#${bc.block_number}${bc.block_timestamp ? ` (${formatDate(bc.block_timestamp)})` : ""}`);
+  field("Finality", describeFinality(bc));
+  field("Owner", bc.owner_address || doc.uploader_address, true);
+
+  if (doc.status === "revoked") {
+    y += 2;
+    pdf.setFont("helvetica", "bold");
+    pdf.setFontSize(12);
+    pdf.setTextColor(190, 18, 60);
+    pdf.text("REVOKED", MARGIN, y);
+    y += 7;
+    field("Revoked", doc.revoked_at ? formatDate(doc.revoked_at) : "");
+    field("Reason", doc.revocation_reason || "");
+  }
+
+  y = Math.max(y + 6, 200);
+  pdf.addImage(qr, "PNG", (PAGE_WIDTH - QR_SIZE) / 2, y, QR_SIZE, QR_SIZE);
+  y += QR_SIZE + 6;
+
+  pdf.setFont("helvetica", "normal");
+  pdf.setFontSize(9);
+  pdf.setTextColor(75, 85, 99);
+  pdf.text("Scan to check the current status of this document:", PAGE_WIDTH / 2, y, { align: "center" });
+  y += 5;
+  pdf.setFont("courier", "normal");
+  pdf.text(absoluteUrl(documentPath(doc.id)), PAGE_WIDTH / 2, y, { align: "center" });
+
+  pdf.setFont("helvetica", "italic");
+  pdf.setFontSize(8);
+  pdf.text(
+    `Generated ${new Date().toLocaleString()}. This certificate describes the registry record; only hashing the ` +
+      "file itself and comparing it with the registry proves a copy is genuine.",
+    PAGE_WIDTH / 2,
+    278,
+    { align: "center", maxWidth: contentWidth }
+  );
+
+  return pdf.output("blob");
+}
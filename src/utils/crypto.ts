@@ -1,15 +1,112 @@
-export async function computeSHA256(file: File): Promise<string> {
-  const buffer = await file.arrayBuffer();
-  const hashBuffer = await crypto.subtle.digest("SHA-256", buffer);
-  const hashArray = Array.from(new Uint8Array(hashBuffer));
-  const hashHex = hashArray.map((b) => b.toString(16).padStart(2, "0")).join("");
-  return hashHex;
+import { HASH_ALGORITHM_IDS, type HashAlgorithm } from "../../packages/client/src";
+
+export type { HashAlgorithm };
+export { isHashAlgorithm } from "../../supabase/functions/_shared/hashing.ts";
+
+const HASH_ALGORITHM_LABELS: Record<HashAlgorithm, string> = {
+  sha256: "SHA-256",
+  sha512: "SHA-512",
+  "sha3-256": "SHA3-256",
+  keccak256: "Keccak-256",
+  blake3: "BLAKE3",
+};
+
+export const HASH_ALGORITHMS: Array<{ id: HashAlgorithm; label: string }> = HASH_ALGORITHM_IDS.map((id) => ({
+  id,
+  label: HASH_ALGORITHM_LABELS[id],
+}));
+
+export function hashAlgorithmLabel(algorithm: string): string {
+  return HASH_ALGORITHMS.find((a) => a.id === algorithm)?.label || algorithm;
+}
+
+export interface HashProgress {
+  bytesHashed: number;
+  totalBytes: number;
+}
+
+export interface HashOptions {
+  onProgress?: (progress: HashProgress) => void;
+  signal?: AbortSignal;
+}
+
+export interface HashWorkerRequest {
+  file: File;
+  algorithms: HashAlgorithm[];
+}
+
+export type HashWorkerMessage =
+  | ({ type: "progress" } & HashProgress)
+  | { type: "done"; digests: Record<HashAlgorithm, string> }
+  | { type: "error"; message: string };
+
+// Files are hashed chunk by chunk in a worker, so neither the size of the file
+// nor the hashing time weighs on the main thread. Aborting terminates the worker.
+export function computeDigests(
+  file: File,
+  algorithms: HashAlgorithm[],
+  options: HashOptions = {}
+): Promise<Record<HashAlgorithm, string>> {
+  const { onProgress, signal } = options;
+
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException("Hashing cancelled", "AbortError"));
+      return;
+    }
+
+    const worker = new Worker(new URL("./hash.worker.ts", import.meta.url), { type: "module" });
+
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener("abort", onAbort);
+    };
+
+    const onAbort = () => {
+      finish();
+      reject(new DOMException("Hashing cancelled", "AbortError"));
+    };
+
+    signal?.addEventListener("abort", onAbort);
+
+    worker.onmessage = (event: MessageEvent<HashWorkerMessage>) => {
+      const message = event.data;
+      if (message.type === "progress") {
+        onProgress?.({ bytesHashed: message.bytesHashed, totalBytes: message.totalBytes });
+      } else if (message.type === "done") {
+        finish();
+        resolve(message.digests);
+      } else {
+        finish();
+        reject(new Error(message.message));
+      }
+    };
+
+    worker.onerror = (event) => {
+      finish();
+      reject(new Error(event.message || "Failed to hash file"));
+    };
+
+    worker.postMessage({ file, algorithms } as HashWorkerRequest);
+  });
+}
+
+export async function computeDigest(
+  file: File,
+  algorithm: HashAlgorithm,
+  options: HashOptions = {}
+): Promise<string> {
+  return (await computeDigests(file, [algorithm], options))[algorithm];
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === "AbortError";
 }
 
 export function formatFileSize(bytes: number): string {
   if (bytes === 0) return "0 Bytes";
   const k = 1024;
-  const sizes = ["Bytes", "KB", "MB", "GB"];
+  const sizes = ["Bytes", "KB", "MB", "GB", "TB"];
   const i = Math.floor(Math.log(bytes) / Math.log(k));
   return Math.round((bytes / Math.pow(k, i)) * 100) / 100 + " " + sizes[i];
 }
@@ -0,0 +1,35 @@
+import { sha256, sha512 } from "@noble/hashes/sha2";
+import { sha3_256, keccak_256 } from "@noble/hashes/sha3";
+import { blake3 } from "@noble/hashes/blake3";
+import { bytesToHex } from "@noble/hashes/utils";
+import type { HashAlgorithm } from "./crypto";
+
+const hashers = {
+  sha256,
+  sha512,
+  "sha3-256": sha3_256,
+  keccak256: keccak_256,
+  blake3,
+};
+
+// Feeds each chunk to every requested hash, so a file is read once however
+// many digests are wanted. Shared by the hash worker and the CLI.
+export function createDigester(algorithms: HashAlgorithm[]) {
+  const states = algorithms.map((algorithm) => hashers[algorithm].create());
+
+  return {
+    update(chunk: Uint8Array) {
+      for (const state of states) {
+        state.update(chunk);
+      }
+    },
+
+    digests(): Record<HashAlgorithm, string> {
+      const digests = {} as Record<HashAlgorithm, string>;
+      algorithms.forEach((algorithm, i) => {
+        digests[algorithm] = bytesToHex(states[i].digest());
+      });
+      return digests;
+    },
+  };
+}
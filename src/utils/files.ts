@@ -0,0 +1,50 @@
+export interface PickedFile {
+  file: File;
+  path: string;
+}
+
+function readEntries(reader: FileSystemDirectoryReader): Promise<FileSystemEntry[]> {
+  return new Promise((resolve, reject) => reader.readEntries(resolve, reject));
+}
+
+function entryFile(entry: FileSystemFileEntry): Promise<File> {
+  return new Promise((resolve, reject) => entry.file(resolve, reject));
+}
+
+async function walk(entry: FileSystemEntry, out: PickedFile[]): Promise<void> {
+  if (entry.isFile) {
+    out.push({ file: await entryFile(entry as FileSystemFileEntry), path: entry.fullPath.replace(/^\//, "") });
+    return;
+  }
+
+  if (entry.isDirectory) {
+    const reader = (entry as FileSystemDirectoryEntry).createReader();
+    // readEntries returns at most ~100 entries per call; keep reading until empty.
+    for (let batch = await readEntries(reader); batch.length > 0; batch = await readEntries(reader)) {
+      for (const child of batch) {
+        await walk(child, out);
+      }
+    }
+  }
+}
+
+// Flattens dropped files and folders (recursively) into a file list.
+export async function collectDroppedFiles(dataTransfer: DataTransfer): Promise<PickedFile[]> {
+  const entries = Array.from(dataTransfer.items)
+    .map((item) => item.webkitGetAsEntry())
+    .filter((entry): entry is FileSystemEntry => entry !== null);
+
+  if (entries.length === 0) {
+    return Array.from(dataTransfer.files).map((file) => ({ file, path: file.name }));
+  }
+
+  const files: PickedFile[] = [];
+  for (const entry of entries) {
+    await walk(entry, files);
+  }
+  return files;
+}
+
+export function pickedFromInput(list: FileList | null): PickedFile[] {
+  return Array.from(list || []).map((file) => ({ file, path: file.webkitRelativePath || file.name }));
+}
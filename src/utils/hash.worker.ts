@@ -0,0 +1,25 @@
+import type { HashWorkerRequest, HashWorkerMessage } from "./crypto";
+import { createDigester } from "./digester";
+
+const CHUNK_SIZE = 4 * 1024 * 1024;
+
+function post(message: HashWorkerMessage) {
+  self.postMessage(message);
+}
+
+self.onmessage = async (event: MessageEvent<HashWorkerRequest>) => {
+  const { file, algorithms } = event.data;
+
+  try {
+    const digester = createDigester(algorithms);
+
+    for (let offset = 0; offset < file.size; offset += CHUNK_SIZE) {
+      digester.update(new Uint8Array(await file.slice(offset, offset + CHUNK_SIZE).arrayBuffer()));
+      post({ type: "progress", bytesHashed: Math.min(offset + CHUNK_SIZE, file.size), totalBytes: file.size });
+    }
+
+    post({ type: "done", digests: digester.digests() });
+  } catch (error) {
+    post({ type: "error", message: error instanceof Error ? error.message : "Failed to hash file" });
+  }
+};
@@ -0,0 +1,8 @@
+// The registry builds its Merkle trees with the same module, so a proof is
+// checked in the browser exactly the way it was produced.
+export {
+  computeMerkleRoot,
+  verifyInclusion,
+  type InclusionProof as MerkleProof,
+  type MerkleStep,
+} from "../../supabase/functions/_shared/merkle.ts";
@@ -0,0 +1,101 @@
+import type { RealtimePostgresChangesPayload } from "@supabase/supabase-js";
+import type { AnchorStatus, RegistryDocument } from "./api";
+import { supabase } from "./supabase";
+
+export interface DocumentRow {
+  id: string;
+  file_hash: string;
+  status: RegistryDocument["status"];
+  revoked_at: string | null;
+  revocation_reason: string | null;
+}
+
+export interface BlockchainRecordRow {
+  document_id: string;
+  document_hash: string;
+  transaction_hash: string | null;
+  block_number: number | null;
+  block_timestamp: number | null;
+  owner_address: string;
+  status: AnchorStatus;
+  confirmations: number;
+  finalized_at: string | null;
+  revocation_transaction_hash: string | null;
+  revocation_block_number: number | null;
+}
+
+export type RegistryChange =
+  | { table: "documents"; row: DocumentRow }
+  | { table: "blockchain_records"; row: BlockchainRecordRow };
+
+// Narrows a subscription to one document, by ID or by its primary digest
+// (for documents the caller has only seen as a hash). Empty means every row.
+export interface ChangeFilter {
+  document_id?: string;
+  file_hash?: string;
+}
+
+let channelCount = 0;
+
+// Row level security applies, so anonymous subscribers only hear about
+// documents once they are confirmed or revoked; chain records are public.
+export function subscribeRegistryChanges(
+  onChange: (change: RegistryChange) => void,
+  filter: ChangeFilter = {}
+): () => void {
+  const documentFilter = filter.document_id
+    ? `id=eq.${filter.document_id}`
+    : filter.file_hash
+      ? `file_hash=eq.${filter.file_hash}`
+      : undefined;
+  const recordFilter = filter.document_id
+    ? `document_id=eq.${filter.document_id}`
+    : filter.file_hash
+      ? `document_hash=eq.${filter.file_hash}`
+      : undefined;
+
+  const channel = supabase
+    .channel(`registry-changes-${++channelCount}`)
+    .on(
+      "postgres_changes",
+      { event: "UPDATE", schema: "public", table: "documents", filter: documentFilter },
+      (payload: RealtimePostgresChangesPayload<DocumentRow>) => {
+        if (payload.eventType === "UPDATE") onChange({ table: "documents", row: payload.new });
+      }
+    )
+    .on(
+      "postgres_changes",
+      { event: "UPDATE", schema: "public", table: "blockchain_records", filter: recordFilter },
+      (payload: RealtimePostgresChangesPayload<BlockchainRecordRow>) => {
+        if (payload.eventType === "UPDATE") onChange({ table: "blockchain_records", row: payload.new });
+      }
+    )
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
+
+interface ObservedResult {
+  status: string;
+  blockchain?: { status: string };
+  revocation?: { block_number: number | null };
+}
+
+// Whether a change moves a shown verification result forward: the document
+// became visible or confirmed, its anchor was confirmed, finalized or dropped,
+// or its revocation was made or anchored. Callers re-run the verification then
+// rather than on every write, so a growing confirmation count alone does not.
+export function changeAdvancesResult(change: RegistryChange, result: ObservedResult): boolean {
+  if (change.table === "documents") {
+    return (
+      (change.row.status === "confirmed" && result.status === "not_found") ||
+      (change.row.status === "revoked" && result.status !== "revoked")
+    );
+  }
+  return (
+    change.row.status !== (result.blockchain?.status ?? "pending") ||
+    (!!change.row.revocation_block_number && !result.revocation?.block_number)
+  );
+}
@@ -0,0 +1,137 @@
+import { computeDigest, isHashAlgorithm, type HashOptions } from "./crypto";
+import { canonicalize, fromBase64Url } from "../../supabase/functions/_shared/encoding.ts";
+import { verifyInclusion, type MerkleStep } from "./merkle";
+
+export interface Receipt {
+  format: "docverify-receipt";
+  version: number;
+  issued_at: string;
+  document: {
+    id: string;
+    filename: string;
+    file_size: number;
+    mime_type: string;
+    registered_at: string;
+  };
+  hash: {
+    algorithm: string;
+    digest: string;
+  };
+  anchor: {
+    backend: string;
+    chain_id: number | null;
+    registry_address: string | null;
+    transaction_hash: string;
+    block_number: number;
+    block_timestamp: number;
+  };
+  merkle: {
+    algorithm: string;
+    root: string;
+    leaf_index: number;
+    leaf_hash: string;
+    sibling_path: MerkleStep[];
+  } | null;
+  signature: {
+    algorithm: string;
+    key_id: string;
+    public_key: JsonWebKey;
+    value: string;
+  };
+}
+
+export interface ReceiptCheck {
+  hashMatches: boolean;
+  proofValid: boolean | null;
+  // The signature matches the key embedded in the receipt, which anyone can
+  // generate; only `trustedSigner` says whether that key is the registry's.
+  signatureValid: boolean;
+  // Null when no trusted key is configured, in which case the receipt cannot
+  // be verified.
+  trustedSigner: boolean | null;
+  digest: string;
+}
+
+const TRUSTED_RECEIPT_KEY = import.meta.env.VITE_RECEIPT_PUBLIC_KEY as string | undefined;
+
+export function parseReceipt(text: string): Receipt {
+  let parsed: Receipt;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error("Receipt is not valid JSON");
+  }
+
+  if (parsed?.format !== "docverify-receipt" || parsed.version !== 1) {
+    throw new Error("Unsupported receipt format");
+  }
+  if (!parsed.hash?.digest || !parsed.anchor?.transaction_hash || !parsed.signature?.value) {
+    throw new Error("Receipt is missing required fields");
+  }
+  return parsed;
+}
+
+export async function verifyReceiptSignature(receipt: Receipt): Promise<boolean> {
+  if (receipt.signature.algorithm !== "ECDSA-P256-SHA256") return false;
+
+  try {
+    const { signature, ...unsigned } = receipt;
+    const key = await crypto.subtle.importKey(
+      "jwk",
+      signature.public_key,
+      { name: "ECDSA", namedCurve: "P-256" },
+      false,
+      ["verify"]
+    );
+    return await crypto.subtle.verify(
+      { name: "ECDSA", hash: "SHA-256" },
+      key,
+      fromBase64Url(signature.value),
+      new TextEncoder().encode(canonicalize(unsigned))
+    );
+  } catch {
+    return false;
+  }
+}
+
+function isTrustedSigner(receipt: Receipt): boolean | null {
+  if (!TRUSTED_RECEIPT_KEY) return null;
+  try {
+    const trusted = JSON.parse(TRUSTED_RECEIPT_KEY) as JsonWebKey;
+    const key = receipt.signature.public_key;
+    return trusted.crv === key.crv && trusted.x === key.x && trusted.y === key.y;
+  } catch {
+    return false;
+  }
+}
+
+export async function checkFileAgainstReceipt(
+  file: File,
+  receipt: Receipt,
+  options: HashOptions = {}
+): Promise<ReceiptCheck> {
+  if (!isHashAlgorithm(receipt.hash.algorithm)) {
+    throw new Error(`Unsupported hash algorithm: ${receipt.hash.algorithm}`);
+  }
+
+  const digest = await computeDigest(file, receipt.hash.algorithm, options);
+  const hashMatches = digest === receipt.hash.digest.toLowerCase();
+
+  const proofValid = receipt.merkle
+    ? await verifyInclusion(receipt.hash.digest, {
+        merkle_root: receipt.merkle.root,
+        merkle_algorithm: receipt.merkle.algorithm,
+        leaf_index: receipt.merkle.leaf_index,
+        leaf_hash: receipt.merkle.leaf_hash,
+        sibling_path: receipt.merkle.sibling_path,
+      })
+    : null;
+
+  return {
+    hashMatches,
+    proofValid,
+    signatureValid: await verifyReceiptSignature(receipt),
+    trustedSigner: isTrustedSigner(receipt),
+    digest,
+  };
+}
@@ -0,0 +1,76 @@
+export type Route =
+  | { name: "register" }
+  | { name: "verify" }
+  | { name: "registry" }
+  | { name: "webhooks" }
+  | { name: "api-keys" }
+  | { name: "registry-document"; id: string }
+  | { name: "verify-hash"; hash: string }
+  | { name: "document"; id: string };
+
+// Deep links are meant to be printed, so they point at the public deployment
+// when one is configured rather than wherever the link was generated.
+const PUBLIC_URL = (import.meta.env.VITE_PUBLIC_URL || "").replace(/\/$/, "");
+
+const listeners = new Set<() => void>();
+
+window.addEventListener("popstate", () => listeners.forEach((listener) => listener()));
+
+export function parseRoute(pathname: string): Route {
+  const [section, param] = pathname.split("/").filter(Boolean).map(decodeURIComponent);
+
+  if (section === "verify" && param) return { name: "verify-hash", hash: param };
+  if (section === "document" && param) return { name: "document", id: param };
+  if (section === "registry" && param) return { name: "registry-document", id: param };
+  if (section === "verify") return { name: "verify" };
+  if (section === "registry") return { name: "registry" };
+  if (section === "webhooks") return { name: "webhooks" };
+  if (section === "api-keys") return { name: "api-keys" };
+  return { name: "register" };
+}
+
+export function getPath(): string {
+  return window.location.pathname;
+}
+
+export function getSearch(): string {
+  return window.location.search;
+}
+
+export function subscribeRoute(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function navigate(path: string) {
+  if (path === window.location.pathname) return;
+  window.history.pushState(null, "", path);
+  listeners.forEach((listener) => listener());
+}
+
+// Replaces the query string of the current page, for state such as search
+// filters that should survive a reload or a shared link without adding a
+// history entry per keystroke.
+export function replaceSearch(params: URLSearchParams) {
+  const search = params.toString();
+  window.history.replaceState(null, "", `${window.location.pathname}${search ? `?${search}` : ""}`);
+  listeners.forEach((listener) => listener());
+}
+
+export function verifyPath(hash: string): string {
+  return `/verify/${encodeURIComponent(hash)}`;
+}
+
+export function documentPath(id: string): string {
+  return `/document/${encodeURIComponent(id)}`;
+}
+
+export function registryDocumentPath(id: string): string {
+  return `/registry/${encodeURIComponent(id)}`;
+}
+
+export function absoluteUrl(path: string): string {
+  return `${PUBLIC_URL || window.location.origin}${path}`;
+}
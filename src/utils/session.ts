@@ -0,0 +1,48 @@
+export interface WalletSession {
+  access_token: string;
+  expires_at: number;
+  address: string;
+}
+
+const SESSION_KEY = "docverify.session";
+const listeners = new Set<() => void>();
+let currentSession: WalletSession | null = readStoredSession();
+
+function readStoredSession(): WalletSession | null {
+  try {
+    const raw = localStorage.getItem(SESSION_KEY);
+    if (!raw) return null;
+    const session = JSON.parse(raw) as WalletSession;
+    return session.expires_at * 1000 > Date.now() ? session : null;
+  } catch {
+    return null;
+  }
+}
+
+export function setSession(session: WalletSession | null) {
+  currentSession = session;
+  if (session) {
+    localStorage.setItem(SESSION_KEY, JSON.stringify(session));
+  } else {
+    localStorage.removeItem(SESSION_KEY);
+  }
+  listeners.forEach((listener) => listener());
+}
+
+export function getSession(): WalletSession | null {
+  if (currentSession && currentSession.expires_at * 1000 <= Date.now()) {
+    setSession(null);
+  }
+  return currentSession;
+}
+
+export function subscribeSession(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function signOut() {
+  setSession(null);
+}
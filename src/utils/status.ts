@@ -0,0 +1,37 @@
+// Tailwind classes for a card showing a verification status.
+export function getStatusColor(status: string) {
+  switch (status) {
+    case "verified":
+      return "bg-green-50 border-green-200 text-green-900";
+    case "tampered":
+      return "bg-red-50 border-red-200 text-red-900";
+    case "not_found":
+      return "bg-yellow-50 border-yellow-200 text-yellow-900";
+    case "revoked":
+      return "bg-rose-50 border-rose-300 text-rose-900";
+    default:
+      return "bg-gray-50 border-gray-200 text-gray-900";
+  }
+}
+
+// Tailwind classes for a pill showing a document's registry status.
+export function getStatusBadge(status: string) {
+  const baseClass = "inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium";
+  switch (status) {
+    case "confirmed":
+      return `${baseClass} bg-green-100 text-green-800`;
+    case "pending":
+      return `${baseClass} bg-yellow-100 text-yellow-800`;
+    case "revoked":
+      return `${baseClass} bg-red-100 text-red-800`;
+    default:
+      return `${baseClass} bg-gray-100 text-gray-800`;
+  }
+}
+
+// How settled an anchor is, for showing next to its block.
+export function describeFinality(record: { status: string; confirmations: number }) {
+  if (record.status === "finalized") return "Finalized";
+  if (record.status !== "confirmed") return "Awaiting anchoring";
+  return record.confirmations === 1 ? "1 confirmation" : `${record.confirmations} confirmations`;
+}
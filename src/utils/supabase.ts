@@ -0,0 +1,7 @@
+import { createClient } from "@supabase/supabase-js";
+
+// Used for Realtime subscriptions only; reads and writes go through the edge
+// functions in api.ts.
+export const supabase = createClient(import.meta.env.VITE_SUPABASE_URL, import.meta.env.VITE_SUPABASE_ANON_KEY, {
+  auth: { persistSession: false, autoRefreshToken: false },
+});
@@ -0,0 +1,90 @@
+import { keccak_256 } from "@noble/hashes/sha3";
+import { bytesToHex } from "@noble/hashes/utils";
+import { requestSiweNonce, submitSiweSignature } from "./api";
+import { getSession, setSession, signOut, type WalletSession } from "./session";
+
+interface Eip1193Provider {
+  request(args: { method: string; params?: unknown[] }): Promise<unknown>;
+  on?(event: string, listener: (...args: unknown[]) => void): void;
+}
+
+declare global {
+  interface Window {
+    ethereum?: Eip1193Provider;
+  }
+}
+
+export function toChecksumAddress(address: string): string {
+  const lower = address.toLowerCase().replace(/^0x/, "");
+  const hash = bytesToHex(keccak_256(new TextEncoder().encode(lower)));
+  let result = "0x";
+  for (let i = 0; i < lower.length; i++) {
+    result += parseInt(hash[i], 16) >= 8 ? lower[i].toUpperCase() : lower[i];
+  }
+  return result;
+}
+
+function buildSiweMessage(fields: {
+  address: string;
+  chainId: number;
+  nonce: string;
+  issuedAt: Date;
+  expirationTime: Date;
+}): string {
+  const { host, origin } = window.location;
+  return [
+    `${host} wants you to sign in with your Ethereum account:`,
+    fields.address,
+    "",
+    "Sign in to register and verify documents.",
+    "",
+    `URI: ${origin}`,
+    "Version: 1",
+    `Chain ID: ${fields.chainId}`,
+    `Nonce: ${fields.nonce}`,
+    `Issued At: ${fields.issuedAt.toISOString()}`,
+    `Expiration Time: ${fields.expirationTime.toISOString()}`,
+  ].join("\n");
+}
+
+export async function signInWithEthereum(): Promise<WalletSession> {
+  const provider = window.ethereum;
+  if (!provider) {
+    throw new Error("No Ethereum wallet found. Install a browser wallet such as MetaMask.");
+  }
+
+  const accounts = (await provider.request({ method: "eth_requestAccounts" })) as string[];
+  if (!accounts?.[0]) {
+    throw new Error("Wallet did not return an account");
+  }
+
+  const address = toChecksumAddress(accounts[0]);
+  const chainId = parseInt((await provider.request({ method: "eth_chainId" })) as string, 16);
+  const { nonce } = await requestSiweNonce();
+
+  const issuedAt = new Date();
+  const message = buildSiweMessage({
+    address,
+    chainId,
+    nonce,
+    issuedAt,
+    expirationTime: new Date(issuedAt.getTime() + 10 * 60 * 1000),
+  });
+
+  const signature = (await provider.request({
+    method: "personal_sign",
+    params: [message, address],
+  })) as string;
+
+  const session: WalletSession = await submitSiweSignature(message, signature);
+  setSession(session);
+  return session;
+}
+
+window.ethereum?.on?.("accountsChanged", (accounts) => {
+  const [account] = accounts as string[];
+  const session = getSession();
+  if (session && account?.toLowerCase() !== session.address) {
+    signOut();
+  }
+});
@@ -0,0 +1,139 @@
+import { SignJWT } from "jose";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { authenticate, hashApiKey, isApiKeyScope, issueSession } from "./auth.ts";
+
+// `use_api_key` counts the request against the key's window and returns its
+// usage; each test decides what the database holds.
+const useApiKey = vi.fn();
+
+vi.mock("npm:@supabase/supabase-js@2.57.4", () => ({
+  createClient: () => ({ rpc: useApiKey }),
+}));
+
+const OWNER = "0x1111111111111111111111111111111111111111";
+const KEY = "dvk_test";
+
+function keyUsage(overrides: Record<string, unknown> = {}) {
+  return {
+    key_id: "key-1",
+    owner_address: OWNER,
+    scopes: ["read", "verify"],
+    rate_limit: 60,
+    window_requests: 1,
+    window_reset: new Date(Date.now() + 30_000).toISOString(),
+    ...overrides,
+  };
+}
+
+function request(headers: Record<string, string>) {
+  return new Request("https://example.supabase.co/functions/v1/test", { headers });
+}
+
+beforeEach(() => {
+  useApiKey.mockReset();
+  vi.stubEnv("JWT_SECRET", "test-jwt-secret-with-enough-length");
+  vi.stubEnv("SUPABASE_ANON_KEY", "anon-key");
+  vi.stubEnv("SUPABASE_SERVICE_ROLE_KEY", "service-role-key");
+});
+
+describe("API key scopes", () => {
+  it("lets a key act for its owner when it has the scope", async () => {
+    useApiKey.mockResolvedValue({ data: [keyUsage()], error: null });
+
+    const result = await authenticate(request({ "X-API-Key": KEY }), { allow: ["api_key"], scope: "verify" });
+
+    expect(result).toEqual({
+      ok: true,
+      principal: { kind: "api_key", address: OWNER, key_id: "key-1", scopes: ["read", "verify"] },
+    });
+    expect(useApiKey).toHaveBeenCalledWith("use_api_key", { p_key_hash: await hashApiKey(KEY) });
+  });
+
+  it("refuses a key without the scope", async () => {
+    useApiKey.mockResolvedValue({ data: [keyUsage()], error: null });
+
+    const result = await authenticate(request({ "X-API-Key": KEY }), { allow: ["api_key"], scope: "register" });
+
+    expect(result).toEqual({ ok: false, status: 403, error: "This API key lacks the register scope" });
+  });
+
+  it("refuses an unknown or revoked key", async () => {
+    useApiKey.mockResolvedValue({ data: [], error: null });
+
+    const result = await authenticate(request({ "X-API-Key": KEY }), { allow: ["api_key"], scope: "read" });
+
+    expect(result).toMatchObject({ ok: false, status: 401, error: "Invalid or revoked API key" });
+  });
+
+  it("rate-limits a key past its requests per minute", async () => {
+    useApiKey.mockResolvedValue({ data: [keyUsage({ window_requests: 61 })], error: null });
+
+    const result = await authenticate(request({ "X-API-Key": KEY }), { allow: ["api_key"], scope: "read" });
+
+    expect(result).toMatchObject({
+      ok: false,
+      status: 429,
+      headers: { "X-RateLimit-Limit": "60", "X-RateLimit-Remaining": "0" },
+    });
+    expect(Number(!result.ok && result.headers?.["Retry-After"])).toBeGreaterThanOrEqual(1);
+  });
+
+  it("refuses a key where only wallets are served", async () => {
+    useApiKey.mockResolvedValue({ data: [keyUsage()], error: null });
+
+    const result = await authenticate(request({ "X-API-Key": KEY }), { allow: ["wallet"] });
+
+    expect(result).toMatchObject({ ok: false, status: 403 });
+  });
+
+  it("knows the scopes", () => {
+    expect(["register", "verify", "export", "read"].every(isApiKeyScope)).toBe(true);
+    expect(isApiKeyScope("revoke")).toBe(false);
+  });
+});
+
+describe("sessions", () => {
+  it("reads the wallet a session acts for", async () => {
+    const { access_token } = await issueSession({ address: OWNER.toUpperCase(), chain_id: 1 });
+
+    const result = await authenticate(request({ Authorization: `Bearer ${access_token}` }), { allow: ["wallet"] });
+
+    expect(result).toEqual({ ok: true, principal: { kind: "wallet", address: OWNER.toLowerCase(), chain_id: 1 } });
+  });
+
+  it("rejects an expired session instead of serving it anonymously", async () => {
+    const expired = await new SignJWT({ role: "authenticated", wallet_address: OWNER, chain_id: 1 })
+      .setProtectedHeader({ alg: "HS256" })
+      .setAudience("authenticated")
+      .setExpirationTime(Math.floor(Date.now() / 1000) - 60)
+      .sign(new TextEncoder().encode("test-jwt-secret-with-enough-length"));
+
+    const result = await authenticate(request({ Authorization: `Bearer ${expired}` }), {
+      allow: ["wallet", "anonymous"],
+    });
+
+    expect(result).toMatchObject({ ok: false, status: 401 });
+  });
+
+  it("treats the anon key as an anonymous caller", async () => {
+    const result = await authenticate(request({ Authorization: "Bearer anon-key" }), { allow: ["anonymous"] });
+
+    expect(result).toEqual({ ok: true, principal: { kind: "anonymous" } });
+  });
+
+  it("asks anonymous callers to sign in or use a key with the scope", async () => {
+    const result = await authenticate(request({}), { allow: ["wallet", "api_key"], scope: "register" });
+
+    expect(result).toEqual({
+      ok: false,
+      status: 401,
+      error: "Authentication required: sign in with your wallet or use an API key with the register scope",
+    });
+  });
+
+  it("recognises the service role key", async () => {
+    const result = await authenticate(request({ Authorization: "Bearer service-role-key" }), { allow: ["service"] });
+
+    expect(result).toEqual({ ok: true, principal: { kind: "service" } });
+  });
+});
@@ -0,0 +1,220 @@
+import { SignJWT, jwtVerify } from "npm:jose@5.9.6";
+import { createClient } from "npm:@supabase/supabase-js@2.57.4";
+import { API_KEY_SCOPES, type ApiKeyScope } from "./contract.ts";
+
+export interface WalletSession {
+  address: string;
+  chain_id: number;
+}
+
+const SESSION_TTL_SECONDS = parseInt(Deno.env.get("SESSION_TTL_SECONDS") || "86400");
+
+function jwtSecret(): Uint8Array {
+  const secret = Deno.env.get("JWT_SECRET");
+  if (!secret) {
+    throw new Error("JWT_SECRET is not configured");
+  }
+  return new TextEncoder().encode(secret);
+}
+
+// Sessions are signed with the project JWT secret so the functions gateway and
+// PostgREST accept them like any other Supabase access token.
+export async function issueSession(session: WalletSession) {
+  const address = session.address.toLowerCase();
+  const expiresAt = Math.floor(Date.now() / 1000) + SESSION_TTL_SECONDS;
+
+  const accessToken = await new SignJWT({
+    role: "authenticated",
+    wallet_address: address,
+    chain_id: session.chain_id,
+  })
+    .setProtectedHeader({ alg: "HS256", typ: "JWT" })
+    .setSubject(address)
+    .setAudience("authenticated")
+    .setIssuedAt()
+    .setExpirationTime(expiresAt)
+    .sign(jwtSecret());
+
+  return { access_token: accessToken, expires_at: expiresAt, address };
+}
+
+// Reads the wallet session a bearer token carries. `null` means the token is
+// no session at all: none was sent, or it is the anon key. A token that fails
+// verification, most often because it expired, is "invalid" rather than
+// anonymous, so the caller learns to sign in again.
+async function readSession(token: string): Promise<WalletSession | null | "invalid"> {
+  if (!token || token === Deno.env.get("SUPABASE_ANON_KEY")) return null;
+
+  const secret = jwtSecret();
+
+  try {
+    const { payload } = await jwtVerify(token, secret);
+    if (payload.role === "anon") return null;
+
+    const audiences = [payload.aud].flat();
+    if (!audiences.includes("authenticated") || typeof payload.wallet_address !== "string") return "invalid";
+
+    return {
+      address: payload.wallet_address,
+      chain_id: Number(payload.chain_id),
+    };
+  } catch {
+    return "invalid";
+  }
+}
+
+export { API_KEY_SCOPES, type ApiKeyScope };
+
+// Who a request acts for. API keys act for the wallet that created them.
+export type Principal =
+  | { kind: "wallet"; address: string; chain_id: number }
+  | { kind: "api_key"; address: string; key_id: string; scopes: ApiKeyScope[] }
+  | { kind: "service" }
+  | { kind: "anonymous" };
+
+export type AuthResult<P extends Principal = Principal> =
+  | { ok: true; principal: P }
+  | { ok: false; status: number; error: string; headers?: Record<string, string> };
+
+interface AuthOptions<K extends Principal["kind"]> {
+  // Kinds of caller the function serves; the principal is typed accordingly.
+  allow: K[];
+  // Scope an API key needs; wallet sessions act for their owner and need none.
+  scope?: ApiKeyScope;
+}
+
+const API_KEY_PREFIX = "dvk_";
+
+export function isApiKeyScope(value: unknown): value is ApiKeyScope {
+  return typeof value === "string" && (API_KEY_SCOPES as readonly string[]).includes(value);
+}
+
+export async function hashApiKey(key: string): Promise<string> {
+  const digest = new Uint8Array(await crypto.subtle.digest("SHA-256", new TextEncoder().encode(key)));
+  return Array.from(digest, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+export function createApiKey(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return `${API_KEY_PREFIX}${Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("")}`;
+}
+
+// Keys are looked up on every request rather than cached, so a revoked key
+// stops working at once.
+async function authenticateApiKey(key: string, scope?: ApiKeyScope): Promise<AuthResult> {
+  const supabase = createClient(
+    Deno.env.get("SUPABASE_URL") || "",
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") || ""
+  );
+
+  const { data, error } = await supabase.rpc("use_api_key", { p_key_hash: await hashApiKey(key) });
+
+  if (error) {
+    throw error;
+  }
+
+  const usage = data?.[0] as
+    | {
+        key_id: string;
+        owner_address: string;
+        scopes: ApiKeyScope[];
+        rate_limit: number;
+        window_requests: number;
+        window_reset: string;
+      }
+    | undefined;
+
+  if (!usage) {
+    return { ok: false, status: 401, error: "Invalid or revoked API key" };
+  }
+
+  if (usage.window_requests > usage.rate_limit) {
+    const reset = Date.parse(usage.window_reset);
+    return {
+      ok: false,
+      status: 429,
+      error: `Rate limit of ${usage.rate_limit} requests per minute exceeded`,
+      headers: {
+        "Retry-After": String(Math.max(Math.ceil((reset - Date.now()) / 1000), 1)),
+        "X-RateLimit-Limit": String(usage.rate_limit),
+        "X-RateLimit-Remaining": "0",
+        "X-RateLimit-Reset": String(Math.floor(reset / 1000)),
+      },
+    };
+  }
+
+  if (scope && !usage.scopes.includes(scope)) {
+    return { ok: false, status: 403, error: `This API key lacks the ${scope} scope` };
+  }
+
+  return {
+    ok: true,
+    principal: { kind: "api_key", address: usage.owner_address, key_id: usage.key_id, scopes: usage.scopes },
+  };
+}
+
+// Identifies the caller the same way in every function: an `X-API-Key`
+// header, the service role key (scheduled workers), a wallet session, or
+// otherwise an anonymous caller with just the anon key. Credentials that were
+// sent but do not check out are rejected, never downgraded to anonymous.
+export async function authenticate<K extends Principal["kind"]>(
+  req: Request,
+  options: AuthOptions<K>
+): Promise<AuthResult<Extract<Principal, { kind: K }>>> {
+  const apiKey = req.headers.get("X-API-Key");
+  const header = req.headers.get("Authorization") || "";
+  const token = header.startsWith("Bearer ") ? header.slice(7) : "";
+  const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+  const allowed = options.allow as Principal["kind"][];
+
+  let result: AuthResult;
+
+  if (apiKey) {
+    result = await authenticateApiKey(apiKey, options.scope);
+  } else if (token && serviceKey && token === serviceKey) {
+    result = { ok: true, principal: { kind: "service" } };
+  } else {
+    const session = await readSession(token);
+    result =
+      session === "invalid"
+        ? { ok: false, status: 401, error: "Your session is invalid or has expired. Sign in again" }
+        : { ok: true, principal: session ? { kind: "wallet", ...session } : { kind: "anonymous" } };
+  }
+
+  if (!result.ok) {
+    return result;
+  }
+
+  if (allowed.includes(result.principal.kind)) {
+    return result as AuthResult<Extract<Principal, { kind: K }>>;
+  }
+
+  if (result.principal.kind === "anonymous") {
+    const ways = [
+      allowed.includes("wallet") && "sign in with your wallet",
+      allowed.includes("api_key") && `use an API key with the ${options.scope} scope`,
+    ].filter(Boolean);
+    return {
+      ok: false,
+      status: 401,
+      error: ways.length ? `Authentication required: ${ways.join(" or ")}` : "Authentication required",
+    };
+  }
+
+  return { ok: false, status: 403, error: "This function cannot be called with these credentials" };
+}
+
+// The wallet a request acts for, if any; recorded as the verifier of checks.
+export function principalAddress(principal: Principal): string | undefined {
+  return "address" in principal ? principal.address : undefined;
+}
+
+export function authErrorResponse(
+  result: { status: number; error: string; headers?: Record<string, string> },
+  corsHeaders: Record<string, string>
+) {
+  return new Response(JSON.stringify({ success: false, error: result.error }), {
+    status: result.status,
+    headers: { ...corsHeaders, ...result.headers, "Content-Type": "application/json" },
+  });
+}
@@ -0,0 +1,21 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { backoffSeconds } from "./backoff.ts";
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("backoffSeconds", () => {
+  it("doubles from the base delay with up to one base of jitter", () => {
+    vi.spyOn(Math, "random").mockReturnValue(0);
+    expect([1, 2, 3, 4].map((attempts) => backoffSeconds(attempts, 30, 21600))).toEqual([30, 60, 120, 240]);
+
+    vi.spyOn(Math, "random").mockReturnValue(0.5);
+    expect(backoffSeconds(2, 30, 21600)).toBe(75);
+  });
+
+  it("never waits longer than the maximum", () => {
+    vi.spyOn(Math, "random").mockReturnValue(0.99);
+    expect(backoffSeconds(20, 30, 21600)).toBe(21600);
+  });
+});
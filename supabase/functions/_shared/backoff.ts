@@ -0,0 +1,8 @@
+// Seconds to wait before retrying a job that failed `attempts` times: doubling
+// from `baseSeconds`, with up to `baseSeconds` of jitter so jobs that failed
+// together do not retry in lockstep, and at most `maxSeconds`.
+export function backoffSeconds(attempts: number, baseSeconds: number, maxSeconds: number): number {
+  const exponential = baseSeconds * Math.pow(2, Math.max(attempts - 1, 0));
+  const jitter = Math.random() * baseSeconds;
+  return Math.min(exponential + jitter, maxSeconds);
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it, vi } from "vitest";
+import { LocalDevChain } from "./chain.ts";
+
+const ROOT = "1".repeat(64);
+
+describe("LocalDevChain", () => {
+  it("reports a transaction as sent before it returns the anchor", async () => {
+    const chain = new LocalDevChain();
+    const submitted = vi.fn(async () => {});
+
+    const result = await chain.anchor(ROOT, submitted);
+
+    expect(submitted).toHaveBeenCalledWith(result.transaction_hash);
+    expect(result).toMatchObject({ block_number: 1, confirmations: 1 });
+    expect(result.recovered).toBeUndefined();
+  });
+
+  it("returns the earlier anchor for a hash it already holds, like the registry contract", async () => {
+    const chain = new LocalDevChain();
+    const first = await chain.anchor(ROOT);
+    await chain.anchor("2".repeat(64));
+    const submitted = vi.fn(async () => {});
+
+    const again = await chain.anchor(ROOT, submitted);
+
+    expect(again).toEqual({ ...first, confirmations: 2, recovered: true });
+    expect(submitted).not.toHaveBeenCalled();
+    expect(await chain.headBlock()).toBe(2);
+  });
+
+  it("keeps registrations and revocations of the same hash apart", async () => {
+    const chain = new LocalDevChain();
+    await chain.anchor(ROOT);
+
+    const revoked = await chain.revoke(ROOT);
+    const again = await chain.revoke(ROOT);
+
+    expect(revoked.recovered).toBeUndefined();
+    expect(again).toMatchObject({ transaction_hash: revoked.transaction_hash, recovered: true });
+  });
+
+  it("checks a transaction as the kind it was sent as", async () => {
+    const chain = new LocalDevChain();
+    const registered = await chain.anchor(ROOT);
+    const revoked = await chain.revoke(ROOT);
+    const anchored = { ...revoked, document_hash: ROOT };
+
+    expect(await chain.check(anchored, "revoke")).toMatchObject({ state: "included", block_number: 2 });
+    expect(await chain.check(anchored, "register")).toEqual({ state: "dropped" });
+    expect(await chain.check({ ...registered, document_hash: ROOT }, "register")).toMatchObject({
+      state: "included",
+      confirmations: 2,
+    });
+  });
+});
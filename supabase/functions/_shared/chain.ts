@@ -0,0 +1,498 @@
+import {
+  BaseError,
+  ContractFunctionRevertedError,
+  createPublicClient,
+  createWalletClient,
+  http,
+  parseAbi,
+  TransactionNotFoundError,
+  TransactionReceiptNotFoundError,
+  type Hex,
+  type PublicClient,
+  type WalletClient,
+} from "npm:viem@2.21.45";
+import { privateKeyToAccount, type PrivateKeyAccount } from "npm:viem@2.21.45/accounts";
+
+export interface AnchorResult {
+  transaction_hash: string;
+  block_number: number;
+  block_timestamp: number;
+  // Confirmations the anchor was known to have when it returned.
+  confirmations: number;
+  // Set when the hash was already anchored, e.g. by an earlier attempt whose
+  // result was lost, and this is that anchor rather than a new one.
+  recovered?: boolean;
+}
+
+// Called with the hash of a sent transaction before it is waited for, so the
+// caller can record it in case the wait fails.
+export type SubmittedCallback = (transactionHash: string) => Promise<void>;
+
+// What a registry transaction does: register a batch root or revoke a leaf.
+export type AnchorKind = "register" | "revoke";
+
+// An earlier anchor as recorded: the transaction, where it was mined and the
+// hash it anchored.
+export interface AnchoredTransaction {
+  transaction_hash: string;
+  block_number: number;
+  document_hash: string;
+}
+
+// Where an anchoring transaction stands now. After a reorganisation it may be
+// mined in another block, be back in the mempool, or be gone altogether.
+export type TransactionState =
+  | { state: "included"; block_number: number; block_timestamp: number; confirmations: number }
+  | { state: "pending" }
+  | { state: "dropped" };
+
+export interface ChainAnchor {
+  readonly name: string;
+  // Both return the existing anchor when the chain already holds the hash.
+  anchor(documentHash: string, onSubmitted?: SubmittedCallback): Promise<AnchorResult>;
+  revoke(documentHash: string, onSubmitted?: SubmittedCallback): Promise<AnchorResult>;
+  check(anchored: AnchoredTransaction, kind: AnchorKind): Promise<TransactionState>;
+}
+
+const registryAbi = parseAbi([
+  "function register(bytes32 documentHash)",
+  "function revoke(bytes32 documentHash)",
+  "event DocumentRegistered(bytes32 indexed documentHash, address indexed registrant, uint256 timestamp)",
+  "event DocumentRevoked(bytes32 indexed documentHash, address indexed revoker, uint256 timestamp)",
+]);
+
+function toBytes32(hash: string): Hex {
+  const hex = hash.startsWith("0x") ? hash.slice(2) : hash;
+  if (!/^[0-9a-f]{64}$/i.test(hex)) {
+    throw new Error("Anchored hash must be 32 bytes of hex");
+  }
+  return `0x${hex.toLowerCase()}`;
+}
+
+// The reason string of a reverted registry call, e.g. "already registered".
+function revertReason(error: unknown): string | undefined {
+  if (!(error instanceof BaseError)) return undefined;
+  const reverted = error.walk((cause) => cause instanceof ContractFunctionRevertedError);
+  return reverted instanceof ContractFunctionRevertedError ? reverted.reason : undefined;
+}
+
+const ALREADY_DONE = { register: "already registered", revoke: "already revoked" } as const;
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes)
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+export interface EvmAnchorConfig {
+  rpcUrl: string;
+  registryAddress: string;
+  privateKey: string;
+  confirmations?: number;
+  // Where to start looking for an existing anchor; the registry's deployment block.
+  fromBlock?: number;
+}
+
+export class EvmRpcAnchor implements ChainAnchor {
+  readonly name = "evm";
+  private account: PrivateKeyAccount;
+  private publicClient: PublicClient;
+  private walletClient: WalletClient;
+  private registryAddress: Hex;
+  private confirmations: number;
+  private fromBlock: bigint;
+
+  constructor(config: EvmAnchorConfig) {
+    const transport = http(config.rpcUrl);
+    this.account = privateKeyToAccount(config.privateKey as Hex);
+    this.publicClient = createPublicClient({ transport });
+    this.walletClient = createWalletClient({ transport });
+    this.registryAddress = config.registryAddress as Hex;
+    this.confirmations = config.confirmations ?? 1;
+    this.fromBlock = BigInt(config.fromBlock ?? 0);
+  }
+
+  anchor(documentHash: string, onSubmitted?: SubmittedCallback): Promise<AnchorResult> {
+    return this.submit("register", documentHash, onSubmitted);
+  }
+
+  revoke(documentHash: string, onSubmitted?: SubmittedCallback): Promise<AnchorResult> {
+    return this.submit("revoke", documentHash, onSubmitted);
+  }
+
+  async check(anchored: AnchoredTransaction): Promise<TransactionState> {
+    const hash = anchored.transaction_hash as Hex;
+    const receipt = await this.publicClient.getTransactionReceipt({ hash }).catch((error) => {
+      if (error instanceof TransactionReceiptNotFoundError) return null;
+      throw error;
+    });
+
+    if (!receipt) {
+      const transaction = await this.publicClient.getTransaction({ hash }).catch((error) => {
+        if (error instanceof TransactionNotFoundError) return null;
+        throw error;
+      });
+      return transaction ? { state: "pending" } : { state: "dropped" };
+    }
+
+    // Mined again after a reorganisation but reverted this time: the hash is
+    // not anchored by it, so it counts as dropped.
+    if (receipt.status !== "success") {
+      return { state: "dropped" };
+    }
+
+    const [head, block] = await Promise.all([
+      this.publicClient.getBlockNumber(),
+      this.publicClient.getBlock({ blockNumber: receipt.blockNumber }),
+    ]);
+
+    return {
+      state: "included",
+      block_number: Number(receipt.blockNumber),
+      block_timestamp: Number(block.timestamp),
+      confirmations: Number(head - receipt.blockNumber) + 1,
+    };
+  }
+
+  private async submit(
+    functionName: AnchorKind,
+    documentHash: string,
+    onSubmitted?: SubmittedCallback
+  ): Promise<AnchorResult> {
+    const hash = toBytes32(documentHash);
+    let txHash: Hex;
+
+    try {
+      txHash = await this.walletClient.writeContract({
+        chain: null,
+        account: this.account,
+        address: this.registryAddress,
+        abi: registryAbi,
+        functionName,
+        args: [hash],
+      });
+    } catch (error) {
+      // The call is simulated to estimate gas, so a hash anchored by an
+      // earlier attempt is refused here, before anything is sent.
+      if (revertReason(error) === ALREADY_DONE[functionName]) {
+        const existing = await this.find(functionName, hash);
+        if (existing) return existing;
+      }
+      throw error;
+    }
+
+    await onSubmitted?.(txHash);
+
+    const receipt = await this.publicClient.waitForTransactionReceipt({
+      hash: txHash,
+      confirmations: this.confirmations,
+    });
+
+    if (receipt.status !== "success") {
+      // Another transaction may have anchored the hash while this one waited.
+      const existing = await this.find(functionName, hash);
+      if (existing) return existing;
+      throw new Error(`${functionName} transaction ${txHash} reverted`);
+    }
+
+    const block = await this.publicClient.getBlock({ blockNumber: receipt.blockNumber });
+
+    return {
+      transaction_hash: txHash,
+      block_number: Number(receipt.blockNumber),
+      block_timestamp: Number(block.timestamp),
+      confirmations: this.confirmations,
+    };
+  }
+
+  // The event that anchored `hash` earlier, if any.
+  private async find(kind: AnchorKind, hash: Hex): Promise<AnchorResult | null> {
+    const logs = await this.publicClient.getContractEvents({
+      address: this.registryAddress,
+      abi: registryAbi,
+      eventName: kind === "register" ? "DocumentRegistered" : "DocumentRevoked",
+      args: { documentHash: hash },
+      fromBlock: this.fromBlock,
+      strict: true,
+    });
+
+    const log = logs[0];
+    if (!log) return null;
+
+    const head = await this.publicClient.getBlockNumber();
+
+    return {
+      transaction_hash: log.transactionHash,
+      block_number: Number(log.blockNumber),
+      block_timestamp: Number(log.args.timestamp),
+      confirmations: Number(head - log.blockNumber) + 1,
+      recovered: true,
+    };
+  }
+}
+
+// A DocumentRegistered or DocumentRevoked log of the registry contract.
+// `document_hash` is lowercase hex without 0x: a batch's Merkle root for
+// registrations, a document's leaf hash for revocations.
+export interface RegistryEvent {
+  kind: AnchorKind;
+  document_hash: string;
+  account: string;
+  timestamp: number;
+  transaction_hash: string;
+  block_number: number;
+  log_index: number;
+}
+
+export interface RegistryEventSource {
+  headBlock(): Promise<number>;
+  // Events in the inclusive block range, in chain order.
+  events(fromBlock: number, toBlock: number): Promise<RegistryEvent[]>;
+}
+
+export interface EvmRegistryReaderConfig {
+  rpcUrl: string;
+  registryAddress: string;
+}
+
+// Read-only access to the registry contract's logs; needs no key.
+export class EvmRegistryReader implements RegistryEventSource {
+  private publicClient: PublicClient;
+  private registryAddress: Hex;
+
+  constructor(config: EvmRegistryReaderConfig) {
+    this.publicClient = createPublicClient({ transport: http(config.rpcUrl) });
+    this.registryAddress = config.registryAddress as Hex;
+  }
+
+  async headBlock(): Promise<number> {
+    return Number(await this.publicClient.getBlockNumber());
+  }
+
+  async events(fromBlock: number, toBlock: number): Promise<RegistryEvent[]> {
+    const logs = await this.publicClient.getContractEvents({
+      address: this.registryAddress,
+      abi: registryAbi,
+      fromBlock: BigInt(fromBlock),
+      toBlock: BigInt(toBlock),
+      strict: true,
+    });
+
+    return logs
+      .map((log) => ({
+        kind: log.eventName === "DocumentRevoked" ? ("revoke" as const) : ("register" as const),
+        document_hash: log.args.documentHash.slice(2).toLowerCase(),
+        account: (log.eventName === "DocumentRevoked" ? log.args.revoker : log.args.registrant).toLowerCase(),
+        timestamp: Number(log.args.timestamp),
+        transaction_hash: log.transactionHash,
+        block_number: Number(log.blockNumber),
+        log_index: log.logIndex,
+      }))
+      .sort((a, b) => a.block_number - b.block_number || a.log_index - b.log_index);
+  }
+}
+
+export interface LocalDevChainConfig {
+  chainId?: number;
+  genesisTimestamp?: number;
+  blockTime?: number;
+  // Account reported as the registrant or revoker of its events.
+  account?: string;
+}
+
+// In-memory chain for development and offline tests. Every anchor mines one
+// block, and hashes and timestamps depend only on the sequence of anchors, so
+// two runs with the same input produce identical records. It also serves its
+// anchors as registry events, so the indexer can be run against it. State
+// lives only as long as the process; point the EVM anchor at a local node
+// (e.g. anvil) when several functions need to share one chain.
+export class LocalDevChain implements ChainAnchor, RegistryEventSource {
+  readonly name = "local";
+  private chainId: number;
+  private genesisTimestamp: number;
+  private blockTime: number;
+  private account: string;
+  private height = 0;
+  private transactions = new Map<
+    string,
+    AnchorResult & { kind: AnchorKind; document_hash: string }
+  >();
+
+  constructor(config: LocalDevChainConfig = {}) {
+    this.chainId = config.chainId ?? 31337;
+    this.genesisTimestamp = config.genesisTimestamp ?? 1700000000;
+    this.blockTime = config.blockTime ?? 12;
+    this.account = (config.account ?? "0xf39fd6e51aad88f6f4ce6ab8827279cfffb92266").toLowerCase();
+  }
+
+  anchor(documentHash: string, onSubmitted?: SubmittedCallback): Promise<AnchorResult> {
+    return this.mine("register", documentHash, onSubmitted);
+  }
+
+  revoke(documentHash: string, onSubmitted?: SubmittedCallback): Promise<AnchorResult> {
+    return this.mine("revoke", documentHash, onSubmitted);
+  }
+
+  // The chain has a single producer and never reorganises, so an anchor is
+  // included as long as its transaction hash is the one this chain derives
+  // for that block and hash. That holds across processes, unlike the
+  // in-memory height, which only counts this process's blocks.
+  async check(anchored: AnchoredTransaction, kind: AnchorKind): Promise<TransactionState> {
+    const expected = await this.transactionHash(anchored.block_number, kind, toBytes32(anchored.document_hash));
+
+    if (expected !== anchored.transaction_hash.toLowerCase()) {
+      return { state: "dropped" };
+    }
+
+    return {
+      state: "included",
+      block_number: anchored.block_number,
+      block_timestamp: this.genesisTimestamp + anchored.block_number * this.blockTime,
+      confirmations: Math.max(this.height, anchored.block_number) - anchored.block_number + 1,
+    };
+  }
+
+  private async transactionHash(height: number, kind: AnchorKind, hash: Hex): Promise<string> {
+    const preimage = new TextEncoder().encode(`${this.chainId}:${height}:${kind}:${hash}`);
+    const digest = new Uint8Array(await crypto.subtle.digest("SHA-256", preimage));
+    return `0x${toHex(digest)}`;
+  }
+
+  // Like the registry contract, a hash is registered and revoked at most once;
+  // asking again returns the earlier anchor.
+  private async mine(
+    kind: AnchorKind,
+    documentHash: string,
+    onSubmitted?: SubmittedCallback
+  ): Promise<AnchorResult> {
+    const hash = toBytes32(documentHash);
+    const existing = [...this.transactions.values()].find((tx) => tx.kind === kind && tx.document_hash === hash);
+
+    if (existing) {
+      return {
+        transaction_hash: existing.transaction_hash,
+        block_number: existing.block_number,
+        block_timestamp: existing.block_timestamp,
+        confirmations: this.height - existing.block_number + 1,
+        recovered: true,
+      };
+    }
+
+    this.height += 1;
+
+    const result = {
+      transaction_hash: await this.transactionHash(this.height, kind, hash),
+      block_number: this.height,
+      block_timestamp: this.genesisTimestamp + this.height * this.blockTime,
+      confirmations: 1,
+    };
+    await onSubmitted?.(result.transaction_hash);
+    this.transactions.set(result.transaction_hash, { ...result, kind, document_hash: hash });
+    return result;
+  }
+
+  getTransaction(txHash: string) {
+    return this.transactions.get(txHash) || null;
+  }
+
+  headBlock(): Promise<number> {
+    return Promise.resolve(this.height);
+  }
+
+  // One block per anchor, so every event is the first log of its block.
+  events(fromBlock: number, toBlock: number): Promise<RegistryEvent[]> {
+    return Promise.resolve(
+      [...this.transactions.values()]
+        .filter((tx) => tx.block_number >= fromBlock && tx.block_number <= toBlock)
+        .sort((a, b) => a.block_number - b.block_number)
+        .map((tx) => ({
+          kind: tx.kind,
+          document_hash: tx.document_hash.slice(2),
+          account: this.account,
+          timestamp: tx.block_timestamp,
+          transaction_hash: tx.transaction_hash,
+          block_number: tx.block_number,
+          log_index: 0,
+        }))
+    );
+  }
+}
+
+let sharedAnchor: ChainAnchor | null = null;
+
+export function createChainAnchor(): ChainAnchor {
+  if (sharedAnchor) return sharedAnchor;
+
+  const backend = Deno.env.get("CHAIN_BACKEND") || "local";
+
+  if (backend === "evm") {
+    const rpcUrl = Deno.env.get("CHAIN_RPC_URL");
+    const registryAddress = Deno.env.get("CHAIN_REGISTRY_ADDRESS");
+    const privateKey = Deno.env.get("CHAIN_PRIVATE_KEY");
+
+    if (!rpcUrl || !registryAddress || !privateKey) {
+      throw new Error(
+        "CHAIN_RPC_URL, CHAIN_REGISTRY_ADDRESS and CHAIN_PRIVATE_KEY are required for the evm chain backend"
+      );
+    }
+
+    sharedAnchor = new EvmRpcAnchor({
+      rpcUrl,
+      registryAddress,
+      privateKey,
+      confirmations: parseInt(Deno.env.get("CHAIN_CONFIRMATIONS") || "1"),
+      fromBlock: parseInt(Deno.env.get("INDEXER_START_BLOCK") || "0"),
+    });
+  } else if (backend === "local") {
+    sharedAnchor = new LocalDevChain({
+      chainId: parseInt(Deno.env.get("CHAIN_ID") || "31337"),
+    });
+  } else {
+    throw new Error(`Unknown CHAIN_BACKEND: ${backend}`);
+  }
+
+  return sharedAnchor;
+}
+
+// The in-process local chain only holds the anchors of the process it runs
+// in, and the indexer runs in its own function, so deployed indexing needs the
+// evm backend; a local node such as anvil serves for development. Tests index
+// a LocalDevChain directly.
+export function createRegistryEventSource(): RegistryEventSource {
+  const backend = Deno.env.get("CHAIN_BACKEND") || "local";
+  const rpcUrl = Deno.env.get("CHAIN_RPC_URL");
+  const registryAddress = Deno.env.get("CHAIN_REGISTRY_ADDRESS");
+
+  if (backend !== "evm") {
+    throw new Error("Indexing the registry contract requires CHAIN_BACKEND=evm");
+  }
+  if (!rpcUrl || !registryAddress) {
+    throw new Error("CHAIN_RPC_URL and CHAIN_REGISTRY_ADDRESS are required to index the registry contract");
+  }
+
+  return new EvmRegistryReader({ rpcUrl, registryAddress });
+}
+
+// Confirmations after which an anchor is treated as final and no longer
+// checked. Blocks of the local chain are final at once.
+export function finalityDepth(): number {
+  const backend = Deno.env.get("CHAIN_BACKEND") || "local";
+  return parseInt(Deno.env.get("CHAIN_FINALITY_DEPTH") || (backend === "local" ? "1" : "12"));
+}
+
+export interface ChainDescriptor {
+  backend: string;
+  chain_id: number | null;
+  registry_address: string | null;
+}
+
+export function describeChain(): ChainDescriptor {
+  const backend = Deno.env.get("CHAIN_BACKEND") || "local";
+  const chainId = Deno.env.get("CHAIN_ID") || (backend === "local" ? "31337" : "");
+
+  return {
+    backend,
+    chain_id: chainId ? parseInt(chainId) : null,
+    registry_address: backend === "evm" ? Deno.env.get("CHAIN_REGISTRY_ADDRESS") || null : null,
+  };
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import {
+  DeliveryQuerySchema,
+  LookupRequestSchema,
+  RedeliverRequestSchema,
+  RegisterRequestSchema,
+  RevokeRequestSchema,
+  s,
+  SiweVerifyRequestSchema,
+  validate,
+} from "./contract.ts";
+
+const DOCUMENT_ID = "4f3c2a1e-0000-4000-8000-000000000001";
+
+const registration = {
+  filename: "contract.pdf",
+  file_hash: "ab".repeat(32),
+  file_size: 1024,
+  mime_type: "application/pdf",
+};
+
+describe("uuid strings", () => {
+  const uuid = s.string({ format: "uuid" });
+
+  it("accepts UUIDs in either case", () => {
+    expect(validate(uuid, DOCUMENT_ID)).toEqual({ ok: true, value: DOCUMENT_ID });
+    expect(validate(uuid, DOCUMENT_ID.toUpperCase()).ok).toBe(true);
+  });
+
+  it("rejects anything else, naming the field", () => {
+    expect(validate(RevokeRequestSchema, { document_id: "not-a-uuid", reason: "superseded" })).toEqual({
+      ok: false,
+      error: "document_id must be a UUID",
+    });
+    expect(validate(LookupRequestSchema, { document_id: `${DOCUMENT_ID}x` })).toEqual({
+      ok: false,
+      error: "document_id must be a UUID",
+    });
+    expect(validate(RegisterRequestSchema, { ...registration, parent_document_id: "42" }, "documents[3]")).toEqual({
+      ok: false,
+      error: "documents[3].parent_document_id must be a UUID",
+    });
+  });
+
+  it("checks webhook delivery and subscription IDs", () => {
+    expect(validate(RedeliverRequestSchema, { delivery_id: "1; drop table" })).toEqual({
+      ok: false,
+      error: "delivery_id must be a UUID",
+    });
+    expect(validate(DeliveryQuerySchema, { subscription_id: "abc" })).toEqual({
+      ok: false,
+      error: "subscription_id must be a UUID",
+    });
+    expect(validate(DeliveryQuerySchema, { subscription_id: DOCUMENT_ID, status: "dead" }).ok).toBe(true);
+  });
+
+  it("still leaves optional UUIDs out", () => {
+    expect(validate(RegisterRequestSchema, registration)).toEqual({ ok: true, value: registration });
+  });
+
+  it("keeps the format in the JSON Schema", () => {
+    expect(uuid.jsonSchema()).toMatchObject({ type: "string", format: "uuid" });
+  });
+});
+
+describe("SiweVerifyRequestSchema", () => {
+  it("takes only a 0x-hex signature", () => {
+    expect(validate(SiweVerifyRequestSchema, { message: "m", signature: "0xAbC123" }).ok).toBe(true);
+    expect(validate(SiweVerifyRequestSchema, { message: "m", signature: "0xzz" })).toEqual({
+      ok: false,
+      error: "signature must be 0x-prefixed hex",
+    });
+  });
+});
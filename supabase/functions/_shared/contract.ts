@@ -0,0 +1,796 @@
+// The request and response shapes of the public API, declared once. The edge
+// functions validate request bodies against these schemas, the OpenAPI
+// document is generated from them, and the frontend and the published client
+// take their types from them. Nothing here may import from Deno or npm, as the
+// module is also compiled for browsers and Node.
+import { HASH_ALGORITHMS, type HashAlgorithm } from "./hashing.ts";
+
+export type { HashAlgorithm };
+
+export type JsonSchema = { [key: string]: unknown };
+
+// Named object schemas met while generating JSON Schema; they are emitted once
+// under `components` and referenced everywhere else.
+export type SchemaComponents = Record<string, JsonSchema>;
+
+export interface Schema<T> {
+  // Only carries the parsed type for `Infer`; never set at runtime.
+  readonly __type?: T;
+  readonly optional?: boolean;
+  parse(value: unknown, path: string): T;
+  jsonSchema(components?: SchemaComponents): JsonSchema;
+}
+
+interface OptionalSchema<T> extends Schema<T | undefined> {
+  readonly optional: true;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+type Shape = Record<string, Schema<unknown>>;
+
+type OptionalKeys<S extends Shape> = {
+  [K in keyof S]: S[K] extends OptionalSchema<unknown> ? K : never;
+}[keyof S];
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+export type ObjectOf<S extends Shape> = Simplify<
+  { [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]> } & {
+    [K in OptionalKeys<S>]?: Exclude<Infer<S[K]>, undefined>;
+  }
+>;
+
+export interface ObjectSchema<S extends Shape> extends Schema<ObjectOf<S>> {
+  readonly shape: S;
+  readonly name?: string;
+}
+
+class ContractError extends Error {}
+
+function fail(path: string, expected: string): never {
+  throw new ContractError(`${path || "body"} must be ${expected}`);
+}
+
+function described(schema: JsonSchema, description?: string): JsonSchema {
+  return description ? { ...schema, description } : schema;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+interface StringOptions {
+  minLength?: number;
+  maxLength?: number;
+  pattern?: RegExp;
+  format?: string;
+  description?: string;
+}
+
+function string(options: StringOptions = {}): Schema<string> {
+  return {
+    parse(value, path) {
+      if (typeof value !== "string") fail(path, "a string");
+      if (options.minLength !== undefined && value.length < options.minLength) {
+        fail(path, options.minLength === 1 ? "a non-empty string" : `at least ${options.minLength} characters`);
+      }
+      if (options.maxLength !== undefined && value.length > options.maxLength) {
+        fail(path, `at most ${options.maxLength} characters`);
+      }
+      if (options.pattern && !options.pattern.test(value)) {
+        fail(path, options.description || `a string matching ${options.pattern.source}`);
+      }
+      if (options.format === "uuid" && !UUID_PATTERN.test(value)) fail(path, "a UUID");
+      return value;
+    },
+    jsonSchema() {
+      return described(
+        {
+          type: "string",
+          minLength: options.minLength,
+          maxLength: options.maxLength,
+          pattern: options.pattern?.source,
+          format: options.format,
+        },
+        options.description
+      );
+    },
+  };
+}
+
+interface NumberOptions {
+  integer?: boolean;
+  minimum?: number;
+  maximum?: number;
+  description?: string;
+}
+
+function number(options: NumberOptions = {}): Schema<number> {
+  return {
+    parse(value, path) {
+      if (typeof value !== "number" || !Number.isFinite(value)) fail(path, "a number");
+      if (options.integer && !Number.isSafeInteger(value)) fail(path, "an integer");
+      if (options.minimum !== undefined && value < options.minimum) fail(path, `at least ${options.minimum}`);
+      if (options.maximum !== undefined && value > options.maximum) fail(path, `at most ${options.maximum}`);
+      return value;
+    },
+    jsonSchema() {
+      return described(
+        {
+          type: options.integer ? "integer" : "number",
+          minimum: options.minimum,
+          maximum: options.maximum,
+        },
+        options.description
+      );
+    },
+  };
+}
+
+function integer(options: Omit<NumberOptions, "integer"> = {}): Schema<number> {
+  return number({ ...options, integer: true });
+}
+
+function boolean(description?: string): Schema<boolean> {
+  return {
+    parse(value, path) {
+      if (typeof value !== "boolean") fail(path, "a boolean");
+      return value;
+    },
+    jsonSchema() {
+      return described({ type: "boolean" }, description);
+    },
+  };
+}
+
+function literal<const T extends string | number | boolean>(expected: T): Schema<T> {
+  return {
+    parse(value, path) {
+      if (value !== expected) fail(path, JSON.stringify(expected));
+      return expected;
+    },
+    jsonSchema() {
+      return { const: expected };
+    },
+  };
+}
+
+function oneOf<const T extends string>(values: readonly T[], description?: string): Schema<T> {
+  return {
+    parse(value, path) {
+      if (!values.includes(value as T)) fail(path, `one of: ${values.join(", ")}`);
+      return value as T;
+    },
+    jsonSchema() {
+      return described({ type: "string", enum: [...values] }, description);
+    },
+  };
+}
+
+interface ArrayOptions {
+  minItems?: number;
+  maxItems?: number;
+  description?: string;
+}
+
+function array<T>(item: Schema<T>, options: ArrayOptions = {}): Schema<T[]> {
+  return {
+    parse(value, path) {
+      if (!Array.isArray(value)) fail(path, "an array");
+      if (options.minItems !== undefined && value.length < options.minItems) {
+        fail(path, options.minItems === 1 ? "a non-empty array" : `an array of at least ${options.minItems} items`);
+      }
+      if (options.maxItems !== undefined && value.length > options.maxItems) {
+        fail(path, `an array of at most ${options.maxItems} items`);
+      }
+      return value.map((entry, index) => item.parse(entry, `${path}[${index}]`));
+    },
+    jsonSchema(components) {
+      return described(
+        {
+          type: "array",
+          items: item.jsonSchema(components),
+          minItems: options.minItems,
+          maxItems: options.maxItems,
+        },
+        options.description
+      );
+    },
+  };
+}
+
+function record<T>(value: Schema<T>, description?: string): Schema<Record<string, T>> {
+  return {
+    parse(input, path) {
+      if (typeof input !== "object" || input === null || Array.isArray(input)) fail(path, "an object");
+      return Object.fromEntries(
+        Object.entries(input).map(([key, entry]) => [key, value.parse(entry, `${path}.${key}`)])
+      );
+    },
+    jsonSchema(components) {
+      return described({ type: "object", additionalProperties: value.jsonSchema(components) }, description);
+    },
+  };
+}
+
+function unknown(description?: string): Schema<unknown> {
+  return {
+    parse(value) {
+      return value;
+    },
+    jsonSchema() {
+      return described({}, description);
+    },
+  };
+}
+
+function optional<T>(schema: Schema<T>): OptionalSchema<T> {
+  return {
+    optional: true,
+    parse(value, path) {
+      return value === undefined ? undefined : schema.parse(value, path);
+    },
+    jsonSchema(components) {
+      return schema.jsonSchema(components);
+    },
+  };
+}
+
+function nullable<T>(schema: Schema<T>): Schema<T | null> {
+  return {
+    parse(value, path) {
+      return value === null ? null : schema.parse(value, path);
+    },
+    jsonSchema(components) {
+      return { anyOf: [schema.jsonSchema(components), { type: "null" }] };
+    },
+  };
+}
+
+interface ObjectOptions {
+  // Emitted as a named component and referenced, rather than inlined.
+  name?: string;
+  description?: string;
+}
+
+// Unknown properties are dropped, so a handler only ever sees declared fields.
+function object<S extends Shape>(shape: S, options: ObjectOptions = {}): ObjectSchema<S> {
+  const inline = (components?: SchemaComponents): JsonSchema => {
+    const entries = Object.entries(shape);
+    return described(
+      {
+        type: "object",
+        properties: Object.fromEntries(entries.map(([key, field]) => [key, field.jsonSchema(components)])),
+        required: entries.filter(([, field]) => !field.optional).map(([key]) => key),
+      },
+      options.description
+    );
+  };
+
+  return {
+    shape,
+    name: options.name,
+    parse(value, path) {
+      if (typeof value !== "object" || value === null || Array.isArray(value)) fail(path, "an object");
+      const input = value as Record<string, unknown>;
+      const output: Record<string, unknown> = {};
+      for (const [key, field] of Object.entries(shape)) {
+        const parsed = field.parse(input[key], path ? `${path}.${key}` : key);
+        if (parsed !== undefined) output[key] = parsed;
+      }
+      return output as ObjectOf<S>;
+    },
+    jsonSchema(components) {
+      if (!options.name || !components) return inline(components);
+      if (!(options.name in components)) {
+        // Reserved first so a schema that refers to itself does not recurse forever.
+        components[options.name] = {};
+        components[options.name] = inline(components);
+      }
+      return { $ref: `#/components/schemas/${options.name}` };
+    },
+  };
+}
+
+// The same object with every field optional.
+function partial<S extends Shape>(schema: ObjectSchema<S>): ObjectSchema<{ [K in keyof S]: OptionalSchema<Infer<S[K]>> }> {
+  const shape = Object.fromEntries(Object.entries(schema.shape).map(([key, field]) => [key, optional(field)]));
+  return object(shape as { [K in keyof S]: OptionalSchema<Infer<S[K]>> });
+}
+
+export const s = {
+  string,
+  number,
+  integer,
+  boolean,
+  literal,
+  oneOf,
+  array,
+  record,
+  unknown,
+  optional,
+  nullable,
+  object,
+  partial,
+};
+
+export type ValidationResult<T> = { ok: true; value: T } | { ok: false; error: string };
+
+// Checks `value` against `schema`, naming the first offending field in the
+// error, e.g. "documents[2].file_size must be an integer".
+export function validate<T>(schema: Schema<T>, value: unknown, path: string = ""): ValidationResult<T> {
+  try {
+    return { ok: true, value: schema.parse(value, path) };
+  } catch (error) {
+    if (error instanceof ContractError) {
+      return { ok: false, error: error.message };
+    }
+    throw error;
+  }
+}
+
+// Shared field types
+
+export const HASH_ALGORITHM_IDS = Object.keys(HASH_ALGORITHMS) as HashAlgorithm[];
+
+export const DOCUMENT_STATUSES = ["pending", "confirmed", "not_found", "revoked"] as const;
+export const VERIFICATION_STATUSES = ["verified", "tampered", "not_found", "revoked"] as const;
+
+// A chain record is confirmed once its transaction is mined, and finalized once
+// enough blocks are built on it that it is no longer checked for reorganisations.
+export const ANCHOR_STATUSES = ["pending", "confirmed", "finalized"] as const;
+
+export const API_KEY_SCOPES = ["register", "verify", "export", "read"] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+export const WEBHOOK_EVENTS = [
+  "document.registered",
+  "document.confirmed",
+  "document.revoked",
+  "verification.succeeded",
+  "verification.failed",
+] as const;
+
+export type WebhookEventType = (typeof WEBHOOK_EVENTS)[number];
+
+export type DocumentStatus = (typeof DOCUMENT_STATUSES)[number];
+export type VerificationStatus = (typeof VERIFICATION_STATUSES)[number];
+export type AnchorStatus = (typeof ANCHOR_STATUSES)[number];
+
+export function isAnchored(status: string | null | undefined): boolean {
+  return status === "confirmed" || status === "finalized";
+}
+
+// Document IDs in query strings are checked before they reach PostgREST, which
+// answers a malformed UUID with an error rather than with no rows. Body fields
+// declared with `format: "uuid"` are checked by their schema.
+export function isUuid(value: string): boolean {
+  return UUID_PATTERN.test(value);
+}
+
+const hashAlgorithm = s.oneOf(HASH_ALGORITHM_IDS, "Digest algorithm; sha256 when left out");
+const hexDigest = s.string({ minLength: 1, description: "Hex digest, optionally 0x-prefixed" });
+const uuid = s.string({ format: "uuid" });
+const timestamp = s.string({ format: "date-time" });
+
+export const DigestSchema = s.object({ algorithm: hashAlgorithm, digest: hexDigest }, { name: "Digest" });
+
+export const ErrorResponseSchema = s.object(
+  { success: s.literal(false), error: s.string() },
+  { name: "ErrorResponse", description: "Body of every non-2xx response" }
+);
+
+// Register
+
+export const RegisterRequestSchema = s.object(
+  {
+    filename: s.string({ minLength: 1 }),
+    file_hash: hexDigest,
+    hash_algorithm: s.optional(hashAlgorithm),
+    digests: s.optional(
+      s.array(DigestSchema, { description: "Further digests of the same file, so it can be found by any of them" })
+    ),
+    file_size: s.integer({ minimum: 0, description: "Bytes" }),
+    mime_type: s.string(),
+    tags: s.optional(s.array(s.string())),
+    parent_document_id: s.optional(uuid),
+    parent_hash: s.optional(s.string({ description: "Digest of the previous version, instead of its ID" })),
+  },
+  { name: "RegisterRequest" }
+);
+
+export const RegisterResponseSchema = s.object(
+  {
+    success: s.literal(true),
+    document_id: uuid,
+    version: s.integer({ minimum: 1 }),
+    message: s.string(),
+  },
+  { name: "RegisterResponse" }
+);
+
+export const BatchRegisterRequestSchema = s.object(
+  { documents: s.array(RegisterRequestSchema, { minItems: 1 }) },
+  { name: "BatchRegisterRequest" }
+);
+
+export const BatchRegisterItemSchema = s.object(
+  {
+    index: s.integer({ minimum: 0 }),
+    filename: s.string(),
+    file_hash: s.string(),
+    status: s.oneOf(["registered", "duplicate", "failed"] as const),
+    document_id: s.optional(uuid),
+    version: s.optional(s.integer({ minimum: 1 })),
+    error: s.optional(s.string()),
+  },
+  { name: "BatchRegisterItem" }
+);
+
+export const BatchRegisterResponseSchema = s.object(
+  {
+    success: s.literal(true),
+    results: s.array(BatchRegisterItemSchema),
+    summary: s.object({
+      total: s.integer(),
+      registered: s.integer(),
+      duplicates: s.integer(),
+      failed: s.integer(),
+    }),
+  },
+  { name: "BatchRegisterResponse" }
+);
+
+// Verify
+
+export const VerifyRequestSchema = s.object(
+  { file_hash: hexDigest, hash_algorithm: s.optional(hashAlgorithm) },
+  { name: "VerifyRequest" }
+);
+
+export const LookupRequestSchema = s.object(
+  {
+    file_hash: s.optional(hexDigest),
+    hash_algorithm: s.optional(hashAlgorithm),
+    transaction_hash: s.optional(s.string({ description: "Anchoring or revocation transaction" })),
+    document_id: s.optional(uuid),
+  },
+  {
+    name: "LookupRequest",
+    description: "Exactly one of file_hash, transaction_hash or document_id; hash_algorithm only goes with file_hash",
+  }
+);
+
+export const MerkleProofSchema = s.object(
+  {
+    merkle_root: s.string(),
+    merkle_algorithm: s.string(),
+    leaf_index: s.integer({ minimum: 0 }),
+    leaf_hash: s.string(),
+    sibling_path: s.array(s.object({ position: s.oneOf(["left", "right"] as const), hash: s.string() })),
+  },
+  { name: "MerkleProof" }
+);
+
+export const LineageSchema = s.object(
+  {
+    lineage_id: uuid,
+    version: s.integer(),
+    is_latest: s.boolean(),
+    latest_version: s.integer(),
+    versions: s.array(
+      s.object({
+        id: uuid,
+        filename: s.string(),
+        file_hash: s.string(),
+        version: s.integer(),
+        status: s.string(),
+        created_at: timestamp,
+      })
+    ),
+  },
+  { name: "Lineage" }
+);
+
+export const VerifyResultSchema = s.object(
+  {
+    status: s.oneOf(VERIFICATION_STATUSES),
+    hash_algorithm: s.optional(hashAlgorithm),
+    document: s.optional(
+      s.object({
+        id: uuid,
+        filename: s.string(),
+        file_size: s.integer(),
+        mime_type: s.string(),
+        version: s.optional(s.integer()),
+        file_hash: s.optional(s.string()),
+        hash_algorithm: s.optional(hashAlgorithm),
+        digests: s.optional(s.array(DigestSchema)),
+      })
+    ),
+    blockchain: s.optional(
+      s.object({
+        transaction_hash: s.nullable(s.string()),
+        block_number: s.nullable(s.integer()),
+        owner_address: s.string(),
+        block_timestamp: s.nullable(s.integer()),
+        status: s.oneOf(ANCHOR_STATUSES),
+        confirmations: s.integer({ minimum: 0 }),
+        finalized_at: s.nullable(timestamp),
+      })
+    ),
+    proof: s.optional(MerkleProofSchema),
+    revocation: s.optional(
+      s.object({
+        revoked_at: timestamp,
+        reason: s.string(),
+        revoked_by: s.string(),
+        transaction_hash: s.nullable(s.string()),
+        block_number: s.nullable(s.integer()),
+      })
+    ),
+    lineage: s.optional(LineageSchema),
+    message: s.string(),
+  },
+  { name: "VerifyResult" }
+);
+
+export const VerifyResponseSchema = s.object(
+  {
+    success: s.literal(true),
+    ...VerifyResultSchema.shape,
+    anchored_documents: s.optional(
+      s.array(VerifyResultSchema, {
+        description: "Every document anchored or revoked in the transaction, for transaction lookups",
+      })
+    ),
+  },
+  { name: "VerifyResponse" }
+);
+
+export const BatchVerifyRequestSchema = s.object(
+  { documents: s.array(VerifyRequestSchema, { minItems: 1 }) },
+  { name: "BatchVerifyRequest" }
+);
+
+// A failed item carries `error` and none of the result fields.
+export const BatchVerifyItemSchema = s.object(
+  {
+    index: s.integer({ minimum: 0 }),
+    file_hash: s.string(),
+    error: s.optional(s.string()),
+    ...s.partial(VerifyResultSchema).shape,
+  },
+  { name: "BatchVerifyItem" }
+);
+
+export const BatchVerifyResponseSchema = s.object(
+  {
+    success: s.literal(true),
+    results: s.array(BatchVerifyItemSchema),
+    summary: s.object({
+      total: s.integer(),
+      verified: s.integer(),
+      tampered: s.integer(),
+      not_found: s.integer(),
+      revoked: s.integer(),
+      error: s.integer(),
+    }),
+  },
+  { name: "BatchVerifyResponse" }
+);
+
+// Revoke
+
+export const RevokeRequestSchema = s.object(
+  { document_id: uuid, reason: s.string({ minLength: 1, maxLength: 500 }) },
+  { name: "RevokeRequest" }
+);
+
+export const RevokeResponseSchema = s.object(
+  {
+    success: s.literal(true),
+    document_id: uuid,
+    revoked_at: timestamp,
+    message: s.string(),
+  },
+  { name: "RevokeResponse" }
+);
+
+// Registry
+
+export const SORT_COLUMNS = ["created_at", "filename", "file_size", "status"] as const;
+
+// Search parameters as they appear in the get-documents and export-proofs
+// query strings, and in the registry page URL.
+export const DocumentQuerySchema = s.object(
+  {
+    status: s.optional(s.oneOf(DOCUMENT_STATUSES)),
+    q: s.optional(s.string({ maxLength: 200, description: "Full-text search over filenames" })),
+    hash: s.optional(s.string({ description: "Digest or digest prefix" })),
+    tags: s.optional(s.string({ description: "Comma-separated; documents must carry every tag" })),
+    owner: s.optional(s.string({ description: "Owner address" })),
+    mime_type: s.optional(s.string({ description: "e.g. application/pdf or image/*" })),
+    from: s.optional(s.string({ description: "Registered at or after this date" })),
+    to: s.optional(s.string({ description: "Registered before this date; a bare date includes the whole day" })),
+    sort: s.optional(s.oneOf(SORT_COLUMNS)),
+    order: s.optional(s.oneOf(["asc", "desc"] as const)),
+  },
+  { name: "DocumentQuery" }
+);
+
+const documentFields = {
+  id: uuid,
+  filename: s.string(),
+  file_hash: s.string(),
+  hash_algorithm: hashAlgorithm,
+  file_size: s.integer(),
+  mime_type: s.string(),
+  uploader_address: s.string(),
+  tags: s.nullable(s.array(s.string())),
+  version: s.integer(),
+  parent_id: s.nullable(uuid),
+  status: s.oneOf(DOCUMENT_STATUSES),
+  revoked_at: s.nullable(timestamp),
+  revocation_reason: s.nullable(s.string()),
+  created_at: timestamp,
+};
+
+const blockchainRecordFields = {
+  transaction_hash: s.nullable(s.string()),
+  block_number: s.nullable(s.integer()),
+  owner_address: s.string(),
+  block_timestamp: s.nullable(s.integer()),
+  status: s.oneOf(ANCHOR_STATUSES),
+  confirmations: s.integer({ minimum: 0, description: "Blocks on top of and including the anchoring block" }),
+  finalized_at: s.nullable(timestamp),
+};
+
+export const RegistryDocumentSchema = s.object(
+  {
+    ...documentFields,
+    blockchain_records: s.array(s.object(blockchainRecordFields)),
+  },
+  { name: "RegistryDocument" }
+);
+
+export const DocumentsResponseSchema = s.object(
+  {
+    success: s.literal(true),
+    documents: s.array(RegistryDocumentSchema),
+    pagination: s.object({
+      limit: s.integer(),
+      hasMore: s.boolean(),
+      next_cursor: s.nullable(s.string({ description: "Pass back as `cursor`, with the same query, for the next page" })),
+    }),
+  },
+  { name: "DocumentsResponse" }
+);
+
+export const DocumentDetailsSchema = s.object(
+  {
+    ...documentFields,
+    lineage_id: uuid,
+    revoked_by: s.nullable(s.string()),
+    digests: s.array(DigestSchema),
+    blockchain_record: s.nullable(
+      s.object({
+        ...blockchainRecordFields,
+        revocation_transaction_hash: s.nullable(s.string()),
+        revocation_block_number: s.nullable(s.integer()),
+      })
+    ),
+  },
+  { name: "DocumentDetails" }
+);
+
+export const VerificationEventSchema = s.object(
+  {
+    id: uuid,
+    verified_hash: s.string(),
+    hash_algorithm: s.string(),
+    status: s.oneOf(VERIFICATION_STATUSES),
+    verification_timestamp: timestamp,
+    verifier_address: s.nullable(s.string()),
+    details: s.record(s.unknown()),
+  },
+  { name: "VerificationEvent" }
+);
+
+export const DocumentResponseSchema = s.object(
+  {
+    success: s.literal(true),
+    document: DocumentDetailsSchema,
+    verification_history: s.array(VerificationEventSchema),
+    pagination: s.object({
+      total: s.integer(),
+      limit: s.integer(),
+      offset: s.integer(),
+      hasMore: s.boolean(),
+    }),
+  },
+  { name: "DocumentResponse" }
+);
+
+// Export
+
+export const EXPORT_FORMATS = ["csv", "json", "ndjson"] as const;
+
+// Columns export-proofs can include, in its default order; `extra` columns are
+// left out unless asked for. The label is also the CSV header.
+export const EXPORT_COLUMNS = [
+  { id: "id", label: "Document ID", extra: true },
+  { id: "filename", label: "Filename" },
+  { id: "hash_algorithm", label: "Hash Algorithm" },
+  { id: "file_hash", label: "Hash" },
+  { id: "file_size", label: "File Size (bytes)" },
+  { id: "mime_type", label: "MIME Type" },
+  { id: "version", label: "Version" },
+  { id: "tags", label: "Tags", extra: true },
+  { id: "owner_address", label: "Owner Address" },
+  { id: "transaction_hash", label: "Transaction Hash" },
+  { id: "block_number", label: "Block Number" },
+  { id: "block_timestamp", label: "Block Timestamp" },
+  { id: "anchor_status", label: "Anchor Status", extra: true },
+  { id: "confirmations", label: "Confirmations", extra: true },
+  { id: "status", label: "Status" },
+  { id: "created_at", label: "Registered At" },
+  { id: "revoked_at", label: "Revoked At" },
+  { id: "revocation_reason", label: "Revocation Reason" },
+] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+export type ExportColumn = (typeof EXPORT_COLUMNS)[number]["id"];
+
+// Sign-in
+
+export const SiweVerifyRequestSchema = s.object(
+  {
+    message: s.string({ minLength: 1, description: "EIP-4361 message" }),
+    signature: s.string({ pattern: /^0x[0-9a-f]+$/i, description: "0x-prefixed hex" }),
+  },
+  { name: "SiweVerifyRequest" }
+);
+
+// Webhook deliveries
+
+export const WEBHOOK_DELIVERY_STATUSES = ["queued", "running", "succeeded", "dead"] as const;
+
+// Filters of the webhook-deliveries log, as they appear in its query string.
+export const DeliveryQuerySchema = s.object(
+  {
+    subscription_id: s.optional(uuid),
+    status: s.optional(s.oneOf(WEBHOOK_DELIVERY_STATUSES)),
+  },
+  { name: "DeliveryQuery" }
+);
+
+export const RedeliverRequestSchema = s.object({ delivery_id: uuid }, { name: "RedeliverRequest" });
+
+export type Digest = Infer<typeof DigestSchema>;
+export type ErrorResponse = Infer<typeof ErrorResponseSchema>;
+export type RegisterRequest = Infer<typeof RegisterRequestSchema>;
+export type RegisterResponse = Infer<typeof RegisterResponseSchema>;
+export type BatchRegisterRequest = Infer<typeof BatchRegisterRequestSchema>;
+export type BatchRegisterItem = Infer<typeof BatchRegisterItemSchema>;
+export type BatchRegisterResponse = Infer<typeof BatchRegisterResponseSchema>;
+export type VerifyRequest = Infer<typeof VerifyRequestSchema>;
+export type LookupRequest = Infer<typeof LookupRequestSchema>;
+export type MerkleProof = Infer<typeof MerkleProofSchema>;
+export type Lineage = Infer<typeof LineageSchema>;
+export type VerifyResult = Infer<typeof VerifyResultSchema>;
+export type VerifyResponse = Infer<typeof VerifyResponseSchema>;
+export type BatchVerifyRequest = Infer<typeof BatchVerifyRequestSchema>;
+export type BatchVerifyItem = Infer<typeof BatchVerifyItemSchema>;
+export type BatchVerifyResponse = Infer<typeof BatchVerifyResponseSchema>;
+export type RevokeRequest = Infer<typeof RevokeRequestSchema>;
+export type RevokeResponse = Infer<typeof RevokeResponseSchema>;
+export type DocumentQuery = Infer<typeof DocumentQuerySchema>;
+export type RegistryDocument = Infer<typeof RegistryDocumentSchema>;
+export type DocumentsResponse = Infer<typeof DocumentsResponseSchema>;
+export type DocumentDetails = Infer<typeof DocumentDetailsSchema>;
+export type VerificationEvent = Infer<typeof VerificationEventSchema>;
+export type DocumentResponse = Infer<typeof DocumentResponseSchema>;
+export type SiweVerifyRequest = Infer<typeof SiweVerifyRequestSchema>;
+export type DeliveryQuery = Infer<typeof DeliveryQuerySchema>;
+export type RedeliverRequest = Infer<typeof RedeliverRequestSchema>;
@@ -0,0 +1,114 @@
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2.57.4";
+import { describe, expect, it } from "vitest";
+import { fetchDocumentDetails } from "./documents.ts";
+
+type Row = Record<string, unknown>;
+
+const OWNER = "0xabcdefabcdefabcdefabcdefabcdefabcdefabcd";
+const OTHER = "0x2222222222222222222222222222222222222222";
+const DOCUMENT_ID = "4f3c2a1e-0000-4000-8000-000000000001";
+
+// Splits a PostgREST `or` filter on the commas between its conditions.
+function conditions(filter: string): string[] {
+  return filter.split(/,(?![^(]*\))/);
+}
+
+function matches(row: Row, condition: string): boolean {
+  const [column, op, ...rest] = condition.split(".");
+  const value = rest.join(".");
+  if (op === "in") {
+    return value.slice(1, -1).split(",").includes(String(row[column]));
+  }
+  return op === "eq" && String(row[column]) === value.replace(/^"|"$/g, "");
+}
+
+// Just enough of the PostgREST query builder for the document read, over
+// in-memory tables.
+class FakeQuery implements PromiseLike<{ data: unknown; error: null; count: number }> {
+  private filters: Array<(row: Row) => boolean> = [];
+  private single = false;
+
+  constructor(private rows: Row[]) {}
+
+  select() {
+    return this;
+  }
+  eq(column: string, value: unknown) {
+    this.filters.push((row) => row[column] === value);
+    return this;
+  }
+  or(filter: string) {
+    this.filters.push((row) => conditions(filter).some((condition) => matches(row, condition)));
+    return this;
+  }
+  order() {
+    return this;
+  }
+  range() {
+    return this;
+  }
+  maybeSingle() {
+    this.single = true;
+    return this;
+  }
+
+  then<T = { data: unknown; error: null; count: number }, E = never>(
+    resolve?: ((value: { data: unknown; error: null; count: number }) => T | PromiseLike<T>) | null,
+    reject?: ((reason: unknown) => E | PromiseLike<E>) | null
+  ): PromiseLike<T | E> {
+    const rows = this.rows.filter((row) => this.filters.every((filter) => filter(row)));
+    const data = this.single ? (rows[0] ?? null) : rows;
+    return Promise.resolve({ data, error: null as null, count: rows.length }).then(resolve, reject);
+  }
+}
+
+function fakeSupabase(tables: Record<string, Row[]>) {
+  return { from: (table: string) => new FakeQuery(tables[table] || []) } as unknown as SupabaseClient;
+}
+
+const pendingDocument = {
+  id: DOCUMENT_ID,
+  filename: "contract.pdf",
+  uploader_address: OWNER,
+  status: "pending",
+  document_digests: [],
+  blockchain_records: [{ status: "pending", transaction_hash: null }],
+};
+
+const page = { limit: 20, offset: 0 };
+
+describe("fetchDocumentDetails", () => {
+  it("shows an owner their own pending document, whatever the address case", async () => {
+    const supabase = fakeSupabase({
+      documents: [pendingDocument],
+      verification_history: [{ id: "h1", document_id: DOCUMENT_ID, status: "verified" }],
+    });
+
+    const details = await fetchDocumentDetails(supabase, DOCUMENT_ID, "0xABCDEFabcdefABCDEFabcdefABCDEFabcdefABCD", page);
+
+    expect(details?.document).toMatchObject({
+      id: DOCUMENT_ID,
+      status: "pending",
+      digests: [],
+      blockchain_record: { status: "pending" },
+    });
+    expect(details?.verification_history).toHaveLength(1);
+    expect(details?.total).toBe(1);
+  });
+
+  it("hides a pending document from other wallets and anonymous callers", async () => {
+    const supabase = fakeSupabase({ documents: [pendingDocument] });
+
+    expect(await fetchDocumentDetails(supabase, DOCUMENT_ID, OTHER, page)).toBeNull();
+    expect(await fetchDocumentDetails(supabase, DOCUMENT_ID, undefined, page)).toBeNull();
+  });
+
+  it("shows confirmed documents to anyone", async () => {
+    const supabase = fakeSupabase({ documents: [{ ...pendingDocument, status: "confirmed" }] });
+
+    const details = await fetchDocumentDetails(supabase, DOCUMENT_ID, undefined, page);
+
+    expect(details?.document).toMatchObject({ id: DOCUMENT_ID, status: "confirmed" });
+    expect(details?.verification_history).toEqual([]);
+  });
+});
@@ -0,0 +1,76 @@
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2.57.4";
+import { applyVisibility } from "./search.ts";
+
+const DOCUMENT_COLUMNS = `
+  id,
+  filename,
+  file_hash,
+  hash_algorithm,
+  file_size,
+  mime_type,
+  uploader_address,
+  tags,
+  version,
+  lineage_id,
+  parent_id,
+  status,
+  revoked_at,
+  revocation_reason,
+  revoked_by,
+  created_at,
+  document_digests(algorithm, digest),
+  blockchain_records(transaction_hash, block_number, owner_address, block_timestamp, status, confirmations, finalized_at, revocation_transaction_hash, revocation_block_number)
+`;
+
+export interface HistoryPage {
+  limit: number;
+  offset: number;
+}
+
+// Reads a document with a page of its verification history, or null when the
+// caller may not see it. `supabase` must use the service role: visibility is
+// applied here, so an owner also sees their own pending documents.
+export async function fetchDocumentDetails(
+  supabase: SupabaseClient,
+  documentId: string,
+  owner: string | undefined,
+  page: HistoryPage
+) {
+  let query = supabase.from("documents").select(DOCUMENT_COLUMNS).eq("id", documentId);
+  query = applyVisibility(query, owner);
+
+  const { data: document, error } = await query.maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  if (!document) {
+    return null;
+  }
+
+  const { data: history, error: historyError, count } = await supabase
+    .from("verification_history")
+    .select("id, verified_hash, hash_algorithm, status, verification_timestamp, verifier_address, details", {
+      count: "exact",
+    })
+    .eq("document_id", documentId)
+    .order("verification_timestamp", { ascending: false })
+    .range(page.offset, page.offset + page.limit - 1);
+
+  if (historyError) {
+    throw historyError;
+  }
+
+  const { blockchain_records, document_digests, ...fields } = document;
+
+  return {
+    document: {
+      ...fields,
+      digests: document_digests || [],
+      blockchain_record: blockchain_records?.[0] || null,
+    },
+    verification_history: history || [],
+    total: count || 0,
+  };
+}
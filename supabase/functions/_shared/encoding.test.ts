@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { bytesToHex, canonicalize, fromBase64Url, hexToBytes, toBase64Url } from "./encoding.ts";
+
+describe("canonicalize", () => {
+  it("sorts keys at every level and keeps array order", () => {
+    expect(canonicalize({ b: 1, a: { d: [3, { f: 1, e: 2 }], c: "x" } })).toBe(
+      '{"a":{"c":"x","d":[3,{"e":2,"f":1}]},"b":1}'
+    );
+  });
+
+  it("leaves out undefined members but keeps nulls", () => {
+    expect(canonicalize({ a: undefined, b: null })).toBe('{"b":null}');
+  });
+
+  it("escapes strings as JSON does", () => {
+    expect(canonicalize({ "quote\"": "line\nbreak" })).toBe('{"quote\\"":"line\\nbreak"}');
+  });
+});
+
+describe("byte encodings", () => {
+  const bytes = Uint8Array.from([0, 1, 127, 128, 250, 251, 255]);
+
+  it("round-trips hex, with or without 0x", () => {
+    expect(bytesToHex(bytes)).toBe("00017f80fafbff");
+    expect(hexToBytes("00017f80fafbff")).toEqual(bytes);
+    expect(hexToBytes("0x00017F80FAFBFF")).toEqual(bytes);
+  });
+
+  it("round-trips unpadded base64url", () => {
+    expect(toBase64Url(bytes)).toBe("AAF_gPr7_w");
+    expect(fromBase64Url("AAF_gPr7_w")).toEqual(bytes);
+  });
+});
@@ -0,0 +1,14 @@
+import { describe, expect, it } from "vitest";
+import { isHashAlgorithm } from "./hashing.ts";
+
+describe("isHashAlgorithm", () => {
+  it("accepts the supported algorithms", () => {
+    expect(["sha256", "sha512", "sha3-256", "keccak256", "blake3"].every(isHashAlgorithm)).toBe(true);
+  });
+
+  it("rejects unknown names, including inherited object keys", () => {
+    for (const value of ["md5", "SHA256", "toString", "constructor", "__proto__", "hasOwnProperty", 256, null]) {
+      expect(isHashAlgorithm(value)).toBe(false);
+    }
+  });
+});
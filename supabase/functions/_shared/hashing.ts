@@ -0,0 +1,33 @@
+export const HASH_ALGORITHMS = {
+  sha256: 64,
+  sha512: 128,
+  "sha3-256": 64,
+  keccak256: 64,
+  blake3: 64,
+} as const;
+
+export type HashAlgorithm = keyof typeof HASH_ALGORITHMS;
+
+export interface Digest {
+  algorithm: HashAlgorithm;
+  digest: string;
+}
+
+export function isHashAlgorithm(value: unknown): value is HashAlgorithm {
+  return typeof value === "string" && Object.prototype.hasOwnProperty.call(HASH_ALGORITHMS, value);
+}
+
+export function normalizeDigest(digest: string): string {
+  return digest.trim().toLowerCase().replace(/^0x/, "");
+}
+
+export function isValidDigest(algorithm: HashAlgorithm, digest: string): boolean {
+  return new RegExp(`^[0-9a-f]{${HASH_ALGORITHMS[algorithm]}}$`).test(digest);
+}
+
+// Algorithms whose digest length matches, for lookups that do not name one.
+export function candidateAlgorithms(digest: string): HashAlgorithm[] {
+  return (Object.keys(HASH_ALGORITHMS) as HashAlgorithm[]).filter((algorithm) =>
+    isValidDigest(algorithm, digest)
+  );
+}
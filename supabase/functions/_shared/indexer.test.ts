@@ -0,0 +1,329 @@
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2.57.4";
+import { beforeEach, describe, expect, it } from "vitest";
+import { LocalDevChain } from "./chain.ts";
+import { syncRegistryEvents, type SyncOptions } from "./indexer.ts";
+
+type Row = Record<string, unknown>;
+
+// Just enough of the PostgREST query builder for the indexer, over in-memory
+// tables. Embedded `documents(...)` selects join on `document_id`. Like
+// PostgREST, `maybeSingle` fails when more than one row matches.
+type Result = { data: unknown; error: { message: string } | null };
+
+class FakeQuery implements PromiseLike<Result> {
+  private filters: Array<(row: Row) => boolean> = [];
+  private write?: { kind: "update" | "insert" | "upsert"; values: Row | Row[]; conflict?: string[] };
+  private embedDocuments = false;
+  private single = false;
+
+  constructor(
+    private tables: Record<string, Row[]>,
+    private table: string
+  ) {}
+
+  select(columns = "*") {
+    this.embedDocuments = columns.includes("documents(");
+    return this;
+  }
+  eq(column: string, value: unknown) {
+    return this.where((row) => row[column] === value);
+  }
+  in(column: string, values: unknown[]) {
+    return this.where((row) => values.includes(row[column]));
+  }
+  gte(column: string, value: number) {
+    return this.where((row) => row[column] !== null && Number(row[column]) >= value);
+  }
+  lte(column: string, value: number) {
+    return this.where((row) => row[column] !== null && Number(row[column]) <= value);
+  }
+  is(column: string, value: null) {
+    return this.where((row) => (row[column] ?? null) === value);
+  }
+  order() {
+    return this;
+  }
+  maybeSingle() {
+    this.single = true;
+    return this;
+  }
+  update(values: Row) {
+    this.write = { kind: "update", values };
+    return this;
+  }
+  insert(values: Row | Row[]) {
+    this.write = { kind: "insert", values };
+    return this;
+  }
+  upsert(values: Row, options: { onConflict?: string } = {}) {
+    this.write = { kind: "upsert", values, conflict: (options.onConflict || "id").split(",") };
+    return this;
+  }
+
+  then<T = Result, E = never>(
+    resolve?: ((value: Result) => T | PromiseLike<T>) | null,
+    reject?: ((reason: unknown) => E | PromiseLike<E>) | null
+  ): PromiseLike<T | E> {
+    return Promise.resolve(this.run()).then(resolve, reject);
+  }
+
+  private where(filter: (row: Row) => boolean) {
+    this.filters.push(filter);
+    return this;
+  }
+
+  private run(): Result {
+    const data = this.execute();
+    if (this.single && Array.isArray(data)) {
+      return data.length > 1
+        ? { data: null, error: { message: "JSON object requested, multiple (or no) rows returned" } }
+        : { data: data[0] || null, error: null };
+    }
+    return { data, error: null };
+  }
+
+  private execute(): unknown {
+    const rows = (this.tables[this.table] ||= []);
+    const matching = () => rows.filter((row) => this.filters.every((filter) => filter(row)));
+
+    if (this.write?.kind === "insert") {
+      rows.push(...[this.write.values].flat().map((row) => ({ ...row })));
+      return null;
+    }
+    if (this.write?.kind === "update") {
+      const values = Object.fromEntries(Object.entries(this.write.values).filter(([, v]) => v !== undefined));
+      for (const row of matching()) Object.assign(row, values);
+      return null;
+    }
+    if (this.write?.kind === "upsert") {
+      const values = this.write.values as Row;
+      const existing = rows.find((row) => this.write!.conflict!.every((column) => row[column] === values[column]));
+      if (existing) Object.assign(existing, values);
+      else rows.push({ ...values });
+      return null;
+    }
+
+    const selected = matching().map((row) =>
+      this.embedDocuments
+        ? { ...row, documents: this.tables.documents?.find((doc) => doc.id === row.document_id) || null }
+        : { ...row }
+    );
+    return selected;
+  }
+}
+
+function fakeSupabase(tables: Record<string, Row[]>) {
+  return { from: (table: string) => new FakeQuery(tables, table) } as unknown as SupabaseClient;
+}
+
+const ROOT = "1".repeat(64);
+const OTHER_ROOT = "2".repeat(64);
+const LEAF = "3".repeat(64);
+const FILLER_ROOT = "5".repeat(64);
+
+const options: SyncOptions = {
+  checkpointId: "31337:local",
+  startBlock: 1,
+  confirmations: 1,
+  blockRange: 2,
+  maxBlocks: 100,
+};
+
+let chain: LocalDevChain;
+let tables: Record<string, Row[]>;
+
+// A document batched on its own under `root`, as the database recorded it.
+function seedBatch(root: string, record: Row = {}, batch: Row = {}) {
+  const id = `batch-${root.slice(0, 4)}`;
+  const documentId = `doc-${root.slice(0, 4)}`;
+  tables.anchor_batches.push({
+    id,
+    merkle_root: root,
+    status: "pending",
+    transaction_hash: null,
+    block_number: null,
+    ...batch,
+  });
+  tables.documents.push({ id: documentId, file_hash: root, uploader_address: "0xowner", status: "pending" });
+  tables.merkle_proofs.push({ document_id: documentId, batch_id: id, leaf_hash: LEAF });
+  tables.blockchain_records.push({
+    document_id: documentId,
+    status: "pending",
+    transaction_hash: null,
+    block_number: null,
+    revocation_transaction_hash: null,
+    revocation_block_number: null,
+    ...record,
+  });
+  return { batchId: id, documentId };
+}
+
+const open = (kind: string) => tables.chain_discrepancies.filter((d) => d.kind === kind && d.resolved_at === null);
+
+beforeEach(() => {
+  chain = new LocalDevChain();
+  tables = {
+    anchor_batches: [],
+    documents: [],
+    merkle_proofs: [],
+    blockchain_records: [],
+    chain_checkpoints: [],
+    chain_discrepancies: [],
+  };
+});
+
+describe("syncRegistryEvents against the local dev chain", () => {
+  it("finds nothing to flag when the database agrees with the chain", async () => {
+    const anchored = await chain.anchor(ROOT);
+    const chainState = { status: "confirmed", transaction_hash: anchored.transaction_hash, block_number: 1 };
+    seedBatch(ROOT, chainState, chainState);
+
+    const result = await syncRegistryEvents(fakeSupabase(tables), chain, options);
+
+    expect(result).toMatchObject({ head_block: 1, from_block: 1, to_block: 1, registrations: 1, discrepancies: 0 });
+    expect(tables.chain_discrepancies).toEqual([]);
+    expect(tables.chain_checkpoints).toMatchObject([{ id: options.checkpointId, last_block: 1 }]);
+  });
+
+  it("confirms a batch the anchor worker gave up on from its chain event", async () => {
+    const anchored = await chain.anchor(ROOT);
+    const { batchId, documentId } = seedBatch(ROOT);
+
+    const result = await syncRegistryEvents(fakeSupabase(tables), chain, options);
+
+    expect(result).toMatchObject({ registrations: 1, records_updated: 1, discrepancies: 0 });
+    expect(tables.anchor_batches.find((b) => b.id === batchId)).toMatchObject({
+      status: "confirmed",
+      transaction_hash: anchored.transaction_hash,
+      block_number: 1,
+    });
+    expect(tables.blockchain_records.find((r) => r.document_id === documentId)).toMatchObject({
+      status: "confirmed",
+      batch_id: batchId,
+      transaction_hash: anchored.transaction_hash,
+      block_timestamp: anchored.block_timestamp,
+    });
+    expect(tables.documents.find((d) => d.id === documentId)?.status).toBe("confirmed");
+  });
+
+  it("flags a record that names another transaction and takes the chain's", async () => {
+    const anchored = await chain.anchor(ROOT);
+    const stale = { status: "confirmed", transaction_hash: "0xstale", block_number: 9 };
+    const { documentId } = seedBatch(ROOT, stale, stale);
+
+    await syncRegistryEvents(fakeSupabase(tables), chain, options);
+
+    expect(open("anchor_mismatch")).toMatchObject([
+      {
+        document_hash: ROOT,
+        document_id: documentId,
+        details: {
+          database: { transaction_hash: "0xstale", block_number: 9 },
+          chain: { transaction_hash: anchored.transaction_hash, block_number: 1 },
+        },
+      },
+    ]);
+    expect(tables.blockchain_records[0].transaction_hash).toBe(anchored.transaction_hash);
+  });
+
+  it("flags a registration the database has no batch for", async () => {
+    await chain.anchor(OTHER_ROOT);
+
+    const result = await syncRegistryEvents(fakeSupabase(tables), chain, options);
+
+    expect(result.discrepancies).toBe(1);
+    expect(open("unknown_registration")).toMatchObject([
+      {
+        document_hash: OTHER_ROOT,
+        block_number: 1,
+        details: { registrant: "0xf39fd6e51aad88f6f4ce6ab8827279cfffb92266" },
+      },
+    ]);
+  });
+
+  it("flags an anchor the database places in a block without one, until it turns up", async () => {
+    await chain.anchor(OTHER_ROOT);
+    await chain.anchor(FILLER_ROOT);
+    const { batchId } = seedBatch(ROOT, {}, { status: "confirmed", transaction_hash: "0xlost", block_number: 2 });
+
+    await syncRegistryEvents(fakeSupabase(tables), chain, options);
+    expect(open("missing_registration")).toMatchObject([{ document_hash: ROOT, batch_id: batchId, block_number: 2 }]);
+
+    const late = await chain.anchor(ROOT);
+    await syncRegistryEvents(fakeSupabase(tables), chain, options);
+
+    expect(open("missing_registration")).toEqual([]);
+    expect(tables.anchor_batches.find((b) => b.id === batchId)?.transaction_hash).toBe(late.transaction_hash);
+  });
+
+  it("flags revocations the database does not know of or has not made", async () => {
+    const anchored = await chain.anchor(ROOT);
+    const chainState = { status: "confirmed", transaction_hash: anchored.transaction_hash, block_number: 1 };
+    const { documentId } = seedBatch(ROOT, chainState, chainState);
+    tables.documents[0].status = "confirmed";
+    await chain.revoke(LEAF);
+    await chain.revoke("4".repeat(64));
+
+    const result = await syncRegistryEvents(fakeSupabase(tables), chain, options);
+
+    expect(result.revocations).toBe(1);
+    expect(open("unexpected_revocation")).toMatchObject([
+      { document_hash: LEAF, document_id: documentId, details: { database_status: "confirmed" } },
+    ]);
+    expect(open("unknown_revocation")).toMatchObject([{ document_hash: "4".repeat(64) }]);
+    expect(tables.blockchain_records[0]).toMatchObject({ revocation_block_number: 2 });
+    expect(tables.documents[0].status).toBe("confirmed");
+  });
+
+  it("applies a revocation to the revoked one of the documents sharing its leaf hash", async () => {
+    const first = await chain.anchor(ROOT);
+    const second = await chain.anchor(OTHER_ROOT);
+    const kept = seedBatch(ROOT, {}, { status: "confirmed", transaction_hash: first.transaction_hash, block_number: 1 });
+    const revoked = seedBatch(
+      OTHER_ROOT,
+      {},
+      { status: "confirmed", transaction_hash: second.transaction_hash, block_number: 2 }
+    );
+    tables.documents.forEach((doc) => (doc.status = doc.id === revoked.documentId ? "revoked" : "confirmed"));
+    await chain.revoke(LEAF);
+
+    const result = await syncRegistryEvents(fakeSupabase(tables), chain, options);
+
+    expect(result).toMatchObject({ to_block: 3, revocations: 1, discrepancies: 0 });
+    expect(tables.blockchain_records.find((r) => r.document_id === revoked.documentId)).toMatchObject({
+      revocation_block_number: 3,
+    });
+    expect(tables.blockchain_records.find((r) => r.document_id === kept.documentId)).toMatchObject({
+      revocation_block_number: null,
+    });
+    expect(tables.chain_checkpoints).toMatchObject([{ last_block: 3 }]);
+  });
+
+  it("completes a revocation that was only sent without flagging it", async () => {
+    const anchored = await chain.anchor(ROOT);
+    const chainState = { status: "confirmed", transaction_hash: anchored.transaction_hash, block_number: 1 };
+    const revoked = await chain.revoke(LEAF);
+    seedBatch(ROOT, { ...chainState, revocation_transaction_hash: revoked.transaction_hash }, chainState);
+    tables.documents[0].status = "revoked";
+
+    const result = await syncRegistryEvents(fakeSupabase(tables), chain, options);
+
+    expect(result).toMatchObject({ revocations: 1, discrepancies: 0 });
+    expect(tables.blockchain_records[0]).toMatchObject({
+      revocation_transaction_hash: revoked.transaction_hash,
+      revocation_block_number: 2,
+    });
+  });
+
+  it("resumes after the checkpoint and reads only confirmed blocks", async () => {
+    await chain.anchor(OTHER_ROOT);
+    await syncRegistryEvents(fakeSupabase(tables), chain, options);
+
+    await chain.anchor(FILLER_ROOT);
+    await chain.anchor("6".repeat(64));
+    const result = await syncRegistryEvents(fakeSupabase(tables), chain, { ...options, confirmations: 2 });
+
+    expect(result).toMatchObject({ head_block: 3, from_block: 2, to_block: 2, registrations: 0 });
+    expect(tables.chain_checkpoints).toMatchObject([{ last_block: 2 }]);
+  });
+});
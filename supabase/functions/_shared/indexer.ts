@@ -0,0 +1,481 @@
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2.57.4";
+import type { RegistryEvent, RegistryEventSource } from "./chain.ts";
+import { isAnchored } from "./contract.ts";
+
+export type DiscrepancyKind =
+  | "unknown_registration"
+  | "anchor_mismatch"
+  | "missing_registration"
+  | "unknown_revocation"
+  | "unexpected_revocation"
+  | "missing_revocation";
+
+interface Discrepancy {
+  kind: DiscrepancyKind;
+  document_hash: string;
+  document_id?: string | null;
+  batch_id?: string | null;
+  transaction_hash?: string | null;
+  block_number?: number | null;
+  details?: Record<string, unknown>;
+}
+
+export interface SyncOptions {
+  checkpointId: string;
+  // First block to read when there is no checkpoint yet, e.g. the block the
+  // registry was deployed in.
+  startBlock: number;
+  // Blocks this deep or deeper are read; shallower ones may still be reorganised.
+  confirmations: number;
+  // Blocks per log request, and per run.
+  blockRange: number;
+  maxBlocks: number;
+  // Reads again from this block, whatever the checkpoint says.
+  fromBlock?: number;
+}
+
+export interface SyncResult {
+  head_block: number;
+  from_block: number | null;
+  to_block: number | null;
+  registrations: number;
+  revocations: number;
+  records_updated: number;
+  discrepancies: number;
+}
+
+interface Batch {
+  id: string;
+  merkle_root: string;
+  status: string;
+  transaction_hash: string | null;
+  block_number: number | null;
+}
+
+// Reads the registry contract's events from the checkpoint on, brings
+// `anchor_batches` and `blockchain_records` in line with them, and records in
+// `chain_discrepancies` every place where the database said otherwise. The
+// chain wins for transactions and blocks; document statuses are left to their
+// owners, so a revocation the database does not know of is only flagged.
+export async function syncRegistryEvents(
+  supabase: SupabaseClient,
+  source: RegistryEventSource,
+  options: SyncOptions
+): Promise<SyncResult> {
+  const head = await source.headBlock();
+  const result: SyncResult = {
+    head_block: head,
+    from_block: null,
+    to_block: null,
+    registrations: 0,
+    revocations: 0,
+    records_updated: 0,
+    discrepancies: 0,
+  };
+
+  const { data: checkpoint, error: checkpointError } = await supabase
+    .from("chain_checkpoints")
+    .select("last_block")
+    .eq("id", options.checkpointId)
+    .maybeSingle();
+
+  if (checkpointError) {
+    throw checkpointError;
+  }
+
+  const start = options.fromBlock ?? (checkpoint ? Number(checkpoint.last_block) + 1 : options.startBlock);
+  const end = Math.min(head - Math.max(options.confirmations, 1) + 1, start + options.maxBlocks - 1);
+
+  if (end < start) {
+    return result;
+  }
+
+  const now = () => new Date().toISOString();
+
+  const flag = async (discrepancy: Discrepancy) => {
+    const { error } = await supabase.from("chain_discrepancies").upsert(
+      {
+        document_id: null,
+        batch_id: null,
+        transaction_hash: null,
+        block_number: null,
+        details: {},
+        ...discrepancy,
+        detected_at: now(),
+        resolved_at: null,
+      },
+      { onConflict: "kind,document_hash,document_id" }
+    );
+
+    if (error) {
+      throw error;
+    }
+    result.discrepancies++;
+  };
+
+  // A disagreement the chain has since settled, e.g. a batch that was only
+  // missing because it was mined later than the database thought.
+  const resolve = async (kind: DiscrepancyKind, documentHash: string) => {
+    const { error } = await supabase
+      .from("chain_discrepancies")
+      .update({ resolved_at: now() })
+      .eq("kind", kind)
+      .eq("document_hash", documentHash)
+      .is("resolved_at", null);
+
+    if (error) {
+      throw error;
+    }
+  };
+
+  const applyRegistration = async (event: RegistryEvent) => {
+    const { data: batches, error: batchError } = await supabase
+      .from("anchor_batches")
+      .select("id, merkle_root, status, transaction_hash, block_number")
+      .eq("merkle_root", event.document_hash)
+      .order("created_at", { ascending: false });
+
+    if (batchError) {
+      throw batchError;
+    }
+
+    // A root can be batched more than once when an attempt failed after its
+    // transaction was sent. The one the chain names wins, then one we believe
+    // anchored, then the latest.
+    const candidates = (batches || []) as Batch[];
+    const batch =
+      candidates.find((b) => b.transaction_hash === event.transaction_hash) ||
+      candidates.find((b) => isAnchored(b.status)) ||
+      candidates[0];
+
+    if (!batch) {
+      await flag({
+        kind: "unknown_registration",
+        document_hash: event.document_hash,
+        transaction_hash: event.transaction_hash,
+        block_number: event.block_number,
+        details: { registrant: event.account },
+      });
+      return;
+    }
+
+    const chain = {
+      transaction_hash: event.transaction_hash,
+      block_number: event.block_number,
+      block_timestamp: event.timestamp,
+    };
+
+    if (batch.transaction_hash !== chain.transaction_hash || batch.block_number !== chain.block_number) {
+      const { error: updateBatchError } = await supabase
+        .from("anchor_batches")
+        .update({
+          ...chain,
+          status: isAnchored(batch.status) ? batch.status : "confirmed",
+          anchored_at: isAnchored(batch.status) ? undefined : now(),
+        })
+        .eq("id", batch.id);
+
+      if (updateBatchError) {
+        throw updateBatchError;
+      }
+    }
+
+    const { data: proofs, error: proofError } = await supabase
+      .from("merkle_proofs")
+      .select("document_id")
+      .eq("batch_id", batch.id);
+
+    if (proofError) {
+      throw proofError;
+    }
+
+    const documentIds = (proofs || []).map((proof) => proof.document_id);
+
+    if (documentIds.length > 0) {
+      const { data: records, error: recordsError } = await supabase
+        .from("blockchain_records")
+        .select("document_id, status, transaction_hash, block_number")
+        .in("document_id", documentIds);
+
+      if (recordsError) {
+        throw recordsError;
+      }
+
+      for (const record of records || []) {
+        if (record.transaction_hash === chain.transaction_hash && record.block_number === chain.block_number) {
+          continue;
+        }
+
+        if (isAnchored(record.status)) {
+          await flag({
+            kind: "anchor_mismatch",
+            document_hash: event.document_hash,
+            document_id: record.document_id,
+            batch_id: batch.id,
+            transaction_hash: chain.transaction_hash,
+            block_number: chain.block_number,
+            details: {
+              database: { transaction_hash: record.transaction_hash, block_number: record.block_number },
+              chain: { transaction_hash: chain.transaction_hash, block_number: chain.block_number },
+            },
+          });
+        }
+
+        const { error: updateError } = await supabase
+          .from("blockchain_records")
+          .update({
+            ...chain,
+            batch_id: batch.id,
+            status: isAnchored(record.status) ? record.status : "confirmed",
+          })
+          .eq("document_id", record.document_id);
+
+        if (updateError) {
+          throw updateError;
+        }
+        result.records_updated++;
+      }
+
+      const recorded = new Set((records || []).map((record) => record.document_id));
+      const unrecorded = documentIds.filter((id) => !recorded.has(id));
+
+      if (unrecorded.length > 0) {
+        const { data: documents, error: documentError } = await supabase
+          .from("documents")
+          .select("id, file_hash, uploader_address")
+          .in("id", unrecorded);
+
+        if (documentError) {
+          throw documentError;
+        }
+
+        const { error: insertError } = await supabase.from("blockchain_records").insert(
+          (documents || []).map((doc) => ({
+            document_id: doc.id,
+            document_hash: doc.file_hash,
+            owner_address: doc.uploader_address,
+            batch_id: batch.id,
+            status: "confirmed",
+            ...chain,
+          }))
+        );
+
+        if (insertError) {
+          throw insertError;
+        }
+        result.records_updated += documents?.length || 0;
+      }
+
+      const { error: statusError } = await supabase
+        .from("documents")
+        .update({ status: "confirmed", updated_at: now() })
+        .in("id", documentIds)
+        .eq("status", "pending");
+
+      if (statusError) {
+        throw statusError;
+      }
+    }
+
+    await resolve("missing_registration", event.document_hash);
+    result.registrations++;
+  };
+
+  const applyRevocation = async (event: RegistryEvent) => {
+    const { data: proofs, error: proofError } = await supabase
+      .from("merkle_proofs")
+      .select("document_id, batch_id, documents(status)")
+      .eq("leaf_hash", event.document_hash)
+      .order("created_at", { ascending: false });
+
+    if (proofError) {
+      throw proofError;
+    }
+
+    const candidates = (proofs || []).map((proof) => ({
+      document_id: proof.document_id as string,
+      batch_id: proof.batch_id as string,
+      status: ((Array.isArray(proof.documents) ? proof.documents[0] : proof.documents) as { status: string } | null)
+        ?.status,
+    }));
+
+    if (candidates.length === 0) {
+      await flag({
+        kind: "unknown_revocation",
+        document_hash: event.document_hash,
+        transaction_hash: event.transaction_hash,
+        block_number: event.block_number,
+        details: { revoker: event.account },
+      });
+      return;
+    }
+
+    const { data: records, error: recordError } = await supabase
+      .from("blockchain_records")
+      .select("document_id, revocation_transaction_hash, revocation_block_number")
+      .in("document_id", candidates.map((candidate) => candidate.document_id));
+
+    if (recordError) {
+      throw recordError;
+    }
+
+    const recordOf = (documentId: string) => (records || []).find((r) => r.document_id === documentId);
+
+    // A leaf hash is shared by every document registered with the same digest.
+    // The one that names this transaction wins, then a revoked one still
+    // waiting for its revocation, then any revoked one, then the latest.
+    const proof =
+      candidates.find((c) => recordOf(c.document_id)?.revocation_transaction_hash === event.transaction_hash) ||
+      candidates.find((c) => c.status === "revoked" && !recordOf(c.document_id)?.revocation_transaction_hash) ||
+      candidates.find((c) => c.status === "revoked") ||
+      candidates[0];
+    const record = recordOf(proof.document_id);
+
+    if (proof.status !== "revoked") {
+      await flag({
+        kind: "unexpected_revocation",
+        document_hash: event.document_hash,
+        document_id: proof.document_id,
+        batch_id: proof.batch_id,
+        transaction_hash: event.transaction_hash,
+        block_number: event.block_number,
+        details: { database_status: proof.status || null, revoker: event.account },
+      });
+    }
+
+    if (
+      record &&
+      (record.revocation_transaction_hash !== event.transaction_hash ||
+        record.revocation_block_number !== event.block_number)
+    ) {
+      // A revocation that was only sent has no block yet; the chain completes it.
+      if (record.revocation_block_number != null) {
+        await flag({
+          kind: "anchor_mismatch",
+          document_hash: event.document_hash,
+          document_id: proof.document_id,
+          batch_id: proof.batch_id,
+          transaction_hash: event.transaction_hash,
+          block_number: event.block_number,
+          details: {
+            revocation: true,
+            database: {
+              transaction_hash: record.revocation_transaction_hash,
+              block_number: record.revocation_block_number,
+            },
+            chain: { transaction_hash: event.transaction_hash, block_number: event.block_number },
+          },
+        });
+      }
+
+      const { error: updateError } = await supabase
+        .from("blockchain_records")
+        .update({
+          revocation_transaction_hash: event.transaction_hash,
+          revocation_block_number: event.block_number,
+          revocation_block_timestamp: event.timestamp,
+        })
+        .eq("document_id", proof.document_id);
+
+      if (updateError) {
+        throw updateError;
+      }
+      result.records_updated++;
+    }
+
+    await resolve("missing_revocation", event.document_hash);
+    result.revocations++;
+  };
+
+  // Anchors the database places in the range that the chain has no event for.
+  const checkMissing = async (fromBlock: number, toBlock: number, events: RegistryEvent[]) => {
+    const registered = new Set(events.filter((e) => e.kind === "register").map((e) => e.document_hash));
+    const revoked = new Set(events.filter((e) => e.kind === "revoke").map((e) => e.document_hash));
+
+    const { data: batches, error: batchError } = await supabase
+      .from("anchor_batches")
+      .select("id, merkle_root, status, transaction_hash, block_number")
+      .in("status", ["confirmed", "finalized"])
+      .gte("block_number", fromBlock)
+      .lte("block_number", toBlock);
+
+    if (batchError) {
+      throw batchError;
+    }
+
+    for (const batch of (batches || []) as Batch[]) {
+      if (registered.has(batch.merkle_root)) continue;
+      await flag({
+        kind: "missing_registration",
+        document_hash: batch.merkle_root,
+        batch_id: batch.id,
+        transaction_hash: batch.transaction_hash,
+        block_number: batch.block_number,
+      });
+    }
+
+    const { data: revocations, error: revocationError } = await supabase
+      .from("blockchain_records")
+      .select("document_id, revocation_transaction_hash, revocation_block_number")
+      .gte("revocation_block_number", fromBlock)
+      .lte("revocation_block_number", toBlock);
+
+    if (revocationError) {
+      throw revocationError;
+    }
+
+    if (!revocations?.length) return;
+
+    const { data: proofs, error: proofError } = await supabase
+      .from("merkle_proofs")
+      .select("document_id, batch_id, leaf_hash")
+      .in("document_id", revocations.map((r) => r.document_id));
+
+    if (proofError) {
+      throw proofError;
+    }
+
+    for (const proof of proofs || []) {
+      if (revoked.has(proof.leaf_hash)) continue;
+      const record = revocations.find((r) => r.document_id === proof.document_id);
+      await flag({
+        kind: "missing_revocation",
+        document_hash: proof.leaf_hash,
+        document_id: proof.document_id,
+        batch_id: proof.batch_id,
+        transaction_hash: record?.revocation_transaction_hash || null,
+        block_number: record?.revocation_block_number ?? null,
+      });
+    }
+  };
+
+  for (let from = start; from <= end; from += options.blockRange) {
+    const to = Math.min(from + options.blockRange - 1, end);
+    const events = await source.events(from, to);
+
+    for (const event of events) {
+      if (event.kind === "register") {
+        await applyRegistration(event);
+      } else {
+        await applyRevocation(event);
+      }
+    }
+
+    await checkMissing(from, to, events);
+
+    // Saved per range, so a run that fails part way resumes after the last
+    // range it completed.
+    const { error: saveError } = await supabase
+      .from("chain_checkpoints")
+      .upsert({ id: options.checkpointId, last_block: to, updated_at: now() });
+
+    if (saveError) {
+      throw saveError;
+    }
+
+    result.from_block ??= from;
+    result.to_block = to;
+  }
+
+  return result;
+}
@@ -0,0 +1,78 @@
+import { createHash } from "node:crypto";
+import { describe, expect, it } from "vitest";
+import { buildMerkleTree, computeMerkleRoot, hashLeaf, hashNode, MERKLE_ALGORITHM, verifyInclusion } from "./merkle.ts";
+
+const digest = (label: string) => createHash("sha256").update(label).digest("hex");
+
+const sha256 = (prefix: number, ...hex: string[]) =>
+  createHash("sha256")
+    .update(Buffer.concat([Buffer.from([prefix]), ...hex.map((h) => Buffer.from(h, "hex"))]))
+    .digest("hex");
+
+describe("buildMerkleTree", () => {
+  it("prefixes leaves and nodes as in RFC 6962", async () => {
+    const [a, b] = [digest("a"), digest("b")];
+
+    expect(await hashLeaf(a)).toBe(sha256(0x00, a));
+    expect(await hashNode(a, b)).toBe(sha256(0x01, a, b));
+
+    const tree = await buildMerkleTree([a, b]);
+    expect(tree.root).toBe(sha256(0x01, sha256(0x00, a), sha256(0x00, b)));
+  });
+
+  it("uses the leaf hash as the root of a single document", async () => {
+    const tree = await buildMerkleTree([digest("only")]);
+
+    expect(tree.root).toBe(await hashLeaf(digest("only")));
+    expect(tree.proofs).toEqual([{ leaf_index: 0, leaf_hash: tree.root, sibling_path: [] }]);
+  });
+
+  it("promotes a node without a sibling unchanged", async () => {
+    const digests = ["a", "b", "c"].map(digest);
+    const [la, lb, lc] = await Promise.all(digests.map(hashLeaf));
+    const tree = await buildMerkleTree(digests);
+
+    expect(tree.root).toBe(await hashNode(await hashNode(la, lb), lc));
+    expect(tree.proofs[2].sibling_path).toEqual([{ position: "left", hash: await hashNode(la, lb) }]);
+  });
+
+  it("refuses an empty batch", async () => {
+    await expect(buildMerkleTree([])).rejects.toThrow("without leaves");
+  });
+
+  it.each([1, 2, 5, 8, 13])("gives every one of %i leaves a proof that leads to the root", async (count) => {
+    const digests = Array.from({ length: count }, (_, i) => digest(`document ${i}`));
+    const tree = await buildMerkleTree(digests);
+
+    for (const [index, proof] of tree.proofs.entries()) {
+      expect(proof.leaf_index).toBe(index);
+      expect(await computeMerkleRoot(digests[index], proof.sibling_path)).toBe(tree.root);
+    }
+  });
+});
+
+describe("verifyInclusion", () => {
+  const digests = ["a", "b", "c", "d", "e"].map(digest);
+
+  it("accepts the proof of a batched document", async () => {
+    const tree = await buildMerkleTree(digests);
+    const proof = { ...tree.proofs[3], merkle_root: tree.root.toUpperCase(), merkle_algorithm: MERKLE_ALGORITHM };
+
+    expect(await verifyInclusion(digests[3], proof)).toBe(true);
+  });
+
+  it("rejects another document, a tampered path or an unknown algorithm", async () => {
+    const tree = await buildMerkleTree(digests);
+    const proof = { ...tree.proofs[3], merkle_root: tree.root, merkle_algorithm: MERKLE_ALGORITHM };
+    const [first, ...rest] = proof.sibling_path;
+
+    expect(await verifyInclusion(digests[2], proof)).toBe(false);
+    expect(
+      await verifyInclusion(digests[3], {
+        ...proof,
+        sibling_path: [{ ...first, position: first.position === "left" ? "right" : "left" }, ...rest],
+      })
+    ).toBe(false);
+    expect(await verifyInclusion(digests[3], { ...proof, merkle_algorithm: "sha256" })).toBe(false);
+  });
+});
@@ -0,0 +1,103 @@
+import { bytesToHex, hexToBytes } from "./encoding.ts";
+
+// Leaves and interior nodes are domain-separated (0x00 / 0x01 prefixes, as in
+// RFC 6962) so an interior node can never be replayed as a leaf. A node without
+// a sibling on its level is promoted unchanged.
+
+export interface MerkleStep {
+  position: "left" | "right";
+  hash: string;
+}
+
+export interface MerkleProof {
+  leaf_index: number;
+  leaf_hash: string;
+  sibling_path: MerkleStep[];
+}
+
+export interface MerkleTree {
+  root: string;
+  proofs: MerkleProof[];
+}
+
+export const MERKLE_ALGORITHM = "sha256-rfc6962";
+
+async function sha256(prefix: number, ...parts: Uint8Array[]): Promise<string> {
+  const length = parts.reduce((sum, part) => sum + part.length, 1);
+  const buffer = new Uint8Array(length);
+  buffer[0] = prefix;
+  let offset = 1;
+  for (const part of parts) {
+    buffer.set(part, offset);
+    offset += part.length;
+  }
+  return bytesToHex(new Uint8Array(await crypto.subtle.digest("SHA-256", buffer)));
+}
+
+export function hashLeaf(digest: string): Promise<string> {
+  return sha256(0x00, hexToBytes(digest));
+}
+
+export function hashNode(left: string, right: string): Promise<string> {
+  return sha256(0x01, hexToBytes(left), hexToBytes(right));
+}
+
+export async function buildMerkleTree(digests: string[]): Promise<MerkleTree> {
+  if (digests.length === 0) {
+    throw new Error("Cannot build a Merkle tree without leaves");
+  }
+
+  const leaves = await Promise.all(digests.map(hashLeaf));
+  const proofs: MerkleProof[] = leaves.map((leaf, index) => ({
+    leaf_index: index,
+    leaf_hash: leaf,
+    sibling_path: [],
+  }));
+
+  // positions[i] tracks where leaf i currently sits on the level being built
+  let level = leaves;
+  const positions = leaves.map((_, index) => index);
+
+  while (level.length > 1) {
+    const next: string[] = [];
+    for (let i = 0; i < level.length; i += 2) {
+      next.push(i + 1 < level.length ? await hashNode(level[i], level[i + 1]) : level[i]);
+    }
+
+    positions.forEach((position, leafIndex) => {
+      const sibling = position % 2 === 0 ? position + 1 : position - 1;
+      if (sibling < level.length) {
+        proofs[leafIndex].sibling_path.push({
+          position: sibling < position ? "left" : "right",
+          hash: level[sibling],
+        });
+      }
+      positions[leafIndex] = Math.floor(position / 2);
+    });
+
+    level = next;
+  }
+
+  return { root: level[0], proofs };
+}
+
+// A proof as the verification result and receipts carry it, with the root it
+// leads to.
+export interface InclusionProof extends MerkleProof {
+  merkle_root: string;
+  merkle_algorithm: string;
+}
+
+export async function computeMerkleRoot(digest: string, path: MerkleStep[]): Promise<string> {
+  let node = await hashLeaf(digest);
+  for (const step of path) {
+    node = step.position === "left" ? await hashNode(step.hash, node) : await hashNode(node, step.hash);
+  }
+  return node;
+}
+
+export async function verifyInclusion(digest: string, proof: InclusionProof): Promise<boolean> {
+  if (proof.merkle_algorithm !== MERKLE_ALGORITHM) return false;
+  const root = await computeMerkleRoot(digest, proof.sibling_path);
+  return root === proof.merkle_root.toLowerCase();
+}
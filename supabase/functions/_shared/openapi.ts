@@ -0,0 +1,231 @@
+// Builds the OpenAPI document for the public API from the contract, so the
+// spec cannot drift from what the functions actually accept.
+import {
+  BatchRegisterRequestSchema,
+  BatchRegisterResponseSchema,
+  BatchVerifyRequestSchema,
+  BatchVerifyResponseSchema,
+  DocumentQuerySchema,
+  DocumentResponseSchema,
+  DocumentsResponseSchema,
+  ErrorResponseSchema,
+  EXPORT_COLUMNS,
+  EXPORT_FORMATS,
+  LookupRequestSchema,
+  RegisterRequestSchema,
+  RegisterResponseSchema,
+  RevokeRequestSchema,
+  RevokeResponseSchema,
+  s,
+  VerifyResponseSchema,
+  type JsonSchema,
+  type Schema,
+  type ApiKeyScope,
+  type SchemaComponents,
+} from "./contract.ts";
+
+interface Parameter {
+  name: string;
+  description?: string;
+  required?: boolean;
+  schema: Schema<unknown>;
+}
+
+interface Operation {
+  path: string;
+  method: "get" | "post";
+  summary: string;
+  // API keys need this scope; wallet sessions may always call the operation.
+  scope: ApiKeyScope;
+  // Whether it can also be called with just the anon key.
+  anonymous: boolean;
+  parameters?: Parameter[];
+  body?: Schema<unknown>;
+  status: number;
+  response: Schema<unknown> | { contentType: string; description: string };
+}
+
+const documentQueryParameters: Parameter[] = Object.entries(DocumentQuerySchema.shape).map(([name, schema]) => ({
+  name,
+  schema,
+}));
+
+const OPERATIONS: Operation[] = [
+  {
+    path: "/register-document",
+    method: "post",
+    summary: "Register a document by its digest and queue it for anchoring",
+    scope: "register",
+    anonymous: false,
+    body: RegisterRequestSchema,
+    status: 201,
+    response: RegisterResponseSchema,
+  },
+  {
+    path: "/register-documents",
+    method: "post",
+    summary: "Register a batch of documents; items succeed or fail individually",
+    scope: "register",
+    anonymous: false,
+    body: BatchRegisterRequestSchema,
+    status: 200,
+    response: BatchRegisterResponseSchema,
+  },
+  {
+    path: "/verify-document",
+    method: "post",
+    summary: "Verify a digest, or look up a transaction or document ID",
+    scope: "verify",
+    anonymous: true,
+    body: LookupRequestSchema,
+    status: 200,
+    response: VerifyResponseSchema,
+  },
+  {
+    path: "/verify-documents",
+    method: "post",
+    summary: "Verify a batch of digests",
+    scope: "verify",
+    anonymous: true,
+    body: BatchVerifyRequestSchema,
+    status: 200,
+    response: BatchVerifyResponseSchema,
+  },
+  {
+    path: "/revoke-document",
+    method: "post",
+    summary: "Revoke a document you registered",
+    scope: "register",
+    anonymous: false,
+    body: RevokeRequestSchema,
+    status: 200,
+    response: RevokeResponseSchema,
+  },
+  {
+    path: "/get-documents",
+    method: "get",
+    summary: "Search the registry, one page at a time",
+    scope: "read",
+    anonymous: true,
+    parameters: [
+      ...documentQueryParameters,
+      { name: "limit", schema: s.integer({ minimum: 1, maximum: 200 }) },
+      { name: "cursor", description: "`pagination.next_cursor` of the previous page", schema: s.string() },
+    ],
+    status: 200,
+    response: DocumentsResponseSchema,
+  },
+  {
+    path: "/get-document",
+    method: "get",
+    summary: "Fetch one document with its verification history",
+    scope: "read",
+    anonymous: true,
+    parameters: [
+      { name: "document_id", required: true, schema: s.string({ format: "uuid" }) },
+      { name: "limit", schema: s.integer({ minimum: 1, maximum: 100 }) },
+      { name: "offset", schema: s.integer({ minimum: 0 }) },
+    ],
+    status: 200,
+    response: DocumentResponseSchema,
+  },
+  {
+    path: "/export-proofs",
+    method: "get",
+    summary: "Export every document matching a query, streamed",
+    scope: "export",
+    anonymous: true,
+    parameters: [
+      { name: "format", schema: s.oneOf(EXPORT_FORMATS) },
+      ...documentQueryParameters,
+      {
+        name: "columns",
+        description: `Comma-separated, from: ${EXPORT_COLUMNS.map((column) => column.id).join(", ")}`,
+        schema: s.string(),
+      },
+    ],
+    status: 200,
+    response: { contentType: "text/csv", description: "CSV, JSON or NDJSON, as asked for by `format`" },
+  },
+  {
+    path: "/get-receipt",
+    method: "get",
+    summary: "Fetch the signed, offline-verifiable receipt of an anchored document",
+    scope: "read",
+    anonymous: true,
+    parameters: [{ name: "document_id", required: true, schema: s.string({ format: "uuid" }) }],
+    status: 200,
+    response: { contentType: "application/json", description: "Signed receipt" },
+  },
+];
+
+function operationObject(operation: Operation, components: SchemaComponents): JsonSchema {
+  const security: Array<Record<string, string[]>> = [{ walletSession: [] }, { apiKey: [operation.scope] }];
+  if (operation.anonymous) security.push({});
+
+  const content =
+    "parse" in operation.response
+      ? { "application/json": { schema: operation.response.jsonSchema(components) } }
+      : { [operation.response.contentType]: {} };
+
+  return {
+    summary: operation.summary,
+    security,
+    parameters: operation.parameters?.map((parameter) => ({
+      name: parameter.name,
+      in: "query",
+      required: parameter.required || false,
+      description: parameter.description,
+      schema: parameter.schema.jsonSchema(components),
+    })),
+    requestBody: operation.body
+      ? { required: true, content: { "application/json": { schema: operation.body.jsonSchema(components) } } }
+      : undefined,
+    responses: {
+      [operation.status]: {
+        description: "description" in operation.response ? operation.response.description : "Success",
+        content,
+      },
+      default: {
+        description: "Error",
+        content: { "application/json": { schema: ErrorResponseSchema.jsonSchema(components) } },
+      },
+    },
+  };
+}
+
+export function buildOpenApiDocument(serverUrl: string): JsonSchema {
+  const components: SchemaComponents = {};
+  const paths: Record<string, Record<string, JsonSchema>> = {};
+
+  for (const operation of OPERATIONS) {
+    paths[operation.path] = {
+      ...paths[operation.path],
+      [operation.method]: operationObject(operation, components),
+    };
+  }
+
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "DocVerify API",
+      version: "1.0.0",
+      description:
+        "Every request also needs the project's anon key in the `apikey` header. " +
+        "Scopes only restrict API keys; a wallet session may call every operation.",
+    },
+    servers: [{ url: serverUrl }],
+    paths,
+    components: {
+      schemas: components,
+      securitySchemes: {
+        walletSession: {
+          type: "http",
+          scheme: "bearer",
+          description: "Session token from siwe-verify",
+        },
+        apiKey: { type: "apiKey", in: "header", name: "X-API-Key" },
+      },
+    },
+  };
+}
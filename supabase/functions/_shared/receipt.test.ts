@@ -0,0 +1,143 @@
+import { createHash } from "node:crypto";
+import { afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { parseReceipt, verifyReceiptSignature, type Receipt } from "../../../src/utils/receipt.ts";
+import { buildMerkleTree, MERKLE_ALGORITHM } from "./merkle.ts";
+import { RECEIPT_FORMAT, RECEIPT_VERSION, signReceipt, type UnsignedReceipt } from "./receipt.ts";
+
+// The functions sign receipts and the browser checks them. Files are hashed in
+// a worker in the browser; here the same digest is taken directly.
+vi.mock("../../../src/utils/crypto.ts", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../../../src/utils/crypto.ts")>()),
+  computeDigest: async (file: File) =>
+    createHash("sha256").update(new Uint8Array(await file.arrayBuffer())).digest("hex"),
+}));
+
+const contents = "quarterly report";
+const file = new File([contents], "report.txt", { type: "text/plain" });
+const fileHash = createHash("sha256").update(contents).digest("hex");
+
+let registryKey: JsonWebKey;
+
+async function generateKey() {
+  const pair = await crypto.subtle.generateKey({ name: "ECDSA", namedCurve: "P-256" }, true, ["sign", "verify"]);
+  return crypto.subtle.exportKey("jwk", pair.privateKey);
+}
+
+async function unsignedReceipt(): Promise<UnsignedReceipt> {
+  const tree = await buildMerkleTree([fileHash, createHash("sha256").update("other").digest("hex")]);
+  const proof = tree.proofs[0];
+
+  return {
+    format: RECEIPT_FORMAT,
+    version: RECEIPT_VERSION,
+    issued_at: "2026-01-01T00:00:00.000Z",
+    document: {
+      id: "4f3c2a1e-0000-4000-8000-000000000000",
+      filename: "report.txt",
+      file_size: contents.length,
+      mime_type: "text/plain",
+      registered_at: "2025-12-31T00:00:00.000Z",
+    },
+    hash: { algorithm: "sha256", digest: fileHash },
+    anchor: {
+      backend: "local",
+      chain_id: 31337,
+      registry_address: null,
+      transaction_hash: `0x${"ab".repeat(32)}`,
+      block_number: 7,
+      block_timestamp: 1700000084,
+    },
+    merkle: {
+      algorithm: MERKLE_ALGORITHM,
+      root: tree.root,
+      leaf_index: proof.leaf_index,
+      leaf_hash: proof.leaf_hash,
+      sibling_path: proof.sibling_path,
+    },
+  };
+}
+
+async function loadChecker(trustedKey?: JsonWebKey) {
+  vi.resetModules();
+  vi.stubEnv("VITE_RECEIPT_PUBLIC_KEY", trustedKey ? JSON.stringify(trustedKey) : "");
+  return (await import("../../../src/utils/receipt.ts")).checkFileAgainstReceipt;
+}
+
+beforeAll(async () => {
+  registryKey = await generateKey();
+  vi.stubEnv("RECEIPT_SIGNING_KEY", JSON.stringify(registryKey));
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.stubEnv("RECEIPT_SIGNING_KEY", JSON.stringify(registryKey));
+});
+
+describe("receipt signatures", () => {
+  it("verifies in the browser what the functions signed", async () => {
+    const receipt = parseReceipt(JSON.stringify(await signReceipt(await unsignedReceipt())));
+
+    expect(receipt.signature.public_key).toEqual({ kty: "EC", crv: "P-256", x: registryKey.x, y: registryKey.y });
+    expect(await verifyReceiptSignature(receipt)).toBe(true);
+  });
+
+  it("does not depend on the order of the receipt's keys", async () => {
+    const receipt = await signReceipt(await unsignedReceipt());
+    const reordered = Object.fromEntries(Object.entries(receipt).reverse()) as Receipt;
+
+    expect(await verifyReceiptSignature(reordered)).toBe(true);
+  });
+
+  it("fails once any signed field changes", async () => {
+    const receipt = await signReceipt(await unsignedReceipt());
+
+    expect(await verifyReceiptSignature({ ...receipt, anchor: { ...receipt.anchor, block_number: 8 } })).toBe(false);
+    expect(await verifyReceiptSignature({ ...receipt, signature: { ...receipt.signature, value: "AAAA" } })).toBe(false);
+  });
+});
+
+describe("checkFileAgainstReceipt", () => {
+  it("verifies the file, the proof and the registry as signer", async () => {
+    const checkFileAgainstReceipt = await loadChecker(registryKey);
+    const receipt = await signReceipt(await unsignedReceipt());
+
+    expect(await checkFileAgainstReceipt(file, receipt)).toEqual({
+      hashMatches: true,
+      proofValid: true,
+      signatureValid: true,
+      trustedSigner: true,
+      digest: fileHash,
+    });
+  });
+
+  it("reports an intact receipt signed with another key as untrusted", async () => {
+    const checkFileAgainstReceipt = await loadChecker(registryKey);
+    const impostorKey = await generateKey();
+
+    vi.resetModules();
+    vi.stubEnv("RECEIPT_SIGNING_KEY", JSON.stringify(impostorKey));
+    const { signReceipt: signAsImpostor } = await import("./receipt.ts");
+    const check = await checkFileAgainstReceipt(file, await signAsImpostor(await unsignedReceipt()));
+
+    expect(check.signatureValid).toBe(true);
+    expect(check.trustedSigner).toBe(false);
+  });
+
+  it("leaves the signer unknown when no trusted key is configured", async () => {
+    const checkFileAgainstReceipt = await loadChecker();
+    const check = await checkFileAgainstReceipt(file, await signReceipt(await unsignedReceipt()));
+
+    expect(check.signatureValid).toBe(true);
+    expect(check.trustedSigner).toBeNull();
+  });
+
+  it("reports another file and a proof for another root", async () => {
+    const checkFileAgainstReceipt = await loadChecker(registryKey);
+    const unsigned = await unsignedReceipt();
+    const receipt = await signReceipt({ ...unsigned, merkle: { ...unsigned.merkle!, root: "00".repeat(32) } });
+    const check = await checkFileAgainstReceipt(new File(["edited report"], "report.txt"), receipt);
+
+    expect(check.hashMatches).toBe(false);
+    expect(check.proofValid).toBe(false);
+  });
+});
@@ -0,0 +1,102 @@
+import type { ChainDescriptor } from "./chain.ts";
+import { canonicalize, toBase64Url } from "./encoding.ts";
+import type { MerkleStep } from "./merkle.ts";
+
+export const RECEIPT_FORMAT = "docverify-receipt";
+export const RECEIPT_VERSION = 1;
+export const RECEIPT_SIGNATURE_ALGORITHM = "ECDSA-P256-SHA256";
+
+export interface UnsignedReceipt {
+  format: typeof RECEIPT_FORMAT;
+  version: typeof RECEIPT_VERSION;
+  issued_at: string;
+  document: {
+    id: string;
+    filename: string;
+    file_size: number;
+    mime_type: string;
+    registered_at: string;
+  };
+  hash: {
+    algorithm: string;
+    digest: string;
+  };
+  anchor: ChainDescriptor & {
+    transaction_hash: string;
+    block_number: number;
+    block_timestamp: number;
+  };
+  merkle: {
+    algorithm: string;
+    root: string;
+    leaf_index: number;
+    leaf_hash: string;
+    sibling_path: MerkleStep[];
+  } | null;
+}
+
+export interface Receipt extends UnsignedReceipt {
+  signature: {
+    algorithm: typeof RECEIPT_SIGNATURE_ALGORITHM;
+    key_id: string;
+    public_key: JsonWebKey;
+    value: string;
+  };
+}
+
+let signingKey: Promise<{ privateKey: CryptoKey; publicJwk: JsonWebKey; keyId: string }> | null =
+  null;
+
+function loadSigningKey() {
+  if (signingKey) return signingKey;
+
+  signingKey = (async () => {
+    const raw = Deno.env.get("RECEIPT_SIGNING_KEY");
+    if (!raw) {
+      throw new Error("RECEIPT_SIGNING_KEY is not configured");
+    }
+
+    const jwk = JSON.parse(raw) as JsonWebKey;
+    const privateKey = await crypto.subtle.importKey(
+      "jwk",
+      jwk,
+      { name: "ECDSA", namedCurve: "P-256" },
+      false,
+      ["sign"]
+    );
+
+    const publicJwk: JsonWebKey = { kty: jwk.kty, crv: jwk.crv, x: jwk.x, y: jwk.y };
+    const thumbprint = await crypto.subtle.digest(
+      "SHA-256",
+      new TextEncoder().encode(canonicalize(publicJwk))
+    );
+
+    return { privateKey, publicJwk, keyId: toBase64Url(new Uint8Array(thumbprint)) };
+  })();
+
+  signingKey.catch(() => {
+    signingKey = null;
+  });
+
+  return signingKey;
+}
+
+export async function signReceipt(receipt: UnsignedReceipt): Promise<Receipt> {
+  const { privateKey, publicJwk, keyId } = await loadSigningKey();
+
+  const signature = await crypto.subtle.sign(
+    { name: "ECDSA", hash: "SHA-256" },
+    privateKey,
+    new TextEncoder().encode(canonicalize(receipt))
+  );
+
+  return {
+    ...receipt,
+    signature: {
+      algorithm: RECEIPT_SIGNATURE_ALGORITHM,
+      key_id: keyId,
+      public_key: publicJwk,
+      value: toBase64Url(new Uint8Array(signature)),
+    },
+  };
+}
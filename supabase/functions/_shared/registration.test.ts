@@ -0,0 +1,51 @@
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2.57.4";
+import { describe, expect, it, vi } from "vitest";
+import type { RegisterRequest } from "./contract.ts";
+import { registerDocument } from "./registration.ts";
+
+// `register_documents` accepts whatever reaches it; owners have no webhooks.
+function fakeSupabase() {
+  const rpc = vi.fn(async (_name: string, args: { p_documents: unknown[] }) => ({
+    data: args.p_documents.map((_, i) => ({ ok: true, document_id: `doc-${i}`, version: 1, parent_id: null })),
+    error: null,
+  }));
+  const from = () => ({ select: () => ({ in: () => ({ eq: async () => ({ data: [], error: null }) }) }) });
+  return { rpc, supabase: { rpc, from } as unknown as SupabaseClient };
+}
+
+const request = (overrides: Partial<RegisterRequest> = {}): RegisterRequest => ({
+  filename: "empty.txt",
+  file_hash: "e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855",
+  file_size: 0,
+  mime_type: "text/plain",
+  ...overrides,
+});
+
+describe("registerDocument", () => {
+  it("registers a 0-byte file", async () => {
+    const { rpc, supabase } = fakeSupabase();
+
+    expect(await registerDocument(supabase, "0xowner", request())).toEqual({
+      ok: true,
+      document_id: "doc-0",
+      version: 1,
+    });
+    expect(rpc.mock.calls[0][1].p_documents).toMatchObject([{ file_size: 0 }]);
+  });
+
+  it("rejects a missing or negative file size without reaching the database", async () => {
+    const { rpc, supabase } = fakeSupabase();
+    const missing = request({ file_size: undefined as unknown as number });
+
+    expect(await registerDocument(supabase, "0xowner", missing)).toMatchObject({
+      ok: false,
+      status: 400,
+      error: "Missing required fields: filename, file_hash, file_size",
+    });
+    expect(await registerDocument(supabase, "0xowner", request({ file_size: -1 }))).toMatchObject({
+      ok: false,
+      error: "file_size must be a non-negative integer",
+    });
+    expect(rpc).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,193 @@
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2.57.4";
+import type { RegisterRequest } from "./contract.ts";
+import {
+  candidateAlgorithms,
+  HASH_ALGORITHMS,
+  isHashAlgorithm,
+  isValidDigest,
+  normalizeDigest,
+  type Digest,
+  type HashAlgorithm,
+} from "./hashing.ts";
+import { emitEvents, type WebhookEvent } from "./webhooks.ts";
+
+// Failures carry the HTTP status the single-document endpoint answers with;
+// a 409 means the document (or one of its digests) is already registered.
+export type RegistrationResult =
+  | { ok: true; document_id: string; version: number }
+  | { ok: false; status: number; error: string; document_id?: string };
+
+// Bytes; 0 or unset means no limit. Files are hashed client-side, so this only
+// bounds what the registry is willing to vouch for.
+const MAX_FILE_SIZE = Number(Deno.env.get("MAX_FILE_SIZE") || 0);
+
+type RegistrationFailure = Extract<RegistrationResult, { ok: false }>;
+
+function fail(status: number, error: string, document_id?: string): RegistrationFailure {
+  return { ok: false, status, error, document_id };
+}
+
+// A request that passed every check not needing the database, in the shape
+// `register_documents` takes.
+interface PreparedRegistration {
+  filename: string;
+  file_hash: string;
+  hash_algorithm: HashAlgorithm;
+  file_size: number;
+  mime_type: string;
+  tags: string[];
+  digests: Digest[];
+  parent_document_id: string | null;
+  parent_hash: string | null;
+  parent_algorithms: HashAlgorithm[];
+}
+
+// Normalizes a request's digests and checks what can be checked without the
+// database.
+function prepareRegistration(
+  payload: RegisterRequest
+): { ok: true; value: PreparedRegistration } | RegistrationFailure {
+  if (!payload.filename || !payload.file_hash || payload.file_size === undefined || payload.file_size === null) {
+    return fail(400, "Missing required fields: filename, file_hash, file_size");
+  }
+
+  const hashAlgorithm = payload.hash_algorithm || "sha256";
+
+  if (!isHashAlgorithm(hashAlgorithm)) {
+    return fail(400, `Unsupported hash algorithm. Supported: ${Object.keys(HASH_ALGORITHMS).join(", ")}`);
+  }
+
+  const digests: Digest[] = [];
+
+  for (const entry of [
+    { algorithm: hashAlgorithm, digest: payload.file_hash },
+    ...(payload.digests || []),
+  ]) {
+    const digest = normalizeDigest(entry.digest || "");
+
+    if (!isHashAlgorithm(entry.algorithm)) {
+      return fail(400, `Unsupported hash algorithm: ${entry.algorithm}`);
+    }
+
+    if (!isValidDigest(entry.algorithm, digest)) {
+      return fail(
+        400,
+        `Invalid hash format. Expected ${entry.algorithm} hex (${HASH_ALGORITHMS[entry.algorithm]} chars)`
+      );
+    }
+
+    const known = digests.find((d) => d.algorithm === entry.algorithm);
+
+    if (known && known.digest !== digest) {
+      return fail(400, `Conflicting ${entry.algorithm} digests supplied`);
+    }
+
+    if (!known) {
+      digests.push({ algorithm: entry.algorithm, digest });
+    }
+  }
+
+  if (!Number.isSafeInteger(payload.file_size) || payload.file_size < 0) {
+    return fail(400, "file_size must be a non-negative integer");
+  }
+
+  if (MAX_FILE_SIZE > 0 && payload.file_size > MAX_FILE_SIZE) {
+    return fail(400, `File size exceeds the ${MAX_FILE_SIZE} byte limit`);
+  }
+
+  const parentHash = payload.parent_hash ? normalizeDigest(payload.parent_hash) : null;
+
+  return {
+    ok: true,
+    value: {
+      filename: payload.filename,
+      file_hash: digests[0].digest,
+      hash_algorithm: hashAlgorithm,
+      file_size: payload.file_size,
+      mime_type: payload.mime_type,
+      tags: payload.tags || [],
+      digests,
+      parent_document_id: payload.parent_document_id || null,
+      parent_hash: parentHash,
+      parent_algorithms: parentHash ? candidateAlgorithms(parentHash) : [],
+    },
+  };
+}
+
+// Registers documents for `owner` in order, queueing each for anchoring, and
+// returns one result per request. Everything is written by one
+// `register_documents` call, in which each document is registered whole or not
+// at all. Expected rejections are returned; unexpected database errors are
+// thrown.
+export async function registerDocuments(
+  supabase: SupabaseClient,
+  owner: string,
+  payloads: RegisterRequest[]
+): Promise<RegistrationResult[]> {
+  const results: RegistrationResult[] = [];
+  const prepared: { index: number; value: PreparedRegistration }[] = [];
+
+  for (const [index, payload] of payloads.entries()) {
+    const result = prepareRegistration(payload);
+
+    if (result.ok) {
+      prepared.push({ index, value: result.value });
+    } else {
+      results[index] = result;
+    }
+  }
+
+  if (prepared.length === 0) {
+    return results;
+  }
+
+  const { data, error } = await supabase.rpc("register_documents", {
+    p_owner: owner,
+    p_documents: prepared.map((item) => item.value),
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  // Successes also name the parent version, which may have been found by hash.
+  const stored = data as (RegistrationResult & { parent_id?: string | null })[];
+  const events: WebhookEvent[] = [];
+
+  for (const [position, { index, value }] of prepared.entries()) {
+    const { parent_id, ...result } = stored[position];
+    results[index] = result;
+
+    if (result.ok) {
+      events.push({
+        owner,
+        type: "document.registered",
+        data: {
+          document_id: result.document_id,
+          filename: value.filename,
+          file_hash: value.file_hash,
+          hash_algorithm: value.hash_algorithm,
+          digests: value.digests,
+          file_size: value.file_size,
+          mime_type: value.mime_type,
+          version: result.version,
+          parent_id: parent_id ?? null,
+          owner_address: owner,
+        },
+      });
+    }
+  }
+
+  await emitEvents(supabase, events);
+
+  return results;
+}
+
+export async function registerDocument(
+  supabase: SupabaseClient,
+  owner: string,
+  payload: RegisterRequest
+): Promise<RegistrationResult> {
+  const [result] = await registerDocuments(supabase, owner, [payload]);
+  return result;
+}
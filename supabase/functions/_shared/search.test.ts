@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import { applyCursor, applyVisibility, decodeCursor, encodeCursor, type SortableRow } from "./search.ts";
+
+const row: SortableRow = {
+  id: "4f3c2a1e-0000-4000-8000-000000000000",
+  created_at: "2026-02-01T10:00:00.000Z",
+  filename: 'Relatório "final" ✓.pdf',
+  file_size: 52_428,
+  status: "confirmed",
+};
+
+// Records the PostgREST filters applied to it.
+function recordingQuery() {
+  const filters: string[] = [];
+  const query = {
+    filters,
+    eq: () => query,
+    like: () => query,
+    contains: () => query,
+    gte: () => query,
+    lt: () => query,
+    textSearch: () => query,
+    or: (filter: string) => {
+      filters.push(filter);
+      return query;
+    },
+  };
+  return query;
+}
+
+const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString("base64url");
+
+describe("keyset cursors", () => {
+  it("round-trip the sort and the last row's position", () => {
+    for (const [column, ascending] of [
+      ["created_at", false],
+      ["filename", true],
+      ["file_size", false],
+    ] as const) {
+      const cursor = encodeCursor({ column, ascending }, row);
+
+      expect(cursor).toMatch(/^[\w-]+$/);
+      expect(decodeCursor(cursor)).toEqual({ column, ascending, value: row[column], id: row.id });
+    }
+  });
+
+  it("reject cursors that are not ours", () => {
+    expect(decodeCursor("not a cursor")).toBeNull();
+    expect(decodeCursor(encode({ column: "filename" }))).toBeNull();
+    expect(decodeCursor(encode(["uploader_address", 1, "0xabc", row.id]))).toBeNull();
+    expect(decodeCursor(encode(["file_size", 1, { gt: 0 }, row.id]))).toBeNull();
+    expect(decodeCursor(encode(["file_size", 1, 10, 42]))).toBeNull();
+  });
+
+  it("continue after the position in (column, id) order", () => {
+    const query = recordingQuery();
+    applyCursor(query, { column: "filename", ascending: false, value: 'a "b"', id: row.id });
+
+    expect(query.filters).toEqual([
+      `filename.lt."a \\"b\\"",and(filename.eq."a \\"b\\"",id.lt."${row.id}")`,
+    ]);
+  });
+});
+
+describe("applyVisibility", () => {
+  it("shows anonymous callers only public documents", () => {
+    const query = recordingQuery();
+    applyVisibility(query, undefined);
+
+    expect(query.filters).toEqual(["status.in.(confirmed,revoked)"]);
+  });
+
+  it("adds every document of the wallet the request acts for", () => {
+    const query = recordingQuery();
+    applyVisibility(query, "0xABCdef");
+
+    expect(query.filters).toEqual(['status.in.(confirmed,revoked),uploader_address.eq."0xabcdef"']);
+  });
+});
@@ -0,0 +1,223 @@
+import { DOCUMENT_STATUSES, SORT_COLUMNS } from "./contract.ts";
+import { normalizeDigest } from "./hashing.ts";
+
+export type SortColumn = (typeof SORT_COLUMNS)[number];
+
+export interface DocumentFilters {
+  status?: string;
+  q?: string;
+  hash_prefix?: string;
+  tags?: string[];
+  owner?: string;
+  mime_type?: string;
+  created_from?: string;
+  created_before?: string;
+}
+
+export interface DocumentSort {
+  column: SortColumn;
+  ascending: boolean;
+}
+
+// Position after the last row of a page: its sort value and id, plus the sort
+// it belongs to so a cursor cannot be replayed against a different ordering.
+export interface CursorPosition {
+  column: SortColumn;
+  ascending: boolean;
+  value: string | number;
+  id: string;
+}
+
+// The subset of the PostgREST filter builder the filters need, so callers can
+// pass a query of any row shape.
+interface FilterableQuery<Q> {
+  eq(column: string, value: unknown): Q;
+  like(column: string, pattern: string): Q;
+  contains(column: string, value: string[]): Q;
+  gte(column: string, value: unknown): Q;
+  lt(column: string, value: unknown): Q;
+  textSearch(column: string, query: string, options?: { type?: "websearch"; config?: string }): Q;
+  or(filters: string): Q;
+}
+
+const MAX_QUERY_LENGTH = 200;
+const MAX_TAGS = 20;
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+const MIME_PATTERN = /^[\w.+-]+\/(\*|[\w.+-]+)$/;
+
+function parseDate(value: string, endOfDay: boolean): string | null {
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) {
+    return null;
+  }
+  // A bare date as the upper bound includes that whole day.
+  return new Date(endOfDay && DATE_ONLY.test(value) ? time + 86_400_000 : time).toISOString();
+}
+
+// Reads the registry search parameters, returning a message for the first one
+// that is malformed. Unknown statuses are ignored, as they always have been.
+export function parseDocumentFilters(params: URLSearchParams): { filters: DocumentFilters } | { error: string } {
+  const filters: DocumentFilters = {};
+
+  const status = params.get("status");
+  if (status && (DOCUMENT_STATUSES as readonly string[]).includes(status)) {
+    filters.status = status;
+  }
+
+  const q = params.get("q")?.trim();
+  if (q) {
+    if (q.length > MAX_QUERY_LENGTH) {
+      return { error: `q must be at most ${MAX_QUERY_LENGTH} characters` };
+    }
+    filters.q = q;
+  }
+
+  const hash = params.get("hash");
+  if (hash?.trim()) {
+    const prefix = normalizeDigest(hash);
+    if (!/^[0-9a-f]{1,128}$/.test(prefix)) {
+      return { error: "hash must be a hex prefix" };
+    }
+    filters.hash_prefix = prefix;
+  }
+
+  const tags = (params.get("tags") || "")
+    .split(",")
+    .map((tag) => tag.trim())
+    .filter(Boolean);
+  if (tags.length > MAX_TAGS) {
+    return { error: `At most ${MAX_TAGS} tags can be filtered on` };
+  }
+  if (tags.length) {
+    filters.tags = tags;
+  }
+
+  const owner = params.get("owner")?.trim();
+  if (owner) {
+    if (!/^0x[0-9a-f]{40}$/i.test(owner)) {
+      return { error: "owner must be a 0x-prefixed address" };
+    }
+    filters.owner = owner.toLowerCase();
+  }
+
+  const mimeType = params.get("mime_type")?.trim();
+  if (mimeType) {
+    if (!MIME_PATTERN.test(mimeType)) {
+      return { error: "mime_type must look like type/subtype or type/*" };
+    }
+    filters.mime_type = mimeType.toLowerCase();
+  }
+
+  const from = params.get("from");
+  if (from) {
+    const created_from = parseDate(from, false);
+    if (!created_from) {
+      return { error: "from must be a date" };
+    }
+    filters.created_from = created_from;
+  }
+
+  const to = params.get("to");
+  if (to) {
+    const created_before = parseDate(to, true);
+    if (!created_before) {
+      return { error: "to must be a date" };
+    }
+    filters.created_before = created_before;
+  }
+
+  return { filters };
+}
+
+export function parseDocumentSort(params: URLSearchParams): DocumentSort {
+  const sort = params.get("sort");
+  const column = (SORT_COLUMNS as readonly string[]).includes(sort || "") ? (sort as SortColumn) : "created_at";
+  return { column, ascending: params.get("order") === "asc" };
+}
+
+export function applyDocumentFilters<Q extends FilterableQuery<Q>>(query: Q, filters: DocumentFilters): Q {
+  if (filters.status) {
+    query = query.eq("status", filters.status);
+  }
+  if (filters.q) {
+    query = query.textSearch("filename_search", filters.q, { type: "websearch", config: "simple" });
+  }
+  if (filters.hash_prefix) {
+    query = query.like("file_hash", `${filters.hash_prefix}%`);
+  }
+  if (filters.tags) {
+    query = query.contains("tags", filters.tags);
+  }
+  if (filters.owner) {
+    query = query.eq("uploader_address", filters.owner);
+  }
+  if (filters.mime_type) {
+    query = filters.mime_type.endsWith("/*")
+      ? query.like("mime_type", `${filters.mime_type.slice(0, -1)}%`)
+      : query.eq("mime_type", filters.mime_type);
+  }
+  if (filters.created_from) {
+    query = query.gte("created_at", filters.created_from);
+  }
+  if (filters.created_before) {
+    query = query.lt("created_at", filters.created_before);
+  }
+  return query;
+}
+
+// A row a page can end on: its id and every column it can be sorted by.
+export type SortableRow = { id: string } & Record<SortColumn, string | number>;
+
+export function positionAfter(sort: DocumentSort, row: SortableRow): CursorPosition {
+  return { ...sort, value: row[sort.column], id: row.id };
+}
+
+export function encodeCursor(sort: DocumentSort, row: SortableRow): string {
+  const { column, ascending, value, id } = positionAfter(sort, row);
+  const position = [column, ascending ? 1 : 0, value, id];
+  const bytes = new TextEncoder().encode(JSON.stringify(position));
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+export function decodeCursor(cursor: string): CursorPosition | null {
+  try {
+    const bytes = Uint8Array.from(atob(cursor.replace(/-/g, "+").replace(/_/g, "/")), (c) => c.charCodeAt(0));
+    const [column, ascending, value, id] = JSON.parse(new TextDecoder().decode(bytes));
+    if (
+      !(SORT_COLUMNS as readonly string[]).includes(column) ||
+      (typeof value !== "string" && typeof value !== "number") ||
+      typeof id !== "string"
+    ) {
+      return null;
+    }
+    return { column, ascending: ascending === 1, value, id };
+  } catch {
+    return null;
+  }
+}
+
+function quote(value: string | number): string {
+  return `"${String(value).replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+}
+
+// Statuses anyone may read, as in the "Anyone can read confirmed or revoked
+// documents" policy.
+const PUBLIC_STATUSES = ["confirmed", "revoked"];
+
+// The registry is queried with the service role, because the functions do not
+// forward sessions and the anon key cannot see anyone's pending documents.
+// This applies the documents policies in their place: public documents for
+// everyone, and every document of the wallet the request acts for.
+export function applyVisibility<Q extends FilterableQuery<Q>>(query: Q, owner: string | undefined): Q {
+  const visible = `status.in.(${PUBLIC_STATUSES.join(",")})`;
+  return query.or(owner ? `${visible},uploader_address.eq.${quote(owner.toLowerCase())}` : visible);
+}
+
+// Keyset condition for the rows after `position` in (sort column, id) order.
+export function applyCursor<Q extends FilterableQuery<Q>>(query: Q, position: CursorPosition): Q {
+  const op = position.ascending ? "gt" : "lt";
+  const value = quote(position.value);
+  return query.or(
+    `${position.column}.${op}.${value},and(${position.column}.eq.${value},id.${op}.${quote(position.id)})`
+  );
+}
@@ -0,0 +1,85 @@
+import { generatePrivateKey, privateKeyToAccount } from "viem/accounts";
+import { createSiweMessage, generateSiweNonce } from "viem/siwe";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { checkSiweMessage } from "./siwe.ts";
+
+const account = privateKeyToAccount(generatePrivateKey());
+
+async function signIn(domain: string, overrides: { expirationTime?: Date } = {}) {
+  const nonce = generateSiweNonce();
+  const message = createSiweMessage({
+    address: account.address,
+    chainId: 1,
+    domain,
+    nonce,
+    uri: `https://${domain}`,
+    version: "1",
+    issuedAt: new Date(),
+    expirationTime: overrides.expirationTime ?? new Date(Date.now() + 600_000),
+  });
+  return { message, nonce, signature: await account.signMessage({ message }) };
+}
+
+beforeEach(() => {
+  vi.stubEnv("SIWE_DOMAINS", "docverify.example, staging.docverify.example");
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("checkSiweMessage", () => {
+  it("accepts a message signed for an allowed domain", async () => {
+    const { message, nonce, signature } = await signIn("staging.docverify.example");
+
+    expect(await checkSiweMessage(message, signature)).toEqual({
+      ok: true,
+      address: account.address,
+      nonce,
+      chainId: 1,
+    });
+  });
+
+  it("rejects a valid signature made for another site", async () => {
+    const { message, signature } = await signIn("phishing.example");
+
+    expect(await checkSiweMessage(message, signature)).toEqual({
+      ok: false,
+      status: 401,
+      error: "Sign-in is not accepted for domain phishing.example",
+    });
+  });
+
+  it("refuses every sign-in while no domain is configured", async () => {
+    vi.stubEnv("SIWE_DOMAINS", "");
+    const { message, signature } = await signIn("docverify.example");
+
+    await expect(checkSiweMessage(message, signature)).rejects.toThrow("SIWE_DOMAINS is not configured");
+  });
+
+  it("rejects an expired message and a signature by another account", async () => {
+    const expired = await signIn("docverify.example", { expirationTime: new Date(Date.now() - 1000) });
+    expect(await checkSiweMessage(expired.message, expired.signature)).toMatchObject({ ok: false, status: 401 });
+
+    const { message } = await signIn("docverify.example");
+    const forged = await privateKeyToAccount(generatePrivateKey()).signMessage({ message });
+    expect(await checkSiweMessage(message, forged)).toMatchObject({
+      ok: false,
+      error: "Signature does not match the message address",
+    });
+  });
+
+  it("rejects a signature it cannot decode instead of throwing", async () => {
+    const { message } = await signIn("docverify.example");
+
+    expect(await checkSiweMessage(message, "0xzz")).toEqual({
+      ok: false,
+      status: 401,
+      error: "Signature does not match the message address",
+    });
+  });
+
+  it("rejects a message that is not EIP-4361", async () => {
+    expect(await checkSiweMessage("hello", "0x")).toMatchObject({ ok: false, status: 400 });
+  });
+});
@@ -0,0 +1,51 @@
+import { verifyMessage, type Hex } from "npm:viem@2.21.45";
+import { parseSiweMessage, validateSiweMessage } from "npm:viem@2.21.45/siwe";
+
+export type SiweCheck =
+  | { ok: true; address: Hex; nonce: string; chainId: number }
+  | { ok: false; status: number; error: string };
+
+// Domains a Sign-In With Ethereum message may be for. There is no default: a
+// signature a wallet gave any other site would otherwise become a session here.
+export function siweDomains(): string[] {
+  const domains = (Deno.env.get("SIWE_DOMAINS") || "")
+    .split(",")
+    .map((d) => d.trim())
+    .filter((d) => d.length > 0);
+
+  if (domains.length === 0) {
+    throw new Error("SIWE_DOMAINS is not configured");
+  }
+  return domains;
+}
+
+// Checks a signed EIP-4361 message: its domain, its validity window and the
+// signature. The nonce is left to the caller, which consumes it.
+export async function checkSiweMessage(message: string, signature: string): Promise<SiweCheck> {
+  const fields = parseSiweMessage(message);
+
+  if (!fields.address || !fields.nonce || !fields.domain || !fields.chainId) {
+    return { ok: false, status: 400, error: "Malformed Sign-In With Ethereum message" };
+  }
+
+  if (!siweDomains().includes(fields.domain)) {
+    return { ok: false, status: 401, error: `Sign-in is not accepted for domain ${fields.domain}` };
+  }
+
+  if (!validateSiweMessage({ message: fields, time: new Date() })) {
+    return { ok: false, status: 401, error: "Sign-in message is expired or not yet valid" };
+  }
+
+  // viem throws rather than answering false for a signature it cannot decode.
+  const signatureValid = await verifyMessage({
+    address: fields.address,
+    message,
+    signature: signature as Hex,
+  }).catch(() => false);
+
+  if (!signatureValid) {
+    return { ok: false, status: 401, error: "Signature does not match the message address" };
+  }
+
+  return { ok: true, address: fields.address, nonce: fields.nonce, chainId: fields.chainId };
+}
@@ -0,0 +1,156 @@
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2.57.4";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { buildMerkleTree, MERKLE_ALGORITHM } from "./merkle.ts";
+import { parseLookupRequest, verifyHash, type HistoryWriter } from "./verification.ts";
+
+type Row = Record<string, unknown>;
+
+// Just enough of the PostgREST query builder for `verifyHash`. Rows carry their
+// embedded relations already, so selects only filter. A table without rows
+// answers with an error.
+class FakeQuery implements PromiseLike<{ data: unknown; error: unknown }> {
+  private filters: Array<(row: Row) => boolean> = [];
+  private single = false;
+
+  constructor(private rows: Row[] | undefined) {}
+
+  select() {
+    return this;
+  }
+  eq(column: string, value: unknown) {
+    this.filters.push((row) => row[column] === value);
+    return this;
+  }
+  in(column: string, values: unknown[]) {
+    this.filters.push((row) => values.includes(row[column]));
+    return this;
+  }
+  limit() {
+    return this;
+  }
+  order() {
+    return this;
+  }
+  maybeSingle() {
+    this.single = true;
+    return this;
+  }
+
+  then<T = { data: unknown; error: unknown }, E = never>(
+    resolve?: ((value: { data: unknown; error: unknown }) => T | PromiseLike<T>) | null,
+    reject?: ((reason: unknown) => E | PromiseLike<E>) | null
+  ): PromiseLike<T | E> {
+    if (!this.rows) {
+      return Promise.resolve({ data: null, error: { message: "permission denied" } }).then(resolve, reject);
+    }
+    const matching = this.rows.filter((row) => this.filters.every((filter) => filter(row)));
+    return Promise.resolve({ data: this.single ? matching[0] || null : matching, error: null }).then(resolve, reject);
+  }
+}
+
+const fakeSupabase = (tables: Record<string, Row[]>) =>
+  ({ from: (table: string) => new FakeQuery(tables[table]) }) as unknown as SupabaseClient;
+
+const DIGEST = "a".repeat(64);
+
+let tables: Record<string, Row[]>;
+
+beforeEach(async () => {
+  const tree = await buildMerkleTree([DIGEST, "b".repeat(64)]);
+  tables = {
+    document_digests: [{ document_id: "doc-1", algorithm: "sha256", digest: DIGEST }],
+    documents: [
+      {
+        id: "doc-1",
+        filename: "contract.pdf",
+        file_size: 1024,
+        mime_type: "application/pdf",
+        file_hash: DIGEST,
+        hash_algorithm: "sha256",
+        status: "confirmed",
+        lineage_id: "doc-1",
+        version: 1,
+        document_digests: [{ algorithm: "sha256", digest: DIGEST }],
+      },
+    ],
+    blockchain_records: [
+      {
+        document_id: "doc-1",
+        transaction_hash: `0x${"1".repeat(64)}`,
+        block_number: 7,
+        owner_address: "0xowner",
+        block_timestamp: 1767225600,
+        status: "confirmed",
+        confirmations: 1,
+        finalized_at: null,
+      },
+    ],
+    merkle_proofs: [
+      {
+        document_id: "doc-1",
+        ...tree.proofs[0],
+        anchor_batches: { merkle_root: tree.root, merkle_algorithm: MERKLE_ALGORITHM, status: "confirmed" },
+      },
+    ],
+  };
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("verifyHash", () => {
+  it("verifies a document whose proof leads to the anchored root", async () => {
+    const result = await verifyHash(fakeSupabase(tables), { file_hash: DIGEST });
+
+    expect(result).toMatchObject({ status: "verified", document: { id: "doc-1" }, blockchain: { block_number: 7 } });
+  });
+
+  it("reports a record whose proof no longer leads to the anchored root as tampered", async () => {
+    (tables.merkle_proofs[0].anchor_batches as Row).merkle_root = "c".repeat(64);
+
+    const result = await verifyHash(fakeSupabase(tables), { file_hash: DIGEST });
+
+    expect(result.status).toBe("tampered");
+    expect(result.message).toMatch(/does not lead to the anchored Merkle root/);
+  });
+
+  it("still returns the result when the history cannot be written", async () => {
+    const errorLog = vi.spyOn(console, "error").mockImplementation(() => {});
+    const history: HistoryWriter = {
+      supabase: {
+        from: () => ({ insert: async () => ({ error: { message: "permission denied" } }) }),
+      } as unknown as SupabaseClient,
+      verifierAddress: "0xverifier",
+    };
+
+    const result = await verifyHash(fakeSupabase(tables), { file_hash: DIGEST }, history);
+
+    expect(result.status).toBe("verified");
+    expect(errorLog).toHaveBeenCalledWith("Failed to record verification:", { message: "permission denied" });
+  });
+
+  it.each(["document_digests", "merkle_proofs"])("throws rather than recording a check when %s cannot be read", async (table) => {
+    const insert = vi.fn(async () => ({ error: null }));
+    const history: HistoryWriter = {
+      supabase: { from: () => ({ insert }) } as unknown as SupabaseClient,
+      verifierAddress: "0xverifier",
+    };
+    delete tables[table];
+
+    await expect(verifyHash(fakeSupabase(tables), { file_hash: DIGEST }, history)).rejects.toMatchObject({
+      message: "permission denied",
+    });
+    expect(insert).not.toHaveBeenCalled();
+  });
+});
+
+describe("parseLookupRequest", () => {
+  it("takes a hash algorithm only with a file hash", () => {
+    expect(parseLookupRequest({ file_hash: DIGEST, hash_algorithm: "sha256" }).ok).toBe(true);
+    expect(parseLookupRequest({ document_id: "4f3c2a1e-0000-4000-8000-000000000001", hash_algorithm: "sha256" })).toEqual({
+      ok: false,
+      error: "hash_algorithm only goes with file_hash",
+    });
+  });
+});
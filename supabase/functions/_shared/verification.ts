@@ -0,0 +1,296 @@
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2.57.4";
+import {
+  isAnchored,
+  LookupRequestSchema,
+  validate,
+  type LookupRequest,
+  type ValidationResult,
+  type VerifyRequest,
+  type VerifyResult,
+} from "./contract.ts";
+import { candidateAlgorithms, normalizeDigest } from "./hashing.ts";
+import { verifyInclusion } from "./merkle.ts";
+
+// Returns an error message for a lookup the registry cannot answer at all.
+function validateLookupRequest(payload: LookupRequest): string | null {
+  const keys = (["file_hash", "transaction_hash", "document_id"] as const).filter((key) => payload?.[key]);
+
+  if (keys.length !== 1) {
+    return "Provide exactly one of file_hash, transaction_hash or document_id";
+  }
+
+  if (payload.hash_algorithm && !payload.file_hash) {
+    return "hash_algorithm only goes with file_hash";
+  }
+
+  if (payload.transaction_hash && !/^(0x)?[0-9a-f]{64}$/i.test(payload.transaction_hash.trim())) {
+    return "Invalid transaction hash. Expected 32 bytes of hex";
+  }
+
+  return null;
+}
+
+// Checks a request body against the contract, then that it names exactly one
+// thing to look up.
+export function parseLookupRequest(body: unknown): ValidationResult<LookupRequest> {
+  const parsed = validate(LookupRequestSchema, body);
+  const invalid = parsed.ok ? validateLookupRequest(parsed.value) : null;
+  return invalid ? { ok: false, error: invalid } : parsed;
+}
+
+// Resolves a lookup to the primary digest of every document it names: one for
+// a hash or document ID, every document registered or revoked in a transaction.
+export async function resolveLookup(supabase: SupabaseClient, payload: LookupRequest): Promise<VerifyRequest[]> {
+  if (payload.file_hash) {
+    return [{ file_hash: payload.file_hash, hash_algorithm: payload.hash_algorithm }];
+  }
+
+  let documentIds: string[] = [];
+
+  if (payload.document_id) {
+    documentIds = [payload.document_id.toLowerCase()];
+  } else if (payload.transaction_hash) {
+    const tx = `0x${payload.transaction_hash.trim().toLowerCase().replace(/^0x/, "")}`;
+    const { data: records, error } = await supabase
+      .from("blockchain_records")
+      .select("document_id")
+      .or(`transaction_hash.eq.${tx},revocation_transaction_hash.eq.${tx}`);
+
+    if (error) {
+      throw error;
+    }
+
+    documentIds = (records || []).map((record) => record.document_id);
+  }
+
+  if (documentIds.length === 0) {
+    return [];
+  }
+
+  const { data: documents, error } = await supabase
+    .from("documents")
+    .select("file_hash, hash_algorithm")
+    .in("id", documentIds)
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    throw error;
+  }
+
+  return (documents || []).map((doc) => ({ file_hash: doc.file_hash, hash_algorithm: doc.hash_algorithm }));
+}
+
+// Where a check is recorded. Only the service role may write
+// `verification_history`, so the client is separate from the lookup's.
+export interface HistoryWriter {
+  supabase: SupabaseClient;
+  verifierAddress: string;
+}
+
+// Failures are logged rather than thrown: the check itself succeeded and its
+// result is still returned.
+async function recordVerification(history: HistoryWriter, entry: Record<string, unknown>) {
+  const { error } = await history.supabase
+    .from("verification_history")
+    .insert([{ ...entry, verifier_address: history.verifierAddress }]);
+
+  if (error) {
+    console.error("Failed to record verification:", error);
+  }
+}
+
+// Looks up a digest and records the check in the verifier's history when a
+// history writer is given. A registered document is "tampered" when its
+// anchored Merkle proof does not lead to the batch's root. Failed reads are
+// thrown, so no check is recorded from an incomplete lookup.
+export async function verifyHash(
+  supabase: SupabaseClient,
+  payload: VerifyRequest,
+  history?: HistoryWriter
+): Promise<VerifyResult> {
+  const fileHash = normalizeDigest(payload.file_hash);
+  const algorithms = payload.hash_algorithm ? [payload.hash_algorithm] : candidateAlgorithms(fileHash);
+
+  const { data: matchedDigest, error: digestError } = algorithms.length
+    ? await supabase
+        .from("document_digests")
+        .select("document_id, algorithm, digest")
+        .eq("digest", fileHash)
+        .in("algorithm", algorithms)
+        .limit(1)
+        .maybeSingle()
+    : { data: null, error: null };
+
+  if (digestError) {
+    throw digestError;
+  }
+
+  const hashAlgorithm = matchedDigest?.algorithm || payload.hash_algorithm || algorithms[0] || "sha256";
+
+  const { data: document, error: documentError } = matchedDigest
+    ? await supabase
+        .from("documents")
+        .select(
+          "id, filename, file_size, mime_type, file_hash, hash_algorithm, status, lineage_id, version, revoked_at, revocation_reason, revoked_by, document_digests(algorithm, digest)"
+        )
+        .eq("id", matchedDigest.document_id)
+        .maybeSingle()
+    : { data: null, error: null };
+
+  if (documentError) {
+    throw documentError;
+  }
+
+  if (!document) {
+    if (history) {
+      await recordVerification(history, {
+        verified_hash: fileHash,
+        hash_algorithm: hashAlgorithm,
+        status: "not_found",
+        details: { message: "Document not found in registry" },
+      });
+    }
+
+    return {
+      status: "not_found",
+      hash_algorithm: hashAlgorithm,
+      message: "Document not found in registry",
+    };
+  }
+
+  const { data: blockchainRecord, error: recordError } = await supabase
+    .from("blockchain_records")
+    .select(
+      "transaction_hash, block_number, owner_address, block_timestamp, status, confirmations, finalized_at, revocation_transaction_hash, revocation_block_number"
+    )
+    .eq("document_id", document.id)
+    .maybeSingle();
+
+  if (recordError) {
+    throw recordError;
+  }
+
+  if (!blockchainRecord) {
+    return {
+      status: "not_found",
+      document: {
+        id: document.id,
+        filename: document.filename,
+        file_size: document.file_size,
+        mime_type: document.mime_type,
+      },
+      message: "Document found but not yet confirmed on blockchain",
+    };
+  }
+
+  const { data: merkleProof, error: proofError } = await supabase
+    .from("merkle_proofs")
+    .select("leaf_index, leaf_hash, sibling_path, anchor_batches(merkle_root, merkle_algorithm, status)")
+    .eq("document_id", document.id)
+    .maybeSingle();
+
+  if (proofError) {
+    throw proofError;
+  }
+
+  const batch = merkleProof?.anchor_batches as
+    | { merkle_root: string; merkle_algorithm: string; status: string }
+    | null
+    | undefined;
+  const proof =
+    merkleProof && batch && isAnchored(batch.status)
+      ? {
+          merkle_root: batch.merkle_root,
+          merkle_algorithm: batch.merkle_algorithm,
+          leaf_index: merkleProof.leaf_index,
+          leaf_hash: merkleProof.leaf_hash,
+          sibling_path: merkleProof.sibling_path,
+        }
+      : undefined;
+
+  const { data: versions, error: versionsError } = await supabase
+    .from("documents")
+    .select("id, filename, file_hash, version, status, created_at")
+    .eq("lineage_id", document.lineage_id)
+    .order("version", { ascending: true });
+
+  if (versionsError) {
+    throw versionsError;
+  }
+
+  const latestVersion = Math.max(
+    document.version,
+    ...(versions || []).map((v) => v.version)
+  );
+  const lineage = {
+    lineage_id: document.lineage_id,
+    version: document.version,
+    is_latest: document.version === latestVersion,
+    latest_version: latestVersion,
+    versions: versions || [],
+  };
+
+  const revocation =
+    document.status === "revoked"
+      ? {
+          revoked_at: document.revoked_at,
+          reason: document.revocation_reason,
+          revoked_by: document.revoked_by,
+          transaction_hash: blockchainRecord.revocation_transaction_hash,
+          block_number: blockchainRecord.revocation_block_number,
+        }
+      : undefined;
+
+  // The digest was found, so the file matches the registry. Its record is only
+  // trustworthy if the anchored proof leads from it to the root on chain.
+  const intact = !proof || (await verifyInclusion(document.file_hash, proof));
+  const verificationStatus = !intact ? "tampered" : revocation ? "revoked" : "verified";
+
+  if (history) {
+    await recordVerification(history, {
+      document_id: document.id,
+      verified_hash: fileHash,
+      hash_algorithm: hashAlgorithm,
+      status: verificationStatus,
+      details: {
+        transaction_hash: blockchainRecord.transaction_hash,
+        block_number: blockchainRecord.block_number,
+        merkle_root: proof?.merkle_root,
+      },
+    });
+  }
+
+  return {
+    status: verificationStatus,
+    hash_algorithm: hashAlgorithm,
+    document: {
+      id: document.id,
+      filename: document.filename,
+      file_size: document.file_size,
+      mime_type: document.mime_type,
+      version: document.version,
+      file_hash: document.file_hash,
+      hash_algorithm: document.hash_algorithm,
+      digests: document.document_digests,
+    },
+    blockchain: {
+      transaction_hash: blockchainRecord.transaction_hash,
+      block_number: blockchainRecord.block_number,
+      owner_address: blockchainRecord.owner_address,
+      block_timestamp: blockchainRecord.block_timestamp,
+      status: blockchainRecord.status,
+      confirmations: blockchainRecord.confirmations,
+      finalized_at: blockchainRecord.finalized_at,
+    },
+    proof,
+    revocation,
+    lineage,
+    message: !intact
+      ? "WARNING: The registry's inclusion proof does not lead to the anchored Merkle root. Its record may have been tampered with."
+      : revocation
+        ? `Document was revoked by its owner: ${revocation.reason}`
+        : lineage.is_latest
+          ? "Document verified successfully"
+          : `Document verified, but it is version ${lineage.version} and has been superseded by version ${lineage.latest_version}`,
+  };
+}
@@ -0,0 +1,261 @@
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2.57.4";
+import { WEBHOOK_EVENTS, type VerifyResult, type WebhookEventType } from "./contract.ts";
+
+// An event for the subscriptions of one owner. `data` is sent as is.
+export interface WebhookEvent {
+  owner: string;
+  type: WebhookEventType;
+  data: Record<string, unknown>;
+}
+
+export interface WebhookPayload {
+  id: string;
+  type: WebhookEventType;
+  created_at: string;
+  data: Record<string, unknown>;
+}
+
+export function isWebhookEvent(value: unknown): value is WebhookEventType {
+  return typeof value === "string" && (WEBHOOK_EVENTS as readonly string[]).includes(value);
+}
+
+export function createWebhookSecret(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return `whsec_${Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("")}`;
+}
+
+// Webhooks are posted from inside the platform and their responses end up in
+// the delivery log, so endpoints must be public: https, and no loopback,
+// private, link-local or internal host. The host is checked by name when a
+// subscription is saved and again by address before every delivery, as a
+// public name can resolve to a private address.
+
+const INTERNAL_SUFFIXES = [".localhost", ".local", ".internal", ".localdomain", ".home.arpa"];
+
+function parseIPv4(host: string): number[] | null {
+  const parts = host.split(".");
+  if (parts.length !== 4 || !parts.every((part) => /^\d{1,3}$/.test(part) && Number(part) <= 255)) return null;
+  return parts.map(Number);
+}
+
+// Eight 16-bit groups, with an embedded IPv4 tail expanded.
+function parseIPv6(host: string): number[] | null {
+  let address = host.replace(/^\[|\]$/g, "").replace(/%.*$/, "").toLowerCase();
+  const tail = address.match(/:(\d+\.\d+\.\d+\.\d+)$/);
+  if (tail) {
+    const v4 = parseIPv4(tail[1]);
+    if (!v4) return null;
+    address = `${address.slice(0, -tail[1].length)}${((v4[0] << 8) | v4[1]).toString(16)}:${((v4[2] << 8) | v4[3]).toString(16)}`;
+  }
+  if (!/^[0-9a-f:]+$/.test(address) || address.split("::").length > 2) return null;
+
+  const [head, rest] = address.split("::");
+  const left = head ? head.split(":") : [];
+  const right = rest ? rest.split(":") : [];
+  const missing = 8 - left.length - right.length;
+  if (rest === undefined ? missing !== 0 : missing < 1) return null;
+
+  const groups = [...left, ...Array(rest === undefined ? 0 : missing).fill("0"), ...right];
+  if (!groups.every((group) => /^[0-9a-f]{1,4}$/.test(group))) return null;
+  return groups.map((group) => parseInt(group, 16));
+}
+
+function isPublicIPv4([a, b, c]: number[]): boolean {
+  return !(
+    a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    a >= 224 ||
+    (a === 100 && b >= 64 && b <= 127) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 0 && c === 0) ||
+    (a === 192 && b === 168) ||
+    (a === 198 && (b === 18 || b === 19))
+  );
+}
+
+function isPublicIPv6(groups: number[]): boolean {
+  const v4 = [groups[6] >> 8, groups[6] & 0xff, groups[7] >> 8, groups[7] & 0xff];
+
+  // IPv4-mapped (::ffff:0:0/96) and NAT64 (64:ff9b::/96) addresses reach the IPv4 one.
+  if (groups.slice(0, 5).every((g) => g === 0) && groups[5] === 0xffff) return isPublicIPv4(v4);
+  if (groups[0] === 0x64 && groups[1] === 0xff9b && groups.slice(2, 6).every((g) => g === 0)) {
+    return isPublicIPv4(v4);
+  }
+
+  return !(
+    groups.slice(0, 7).every((g) => g === 0) || // unspecified and loopback
+    (groups[0] & 0xfe00) === 0xfc00 || // unique local
+    (groups[0] & 0xffc0) === 0xfe80 || // link-local
+    (groups[0] & 0xff00) === 0xff00 // multicast
+  );
+}
+
+// Whether an IP address is reachable on the public internet; anything that is
+// not an IP address at all is not.
+export function isPublicAddress(address: string): boolean {
+  const v4 = parseIPv4(address);
+  if (v4) return isPublicIPv4(v4);
+  const v6 = parseIPv6(address);
+  return v6 ? isPublicIPv6(v6) : false;
+}
+
+// Returns why a URL may not receive webhooks, or null when it may.
+// `internalHosts` are hosts of the platform itself, such as the project URL's.
+export function checkWebhookUrl(value: string, internalHosts: string[] = []): string | null {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return "url must be an absolute URL";
+  }
+
+  if (url.protocol !== "https:") {
+    return "url must use https";
+  }
+
+  if (url.username || url.password) {
+    return "url must not contain credentials";
+  }
+
+  const host = url.hostname.toLowerCase().replace(/\.$/, "");
+  const literal = parseIPv4(host) || parseIPv6(host);
+
+  if (literal ? !isPublicAddress(host) : host === "localhost" || !host.includes(".")) {
+    return "url must not point at a loopback, private or internal address";
+  }
+
+  if (
+    INTERNAL_SUFFIXES.some((suffix) => host.endsWith(suffix)) ||
+    internalHosts.some((internal) => host === internal.toLowerCase())
+  ) {
+    return "url must not point at a loopback, private or internal address";
+  }
+
+  return null;
+}
+
+// Hosts of this deployment, which a subscription may not target.
+export function internalWebhookHosts(): string[] {
+  const hosts: string[] = [];
+  for (const name of ["SUPABASE_URL", "SUPABASE_DB_URL"]) {
+    try {
+      hosts.push(new URL(Deno.env.get(name) || "").hostname);
+    } catch {
+      // Not set, or not a URL.
+    }
+  }
+  return hosts;
+}
+
+// Checks a URL right before it is posted to: by name, then every address its
+// host resolves to. Returns why it is refused; a failed lookup throws, so the
+// delivery is retried.
+export async function checkWebhookTarget(value: string): Promise<string | null> {
+  const refused = checkWebhookUrl(value, internalWebhookHosts());
+  if (refused) return refused;
+
+  const host = new URL(value).hostname.replace(/^\[|\]$/g, "");
+  if (parseIPv4(host) || parseIPv6(host)) return null;
+
+  const lookups = await Promise.allSettled([Deno.resolveDns(host, "A"), Deno.resolveDns(host, "AAAA")]);
+  const addresses = lookups.flatMap((lookup) => (lookup.status === "fulfilled" ? lookup.value : []));
+
+  if (addresses.length === 0) {
+    throw new Error(`Could not resolve ${host}`);
+  }
+
+  return addresses.every(isPublicAddress)
+    ? null
+    : `${host} resolves to a loopback, private or internal address`;
+}
+
+// Hex HMAC-SHA256 of `<timestamp>.<body>`. Including the timestamp lets
+// receivers reject replayed requests.
+export async function signWebhook(secret: string, timestamp: number, body: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const mac = new Uint8Array(await crypto.subtle.sign("HMAC", key, encoder.encode(`${timestamp}.${body}`)));
+  return Array.from(mac, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+// Queues a delivery of each event to every active subscription of its owner
+// that wants it; `webhook-worker` posts them. Needs a service role client.
+// Failures are logged rather than thrown: the change the event describes has
+// already been committed and must not be reported as failed.
+export async function emitEvents(supabase: SupabaseClient, events: WebhookEvent[]): Promise<void> {
+  if (events.length === 0) return;
+
+  try {
+    const owners = [...new Set(events.map((event) => event.owner.toLowerCase()))];
+    const { data: subscriptions, error } = await supabase
+      .from("webhook_subscriptions")
+      .select("id, owner_address, events")
+      .in("owner_address", owners)
+      .eq("active", true);
+
+    if (error) {
+      throw error;
+    }
+
+    const createdAt = new Date().toISOString();
+    const deliveries = events.flatMap((event) => {
+      const payload: WebhookPayload = {
+        id: crypto.randomUUID(),
+        type: event.type,
+        created_at: createdAt,
+        data: event.data,
+      };
+
+      return (subscriptions || [])
+        .filter(
+          (subscription) =>
+            subscription.owner_address === event.owner.toLowerCase() &&
+            (subscription.events.length === 0 || subscription.events.includes(event.type))
+        )
+        .map((subscription) => ({
+          subscription_id: subscription.id,
+          event_id: payload.id,
+          event_type: payload.type,
+          payload,
+        }));
+    });
+
+    if (deliveries.length === 0) return;
+
+    const { error: insertError } = await supabase.from("webhook_deliveries").insert(deliveries);
+
+    if (insertError) {
+      throw insertError;
+    }
+  } catch (error) {
+    console.error("Webhook enqueue error:", error);
+  }
+}
+
+// Verification events go to the owner of the checked document, so lookups
+// that matched nothing, or a document not yet anchored, emit none.
+export function verificationEvent(result: VerifyResult, verifierAddress?: string): WebhookEvent | null {
+  if (!result.document || !result.blockchain) return null;
+
+  return {
+    owner: result.blockchain.owner_address,
+    type: result.status === "verified" ? "verification.succeeded" : "verification.failed",
+    data: {
+      document_id: result.document.id,
+      filename: result.document.filename,
+      status: result.status,
+      file_hash: result.document.file_hash,
+      hash_algorithm: result.hash_algorithm,
+      verifier_address: verifierAddress || null,
+      message: result.message,
+    },
+  };
+}
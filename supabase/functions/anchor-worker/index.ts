@@ -0,0 +1,455 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "npm:@supabase/supabase-js@2.57.4";
+import { authenticate, authErrorResponse } from "../_shared/auth.ts";
+import { backoffSeconds } from "../_shared/backoff.ts";
+import { createChainAnchor, finalityDepth } from "../_shared/chain.ts";
+import { isAnchored } from "../_shared/contract.ts";
+import { buildMerkleTree, hashLeaf, MERKLE_ALGORITHM } from "../_shared/merkle.ts";
+import { emitEvents } from "../_shared/webhooks.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey, X-API-Key",
+};
+
+interface AnchorJob {
+  id: string;
+  document_id: string;
+  kind: "register" | "revoke";
+  attempts: number;
+  max_attempts: number;
+}
+
+interface WorkerResponse {
+  success: boolean;
+  reconciled?: number;
+  claimed?: number;
+  batch_id?: string;
+  succeeded?: number;
+  retried?: number;
+  dead?: number;
+  error?: string;
+}
+
+const BATCH_SIZE = parseInt(Deno.env.get("ANCHOR_BATCH_SIZE") || "256");
+const BACKOFF_BASE_SECONDS = parseInt(Deno.env.get("ANCHOR_BACKOFF_BASE_SECONDS") || "30");
+const BACKOFF_MAX_SECONDS = parseInt(Deno.env.get("ANCHOR_BACKOFF_MAX_SECONDS") || "3600");
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const auth = await authenticate(req, { allow: ["service"] });
+
+    if (!auth.ok) {
+      return authErrorResponse(auth, corsHeaders);
+    }
+
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL") || "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") || ""
+    );
+
+    const workerId = `anchor-worker-${crypto.randomUUID()}`;
+    const anchor = createChainAnchor();
+
+    const { data: reconciled, error: reconcileError } = await supabase.rpc(
+      "reconcile_pending_anchors"
+    );
+
+    if (reconcileError) {
+      throw reconcileError;
+    }
+
+    const { data: jobs, error: claimError } = await supabase.rpc("claim_anchor_jobs", {
+      p_worker: workerId,
+      p_limit: BATCH_SIZE,
+    });
+
+    if (claimError) {
+      throw claimError;
+    }
+
+    const claimed = (jobs || []) as AnchorJob[];
+    const now = () => new Date().toISOString();
+    let succeeded = 0;
+    let retried = 0;
+    let dead = 0;
+    let batchId: string | undefined;
+    let anchored = false;
+    let batchRecorded = false;
+    let anchoredTransaction: string | undefined;
+    const completed = new Set<string>();
+
+    const completeJobs = async (ids: string[]) => {
+      if (ids.length === 0) return;
+      const { error } = await supabase
+        .from("anchor_jobs")
+        .update({
+          status: "succeeded",
+          last_error: null,
+          locked_by: null,
+          locked_at: null,
+          completed_at: now(),
+          updated_at: now(),
+        })
+        .in("id", ids);
+
+      if (error) {
+        throw error;
+      }
+
+      ids.forEach((id) => completed.add(id));
+      succeeded += ids.length;
+    };
+
+    const failJob = async (job: AnchorJob, reason: string) => {
+      const exhausted = job.attempts >= job.max_attempts;
+      console.error(`Anchor job ${job.id} attempt ${job.attempts} failed:`, reason);
+
+      const { error } = await supabase
+        .from("anchor_jobs")
+        .update({
+          status: exhausted ? "dead" : "queued",
+          last_error: reason,
+          locked_by: null,
+          locked_at: null,
+          run_after: new Date(Date.now() + backoffSeconds(job.attempts, BACKOFF_BASE_SECONDS, BACKOFF_MAX_SECONDS) * 1000).toISOString(),
+          completed_at: exhausted ? now() : null,
+          updated_at: now(),
+        })
+        .eq("id", job.id);
+
+      if (error) {
+        throw error;
+      }
+
+      if (exhausted) {
+        dead++;
+      } else {
+        retried++;
+      }
+    };
+
+    // Dead jobs are left to an operator; reconcile_pending_anchors does not
+    // queue their documents again.
+    const buryJobs = async (jobs: AnchorJob[], reason: string) => {
+      if (jobs.length === 0) return;
+      console.error(`Anchor jobs ${jobs.map((job) => job.id).join(", ")} need manual repair:`, reason);
+
+      const { error } = await supabase
+        .from("anchor_jobs")
+        .update({
+          status: "dead",
+          last_error: reason,
+          locked_by: null,
+          locked_at: null,
+          completed_at: now(),
+          updated_at: now(),
+        })
+        .in("id", jobs.map((job) => job.id));
+
+      if (error) {
+        throw error;
+      }
+
+      jobs.forEach((job) => completed.add(job.id));
+      dead += jobs.length;
+    };
+
+    const registerJobs = claimed.filter((job) => job.kind !== "revoke");
+    const revokeJobs = claimed.filter((job) => job.kind === "revoke");
+
+    if (registerJobs.length > 0) {
+      const documentIds = registerJobs.map((job) => job.document_id);
+
+      try {
+        const { data: documents, error: documentError } = await supabase
+          .from("documents")
+          .select("id, file_hash, uploader_address")
+          .in("id", documentIds);
+
+        if (documentError) {
+          throw documentError;
+        }
+
+        const { data: records, error: recordsError } = await supabase
+          .from("blockchain_records")
+          .select("document_id, status")
+          .in("document_id", documentIds);
+
+        if (recordsError) {
+          throw recordsError;
+        }
+
+        const confirmedIds = new Set(
+          (records || []).filter((r) => isAnchored(r.status)).map((r) => r.document_id)
+        );
+        const pending = (documents || []).filter((doc) => !confirmedIds.has(doc.id));
+        const pendingIds = new Set(pending.map((doc) => doc.id));
+
+        await completeJobs(
+          registerJobs.filter((job) => !pendingIds.has(job.document_id)).map((job) => job.id)
+        );
+
+        if (pending.length > 0) {
+          const tree = await buildMerkleTree(pending.map((doc) => doc.file_hash));
+
+          const { data: batch, error: batchError } = await supabase
+            .from("anchor_batches")
+            .insert([
+              {
+                merkle_root: tree.root,
+                merkle_algorithm: MERKLE_ALGORITHM,
+                leaf_count: pending.length,
+                status: "pending",
+              },
+            ])
+            .select("id")
+            .single();
+
+          if (batchError) {
+            throw batchError;
+          }
+          batchId = batch.id;
+
+          const { error: proofError } = await supabase.from("merkle_proofs").upsert(
+            pending.map((doc, index) => ({
+              document_id: doc.id,
+              batch_id: batch.id,
+              leaf_index: tree.proofs[index].leaf_index,
+              leaf_hash: tree.proofs[index].leaf_hash,
+              sibling_path: tree.proofs[index].sibling_path,
+            })),
+            { onConflict: "document_id" }
+          );
+
+          if (proofError) {
+            throw proofError;
+          }
+
+          // The transaction is kept on the batch as soon as it is sent, so it
+          // is known even if waiting for it fails.
+          const result = await anchor.anchor(tree.root, async (transactionHash) => {
+            const { error: submittedError } = await supabase
+              .from("anchor_batches")
+              .update({ transaction_hash: transactionHash })
+              .eq("id", batch.id);
+
+            if (submittedError) {
+              throw submittedError;
+            }
+          });
+          anchored = true;
+          anchoredTransaction = result.transaction_hash;
+
+          if (result.recovered) {
+            console.warn(`Root ${tree.root} was already anchored in ${result.transaction_hash}; recording that anchor`);
+          }
+
+          // Usually only confirmed here; finality-worker follows the depth from
+          // then on. A chain that is final at once is finalized straight away.
+          const finalized = result.confirmations >= finalityDepth();
+          const finality = {
+            status: finalized ? "finalized" : "confirmed",
+            confirmations: result.confirmations,
+            finalized_at: finalized ? now() : null,
+          };
+
+          const { error: confirmBatchError } = await supabase
+            .from("anchor_batches")
+            .update({
+              transaction_hash: result.transaction_hash,
+              block_number: result.block_number,
+              block_timestamp: result.block_timestamp,
+              ...finality,
+              anchored_at: now(),
+            })
+            .eq("id", batch.id);
+
+          if (confirmBatchError) {
+            throw confirmBatchError;
+          }
+          batchRecorded = true;
+
+          const { error: recordError } = await supabase
+            .from("blockchain_records")
+            .update({
+              transaction_hash: result.transaction_hash,
+              block_number: result.block_number,
+              block_timestamp: result.block_timestamp,
+              batch_id: batch.id,
+              ...finality,
+            })
+            .in("document_id", [...pendingIds]);
+
+          if (recordError) {
+            throw recordError;
+          }
+
+          const { error: statusError } = await supabase
+            .from("documents")
+            .update({ status: "confirmed", updated_at: now() })
+            .in("id", [...pendingIds])
+            .eq("status", "pending");
+
+          if (statusError) {
+            throw statusError;
+          }
+
+          await emitEvents(
+            supabase,
+            pending.map((doc) => ({
+              owner: doc.uploader_address,
+              type: "document.confirmed" as const,
+              data: {
+                document_id: doc.id,
+                file_hash: doc.file_hash,
+                batch_id: batch.id,
+                merkle_root: tree.root,
+                transaction_hash: result.transaction_hash,
+                block_number: result.block_number,
+                block_timestamp: result.block_timestamp,
+              },
+            }))
+          );
+
+          await completeJobs(
+            registerJobs.filter((job) => pendingIds.has(job.document_id)).map((job) => job.id)
+          );
+        }
+      } catch (anchorError) {
+        const reason = anchorError instanceof Error ? anchorError.message : String(anchorError);
+
+        const remaining = registerJobs.filter((job) => !completed.has(job.id));
+
+        if (anchored) {
+          // The root is on chain, so the jobs are never queued again: another
+          // run would anchor the same documents in a second transaction.
+          console.error(
+            `Batch ${batchId} was anchored in ${anchoredTransaction} but not fully recorded:`,
+            reason
+          );
+
+          if (batchRecorded) {
+            // reconcile_pending_anchors copies the batch transaction to its records.
+            await completeJobs(remaining.map((job) => job.id));
+          } else {
+            await buryJobs(remaining, `Anchored in ${anchoredTransaction} but not recorded: ${reason}`);
+          }
+        } else {
+          if (batchId) {
+            const { error: failBatchError } = await supabase
+              .from("anchor_batches")
+              .update({ status: "failed" })
+              .eq("id", batchId);
+
+            if (failBatchError) {
+              throw failBatchError;
+            }
+          }
+
+          for (const job of remaining) {
+            await failJob(job, reason);
+          }
+        }
+      }
+    }
+
+    for (const job of revokeJobs) {
+      try {
+        const { data: document, error: documentError } = await supabase
+          .from("documents")
+          .select("id, file_hash, status")
+          .eq("id", job.document_id)
+          .single();
+
+        if (documentError) {
+          throw documentError;
+        }
+
+        const { data: record, error: recordError } = await supabase
+          .from("blockchain_records")
+          .select("status, revocation_block_number")
+          .eq("document_id", job.document_id)
+          .maybeSingle();
+
+        if (recordError) {
+          throw recordError;
+        }
+
+        // A revocation is done once it is mined. One that was only sent is
+        // sent again, and the chain hands back the earlier one if it landed.
+        if (document.status === "revoked" && record?.revocation_block_number == null) {
+          if (!record || !isAnchored(record.status)) {
+            throw new Error("Registration is not anchored yet; revocation will be retried");
+          }
+
+          const result = await anchor.revoke(await hashLeaf(document.file_hash), async (transactionHash) => {
+            const { error: submittedError } = await supabase
+              .from("blockchain_records")
+              .update({ revocation_transaction_hash: transactionHash })
+              .eq("document_id", job.document_id);
+
+            if (submittedError) {
+              throw submittedError;
+            }
+          });
+
+          const { error: revocationError } = await supabase
+            .from("blockchain_records")
+            .update({
+              revocation_transaction_hash: result.transaction_hash,
+              revocation_block_number: result.block_number,
+              revocation_block_timestamp: result.block_timestamp,
+              revocation_confirmations: result.confirmations,
+              revocation_finalized_at: result.confirmations >= finalityDepth() ? now() : null,
+            })
+            .eq("document_id", job.document_id);
+
+          if (revocationError) {
+            throw revocationError;
+          }
+        }
+
+        await completeJobs([job.id]);
+      } catch (revokeError) {
+        await failJob(job, revokeError instanceof Error ? revokeError.message : String(revokeError));
+      }
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        reconciled: reconciled || 0,
+        claimed: claimed.length,
+        batch_id: batchId,
+        succeeded,
+        retried,
+        dead,
+      } as WorkerResponse),
+      {
+        status: 200,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    console.error("Anchor worker error:", error);
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : "Internal server error",
+      } as WorkerResponse),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+});
@@ -0,0 +1,198 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "npm:@supabase/supabase-js@2.57.4";
+import {
+  API_KEY_SCOPES,
+  authenticate,
+  authErrorResponse,
+  createApiKey,
+  hashApiKey,
+  isApiKeyScope,
+} from "../_shared/auth.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, DELETE, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey, X-API-Key",
+};
+
+interface CreateKeyRequest {
+  name: string;
+  scopes: string[];
+  rate_limit_per_minute?: number;
+}
+
+const MAX_ACTIVE_KEYS = 20;
+const MAX_NAME_LENGTH = 100;
+const DEFAULT_RATE_LIMIT = parseInt(Deno.env.get("API_KEY_DEFAULT_RATE_LIMIT") || "60");
+const MAX_RATE_LIMIT = parseInt(Deno.env.get("API_KEY_MAX_RATE_LIMIT") || "600");
+// Enough of the key to tell keys apart in a list without weakening it.
+const PREFIX_LENGTH = 12;
+
+const PUBLIC_COLUMNS =
+  "id, name, key_prefix, scopes, rate_limit_per_minute, request_count, last_used_at, revoked_at, created_at";
+
+function errorResponse(status: number, message: string) {
+  return new Response(JSON.stringify({ success: false, error: message }), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+function jsonResponse(status: number, body: Record<string, unknown>) {
+  return new Response(JSON.stringify({ success: true, ...body }), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    // Keys are managed with the wallet itself, so a leaked key cannot mint
+    // further keys or lift its own limits.
+    const auth = await authenticate(req, { allow: ["wallet"] });
+
+    if (!auth.ok) {
+      return authErrorResponse(auth, corsHeaders);
+    }
+
+    const session = auth.principal;
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL") || "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") || ""
+    );
+
+    if (req.method === "GET") {
+      const { data: keys, error } = await supabase
+        .from("api_keys")
+        .select(PUBLIC_COLUMNS)
+        .eq("owner_address", session.address)
+        .order("created_at", { ascending: false });
+
+      if (error) {
+        throw error;
+      }
+
+      const since = new Date(Date.now() - 86_400_000);
+      const { data: usage, error: usageError } = keys?.length
+        ? await supabase
+            .from("api_key_usage")
+            .select("key_id, window_start, request_count")
+            .in("key_id", keys.map((key) => key.id))
+            .gte("window_start", since.toISOString())
+        : { data: [], error: null };
+
+      if (usageError) {
+        throw usageError;
+      }
+
+      const hourAgo = Date.now() - 3_600_000;
+      return jsonResponse(200, {
+        keys: (keys || []).map((key) => {
+          const windows = (usage || []).filter((u) => u.key_id === key.id);
+          return {
+            ...key,
+            requests_last_hour: windows
+              .filter((u) => Date.parse(u.window_start) >= hourAgo)
+              .reduce((sum, u) => sum + u.request_count, 0),
+            requests_last_day: windows.reduce((sum, u) => sum + u.request_count, 0),
+          };
+        }),
+        scopes: API_KEY_SCOPES,
+      });
+    }
+
+    if (req.method === "DELETE") {
+      const keyId = new URL(req.url).searchParams.get("key_id");
+
+      if (!keyId) {
+        return errorResponse(400, "Missing required parameter: key_id");
+      }
+
+      // Revoked keys are kept, with their usage, rather than deleted.
+      const { data, error } = await supabase
+        .from("api_keys")
+        .update({ revoked_at: new Date().toISOString() })
+        .eq("id", keyId)
+        .eq("owner_address", session.address)
+        .is("revoked_at", null)
+        .select("id, revoked_at");
+
+      if (error) {
+        throw error;
+      }
+
+      if (!data || data.length === 0) {
+        return errorResponse(404, "Active API key not found");
+      }
+
+      return jsonResponse(200, { key_id: keyId, revoked_at: data[0].revoked_at });
+    }
+
+    if (req.method !== "POST") {
+      return errorResponse(405, "Method not allowed");
+    }
+
+    const payload: CreateKeyRequest = await req.json();
+    const name = typeof payload.name === "string" ? payload.name.trim() : "";
+    const rateLimit = payload.rate_limit_per_minute ?? DEFAULT_RATE_LIMIT;
+
+    if (!name || name.length > MAX_NAME_LENGTH) {
+      return errorResponse(400, `name is required and must be at most ${MAX_NAME_LENGTH} characters`);
+    }
+
+    if (!Array.isArray(payload.scopes) || payload.scopes.length === 0 || !payload.scopes.every(isApiKeyScope)) {
+      return errorResponse(400, `scopes must be a non-empty list of: ${API_KEY_SCOPES.join(", ")}`);
+    }
+
+    if (!Number.isInteger(rateLimit) || rateLimit < 1 || rateLimit > MAX_RATE_LIMIT) {
+      return errorResponse(400, `rate_limit_per_minute must be an integer from 1 to ${MAX_RATE_LIMIT}`);
+    }
+
+    const { count, error: countError } = await supabase
+      .from("api_keys")
+      .select("id", { count: "exact", head: true })
+      .eq("owner_address", session.address)
+      .is("revoked_at", null);
+
+    if (countError) {
+      throw countError;
+    }
+
+    if ((count || 0) >= MAX_ACTIVE_KEYS) {
+      return errorResponse(409, `At most ${MAX_ACTIVE_KEYS} active API keys are allowed per owner`);
+    }
+
+    const key = createApiKey();
+    const { data, error } = await supabase
+      .from("api_keys")
+      .insert([
+        {
+          owner_address: session.address,
+          name,
+          key_prefix: key.slice(0, PREFIX_LENGTH),
+          key_hash: await hashApiKey(key),
+          scopes: [...new Set(payload.scopes)],
+          rate_limit_per_minute: rateLimit,
+        },
+      ])
+      .select(PUBLIC_COLUMNS)
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    // The only time the key itself is returned; only its hash is stored.
+    return jsonResponse(201, { key: { ...data, key } });
+  } catch (error) {
+    console.error("API keys error:", error);
+    return errorResponse(500, error instanceof Error ? error.message : "Internal server error");
+  }
+});
@@ -0,0 +1,78 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "npm:@supabase/supabase-js@2.57.4";
+import { authenticate, authErrorResponse } from "../_shared/auth.ts";
+import { createRegistryEventSource, describeChain, finalityDepth } from "../_shared/chain.ts";
+import { syncRegistryEvents, type SyncResult } from "../_shared/indexer.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey, X-API-Key",
+};
+
+interface IndexerRequest {
+  from_block?: number;
+}
+
+type IndexerResponse = ({ success: true } & SyncResult) | { success: false; error: string };
+
+const START_BLOCK = parseInt(Deno.env.get("INDEXER_START_BLOCK") || "0");
+const BLOCK_RANGE = parseInt(Deno.env.get("INDEXER_BLOCK_RANGE") || "2000");
+const MAX_BLOCKS = parseInt(Deno.env.get("INDEXER_MAX_BLOCKS") || "20000");
+
+function errorResponse(status: number, message: string) {
+  return new Response(JSON.stringify({ success: false, error: message } as IndexerResponse), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const auth = await authenticate(req, { allow: ["service"] });
+
+    if (!auth.ok) {
+      return authErrorResponse(auth, corsHeaders);
+    }
+
+    // The body is optional; `from_block` re-reads the chain from that block.
+    const payload: IndexerRequest = await req.json().catch(() => ({}));
+
+    if (
+      payload.from_block !== undefined &&
+      (!Number.isInteger(payload.from_block) || payload.from_block < 0)
+    ) {
+      return errorResponse(400, "from_block must be a non-negative integer");
+    }
+
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL") || "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") || ""
+    );
+
+    const chain = describeChain();
+    const result = await syncRegistryEvents(supabase, createRegistryEventSource(), {
+      checkpointId: `${chain.chain_id ?? "unknown"}:${(chain.registry_address || "").toLowerCase()}`,
+      startBlock: START_BLOCK,
+      confirmations: finalityDepth(),
+      blockRange: BLOCK_RANGE,
+      maxBlocks: MAX_BLOCKS,
+      fromBlock: payload.from_block,
+    });
+
+    return new Response(JSON.stringify({ success: true, ...result } as IndexerResponse), {
+      status: 200,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    console.error("Chain indexer error:", error);
+    return errorResponse(500, error instanceof Error ? error.message : "Internal server error");
+  }
+});
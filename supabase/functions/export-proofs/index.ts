@@ -1,12 +1,77 @@
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
 import { createClient } from "npm:@supabase/supabase-js@2.57.4";
+import { authenticate, authErrorResponse, principalAddress } from "../_shared/auth.ts";
+import {
+  EXPORT_COLUMNS,
+  EXPORT_FORMATS,
+  type ExportColumn,
+  type ExportFormat,
+  type RegistryDocument,
+} from "../_shared/contract.ts";
+import {
+  applyCursor,
+  applyDocumentFilters,
+  applyVisibility,
+  parseDocumentFilters,
+  parseDocumentSort,
+  positionAfter,
+  type CursorPosition,
+} from "../_shared/search.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Methods": "GET, OPTIONS",
-  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey, X-API-Key",
 };
 
+const FORMATS: Record<ExportFormat, string> = {
+  csv: "text/csv",
+  json: "application/json",
+  ndjson: "application/x-ndjson",
+};
+
+// Rows are read in keyset pages so the export never holds the whole registry.
+const PAGE_SIZE = 1000;
+
+type Value = string | number | string[] | null;
+
+const COLUMNS: Record<ExportColumn, (doc: RegistryDocument) => Value> = {
+  id: (doc) => doc.id,
+  filename: (doc) => doc.filename,
+  hash_algorithm: (doc) => doc.hash_algorithm,
+  file_hash: (doc) => doc.file_hash,
+  file_size: (doc) => doc.file_size,
+  mime_type: (doc) => doc.mime_type,
+  version: (doc) => doc.version,
+  tags: (doc) => doc.tags || [],
+  owner_address: (doc) => doc.blockchain_records?.[0]?.owner_address || doc.uploader_address,
+  transaction_hash: (doc) => doc.blockchain_records?.[0]?.transaction_hash || null,
+  block_number: (doc) => doc.blockchain_records?.[0]?.block_number || null,
+  block_timestamp: (doc) => doc.blockchain_records?.[0]?.block_timestamp || null,
+  anchor_status: (doc) => doc.blockchain_records?.[0]?.status || "pending",
+  confirmations: (doc) => doc.blockchain_records?.[0]?.confirmations ?? 0,
+  status: (doc) => doc.status,
+  created_at: (doc) => new Date(doc.created_at).toISOString(),
+  revoked_at: (doc) => (doc.revoked_at ? new Date(doc.revoked_at).toISOString() : null),
+  revocation_reason: (doc) => doc.revocation_reason,
+};
+
+const COLUMN_IDS: readonly string[] = EXPORT_COLUMNS.map((column) => column.id);
+const HEADERS: Record<string, string> = Object.fromEntries(EXPORT_COLUMNS.map((column) => [column.id, column.label]));
+const DEFAULT_COLUMNS = EXPORT_COLUMNS.filter((column) => !("extra" in column)).map((column) => column.id);
+
+function errorResponse(status: number, message: string) {
+  return new Response(JSON.stringify({ success: false, error: message }), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+function csvCell(value: Value): string {
+  const text = Array.isArray(value) ? value.join(";") : value === null ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
 Deno.serve(async (req: Request) => {
   if (req.method === "OPTIONS") {
     return new Response(null, {
@@ -16,91 +81,149 @@ Deno.serve(async (req: Request) => {
   }
 
   try {
+    const auth = await authenticate(req, { allow: ["wallet", "api_key", "anonymous"], scope: "export" });
+
+    if (!auth.ok) {
+      return authErrorResponse(auth, corsHeaders);
+    }
+
     const url = new URL(req.url);
     const format = url.searchParams.get("format") || "csv";
-    const status = url.searchParams.get("status");
+    const parsed = parseDocumentFilters(url.searchParams);
+    const sort = parseDocumentSort(url.searchParams);
+    const columnsParam = url.searchParams.get("columns");
+    const requested: string[] = columnsParam
+      ? columnsParam
+          .split(",")
+          .map((column) => column.trim())
+          .filter(Boolean)
+      : DEFAULT_COLUMNS;
+
+    if (!(EXPORT_FORMATS as readonly string[]).includes(format)) {
+      return errorResponse(400, `Unsupported format. Supported: ${EXPORT_FORMATS.join(", ")}`);
+    }
+
+    if ("error" in parsed) {
+      return errorResponse(400, parsed.error);
+    }
+
+    const unknown = requested.filter((column) => !COLUMN_IDS.includes(column));
+    if (unknown.length || requested.length === 0) {
+      return errorResponse(
+        400,
+        `Unknown columns: ${unknown.join(", ") || "(none given)"}. Supported: ${COLUMN_IDS.join(", ")}`
+      );
+    }
+
+    const columns = requested as ExportColumn[];
 
     const supabase = createClient(
       Deno.env.get("SUPABASE_URL") || "",
-      Deno.env.get("SUPABASE_ANON_KEY") || ""
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") || ""
     );
+    const owner = principalAddress(auth.principal);
 
-    let query = supabase
-      .from("documents")
-      .select(
+    const fetchPage = async (after: CursorPosition | null) => {
+      let query = supabase
+        .from("documents")
+        .select(
+          `
+          id,
+          filename,
+          file_hash,
+          hash_algorithm,
+          file_size,
+          mime_type,
+          uploader_address,
+          tags,
+          version,
+          parent_id,
+          status,
+          revoked_at,
+          revocation_reason,
+          created_at,
+          blockchain_records(transaction_hash, block_number, owner_address, block_timestamp, status, confirmations, finalized_at)
         `
-        id,
-        filename,
-        file_hash,
-        file_size,
-        mime_type,
-        uploader_address,
-        tags,
-        status,
-        created_at,
-        blockchain_records(transaction_hash, block_number, owner_address, block_timestamp, status)
-      `
-      )
-      .eq("status", "confirmed")
-      .order("created_at", { ascending: false });
-
-    if (status && ["pending", "confirmed", "not_found"].includes(status)) {
-      query = query.eq("status", status);
-    }
+        )
+        .order(sort.column, { ascending: sort.ascending })
+        .order("id", { ascending: sort.ascending });
 
-    const { data: documents, error } = await query;
+      query = applyVisibility(applyDocumentFilters(query, parsed.filters), owner);
 
-    if (error) {
-      throw error;
-    }
+      if (after) {
+        query = applyCursor(query, after);
+      }
+
+      const { data, error } = await query.limit(PAGE_SIZE);
 
-    let output = "";
-
-    if (format === "csv") {
-      const headers = [
-        "Filename",
-        "SHA-256 Hash",
-        "File Size (bytes)",
-        "MIME Type",
-        "Owner Address",
-        "Transaction Hash",
-        "Block Number",
-        "Block Timestamp",
-        "Status",
-        "Registered At",
-      ];
-      output = headers.join(",") + "\n";
-
-      for (const doc of documents || []) {
-        const bc = doc.blockchain_records?.[0];
-        const row = [
-          `"${(doc.filename || "").replace(/"/g, '""')}"`,
-          doc.file_hash,
-          doc.file_size,
-          doc.mime_type,
-          doc.owner_address,
-          bc?.transaction_hash || "",
-          bc?.block_number || "",
-          bc?.block_timestamp || "",
-          bc?.status || "pending",
-          new Date(doc.created_at).toISOString(),
-        ];
-        output += row.join(",") + "\n";
+      if (error) {
+        throw error;
       }
-    } else if (format === "json") {
-      output = JSON.stringify(documents, null, 2);
-    }
 
-    const filename =
-      format === "csv"
-        ? `document-proofs-${new Date().toISOString().split("T")[0]}.csv`
-        : `document-proofs-${new Date().toISOString().split("T")[0]}.json`;
+      return (data || []) as RegistryDocument[];
+    };
+
+    // Without explicit columns JSON keeps its original shape: whole documents
+    // with their blockchain records. Selecting columns gives flat records.
+    const serialize = (doc: RegistryDocument) =>
+      columnsParam ? Object.fromEntries(columns.map((column) => [column, COLUMNS[column](doc)])) : doc;
+
+    const encoder = new TextEncoder();
+    // The first page is read before responding so a failing query still gets
+    // a JSON error; later failures can only abort the stream.
+    let page = await fetchPage(null);
+    let written = 0;
+
+    // One page per pull, so a slow client holds back the database reads.
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        if (format === "csv") {
+          controller.enqueue(encoder.encode(columns.map((column) => HEADERS[column]).join(",") + "\n"));
+        } else if (format === "json") {
+          controller.enqueue(encoder.encode("[\n"));
+        }
+      },
+      async pull(controller) {
+        if (page.length === 0) {
+          if (format === "json") {
+            controller.enqueue(encoder.encode("\n]\n"));
+          }
+          controller.close();
+          return;
+        }
+
+        let chunk = "";
+        for (const doc of page) {
+          if (format === "csv") {
+            chunk += columns.map((column) => csvCell(COLUMNS[column](doc))).join(",") + "\n";
+          } else if (format === "ndjson") {
+            chunk += JSON.stringify(serialize(doc)) + "\n";
+          } else {
+            chunk += (written > 0 ? ",\n" : "") + JSON.stringify(serialize(doc));
+          }
+          written++;
+        }
+        controller.enqueue(encoder.encode(chunk));
+
+        try {
+          page =
+            page.length < PAGE_SIZE
+              ? []
+              : await fetchPage(positionAfter(sort, page[page.length - 1]));
+        } catch (error) {
+          console.error("Export stream error:", error);
+          controller.error(error);
+        }
+      },
+    });
+
+    const filename = `document-proofs-${new Date().toISOString().split("T")[0]}.${format}`;
 
-    return new Response(output, {
+    return new Response(body, {
       status: 200,
       headers: {
         ...corsHeaders,
-        "Content-Type": format === "csv" ? "text/csv" : "application/json",
+        "Content-Type": FORMATS[format as ExportFormat],
         "Content-Disposition": `attachment; filename="${filename}"`,
       },
     });
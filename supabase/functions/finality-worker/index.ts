@@ -0,0 +1,262 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "npm:@supabase/supabase-js@2.57.4";
+import { authenticate, authErrorResponse } from "../_shared/auth.ts";
+import { createChainAnchor, finalityDepth } from "../_shared/chain.ts";
+import { hashLeaf } from "../_shared/merkle.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey, X-API-Key",
+};
+
+interface AnchoredBatch {
+  id: string;
+  merkle_root: string;
+  transaction_hash: string;
+  block_number: number;
+}
+
+// A mined revocation that is not final yet. The registry anchored the leaf
+// hash of the document's primary digest.
+interface AnchoredRevocation {
+  document_id: string;
+  revocation_transaction_hash: string;
+  revocation_block_number: number;
+  documents: { file_hash: string } | { file_hash: string }[] | null;
+}
+
+interface WorkerResponse {
+  success: boolean;
+  checked?: number;
+  revocations_checked?: number;
+  finalized?: number;
+  moved?: number;
+  unconfirmed?: number;
+  dropped?: number;
+  requeued?: number;
+  error?: string;
+}
+
+const CHECK_LIMIT = parseInt(Deno.env.get("FINALITY_CHECK_LIMIT") || "100");
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const auth = await authenticate(req, { allow: ["service"] });
+
+    if (!auth.ok) {
+      return authErrorResponse(auth, corsHeaders);
+    }
+
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL") || "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") || ""
+    );
+
+    const anchor = createChainAnchor();
+    const depth = finalityDepth();
+    const now = () => new Date().toISOString();
+
+    // Anchored but not yet final, least recently checked first, so a long
+    // backlog is worked through over several runs.
+    const { data: batches, error: batchError } = await supabase
+      .from("anchor_batches")
+      .select("id, merkle_root, transaction_hash, block_number")
+      .eq("status", "confirmed")
+      .not("transaction_hash", "is", null)
+      .order("checked_at", { ascending: true, nullsFirst: true })
+      .limit(CHECK_LIMIT);
+
+    if (batchError) {
+      throw batchError;
+    }
+
+    let finalized = 0;
+    let moved = 0;
+    let unconfirmed = 0;
+    let dropped = 0;
+    let requeued = 0;
+
+    for (const batch of (batches || []) as AnchoredBatch[]) {
+      try {
+        const result = await anchor.check(
+          {
+            transaction_hash: batch.transaction_hash,
+            block_number: batch.block_number,
+            document_hash: batch.merkle_root,
+          },
+          "register"
+        );
+
+        if (result.state === "dropped") {
+          const { data: count, error: reanchorError } = await supabase.rpc("reanchor_batch", {
+            p_batch_id: batch.id,
+          });
+
+          if (reanchorError) {
+            throw reanchorError;
+          }
+
+          console.warn(`Anchor transaction ${batch.transaction_hash} was dropped; re-anchoring batch ${batch.id}`);
+          dropped++;
+          requeued += count || 0;
+          continue;
+        }
+
+        // Back in the mempool after a reorganisation. It is most likely mined
+        // again, so only the depth is reset; if not, a later run sees it dropped.
+        const fields =
+          result.state === "pending"
+            ? { confirmations: 0 }
+            : {
+                block_number: result.block_number,
+                block_timestamp: result.block_timestamp,
+                confirmations: result.confirmations,
+                ...(result.confirmations >= depth ? { status: "finalized", finalized_at: now() } : {}),
+              };
+
+        const { error: updateBatchError } = await supabase
+          .from("anchor_batches")
+          .update({ ...fields, checked_at: now() })
+          .eq("id", batch.id);
+
+        if (updateBatchError) {
+          throw updateBatchError;
+        }
+
+        const { error: updateRecordsError } = await supabase
+          .from("blockchain_records")
+          .update(fields)
+          .eq("batch_id", batch.id);
+
+        if (updateRecordsError) {
+          throw updateRecordsError;
+        }
+
+        if (result.state === "pending") {
+          unconfirmed++;
+        } else {
+          if (result.block_number !== batch.block_number) moved++;
+          if (result.confirmations >= depth) finalized++;
+        }
+      } catch (checkError) {
+        // One unreachable transaction should not hold up the others.
+        console.error(`Finality check of batch ${batch.id} failed:`, checkError);
+      }
+    }
+
+    // Revocations are followed the same way. One that left the chain is sent
+    // again; the document stays revoked in the meantime.
+    const { data: revocations, error: revocationError } = await supabase
+      .from("blockchain_records")
+      .select("document_id, revocation_transaction_hash, revocation_block_number, documents(file_hash)")
+      .not("revocation_block_number", "is", null)
+      .is("revocation_finalized_at", null)
+      .order("revocation_checked_at", { ascending: true, nullsFirst: true })
+      .limit(CHECK_LIMIT);
+
+    if (revocationError) {
+      throw revocationError;
+    }
+
+    for (const revocation of (revocations || []) as AnchoredRevocation[]) {
+      try {
+        const document = Array.isArray(revocation.documents) ? revocation.documents[0] : revocation.documents;
+
+        if (!document) {
+          throw new Error("Revoked document is missing");
+        }
+
+        const result = await anchor.check(
+          {
+            transaction_hash: revocation.revocation_transaction_hash,
+            block_number: revocation.revocation_block_number,
+            document_hash: await hashLeaf(document.file_hash),
+          },
+          "revoke"
+        );
+
+        if (result.state === "dropped") {
+          const { data: count, error: rerevokeError } = await supabase.rpc("rerevoke_document", {
+            p_document_id: revocation.document_id,
+          });
+
+          if (rerevokeError) {
+            throw rerevokeError;
+          }
+
+          console.warn(
+            `Revocation transaction ${revocation.revocation_transaction_hash} was dropped; revoking document ${revocation.document_id} again`
+          );
+          dropped++;
+          requeued += count || 0;
+          continue;
+        }
+
+        const fields =
+          result.state === "pending"
+            ? { revocation_confirmations: 0 }
+            : {
+                revocation_block_number: result.block_number,
+                revocation_block_timestamp: result.block_timestamp,
+                revocation_confirmations: result.confirmations,
+                ...(result.confirmations >= depth ? { revocation_finalized_at: now() } : {}),
+              };
+
+        const { error: updateError } = await supabase
+          .from("blockchain_records")
+          .update({ ...fields, revocation_checked_at: now() })
+          .eq("document_id", revocation.document_id);
+
+        if (updateError) {
+          throw updateError;
+        }
+
+        if (result.state === "pending") {
+          unconfirmed++;
+        } else {
+          if (result.block_number !== revocation.revocation_block_number) moved++;
+          if (result.confirmations >= depth) finalized++;
+        }
+      } catch (checkError) {
+        console.error(`Finality check of the revocation of ${revocation.document_id} failed:`, checkError);
+      }
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        checked: batches?.length || 0,
+        revocations_checked: revocations?.length || 0,
+        finalized,
+        moved,
+        unconfirmed,
+        dropped,
+        requeued,
+      } as WorkerResponse),
+      {
+        status: 200,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    console.error("Finality worker error:", error);
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : "Internal server error",
+      } as WorkerResponse),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+});
@@ -0,0 +1,87 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "npm:@supabase/supabase-js@2.57.4";
+import { authenticate, authErrorResponse, principalAddress } from "../_shared/auth.ts";
+import { isUuid } from "../_shared/contract.ts";
+import { fetchDocumentDetails } from "../_shared/documents.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey, X-API-Key",
+};
+
+const MAX_HISTORY_LIMIT = 100;
+
+function errorResponse(status: number, message: string) {
+  return new Response(JSON.stringify({ success: false, error: message }), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const auth = await authenticate(req, { allow: ["wallet", "api_key", "anonymous"], scope: "read" });
+
+    if (!auth.ok) {
+      return authErrorResponse(auth, corsHeaders);
+    }
+
+    const url = new URL(req.url);
+    const documentId = url.searchParams.get("document_id");
+    const limit = Math.min(Math.max(parseInt(url.searchParams.get("limit") || "20") || 20, 1), MAX_HISTORY_LIMIT);
+    const offset = Math.max(parseInt(url.searchParams.get("offset") || "0") || 0, 0);
+
+    if (!documentId) {
+      return errorResponse(400, "document_id is required");
+    }
+
+    if (!isUuid(documentId)) {
+      return errorResponse(400, "Invalid document ID. Expected a UUID");
+    }
+
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL") || "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") || ""
+    );
+
+    const details = await fetchDocumentDetails(supabase, documentId, principalAddress(auth.principal), {
+      limit,
+      offset,
+    });
+
+    if (!details) {
+      return errorResponse(404, "Document not found");
+    }
+
+    const { document, verification_history, total } = details;
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        document,
+        verification_history,
+        pagination: {
+          total,
+          limit,
+          offset,
+          hasMore: offset + limit < total,
+        },
+      }),
+      {
+        status: 200,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    console.error("Get document error:", error);
+    return errorResponse(500, error instanceof Error ? error.message : "Internal server error");
+  }
+});
@@ -1,12 +1,31 @@
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
 import { createClient } from "npm:@supabase/supabase-js@2.57.4";
+import { authenticate, authErrorResponse, principalAddress } from "../_shared/auth.ts";
+import {
+  applyCursor,
+  applyDocumentFilters,
+  applyVisibility,
+  decodeCursor,
+  encodeCursor,
+  parseDocumentFilters,
+  parseDocumentSort,
+} from "../_shared/search.ts";
+
+const MAX_PAGE_SIZE = 200;
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Methods": "GET, OPTIONS",
-  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey, X-API-Key",
 };
 
+function errorResponse(status: number, message: string) {
+  return new Response(JSON.stringify({ success: false, error: message }), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
 Deno.serve(async (req: Request) => {
   if (req.method === "OPTIONS") {
     return new Response(null, {
@@ -16,14 +35,30 @@ Deno.serve(async (req: Request) => {
   }
 
   try {
+    const auth = await authenticate(req, { allow: ["wallet", "api_key", "anonymous"], scope: "read" });
+
+    if (!auth.ok) {
+      return authErrorResponse(auth, corsHeaders);
+    }
+
     const url = new URL(req.url);
-    const status = url.searchParams.get("status");
-    const limit = parseInt(url.searchParams.get("limit") || "50");
-    const offset = parseInt(url.searchParams.get("offset") || "0");
+    const parsed = parseDocumentFilters(url.searchParams);
+    const sort = parseDocumentSort(url.searchParams);
+    const limit = Math.min(Math.max(parseInt(url.searchParams.get("limit") || "50") || 50, 1), MAX_PAGE_SIZE);
+    const cursorParam = url.searchParams.get("cursor");
+    const cursor = cursorParam ? decodeCursor(cursorParam) : null;
+
+    if ("error" in parsed) {
+      return errorResponse(400, parsed.error);
+    }
+
+    if (cursorParam && (!cursor || cursor.column !== sort.column || cursor.ascending !== sort.ascending)) {
+      return errorResponse(400, "Invalid cursor for this sort order");
+    }
 
     const supabase = createClient(
       Deno.env.get("SUPABASE_URL") || "",
-      Deno.env.get("SUPABASE_ANON_KEY") || ""
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") || ""
     );
 
     let query = supabase
@@ -33,38 +68,47 @@ Deno.serve(async (req: Request) => {
         id,
         filename,
         file_hash,
+        hash_algorithm,
         file_size,
         mime_type,
         uploader_address,
         tags,
+        version,
+        parent_id,
         status,
+        revoked_at,
+        revocation_reason,
         created_at,
-        blockchain_records(transaction_hash, block_number, owner_address, block_timestamp, status)
-      `,
-        { count: "exact" }
+        blockchain_records(transaction_hash, block_number, owner_address, block_timestamp, status, confirmations, finalized_at)
+      `
       )
-      .order("created_at", { ascending: false })
-      .range(offset, offset + limit - 1);
+      .order(sort.column, { ascending: sort.ascending })
+      .order("id", { ascending: sort.ascending });
 
-    if (status && ["pending", "confirmed", "not_found"].includes(status)) {
-      query = query.eq("status", status);
+    query = applyVisibility(applyDocumentFilters(query, parsed.filters), principalAddress(auth.principal));
+
+    if (cursor) {
+      query = applyCursor(query, cursor);
     }
 
-    const { data, error, count } = await query;
+    // One extra row tells whether another page exists without counting the table.
+    const { data, error } = await query.limit(limit + 1);
 
     if (error) {
       throw error;
     }
 
+    const documents = (data || []).slice(0, limit);
+    const hasMore = (data || []).length > limit;
+
     return new Response(
       JSON.stringify({
         success: true,
-        documents: data || [],
+        documents,
         pagination: {
-          total: count || 0,
           limit,
-          offset,
-          hasMore: (offset + limit) < (count || 0),
+          hasMore,
+          next_cursor: hasMore ? encodeCursor(sort, documents[documents.length - 1]) : null,
         },
       }),
       {
@@ -0,0 +1,140 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "npm:@supabase/supabase-js@2.57.4";
+import { authenticate, authErrorResponse } from "../_shared/auth.ts";
+import { describeChain } from "../_shared/chain.ts";
+import { isAnchored, isUuid } from "../_shared/contract.ts";
+import { RECEIPT_FORMAT, RECEIPT_VERSION, signReceipt } from "../_shared/receipt.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey, X-API-Key",
+};
+
+function errorResponse(status: number, message: string) {
+  return new Response(JSON.stringify({ success: false, error: message }), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const auth = await authenticate(req, { allow: ["wallet", "api_key", "anonymous"], scope: "read" });
+
+    if (!auth.ok) {
+      return authErrorResponse(auth, corsHeaders);
+    }
+
+    const url = new URL(req.url);
+    const documentId = url.searchParams.get("document_id");
+
+    if (!documentId) {
+      return errorResponse(400, "document_id is required");
+    }
+
+    if (!isUuid(documentId)) {
+      return errorResponse(400, "Invalid document ID. Expected a UUID");
+    }
+
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL") || "",
+      Deno.env.get("SUPABASE_ANON_KEY") || ""
+    );
+
+    const { data: document, error } = await supabase
+      .from("documents")
+      .select(
+        `
+        id,
+        filename,
+        file_hash,
+        hash_algorithm,
+        file_size,
+        mime_type,
+        status,
+        created_at,
+        blockchain_records(transaction_hash, block_number, block_timestamp, status),
+        merkle_proofs(leaf_index, leaf_hash, sibling_path, anchor_batches(merkle_root, merkle_algorithm, status))
+      `
+      )
+      .eq("id", documentId)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    if (!document) {
+      return errorResponse(404, "Document not found");
+    }
+
+    // A receipt vouches for the document, and nothing in it could show the
+    // holder that it was withdrawn later.
+    if (document.status === "revoked") {
+      return errorResponse(409, "Document has been revoked");
+    }
+
+    const bc = document.blockchain_records?.[0];
+    if (!bc || !isAnchored(bc.status) || !bc.transaction_hash) {
+      return errorResponse(409, "Document is not yet anchored on chain");
+    }
+
+    const proof = Array.isArray(document.merkle_proofs)
+      ? document.merkle_proofs[0]
+      : document.merkle_proofs;
+    const batch = Array.isArray(proof?.anchor_batches) ? proof.anchor_batches[0] : proof?.anchor_batches;
+
+    const receipt = await signReceipt({
+      format: RECEIPT_FORMAT,
+      version: RECEIPT_VERSION,
+      issued_at: new Date().toISOString(),
+      document: {
+        id: document.id,
+        filename: document.filename,
+        file_size: document.file_size,
+        mime_type: document.mime_type,
+        registered_at: new Date(document.created_at).toISOString(),
+      },
+      hash: {
+        algorithm: document.hash_algorithm,
+        digest: document.file_hash,
+      },
+      anchor: {
+        ...describeChain(),
+        transaction_hash: bc.transaction_hash,
+        block_number: bc.block_number,
+        block_timestamp: bc.block_timestamp,
+      },
+      merkle:
+        proof && batch && isAnchored(batch.status)
+          ? {
+              algorithm: batch.merkle_algorithm,
+              root: batch.merkle_root,
+              leaf_index: proof.leaf_index,
+              leaf_hash: proof.leaf_hash,
+              sibling_path: proof.sibling_path,
+            }
+          : null,
+    });
+
+    return new Response(JSON.stringify(receipt, null, 2), {
+      status: 200,
+      headers: {
+        ...corsHeaders,
+        "Content-Type": "application/json",
+        "Content-Disposition": `attachment; filename="receipt-${document.file_hash.substring(0, 16)}.json"`,
+      },
+    });
+  } catch (error) {
+    console.error("Receipt error:", error);
+    return errorResponse(500, error instanceof Error ? error.message : "Internal server error");
+  }
+});
@@ -0,0 +1,128 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "npm:@supabase/supabase-js@2.57.4";
+import { authenticate, authErrorResponse } from "../_shared/auth.ts";
+import {
+  RegisterRequestSchema,
+  validate,
+  type BatchRegisterItem,
+  type BatchRegisterResponse,
+  type ErrorResponse,
+  type RegisterRequest,
+} from "../_shared/contract.ts";
+import { registerDocuments } from "../_shared/registration.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey, X-API-Key",
+};
+
+const MAX_BATCH_SIZE = Number(Deno.env.get("REGISTER_BATCH_MAX") || 500);
+
+function errorResponse(status: number, message: string) {
+  return new Response(JSON.stringify({ success: false, error: message } as ErrorResponse), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const auth = await authenticate(req, { allow: ["wallet", "api_key"], scope: "register" });
+
+    if (!auth.ok) {
+      return authErrorResponse(auth, corsHeaders);
+    }
+
+    const principal = auth.principal;
+
+    // Items are validated one by one below, so one malformed item only fails itself.
+    const payload: { documents?: unknown } = await req.json();
+
+    if (!Array.isArray(payload?.documents) || payload.documents.length === 0) {
+      return errorResponse(400, "documents must be a non-empty array");
+    }
+
+    if (payload.documents.length > MAX_BATCH_SIZE) {
+      return errorResponse(400, `At most ${MAX_BATCH_SIZE} documents can be registered per request`);
+    }
+
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL") || "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") || ""
+    );
+
+    const results: BatchRegisterItem[] = [];
+    const valid: { base: Omit<BatchRegisterItem, "status">; request: RegisterRequest }[] = [];
+
+    for (const [index, item] of payload.documents.entries()) {
+      const raw = item as Partial<RegisterRequest> | null;
+      const base = { index, filename: String(raw?.filename || ""), file_hash: String(raw?.file_hash || "") };
+      const parsed = validate(RegisterRequestSchema, item, `documents[${index}]`);
+
+      if (parsed.ok) {
+        valid.push({ base, request: parsed.value });
+      } else {
+        results[index] = { ...base, status: "failed", error: parsed.error };
+      }
+    }
+
+    // The valid items are registered in order in one database call, so a file
+    // repeated within the batch is reported as a duplicate of the earlier item.
+    // A database failure fails the whole request rather than every item.
+    const registered = await registerDocuments(
+      supabase,
+      principal.address,
+      valid.map((item) => item.request)
+    );
+
+    for (const [position, { base }] of valid.entries()) {
+      const result = registered[position];
+
+      if (result.ok) {
+        results[base.index] = {
+          ...base,
+          status: "registered",
+          document_id: result.document_id,
+          version: result.version,
+        };
+      } else {
+        results[base.index] = {
+          ...base,
+          status: result.status === 409 && result.document_id ? "duplicate" : "failed",
+          document_id: result.document_id,
+          error: result.error,
+        };
+      }
+    }
+
+    const count = (status: BatchRegisterItem["status"]) => results.filter((r) => r.status === status).length;
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        results,
+        summary: {
+          total: results.length,
+          registered: count("registered"),
+          duplicates: count("duplicate"),
+          failed: count("failed"),
+        },
+      } as BatchRegisterResponse),
+      {
+        status: 200,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    console.error("Batch register error:", error);
+    return errorResponse(500, error instanceof Error ? error.message : "Internal server error");
+  }
+});
@@ -0,0 +1,143 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "npm:@supabase/supabase-js@2.57.4";
+import { authenticate, authErrorResponse } from "../_shared/auth.ts";
+import { RevokeRequestSchema, validate, type ErrorResponse, type RevokeResponse } from "../_shared/contract.ts";
+import { emitEvents } from "../_shared/webhooks.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey, X-API-Key",
+};
+
+const MAX_REASON_LENGTH = 500;
+
+function errorResponse(status: number, message: string) {
+  return new Response(JSON.stringify({ success: false, error: message } as ErrorResponse), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const auth = await authenticate(req, { allow: ["wallet", "api_key"], scope: "register" });
+
+    if (!auth.ok) {
+      return authErrorResponse(auth, corsHeaders);
+    }
+
+    const principal = auth.principal;
+
+    const parsed = validate(RevokeRequestSchema, await req.json());
+
+    if (!parsed.ok) {
+      return errorResponse(400, parsed.error);
+    }
+
+    const payload = parsed.value;
+    const reason = payload.reason.trim();
+
+    if (!payload.document_id || !reason) {
+      return errorResponse(400, "Missing required fields: document_id, reason");
+    }
+
+    if (reason.length > MAX_REASON_LENGTH) {
+      return errorResponse(400, `Reason must be at most ${MAX_REASON_LENGTH} characters`);
+    }
+
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL") || "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") || ""
+    );
+
+    const { data: document, error } = await supabase
+      .from("documents")
+      .select("id, uploader_address, status")
+      .eq("id", payload.document_id)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    if (!document) {
+      return errorResponse(404, "Document not found");
+    }
+
+    if (document.uploader_address.toLowerCase() !== principal.address) {
+      return errorResponse(403, "Only the owner of a document can revoke it");
+    }
+
+    if (document.status === "revoked") {
+      return errorResponse(409, "Document is already revoked");
+    }
+
+    const revokedAt = new Date().toISOString();
+
+    const { data: updated, error: updateError } = await supabase
+      .from("documents")
+      .update({
+        status: "revoked",
+        revoked_at: revokedAt,
+        revocation_reason: reason,
+        revoked_by: principal.address,
+        updated_at: revokedAt,
+      })
+      .eq("id", document.id)
+      .neq("status", "revoked")
+      .select("id");
+
+    if (updateError) {
+      throw updateError;
+    }
+
+    if (!updated || updated.length === 0) {
+      return errorResponse(409, "Document is already revoked");
+    }
+
+    const { error: jobError } = await supabase
+      .from("anchor_jobs")
+      .insert([{ document_id: document.id, kind: "revoke" }]);
+
+    if (jobError) {
+      throw jobError;
+    }
+
+    await emitEvents(supabase, [
+      {
+        owner: document.uploader_address,
+        type: "document.revoked",
+        data: {
+          document_id: document.id,
+          reason,
+          revoked_at: revokedAt,
+          revoked_by: principal.address,
+        },
+      },
+    ]);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        document_id: document.id,
+        revoked_at: revokedAt,
+        message: "Document revoked. The revocation will be anchored on chain shortly.",
+      } as RevokeResponse),
+      {
+        status: 200,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    console.error("Revoke error:", error);
+    return errorResponse(500, error instanceof Error ? error.message : "Internal server error");
+  }
+});
@@ -0,0 +1,100 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "npm:@supabase/supabase-js@2.57.4";
+import { authenticate, authErrorResponse, issueSession } from "../_shared/auth.ts";
+import { SiweVerifyRequestSchema, validate } from "../_shared/contract.ts";
+import { checkSiweMessage } from "../_shared/siwe.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey, X-API-Key",
+};
+
+interface SiweResponse {
+  success: boolean;
+  access_token?: string;
+  expires_at?: number;
+  address?: string;
+  error?: string;
+}
+
+function errorResponse(status: number, message: string) {
+  return new Response(JSON.stringify({ success: false, error: message } as SiweResponse), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const auth = await authenticate(req, { allow: ["wallet", "anonymous"] });
+
+    if (!auth.ok) {
+      return authErrorResponse(auth, corsHeaders);
+    }
+
+    const body = await req.json().catch(() => undefined);
+
+    if (body === undefined) {
+      return errorResponse(400, "Request body must be JSON");
+    }
+
+    const parsed = validate(SiweVerifyRequestSchema, body);
+
+    if (!parsed.ok) {
+      return errorResponse(400, parsed.error);
+    }
+
+    const payload = parsed.value;
+
+    const check = await checkSiweMessage(payload.message, payload.signature);
+
+    if (!check.ok) {
+      return errorResponse(check.status, check.error);
+    }
+
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL") || "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") || ""
+    );
+
+    const { data: consumed, error } = await supabase
+      .from("auth_nonces")
+      .update({ consumed_at: new Date().toISOString(), address: check.address.toLowerCase() })
+      .eq("nonce", check.nonce)
+      .is("consumed_at", null)
+      .gt("expires_at", new Date().toISOString())
+      .select("nonce");
+
+    if (error) {
+      throw error;
+    }
+
+    if (!consumed || consumed.length === 0) {
+      return errorResponse(401, "Nonce is invalid, expired or already used");
+    }
+
+    const session = await issueSession({ address: check.address, chain_id: check.chainId });
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        ...session,
+      } as SiweResponse),
+      {
+        status: 200,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    console.error("Sign-in error:", error);
+    return errorResponse(500, error instanceof Error ? error.message : "Internal server error");
+  }
+});
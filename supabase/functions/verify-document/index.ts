@@ -1,37 +1,16 @@
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
 import { createClient } from "npm:@supabase/supabase-js@2.57.4";
+import { authenticate, authErrorResponse, principalAddress } from "../_shared/auth.ts";
+import type { ErrorResponse, VerifyResponse, VerifyResult } from "../_shared/contract.ts";
+import { parseLookupRequest, resolveLookup, verifyHash } from "../_shared/verification.ts";
+import { emitEvents, verificationEvent, type WebhookEvent } from "../_shared/webhooks.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
-  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey, X-API-Key",
 };
 
-interface VerifyRequest {
-  file_hash: string;
-  verifier_address?: string;
-}
-
-interface VerifyResponse {
-  success: boolean;
-  status: "verified" | "tampered" | "not_found";
-  document?: {
-    id: string;
-    filename: string;
-    file_size: number;
-    mime_type: string;
-  };
-  blockchain?: {
-    transaction_hash: string;
-    block_number: number;
-    owner_address: string;
-    block_timestamp: number;
-    status: string;
-  };
-  message: string;
-  error?: string;
-}
-
 Deno.serve(async (req: Request) => {
   if (req.method === "OPTIONS") {
     return new Response(null, {
@@ -41,20 +20,27 @@ Deno.serve(async (req: Request) => {
   }
 
   try {
+    const auth = await authenticate(req, { allow: ["wallet", "api_key", "anonymous"], scope: "verify" });
+
+    if (!auth.ok) {
+      return authErrorResponse(auth, corsHeaders);
+    }
+
     const supabase = createClient(
       Deno.env.get("SUPABASE_URL") || "",
       Deno.env.get("SUPABASE_ANON_KEY") || ""
     );
 
-    const payload: VerifyRequest = await req.json();
+    const parsed = parseLookupRequest(await req.json());
+    const verifierAddress = principalAddress(auth.principal);
 
-    if (!payload.file_hash) {
+    if (!parsed.ok) {
       return new Response(
         JSON.stringify({
           success: false,
           status: "not_found",
-          error: "file_hash is required",
-        } as VerifyResponse),
+          error: parsed.error,
+        } as ErrorResponse),
         {
           status: 400,
           headers: { ...corsHeaders, "Content-Type": "application/json" },
@@ -62,29 +48,17 @@ Deno.serve(async (req: Request) => {
       );
     }
 
-    const { data: document } = await supabase
-      .from("documents")
-      .select("id, filename, file_size, mime_type, file_hash, status")
-      .eq("file_hash", payload.file_hash)
-      .maybeSingle();
-
-    if (!document) {
-      const verificationRecord = {
-        verified_hash: payload.file_hash,
-        status: "not_found",
-        verifier_address: payload.verifier_address,
-        details: { message: "Document not found in registry" },
-      };
-
-      if (payload.verifier_address) {
-        await supabase.from("verification_history").insert([verificationRecord]);
-      }
+    const payload = parsed.value;
+    const targets = await resolveLookup(supabase, payload);
 
+    if (targets.length === 0) {
       return new Response(
         JSON.stringify({
           success: true,
           status: "not_found",
-          message: "Document not found in registry",
+          message: payload.transaction_hash
+            ? "No registered documents were anchored in this transaction"
+            : "Document not found in registry",
         } as VerifyResponse),
         {
           status: 200,
@@ -93,72 +67,33 @@ Deno.serve(async (req: Request) => {
       );
     }
 
-    const { data: blockchainRecord } = await supabase
-      .from("blockchain_records")
-      .select(
-        "transaction_hash, block_number, owner_address, block_timestamp, status"
-      )
-      .eq("document_id", document.id)
-      .maybeSingle();
+    // Lookups always run as anon, since the caller's session is not forwarded,
+    // so only public documents are found. Only recording the check and
+    // queueing webhooks use the service role, as neither table is writable or
+    // readable otherwise.
+    const service = createClient(
+      Deno.env.get("SUPABASE_URL") || "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") || ""
+    );
+    const history = verifierAddress ? { supabase: service, verifierAddress } : undefined;
 
-    if (!blockchainRecord) {
-      return new Response(
-        JSON.stringify({
-          success: true,
-          status: "not_found",
-          document: {
-            id: document.id,
-            filename: document.filename,
-            file_size: document.file_size,
-            mime_type: document.mime_type,
-          },
-          message: "Document found but not yet confirmed on blockchain",
-        } as VerifyResponse),
-        {
-          status: 200,
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-        }
-      );
+    const results: VerifyResult[] = [];
+    for (const target of targets) {
+      results.push(await verifyHash(supabase, target, history));
     }
 
-    const hashMatch = document.file_hash === payload.file_hash;
-    const verificationStatus = hashMatch ? "verified" : "tampered";
-
-    if (payload.verifier_address) {
-      await supabase.from("verification_history").insert([
-        {
-          document_id: document.id,
-          verified_hash: payload.file_hash,
-          status: verificationStatus,
-          verifier_address: payload.verifier_address,
-          details: {
-            transaction_hash: blockchainRecord.transaction_hash,
-            block_number: blockchainRecord.block_number,
-          },
-        },
-      ]);
-    }
+    await emitEvents(
+      service,
+      results
+        .map((result) => verificationEvent(result, verifierAddress))
+        .filter((event): event is WebhookEvent => event !== null)
+    );
 
     return new Response(
       JSON.stringify({
         success: true,
-        status: verificationStatus,
-        document: {
-          id: document.id,
-          filename: document.filename,
-          file_size: document.file_size,
-          mime_type: document.mime_type,
-        },
-        blockchain: {
-          transaction_hash: blockchainRecord.transaction_hash,
-          block_number: blockchainRecord.block_number,
-          owner_address: blockchainRecord.owner_address,
-          block_timestamp: blockchainRecord.block_timestamp,
-          status: blockchainRecord.status,
-        },
-        message: hashMatch
-          ? "Document verified successfully"
-          : "WARNING: Document hash does not match. File may have been tampered with.",
+        ...results[0],
+        anchored_documents: payload.transaction_hash ? results : undefined,
       } as VerifyResponse),
       {
         status: 200,
@@ -172,7 +107,7 @@ Deno.serve(async (req: Request) => {
         success: false,
         status: "not_found",
         error: error instanceof Error ? error.message : "Internal server error",
-      } as VerifyResponse),
+      } as ErrorResponse),
       {
         status: 500,
         headers: { ...corsHeaders, "Content-Type": "application/json" },
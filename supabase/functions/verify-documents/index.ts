@@ -0,0 +1,125 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "npm:@supabase/supabase-js@2.57.4";
+import { authenticate, authErrorResponse, principalAddress } from "../_shared/auth.ts";
+import {
+  validate,
+  VerifyRequestSchema,
+  type BatchVerifyItem,
+  type BatchVerifyResponse,
+  type ErrorResponse,
+  type VerifyRequest,
+  type VerifyResult,
+} from "../_shared/contract.ts";
+import { verifyHash } from "../_shared/verification.ts";
+import { emitEvents, verificationEvent, type WebhookEvent } from "../_shared/webhooks.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey, X-API-Key",
+};
+
+const MAX_BATCH_SIZE = Number(Deno.env.get("VERIFY_BATCH_MAX") || 1000);
+
+function errorResponse(status: number, message: string) {
+  return new Response(JSON.stringify({ success: false, error: message } as ErrorResponse), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const auth = await authenticate(req, { allow: ["wallet", "api_key", "anonymous"], scope: "verify" });
+
+    if (!auth.ok) {
+      return authErrorResponse(auth, corsHeaders);
+    }
+
+    // Items are validated one by one below, so one malformed item only fails itself.
+    const payload: { documents?: unknown } = await req.json();
+
+    if (!Array.isArray(payload?.documents) || payload.documents.length === 0) {
+      return errorResponse(400, "documents must be a non-empty array");
+    }
+
+    if (payload.documents.length > MAX_BATCH_SIZE) {
+      return errorResponse(400, `At most ${MAX_BATCH_SIZE} documents can be verified per request`);
+    }
+
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL") || "",
+      Deno.env.get("SUPABASE_ANON_KEY") || ""
+    );
+
+    // Checks are recorded, and webhooks queued, with the service role.
+    const service = createClient(
+      Deno.env.get("SUPABASE_URL") || "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") || ""
+    );
+
+    const verifierAddress = principalAddress(auth.principal);
+    const history = verifierAddress ? { supabase: service, verifierAddress } : undefined;
+    const results: BatchVerifyItem[] = [];
+    const events: WebhookEvent[] = [];
+
+    for (const [index, item] of payload.documents.entries()) {
+      const file_hash = String((item as Partial<VerifyRequest> | null)?.file_hash || "");
+      const parsed = validate(VerifyRequestSchema, item, `documents[${index}]`);
+
+      if (!parsed.ok) {
+        results.push({ index, file_hash, error: parsed.error });
+        continue;
+      }
+
+      try {
+        const result = await verifyHash(supabase, parsed.value, history);
+        results.push({ index, file_hash, ...result });
+
+        const event = verificationEvent(result, verifierAddress);
+        if (event) events.push(event);
+      } catch (error) {
+        console.error(`Batch verification error (item ${index}):`, error);
+        results.push({
+          index,
+          file_hash,
+          error: error instanceof Error ? error.message : "Internal server error",
+        });
+      }
+    }
+
+    await emitEvents(service, events);
+
+    const count = (status: VerifyResult["status"]) =>
+      results.filter((r) => !r.error && r.status === status).length;
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        results,
+        summary: {
+          total: results.length,
+          verified: count("verified"),
+          tampered: count("tampered"),
+          not_found: count("not_found"),
+          revoked: count("revoked"),
+          error: results.filter((r) => r.error).length,
+        },
+      } as BatchVerifyResponse),
+      {
+        status: 200,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    console.error("Batch verification error:", error);
+    return errorResponse(500, error instanceof Error ? error.message : "Internal server error");
+  }
+});
@@ -0,0 +1,190 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "npm:@supabase/supabase-js@2.57.4";
+import { authenticate, authErrorResponse } from "../_shared/auth.ts";
+import { DeliveryQuerySchema, RedeliverRequestSchema, validate } from "../_shared/contract.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey, X-API-Key",
+};
+
+const MAX_LIMIT = 100;
+
+function errorResponse(status: number, message: string) {
+  return new Response(JSON.stringify({ success: false, error: message }), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const auth = await authenticate(req, { allow: ["wallet"] });
+
+    if (!auth.ok) {
+      return authErrorResponse(auth, corsHeaders);
+    }
+
+    const session = auth.principal;
+
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL") || "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") || ""
+    );
+
+    if (req.method === "GET") {
+      const url = new URL(req.url);
+      const filters = validate(DeliveryQuerySchema, {
+        subscription_id: url.searchParams.get("subscription_id") || undefined,
+        status: url.searchParams.get("status") || undefined,
+      });
+      const limit = Math.min(Math.max(parseInt(url.searchParams.get("limit") || "20") || 20, 1), MAX_LIMIT);
+      const offset = Math.max(parseInt(url.searchParams.get("offset") || "0") || 0, 0);
+
+      if (!filters.ok) {
+        return errorResponse(400, filters.error);
+      }
+
+      const { subscription_id: subscriptionId, status } = filters.value;
+
+      // The inner join limits the log to the caller's own subscriptions.
+      let query = supabase
+        .from("webhook_deliveries")
+        .select(
+          `
+          id,
+          subscription_id,
+          event_id,
+          event_type,
+          payload,
+          status,
+          attempts,
+          max_attempts,
+          run_after,
+          response_status,
+          response_body,
+          last_error,
+          redelivery_of,
+          created_at,
+          completed_at,
+          webhook_subscriptions!inner(url, owner_address)
+        `,
+          { count: "exact" }
+        )
+        .eq("webhook_subscriptions.owner_address", session.address)
+        .order("created_at", { ascending: false })
+        .range(offset, offset + limit - 1);
+
+      if (subscriptionId) {
+        query = query.eq("subscription_id", subscriptionId);
+      }
+
+      if (status) {
+        query = query.eq("status", status);
+      }
+
+      const { data, error, count } = await query;
+
+      if (error) {
+        throw error;
+      }
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          deliveries: (data || []).map(({ webhook_subscriptions, ...delivery }) => ({
+            ...delivery,
+            url: (webhook_subscriptions as unknown as { url: string }).url,
+          })),
+          pagination: {
+            limit,
+            offset,
+            total: count || 0,
+            hasMore: offset + limit < (count || 0),
+          },
+        }),
+        {
+          status: 200,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    if (req.method !== "POST") {
+      return errorResponse(405, "Method not allowed");
+    }
+
+    const parsed = validate(RedeliverRequestSchema, await req.json());
+
+    if (!parsed.ok) {
+      return errorResponse(400, parsed.error);
+    }
+
+    const payload = parsed.value;
+
+    const { data: original, error } = await supabase
+      .from("webhook_deliveries")
+      .select(
+        "id, subscription_id, event_id, event_type, payload, webhook_subscriptions!inner(active, owner_address)"
+      )
+      .eq("id", payload.delivery_id)
+      .eq("webhook_subscriptions.owner_address", session.address)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    if (!original) {
+      return errorResponse(404, "Delivery not found");
+    }
+
+    if (!(original.webhook_subscriptions as unknown as { active: boolean }).active) {
+      return errorResponse(409, "The subscription is disabled; enable it before redelivering");
+    }
+
+    // A redelivery is a new delivery of the same event, so the log keeps
+    // every earlier attempt and receivers can deduplicate on the event id.
+    const { data: delivery, error: insertError } = await supabase
+      .from("webhook_deliveries")
+      .insert([
+        {
+          subscription_id: original.subscription_id,
+          event_id: original.event_id,
+          event_type: original.event_type,
+          payload: original.payload,
+          redelivery_of: original.id,
+        },
+      ])
+      .select("id, status, run_after")
+      .single();
+
+    if (insertError) {
+      throw insertError;
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        delivery_id: delivery.id,
+        status: delivery.status,
+        message: "Redelivery queued",
+      }),
+      {
+        status: 202,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    console.error("Webhook deliveries error:", error);
+    return errorResponse(500, error instanceof Error ? error.message : "Internal server error");
+  }
+});
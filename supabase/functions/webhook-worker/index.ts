@@ -0,0 +1,205 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "npm:@supabase/supabase-js@2.57.4";
+import { authenticate, authErrorResponse } from "../_shared/auth.ts";
+import { backoffSeconds } from "../_shared/backoff.ts";
+import { checkWebhookTarget, signWebhook } from "../_shared/webhooks.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey, X-API-Key",
+};
+
+interface WebhookDelivery {
+  id: string;
+  subscription_id: string;
+  event_id: string;
+  event_type: string;
+  payload: Record<string, unknown>;
+  attempts: number;
+  max_attempts: number;
+}
+
+interface WorkerResponse {
+  success: boolean;
+  claimed?: number;
+  succeeded?: number;
+  retried?: number;
+  dead?: number;
+  error?: string;
+}
+
+const BATCH_SIZE = parseInt(Deno.env.get("WEBHOOK_BATCH_SIZE") || "50");
+const TIMEOUT_MS = parseInt(Deno.env.get("WEBHOOK_TIMEOUT_MS") || "10000");
+const BACKOFF_BASE_SECONDS = parseInt(Deno.env.get("WEBHOOK_BACKOFF_BASE_SECONDS") || "30");
+const BACKOFF_MAX_SECONDS = parseInt(Deno.env.get("WEBHOOK_BACKOFF_MAX_SECONDS") || "21600");
+// Only the start of a response is kept in the delivery log.
+const MAX_RESPONSE_BODY = 1000;
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const auth = await authenticate(req, { allow: ["service"] });
+
+    if (!auth.ok) {
+      return authErrorResponse(auth, corsHeaders);
+    }
+
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL") || "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") || ""
+    );
+
+    const workerId = `webhook-worker-${crypto.randomUUID()}`;
+
+    const { data: deliveries, error: claimError } = await supabase.rpc("claim_webhook_deliveries", {
+      p_worker: workerId,
+      p_limit: BATCH_SIZE,
+    });
+
+    if (claimError) {
+      throw claimError;
+    }
+
+    const claimed = (deliveries || []) as WebhookDelivery[];
+    const now = () => new Date().toISOString();
+    let succeeded = 0;
+    let retried = 0;
+    let dead = 0;
+
+    const { data: subscriptions, error: subscriptionError } = claimed.length
+      ? await supabase
+          .from("webhook_subscriptions")
+          .select("id, url, secret, active")
+          .in("id", [...new Set(claimed.map((delivery) => delivery.subscription_id))])
+      : { data: [], error: null };
+
+    if (subscriptionError) {
+      throw subscriptionError;
+    }
+
+    const finish = async (
+      delivery: WebhookDelivery,
+      outcome: {
+        ok: boolean;
+        response_status?: number;
+        response_body?: string;
+        error?: string;
+        // Dead-letters the delivery without using up its attempts.
+        final?: boolean;
+      }
+    ) => {
+      const exhausted = !outcome.ok && (outcome.final || delivery.attempts >= delivery.max_attempts);
+
+      await supabase
+        .from("webhook_deliveries")
+        .update({
+          status: outcome.ok ? "succeeded" : exhausted ? "dead" : "queued",
+          response_status: outcome.response_status ?? null,
+          response_body: outcome.response_body ?? null,
+          last_error: outcome.error ?? null,
+          locked_by: null,
+          locked_at: null,
+          run_after: outcome.ok
+            ? undefined
+            : new Date(Date.now() + backoffSeconds(delivery.attempts, BACKOFF_BASE_SECONDS, BACKOFF_MAX_SECONDS) * 1000).toISOString(),
+          completed_at: outcome.ok || exhausted ? now() : null,
+          updated_at: now(),
+        })
+        .eq("id", delivery.id);
+
+      if (outcome.ok) {
+        succeeded++;
+      } else if (exhausted) {
+        dead++;
+      } else {
+        retried++;
+      }
+    };
+
+    // Deliveries go out concurrently so one slow endpoint does not hold up
+    // the rest of the batch beyond its own timeout.
+    await Promise.all(
+      claimed.map(async (delivery) => {
+        const subscription = (subscriptions || []).find((s) => s.id === delivery.subscription_id);
+
+        if (!subscription?.active) {
+          await finish(delivery, { ok: false, error: "Subscription is disabled", final: true });
+          return;
+        }
+
+        const body = JSON.stringify(delivery.payload);
+        const timestamp = Math.floor(Date.now() / 1000);
+
+        try {
+          const refused = await checkWebhookTarget(subscription.url);
+
+          if (refused) {
+            await finish(delivery, { ok: false, error: `Endpoint refused: ${refused}`, final: true });
+            return;
+          }
+
+          const response = await fetch(subscription.url, {
+            method: "POST",
+            headers: {
+              "Content-Type": "application/json",
+              "X-Webhook-Id": delivery.event_id,
+              "X-Webhook-Event": delivery.event_type,
+              "X-Webhook-Timestamp": String(timestamp),
+              "X-Webhook-Signature": `sha256=${await signWebhook(subscription.secret, timestamp, body)}`,
+            },
+            body,
+            redirect: "manual",
+            signal: AbortSignal.timeout(TIMEOUT_MS),
+          });
+          const responseBody = (await response.text().catch(() => "")).slice(0, MAX_RESPONSE_BODY);
+
+          await finish(delivery, {
+            ok: response.ok,
+            response_status: response.status,
+            response_body: responseBody,
+            error: response.ok ? undefined : `Endpoint answered ${response.status}`,
+          });
+        } catch (error) {
+          console.error(`Webhook delivery ${delivery.id} attempt ${delivery.attempts} failed:`, error);
+          await finish(delivery, {
+            ok: false,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+      })
+    );
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        claimed: claimed.length,
+        succeeded,
+        retried,
+        dead,
+      } as WorkerResponse),
+      {
+        status: 200,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    console.error("Webhook worker error:", error);
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : "Internal server error",
+      } as WorkerResponse),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+});
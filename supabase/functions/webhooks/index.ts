@@ -0,0 +1,221 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "npm:@supabase/supabase-js@2.57.4";
+import { authenticate, authErrorResponse } from "../_shared/auth.ts";
+import { WEBHOOK_EVENTS } from "../_shared/contract.ts";
+import { checkWebhookUrl, createWebhookSecret, internalWebhookHosts, isWebhookEvent } from "../_shared/webhooks.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey, X-API-Key",
+};
+
+interface SubscriptionRequest {
+  subscription_id?: string;
+  url?: string;
+  events?: string[];
+  description?: string;
+  active?: boolean;
+  rotate_secret?: boolean;
+}
+
+const MAX_SUBSCRIPTIONS = 20;
+const MAX_URL_LENGTH = 2000;
+const MAX_DESCRIPTION_LENGTH = 200;
+
+// The secret is only returned when it is created or rotated.
+const PUBLIC_COLUMNS = "id, url, events, description, active, created_at, updated_at";
+
+function errorResponse(status: number, message: string) {
+  return new Response(JSON.stringify({ success: false, error: message }), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+function jsonResponse(status: number, body: Record<string, unknown>) {
+  return new Response(JSON.stringify({ success: true, ...body }), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+// Returns an error message for the first invalid field that is present.
+function validateSubscription(payload: SubscriptionRequest): string | null {
+  if (payload.url !== undefined) {
+    const refused = checkWebhookUrl(payload.url, internalWebhookHosts());
+    if (refused) {
+      return refused;
+    }
+    if (payload.url.length > MAX_URL_LENGTH) {
+      return `url must be at most ${MAX_URL_LENGTH} characters`;
+    }
+  }
+
+  if (payload.events !== undefined) {
+    if (!Array.isArray(payload.events) || !payload.events.every(isWebhookEvent)) {
+      return `events must be a list of: ${WEBHOOK_EVENTS.join(", ")}`;
+    }
+  }
+
+  if (
+    payload.description !== undefined &&
+    (typeof payload.description !== "string" || payload.description.length > MAX_DESCRIPTION_LENGTH)
+  ) {
+    return `description must be text of at most ${MAX_DESCRIPTION_LENGTH} characters`;
+  }
+
+  if (payload.active !== undefined && typeof payload.active !== "boolean") {
+    return "active must be a boolean";
+  }
+
+  return null;
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const auth = await authenticate(req, { allow: ["wallet"] });
+
+    if (!auth.ok) {
+      return authErrorResponse(auth, corsHeaders);
+    }
+
+    const session = auth.principal;
+
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL") || "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") || ""
+    );
+
+    if (req.method === "GET") {
+      const { data, error } = await supabase
+        .from("webhook_subscriptions")
+        .select(PUBLIC_COLUMNS)
+        .eq("owner_address", session.address)
+        .order("created_at", { ascending: false });
+
+      if (error) {
+        throw error;
+      }
+
+      return jsonResponse(200, { subscriptions: data || [], events: WEBHOOK_EVENTS });
+    }
+
+    if (req.method === "DELETE") {
+      const subscriptionId = new URL(req.url).searchParams.get("subscription_id");
+
+      if (!subscriptionId) {
+        return errorResponse(400, "Missing required parameter: subscription_id");
+      }
+
+      const { data, error } = await supabase
+        .from("webhook_subscriptions")
+        .delete()
+        .eq("id", subscriptionId)
+        .eq("owner_address", session.address)
+        .select("id");
+
+      if (error) {
+        throw error;
+      }
+
+      if (!data || data.length === 0) {
+        return errorResponse(404, "Subscription not found");
+      }
+
+      return jsonResponse(200, { subscription_id: subscriptionId });
+    }
+
+    if (req.method !== "POST" && req.method !== "PUT") {
+      return errorResponse(405, "Method not allowed");
+    }
+
+    const payload: SubscriptionRequest = await req.json();
+    const invalid = validateSubscription(payload);
+
+    if (invalid) {
+      return errorResponse(400, invalid);
+    }
+
+    if (req.method === "POST") {
+      if (!payload.url) {
+        return errorResponse(400, "Missing required field: url");
+      }
+
+      const { count, error: countError } = await supabase
+        .from("webhook_subscriptions")
+        .select("id", { count: "exact", head: true })
+        .eq("owner_address", session.address);
+
+      if (countError) {
+        throw countError;
+      }
+
+      if ((count || 0) >= MAX_SUBSCRIPTIONS) {
+        return errorResponse(409, `At most ${MAX_SUBSCRIPTIONS} webhook subscriptions are allowed per owner`);
+      }
+
+      const secret = createWebhookSecret();
+      const { data, error } = await supabase
+        .from("webhook_subscriptions")
+        .insert([
+          {
+            owner_address: session.address,
+            url: payload.url,
+            secret,
+            events: [...new Set(payload.events || [])],
+            description: payload.description?.trim() || null,
+            active: payload.active ?? true,
+          },
+        ])
+        .select(PUBLIC_COLUMNS)
+        .single();
+
+      if (error) {
+        throw error;
+      }
+
+      return jsonResponse(201, { subscription: { ...data, secret } });
+    }
+
+    if (!payload.subscription_id) {
+      return errorResponse(400, "Missing required field: subscription_id");
+    }
+
+    const secret = payload.rotate_secret ? createWebhookSecret() : undefined;
+    const { data, error } = await supabase
+      .from("webhook_subscriptions")
+      .update({
+        url: payload.url,
+        events: payload.events ? [...new Set(payload.events)] : undefined,
+        description: payload.description !== undefined ? payload.description.trim() || null : undefined,
+        active: payload.active,
+        secret,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", payload.subscription_id)
+      .eq("owner_address", session.address)
+      .select(PUBLIC_COLUMNS)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    if (!data) {
+      return errorResponse(404, "Subscription not found");
+    }
+
+    return jsonResponse(200, { subscription: secret ? { ...data, secret } : data });
+  } catch (error) {
+    console.error("Webhooks error:", error);
+    return errorResponse(500, error instanceof Error ? error.message : "Internal server error");
+  }
+});
@@ -0,0 +1,104 @@
+/*
+  # Durable anchoring job queue
+
+  1. New Tables
+    - `anchor_jobs` - One row per anchoring attempt chain for a document
+      - `id` (uuid, primary key)
+      - `document_id` (uuid, foreign key)
+      - `status` (text: queued/running/succeeded/dead)
+      - `attempts` (integer, attempts started so far)
+      - `max_attempts` (integer, attempts before the job is dead-lettered)
+      - `run_after` (timestamp, earliest time the job may be claimed)
+      - `locked_by` (text, worker id holding the job)
+      - `locked_at` (timestamp)
+      - `last_error` (text, failure reason of the latest attempt)
+      - `created_at` (timestamp)
+      - `updated_at` (timestamp)
+      - `completed_at` (timestamp)
+
+  2. Functions
+    - `claim_anchor_jobs` - Locks due jobs for a worker, reclaiming jobs whose lock expired
+    - `reconcile_pending_anchors` - Re-enqueues pending documents without an active job
+
+  3. Security
+    - RLS enabled with no policies; only the service role touches the queue
+*/
+
+CREATE TABLE IF NOT EXISTS anchor_jobs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  document_id uuid NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  status text NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'succeeded', 'dead')),
+  attempts integer NOT NULL DEFAULT 0,
+  max_attempts integer NOT NULL DEFAULT 8,
+  run_after timestamptz NOT NULL DEFAULT now(),
+  locked_by text,
+  locked_at timestamptz,
+  last_error text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  completed_at timestamptz
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_anchor_jobs_active_document
+  ON anchor_jobs(document_id) WHERE status IN ('queued', 'running');
+CREATE INDEX IF NOT EXISTS idx_anchor_jobs_due ON anchor_jobs(run_after) WHERE status = 'queued';
+CREATE INDEX IF NOT EXISTS idx_anchor_jobs_status ON anchor_jobs(status);
+
+ALTER TABLE anchor_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION claim_anchor_jobs(
+  p_worker text,
+  p_limit integer DEFAULT 10,
+  p_lock_timeout interval DEFAULT interval '5 minutes'
+)
+RETURNS SETOF anchor_jobs
+LANGUAGE sql
+AS $$
+  UPDATE anchor_jobs
+  SET status = 'running',
+      attempts = attempts + 1,
+      locked_by = p_worker,
+      locked_at = now(),
+      updated_at = now()
+  WHERE id IN (
+    SELECT id FROM anchor_jobs
+    WHERE (status = 'queued' AND run_after <= now())
+       OR (status = 'running' AND locked_at < now() - p_lock_timeout)
+    ORDER BY run_after
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+$$;
+
+CREATE OR REPLACE FUNCTION reconcile_pending_anchors(
+  p_stale_after interval DEFAULT interval '2 minutes'
+)
+RETURNS integer
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  enqueued integer;
+BEGIN
+  UPDATE documents d
+  SET status = 'confirmed', updated_at = now()
+  FROM blockchain_records br
+  WHERE br.document_id = d.id
+    AND br.status = 'confirmed'
+    AND d.status = 'pending';
+
+  INSERT INTO anchor_jobs (document_id)
+  SELECT d.id
+  FROM documents d
+  WHERE d.status = 'pending'
+    AND d.created_at < now() - p_stale_after
+    AND NOT EXISTS (
+      SELECT 1 FROM anchor_jobs j
+      WHERE j.document_id = d.id AND j.status IN ('queued', 'running', 'dead')
+    )
+  ON CONFLICT DO NOTHING;
+
+  GET DIAGNOSTICS enqueued = ROW_COUNT;
+  RETURN enqueued;
+END;
+$$;
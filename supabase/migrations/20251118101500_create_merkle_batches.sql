@@ -0,0 +1,78 @@
+/*
+  # Merkle-batched anchoring
+
+  1. New Tables
+    - `anchor_batches` - One anchored Merkle root covering many documents
+      - `id` (uuid, primary key)
+      - `merkle_root` (text, sha256 hex)
+      - `merkle_algorithm` (text, tree construction identifier)
+      - `leaf_count` (integer)
+      - `transaction_hash` (text)
+      - `block_number` (integer)
+      - `block_timestamp` (integer, unix)
+      - `status` (text: pending/confirmed/failed)
+      - `created_at` (timestamp)
+      - `anchored_at` (timestamp)
+
+    - `merkle_proofs` - Inclusion proof of a document in its batch
+      - `id` (uuid, primary key)
+      - `document_id` (uuid, foreign key, unique)
+      - `batch_id` (uuid, foreign key)
+      - `leaf_index` (integer)
+      - `leaf_hash` (text, sha256 hex)
+      - `sibling_path` (jsonb, array of { position, hash } from leaf to root)
+      - `created_at` (timestamp)
+
+  2. Changes
+    - `blockchain_records.batch_id` links a record to the batch that anchored it
+    - `blockchain_records.transaction_hash` is no longer unique, since every
+      document in a batch shares the batch transaction
+
+  3. Security
+    - Public read on batches and proofs so anyone can check inclusion
+*/
+
+CREATE TABLE IF NOT EXISTS anchor_batches (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  merkle_root text NOT NULL,
+  merkle_algorithm text NOT NULL DEFAULT 'sha256-rfc6962',
+  leaf_count integer NOT NULL,
+  transaction_hash text,
+  block_number integer,
+  block_timestamp integer,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'confirmed', 'failed')),
+  created_at timestamptz DEFAULT now(),
+  anchored_at timestamptz
+);
+
+CREATE TABLE IF NOT EXISTS merkle_proofs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  document_id uuid UNIQUE NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  batch_id uuid NOT NULL REFERENCES anchor_batches(id) ON DELETE CASCADE,
+  leaf_index integer NOT NULL,
+  leaf_hash text NOT NULL,
+  sibling_path jsonb NOT NULL DEFAULT '[]'::jsonb,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE blockchain_records
+  ADD COLUMN IF NOT EXISTS batch_id uuid REFERENCES anchor_batches(id) ON DELETE SET NULL;
+
+ALTER TABLE blockchain_records
+  DROP CONSTRAINT IF EXISTS blockchain_records_transaction_hash_key;
+
+CREATE INDEX IF NOT EXISTS idx_anchor_batches_merkle_root ON anchor_batches(merkle_root);
+CREATE INDEX IF NOT EXISTS idx_anchor_batches_transaction_hash ON anchor_batches(transaction_hash);
+CREATE INDEX IF NOT EXISTS idx_merkle_proofs_batch_id ON merkle_proofs(batch_id);
+CREATE INDEX IF NOT EXISTS idx_blockchain_records_batch_id ON blockchain_records(batch_id);
+
+ALTER TABLE anchor_batches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE merkle_proofs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read anchor batches"
+  ON anchor_batches FOR SELECT
+  USING (true);
+
+CREATE POLICY "Anyone can read merkle proofs"
+  ON merkle_proofs FOR SELECT
+  USING (true);
@@ -0,0 +1,50 @@
+/*
+  # Wallet authentication (Sign-In With Ethereum)
+
+  1. New Tables
+    - `auth_nonces` - Single-use nonces handed out for EIP-4361 messages
+      - `nonce` (text, primary key)
+      - `created_at` (timestamp)
+      - `expires_at` (timestamp)
+      - `consumed_at` (timestamp, set when a sign-in uses the nonce)
+      - `address` (text, eth address that consumed the nonce)
+
+  2. Security
+    - RLS enabled with no policies; nonces are only touched by the auth functions
+    - Sessions issued after sign-in carry the signer in the `wallet_address`
+      JWT claim. Ownership policies compare that claim with the stored address
+      instead of `auth.uid()`, which never equalled an eth address.
+*/
+
+CREATE TABLE IF NOT EXISTS auth_nonces (
+  nonce text PRIMARY KEY,
+  created_at timestamptz DEFAULT now(),
+  expires_at timestamptz NOT NULL,
+  consumed_at timestamptz,
+  address text
+);
+
+CREATE INDEX IF NOT EXISTS idx_auth_nonces_expires_at ON auth_nonces(expires_at);
+
+ALTER TABLE auth_nonces ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can read their own documents" ON documents;
+
+CREATE POLICY "Users can read their own documents"
+  ON documents FOR SELECT
+  TO authenticated
+  USING (lower(auth.jwt() ->> 'wallet_address') = lower(uploader_address) OR status = 'confirmed');
+
+DROP POLICY IF EXISTS "Authenticated users can create documents" ON documents;
+
+CREATE POLICY "Wallet users can create their own documents"
+  ON documents FOR INSERT
+  TO authenticated
+  WITH CHECK (lower(auth.jwt() ->> 'wallet_address') = lower(uploader_address));
+
+DROP POLICY IF EXISTS "Authenticated users can create blockchain records" ON blockchain_records;
+
+CREATE POLICY "Wallet users can create their own blockchain records"
+  ON blockchain_records FOR INSERT
+  TO authenticated
+  WITH CHECK (lower(auth.jwt() ->> 'wallet_address') = lower(owner_address));
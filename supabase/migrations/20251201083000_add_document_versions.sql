@@ -0,0 +1,43 @@
+/*
+  # Document version chains
+
+  1. Changes
+    - `documents.parent_id` (uuid, the version this one revises)
+    - `documents.lineage_id` (uuid, id of the first version; equals `id` for originals)
+    - `documents.version` (integer, 1 for originals, parent version + 1 otherwise)
+
+  2. Constraints
+    - One document per (`lineage_id`, `version`), so two concurrent revisions of
+      the same version cannot both be registered
+
+  3. Indexes
+    - Index on lineage_id for timeline lookups
+*/
+
+ALTER TABLE documents
+  ADD COLUMN IF NOT EXISTS parent_id uuid REFERENCES documents(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS lineage_id uuid,
+  ADD COLUMN IF NOT EXISTS version integer NOT NULL DEFAULT 1;
+
+UPDATE documents SET lineage_id = id WHERE lineage_id IS NULL;
+
+CREATE OR REPLACE FUNCTION set_document_lineage()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.lineage_id := COALESCE(NEW.lineage_id, NEW.id);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS documents_set_lineage ON documents;
+
+CREATE TRIGGER documents_set_lineage
+  BEFORE INSERT ON documents
+  FOR EACH ROW EXECUTE FUNCTION set_document_lineage();
+
+ALTER TABLE documents ALTER COLUMN lineage_id SET NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_documents_lineage_version ON documents(lineage_id, version);
+CREATE INDEX IF NOT EXISTS idx_documents_parent_id ON documents(parent_id);
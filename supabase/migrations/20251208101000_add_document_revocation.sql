@@ -0,0 +1,108 @@
+/*
+  # Document revocation
+
+  1. Changes
+    - `documents.status` also allows `revoked`
+    - `documents.revoked_at` (timestamp)
+    - `documents.revocation_reason` (text)
+    - `documents.revoked_by` (text, eth address of the owner who revoked)
+    - `blockchain_records.revocation_transaction_hash` (text)
+    - `blockchain_records.revocation_block_number` (integer)
+    - `blockchain_records.revocation_block_timestamp` (integer, unix)
+    - `verification_history.status` also allows `revoked`
+    - `anchor_jobs.kind` (text: register/revoke) so revocations are anchored
+      through the same durable queue
+    - `reconcile_pending_anchors` also re-enqueues revocations that were never anchored
+
+  2. Security
+    - Revoked documents stay publicly readable so verifiers see the revocation
+*/
+
+ALTER TABLE documents DROP CONSTRAINT IF EXISTS documents_status_check;
+ALTER TABLE documents
+  ADD CONSTRAINT documents_status_check CHECK (status IN ('pending', 'confirmed', 'not_found', 'revoked'));
+
+ALTER TABLE documents
+  ADD COLUMN IF NOT EXISTS revoked_at timestamptz,
+  ADD COLUMN IF NOT EXISTS revocation_reason text,
+  ADD COLUMN IF NOT EXISTS revoked_by text;
+
+ALTER TABLE blockchain_records
+  ADD COLUMN IF NOT EXISTS revocation_transaction_hash text,
+  ADD COLUMN IF NOT EXISTS revocation_block_number integer,
+  ADD COLUMN IF NOT EXISTS revocation_block_timestamp integer;
+
+ALTER TABLE verification_history DROP CONSTRAINT IF EXISTS verification_history_status_check;
+ALTER TABLE verification_history
+  ADD CONSTRAINT verification_history_status_check CHECK (status IN ('verified', 'tampered', 'not_found', 'revoked'));
+
+ALTER TABLE anchor_jobs
+  ADD COLUMN IF NOT EXISTS kind text NOT NULL DEFAULT 'register' CHECK (kind IN ('register', 'revoke'));
+
+DROP INDEX IF EXISTS idx_anchor_jobs_active_document;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_anchor_jobs_active_document
+  ON anchor_jobs(document_id, kind) WHERE status IN ('queued', 'running');
+
+DROP POLICY IF EXISTS "Anyone can read confirmed documents" ON documents;
+
+CREATE POLICY "Anyone can read confirmed or revoked documents"
+  ON documents FOR SELECT
+  USING (status IN ('confirmed', 'revoked'));
+
+DROP POLICY IF EXISTS "Users can read their own documents" ON documents;
+
+CREATE POLICY "Users can read their own documents"
+  ON documents FOR SELECT
+  TO authenticated
+  USING (
+    lower(auth.jwt() ->> 'wallet_address') = lower(uploader_address)
+    OR status IN ('confirmed', 'revoked')
+  );
+
+CREATE OR REPLACE FUNCTION reconcile_pending_anchors(
+  p_stale_after interval DEFAULT interval '2 minutes'
+)
+RETURNS integer
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  enqueued integer;
+  revocations integer;
+BEGIN
+  UPDATE documents d
+  SET status = 'confirmed', updated_at = now()
+  FROM blockchain_records br
+  WHERE br.document_id = d.id
+    AND br.status = 'confirmed'
+    AND d.status = 'pending';
+
+  INSERT INTO anchor_jobs (document_id, kind)
+  SELECT d.id, 'register'
+  FROM documents d
+  WHERE d.status = 'pending'
+    AND d.created_at < now() - p_stale_after
+    AND NOT EXISTS (
+      SELECT 1 FROM anchor_jobs j
+      WHERE j.document_id = d.id AND j.kind = 'register' AND j.status IN ('queued', 'running', 'dead')
+    )
+  ON CONFLICT DO NOTHING;
+
+  GET DIAGNOSTICS enqueued = ROW_COUNT;
+
+  INSERT INTO anchor_jobs (document_id, kind)
+  SELECT d.id, 'revoke'
+  FROM documents d
+  JOIN blockchain_records br ON br.document_id = d.id
+  WHERE d.status = 'revoked'
+    AND br.revocation_transaction_hash IS NULL
+    AND d.revoked_at < now() - p_stale_after
+    AND NOT EXISTS (
+      SELECT 1 FROM anchor_jobs j
+      WHERE j.document_id = d.id AND j.kind = 'revoke' AND j.status IN ('queued', 'running', 'dead')
+    )
+  ON CONFLICT DO NOTHING;
+
+  GET DIAGNOSTICS revocations = ROW_COUNT;
+  RETURN enqueued + revocations;
+END;
+$$;
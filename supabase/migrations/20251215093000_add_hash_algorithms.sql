@@ -0,0 +1,58 @@
+/*
+  # Multiple hash algorithms per document
+
+  1. New Tables
+    - `document_digests` - Every digest registered for a document
+      - `id` (uuid, primary key)
+      - `document_id` (uuid, foreign key)
+      - `algorithm` (text: sha256/sha512/sha3-256/keccak256/blake3)
+      - `digest` (text, lowercase hex)
+      - `created_at` (timestamp)
+
+  2. Changes
+    - `documents.hash_algorithm` names the algorithm of `documents.file_hash`,
+      which stays the primary digest that is anchored and Merkle-batched
+    - `documents.file_hash` is unique per algorithm instead of globally
+    - `verification_history.hash_algorithm` records which digest was checked
+    - Existing documents are backfilled as SHA-256
+
+  3. Security
+    - Public read on digests, like blockchain records
+
+  4. Indexes
+    - Unique (algorithm, digest) for lookups and duplicate detection
+*/
+
+CREATE TABLE IF NOT EXISTS document_digests (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  document_id uuid NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  algorithm text NOT NULL CHECK (algorithm IN ('sha256', 'sha512', 'sha3-256', 'keccak256', 'blake3')),
+  digest text NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (algorithm, digest),
+  UNIQUE (document_id, algorithm)
+);
+
+ALTER TABLE documents
+  ADD COLUMN IF NOT EXISTS hash_algorithm text NOT NULL DEFAULT 'sha256'
+  CHECK (hash_algorithm IN ('sha256', 'sha512', 'sha3-256', 'keccak256', 'blake3'));
+
+ALTER TABLE documents DROP CONSTRAINT IF EXISTS documents_file_hash_key;
+ALTER TABLE documents
+  ADD CONSTRAINT documents_hash_algorithm_file_hash_key UNIQUE (hash_algorithm, file_hash);
+
+ALTER TABLE verification_history
+  ADD COLUMN IF NOT EXISTS hash_algorithm text NOT NULL DEFAULT 'sha256';
+
+INSERT INTO document_digests (document_id, algorithm, digest)
+SELECT id, hash_algorithm, lower(file_hash)
+FROM documents
+ON CONFLICT DO NOTHING;
+
+CREATE INDEX IF NOT EXISTS idx_document_digests_document_id ON document_digests(document_id);
+
+ALTER TABLE document_digests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read document digests"
+  ON document_digests FOR SELECT
+  USING (true);
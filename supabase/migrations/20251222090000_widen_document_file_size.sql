@@ -0,0 +1,10 @@
+/*
+  # Allow documents larger than 2 GB
+
+  1. Changes
+    - `documents.file_size` becomes bigint; the integer column overflowed at
+      2147483647 bytes now that files are hashed in a streaming worker and the
+      size limit is configured per deployment (`MAX_FILE_SIZE`)
+*/
+
+ALTER TABLE documents ALTER COLUMN file_size TYPE bigint;
@@ -0,0 +1,11 @@
+/*
+  # Index verification history for the document detail timeline
+
+  1. Changes
+    - Composite index on `verification_history(document_id, verification_timestamp DESC)`
+      so `get-document` can page one document's checks newest first without
+      sorting the whole history
+*/
+
+CREATE INDEX IF NOT EXISTS idx_verification_history_document_timestamp
+  ON verification_history(document_id, verification_timestamp DESC);
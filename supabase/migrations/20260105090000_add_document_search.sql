@@ -0,0 +1,28 @@
+/*
+  # Server-side registry search
+
+  1. Changes
+    - `documents.filename_search` (tsvector, generated) indexes the filename for
+      full-text search; dots, dashes and underscores split words so
+      `annual-report_2024.pdf` matches `report`
+    - `documents.uploader_address` is normalized to lowercase so the owner
+      filter is a plain equality
+
+  2. Indexes
+    - GIN on `filename_search` and on `tags` (array containment)
+    - `file_hash text_pattern_ops` for hash prefix search
+    - `uploader_address`, `mime_type` and `filename` for filters and sorting
+*/
+
+ALTER TABLE documents
+  ADD COLUMN IF NOT EXISTS filename_search tsvector
+  GENERATED ALWAYS AS (to_tsvector('simple'::regconfig, regexp_replace(filename, '[._-]+', ' ', 'g'))) STORED;
+
+UPDATE documents SET uploader_address = lower(uploader_address) WHERE uploader_address <> lower(uploader_address);
+
+CREATE INDEX IF NOT EXISTS idx_documents_filename_search ON documents USING gin(filename_search);
+CREATE INDEX IF NOT EXISTS idx_documents_tags ON documents USING gin(tags);
+CREATE INDEX IF NOT EXISTS idx_documents_file_hash_prefix ON documents(file_hash text_pattern_ops);
+CREATE INDEX IF NOT EXISTS idx_documents_uploader_address ON documents(uploader_address);
+CREATE INDEX IF NOT EXISTS idx_documents_mime_type ON documents(mime_type);
+CREATE INDEX IF NOT EXISTS idx_documents_filename ON documents(filename);
@@ -0,0 +1,19 @@
+/*
+  # Keyset pagination for the registry
+
+  1. Changes
+    - `get-documents` pages with a cursor on (sort column, id) instead of
+      offsets and no longer counts matching rows
+
+  2. Indexes
+    - Composite (sort column, id) indexes for each sortable column, replacing
+      the single-column created_at and filename indexes
+*/
+
+DROP INDEX IF EXISTS idx_documents_created_at;
+DROP INDEX IF EXISTS idx_documents_filename;
+
+CREATE INDEX IF NOT EXISTS idx_documents_created_at_id ON documents(created_at, id);
+CREATE INDEX IF NOT EXISTS idx_documents_filename_id ON documents(filename, id);
+CREATE INDEX IF NOT EXISTS idx_documents_file_size_id ON documents(file_size, id);
+CREATE INDEX IF NOT EXISTS idx_documents_status_id ON documents(status, id);
@@ -0,0 +1,26 @@
+/*
+  # Realtime updates for registry status
+
+  1. Changes
+    - `documents` and `blockchain_records` join the `supabase_realtime`
+      publication so the app follows anchoring and revocation live instead of
+      polling. Row level security still applies: subscribers only receive rows
+      they could select (confirmed or revoked documents, all chain records).
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'documents'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE documents;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'blockchain_records'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE blockchain_records;
+  END IF;
+END $$;
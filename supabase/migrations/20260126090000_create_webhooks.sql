@@ -0,0 +1,108 @@
+/*
+  # Outbound webhooks
+
+  1. New Tables
+    - `webhook_subscriptions` - Endpoints an owner wants registry events posted to
+      - `id` (uuid, primary key)
+      - `owner_address` (text, lowercased wallet address of the owner)
+      - `url` (text, endpoint receiving the events)
+      - `secret` (text, HMAC key the payloads are signed with)
+      - `events` (text[], event types to send; empty means every event)
+      - `description` (text)
+      - `active` (boolean, disabled subscriptions get no new deliveries)
+      - `created_at` (timestamp)
+      - `updated_at` (timestamp)
+    - `webhook_deliveries` - One row per event and subscription; doubles as the delivery log
+      - `id` (uuid, primary key)
+      - `subscription_id` (uuid, foreign key)
+      - `event_id` (uuid, shared by every delivery of the same event)
+      - `event_type` (text)
+      - `payload` (jsonb, the exact body that is signed and posted)
+      - `status` (text: queued/running/succeeded/dead)
+      - `attempts` (integer, attempts started so far)
+      - `max_attempts` (integer, attempts before the delivery is dead-lettered)
+      - `run_after` (timestamp, earliest time the delivery may be claimed)
+      - `locked_by` (text, worker id holding the delivery)
+      - `locked_at` (timestamp)
+      - `response_status` (integer, HTTP status of the latest attempt)
+      - `response_body` (text, start of the latest response body)
+      - `last_error` (text, failure reason of the latest attempt)
+      - `redelivery_of` (uuid, the delivery this one manually repeats)
+      - `created_at` (timestamp)
+      - `updated_at` (timestamp)
+      - `completed_at` (timestamp)
+
+  2. Functions
+    - `claim_webhook_deliveries` - Locks due deliveries for a worker, reclaiming deliveries whose lock expired
+
+  3. Security
+    - RLS enabled with no policies; subscriptions hold signing secrets, so they
+      are only read through the webhook functions with the service role
+*/
+
+CREATE TABLE IF NOT EXISTS webhook_subscriptions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_address text NOT NULL,
+  url text NOT NULL,
+  secret text NOT NULL,
+  events text[] NOT NULL DEFAULT '{}',
+  description text,
+  active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_subscriptions_owner ON webhook_subscriptions(owner_address);
+
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  subscription_id uuid NOT NULL REFERENCES webhook_subscriptions(id) ON DELETE CASCADE,
+  event_id uuid NOT NULL,
+  event_type text NOT NULL,
+  payload jsonb NOT NULL,
+  status text NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'succeeded', 'dead')),
+  attempts integer NOT NULL DEFAULT 0,
+  max_attempts integer NOT NULL DEFAULT 8,
+  run_after timestamptz NOT NULL DEFAULT now(),
+  locked_by text,
+  locked_at timestamptz,
+  response_status integer,
+  response_body text,
+  last_error text,
+  redelivery_of uuid REFERENCES webhook_deliveries(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  completed_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_subscription
+  ON webhook_deliveries(subscription_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON webhook_deliveries(run_after) WHERE status = 'queued';
+
+ALTER TABLE webhook_subscriptions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION claim_webhook_deliveries(
+  p_worker text,
+  p_limit integer DEFAULT 50,
+  p_lock_timeout interval DEFAULT interval '5 minutes'
+)
+RETURNS SETOF webhook_deliveries
+LANGUAGE sql
+AS $$
+  UPDATE webhook_deliveries
+  SET status = 'running',
+      attempts = attempts + 1,
+      locked_by = p_worker,
+      locked_at = now(),
+      updated_at = now()
+  WHERE id IN (
+    SELECT id FROM webhook_deliveries
+    WHERE (status = 'queued' AND run_after <= now())
+       OR (status = 'running' AND locked_at < now() - p_lock_timeout)
+    ORDER BY run_after
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+$$;
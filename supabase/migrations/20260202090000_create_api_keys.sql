@@ -0,0 +1,98 @@
+/*
+  # API keys
+
+  1. New Tables
+    - `api_keys` - Keys integration partners call the edge functions with
+      - `id` (uuid, primary key)
+      - `owner_address` (text, lowercased wallet address that created the key and acts through it)
+      - `name` (text)
+      - `key_prefix` (text, first characters of the key, to tell keys apart)
+      - `key_hash` (text, unique, SHA-256 hex of the key; the key itself is never stored)
+      - `scopes` (text[]: register/verify/export/read)
+      - `rate_limit_per_minute` (integer)
+      - `request_count` (bigint, requests made with the key so far)
+      - `last_used_at` (timestamp)
+      - `revoked_at` (timestamp, revoked keys are rejected on their next request)
+      - `created_at` (timestamp)
+    - `api_key_usage` - Requests per key and minute, for rate limiting and usage reports
+      - `key_id` (uuid, foreign key)
+      - `window_start` (timestamp, start of the minute)
+      - `request_count` (integer)
+
+  2. Functions
+    - `use_api_key` - Looks up an active key by hash and counts the request
+      against its current window, returning the count so far
+
+  3. Security
+    - RLS enabled with no policies; keys are only read through the functions
+      with the service role
+*/
+
+CREATE TABLE IF NOT EXISTS api_keys (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_address text NOT NULL,
+  name text NOT NULL,
+  key_prefix text NOT NULL,
+  key_hash text NOT NULL UNIQUE,
+  scopes text[] NOT NULL CHECK (scopes <@ ARRAY['register', 'verify', 'export', 'read']),
+  rate_limit_per_minute integer NOT NULL DEFAULT 60 CHECK (rate_limit_per_minute > 0),
+  request_count bigint NOT NULL DEFAULT 0,
+  last_used_at timestamptz,
+  revoked_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_keys_owner ON api_keys(owner_address);
+
+CREATE TABLE IF NOT EXISTS api_key_usage (
+  key_id uuid NOT NULL REFERENCES api_keys(id) ON DELETE CASCADE,
+  window_start timestamptz NOT NULL,
+  request_count integer NOT NULL DEFAULT 0,
+  PRIMARY KEY (key_id, window_start)
+);
+
+ALTER TABLE api_keys ENABLE ROW LEVEL SECURITY;
+ALTER TABLE api_key_usage ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION use_api_key(
+  p_key_hash text,
+  p_retention interval DEFAULT interval '7 days'
+)
+RETURNS TABLE (
+  key_id uuid,
+  owner_address text,
+  scopes text[],
+  rate_limit integer,
+  window_requests integer,
+  window_reset timestamptz
+)
+LANGUAGE plpgsql
+AS $$
+#variable_conflict use_column
+DECLARE
+  k api_keys%ROWTYPE;
+  w timestamptz := date_trunc('minute', now());
+  used integer;
+BEGIN
+  SELECT * INTO k FROM api_keys WHERE key_hash = p_key_hash AND revoked_at IS NULL;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO api_key_usage (key_id, window_start, request_count)
+  VALUES (k.id, w, 1)
+  ON CONFLICT (key_id, window_start)
+  DO UPDATE SET request_count = api_key_usage.request_count + 1
+  RETURNING api_key_usage.request_count INTO used;
+
+  -- The first request of a window prunes windows past the retention period.
+  IF used = 1 THEN
+    DELETE FROM api_key_usage WHERE key_id = k.id AND window_start < w - p_retention;
+  END IF;
+
+  UPDATE api_keys SET request_count = request_count + 1, last_used_at = now() WHERE id = k.id;
+
+  RETURN QUERY SELECT k.id, k.owner_address, k.scopes, k.rate_limit_per_minute, used, w + interval '1 minute';
+END;
+$$;
@@ -0,0 +1,132 @@
+/*
+  # Confirmation depth and finality of anchors
+
+  1. Changes
+    - `anchor_batches.confirmations` (integer, blocks on top of and including the anchoring block)
+    - `anchor_batches.finalized_at` (timestamp)
+    - `anchor_batches.checked_at` (timestamp, last time the finality worker looked the transaction up)
+    - `anchor_batches.status` also allows `finalized` (deep enough to stop checking) and
+      `dropped` (the transaction left the chain; its documents were queued again)
+    - `blockchain_records.confirmations` and `blockchain_records.finalized_at`, copied
+      from the record's batch
+    - `blockchain_records.status` also allows `finalized`
+    - `reconcile_pending_anchors` treats finalized records as anchored
+
+  2. Functions
+    - `reanchor_batch` - Marks a batch dropped, returns its documents to pending
+      and queues them to be anchored again
+*/
+
+ALTER TABLE anchor_batches
+  ADD COLUMN IF NOT EXISTS confirmations integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS finalized_at timestamptz,
+  ADD COLUMN IF NOT EXISTS checked_at timestamptz;
+
+ALTER TABLE anchor_batches DROP CONSTRAINT IF EXISTS anchor_batches_status_check;
+ALTER TABLE anchor_batches
+  ADD CONSTRAINT anchor_batches_status_check
+  CHECK (status IN ('pending', 'confirmed', 'finalized', 'failed', 'dropped'));
+
+ALTER TABLE blockchain_records
+  ADD COLUMN IF NOT EXISTS confirmations integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS finalized_at timestamptz;
+
+ALTER TABLE blockchain_records DROP CONSTRAINT IF EXISTS blockchain_records_status_check;
+ALTER TABLE blockchain_records
+  ADD CONSTRAINT blockchain_records_status_check CHECK (status IN ('pending', 'confirmed', 'finalized'));
+
+CREATE INDEX IF NOT EXISTS idx_anchor_batches_unfinalized
+  ON anchor_batches(checked_at NULLS FIRST) WHERE status = 'confirmed';
+
+CREATE OR REPLACE FUNCTION reconcile_pending_anchors(
+  p_stale_after interval DEFAULT interval '2 minutes'
+)
+RETURNS integer
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  enqueued integer;
+  revocations integer;
+BEGIN
+  UPDATE documents d
+  SET status = 'confirmed', updated_at = now()
+  FROM blockchain_records br
+  WHERE br.document_id = d.id
+    AND br.status IN ('confirmed', 'finalized')
+    AND d.status = 'pending';
+
+  INSERT INTO anchor_jobs (document_id, kind)
+  SELECT d.id, 'register'
+  FROM documents d
+  WHERE d.status = 'pending'
+    AND d.created_at < now() - p_stale_after
+    AND NOT EXISTS (
+      SELECT 1 FROM anchor_jobs j
+      WHERE j.document_id = d.id AND j.kind = 'register' AND j.status IN ('queued', 'running', 'dead')
+    )
+  ON CONFLICT DO NOTHING;
+
+  GET DIAGNOSTICS enqueued = ROW_COUNT;
+
+  INSERT INTO anchor_jobs (document_id, kind)
+  SELECT d.id, 'revoke'
+  FROM documents d
+  JOIN blockchain_records br ON br.document_id = d.id
+  WHERE d.status = 'revoked'
+    AND br.revocation_transaction_hash IS NULL
+    AND d.revoked_at < now() - p_stale_after
+    AND NOT EXISTS (
+      SELECT 1 FROM anchor_jobs j
+      WHERE j.document_id = d.id AND j.kind = 'revoke' AND j.status IN ('queued', 'running', 'dead')
+    )
+  ON CONFLICT DO NOTHING;
+
+  GET DIAGNOSTICS revocations = ROW_COUNT;
+  RETURN enqueued + revocations;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION reanchor_batch(p_batch_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  requeued integer;
+BEGIN
+  UPDATE anchor_batches
+  SET status = 'dropped', confirmations = 0, finalized_at = NULL, checked_at = now()
+  WHERE id = p_batch_id AND status IN ('confirmed', 'finalized');
+
+  IF NOT FOUND THEN
+    RETURN 0;
+  END IF;
+
+  -- Revoked documents keep their status; they are re-anchored all the same.
+  UPDATE documents d
+  SET status = 'pending', updated_at = now()
+  FROM blockchain_records br
+  WHERE br.document_id = d.id
+    AND br.batch_id = p_batch_id
+    AND d.status = 'confirmed';
+
+  INSERT INTO anchor_jobs (document_id, kind)
+  SELECT document_id, 'register'
+  FROM blockchain_records
+  WHERE batch_id = p_batch_id
+  ON CONFLICT DO NOTHING;
+
+  GET DIAGNOSTICS requeued = ROW_COUNT;
+
+  UPDATE blockchain_records
+  SET status = 'pending',
+      transaction_hash = NULL,
+      block_number = NULL,
+      block_timestamp = NULL,
+      batch_id = NULL,
+      confirmations = 0,
+      finalized_at = NULL
+  WHERE batch_id = p_batch_id;
+
+  RETURN requeued;
+END;
+$$;
@@ -0,0 +1,69 @@
+/*
+  # Registry contract indexer
+
+  1. New Tables
+    - `chain_checkpoints` - How far the indexer has read each registry contract
+      - `id` (text, primary key, `<chain id>:<registry address>`)
+      - `last_block` (bigint, last block whose events were applied)
+      - `updated_at` (timestamp)
+
+    - `chain_discrepancies` - Places where the chain and the database disagree
+      - `id` (uuid, primary key)
+      - `kind` (text):
+        - `unknown_registration`: a registered hash that is no batch's Merkle root
+        - `anchor_mismatch`: a record's transaction or block differs from the chain's
+        - `missing_registration`: an anchored batch whose root the chain never registered
+        - `unknown_revocation`: a revoked hash that is no document's leaf hash
+        - `unexpected_revocation`: a revocation on chain for a document the database does not have revoked
+        - `missing_revocation`: an anchored revocation the chain never recorded
+      - `document_hash` (text, the root or leaf hash concerned)
+      - `document_id` (uuid, foreign key, null when no document matches)
+      - `batch_id` (uuid, foreign key)
+      - `transaction_hash` (text, on-chain transaction, when there is one)
+      - `block_number` (bigint)
+      - `details` (jsonb, the values that disagree)
+      - `detected_at` (timestamp, last time the indexer saw the disagreement)
+      - `resolved_at` (timestamp, set once the indexer sees it resolved or an operator clears it)
+
+  2. Security
+    - RLS enabled with no policies; only the service role reads and writes them
+*/
+
+CREATE TABLE IF NOT EXISTS chain_checkpoints (
+  id text PRIMARY KEY,
+  last_block bigint NOT NULL,
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS chain_discrepancies (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  kind text NOT NULL CHECK (kind IN (
+    'unknown_registration',
+    'anchor_mismatch',
+    'missing_registration',
+    'unknown_revocation',
+    'unexpected_revocation',
+    'missing_revocation'
+  )),
+  document_hash text NOT NULL,
+  document_id uuid REFERENCES documents(id) ON DELETE CASCADE,
+  batch_id uuid REFERENCES anchor_batches(id) ON DELETE SET NULL,
+  transaction_hash text,
+  block_number bigint,
+  details jsonb NOT NULL DEFAULT '{}'::jsonb,
+  detected_at timestamptz NOT NULL DEFAULT now(),
+  resolved_at timestamptz,
+  UNIQUE NULLS NOT DISTINCT (kind, document_hash, document_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_chain_discrepancies_open
+  ON chain_discrepancies(detected_at DESC) WHERE resolved_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_chain_discrepancies_document_id ON chain_discrepancies(document_id);
+
+CREATE INDEX IF NOT EXISTS idx_anchor_batches_block_number ON anchor_batches(block_number);
+CREATE INDEX IF NOT EXISTS idx_blockchain_records_revocation_block_number
+  ON blockchain_records(revocation_block_number);
+CREATE INDEX IF NOT EXISTS idx_merkle_proofs_leaf_hash ON merkle_proofs(leaf_hash);
+
+ALTER TABLE chain_checkpoints ENABLE ROW LEVEL SECURITY;
+ALTER TABLE chain_discrepancies ENABLE ROW LEVEL SECURITY;
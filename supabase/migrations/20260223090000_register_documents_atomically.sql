@@ -0,0 +1,164 @@
+/*
+  # Atomic registration
+
+  1. New Functions
+    - `register_documents` - Registers a list of documents for one owner in a
+      single call. Each document is written with its digests, blockchain record
+      and anchor job in a subtransaction of its own, so it is registered whole
+      or not at all, and one rejected document does not undo the others.
+      Returns one result per document, in order:
+      - `{ ok: true, document_id, version, parent_id }`
+      - `{ ok: false, status, error, document_id? }`, with the HTTP status the
+        single-document endpoint answers with (409 for a duplicate)
+
+  2. Notes
+    - Digests arrive validated and normalized; the function only checks what
+      needs the database: duplicates, the parent version and its owner.
+    - Documents are registered in order, so a file listed twice is reported as
+      a duplicate of its first occurrence.
+    - Only a concurrent registration is caught per document. Any other error
+      aborts the whole call, so nothing is written and the caller sees it as a
+      failed request rather than as one document's result.
+*/
+
+CREATE OR REPLACE FUNCTION register_documents(p_owner text, p_documents jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  item jsonb;
+  results jsonb := '[]'::jsonb;
+  existing_id uuid;
+  existing_status text;
+  parent_document_id uuid;
+  parent_lineage uuid;
+  parent_version integer;
+  parent_owner text;
+  latest_id uuid;
+  latest_version integer;
+  new_id uuid;
+  new_version integer;
+BEGIN
+  FOR item IN SELECT value FROM jsonb_array_elements(p_documents)
+  LOOP
+    BEGIN
+      existing_id := NULL;
+      SELECT dd.document_id, d.status INTO existing_id, existing_status
+      FROM jsonb_to_recordset(item->'digests') AS given(algorithm text, digest text)
+      JOIN document_digests dd ON dd.algorithm = given.algorithm AND dd.digest = given.digest
+      JOIN documents d ON d.id = dd.document_id
+      LIMIT 1;
+
+      IF existing_id IS NOT NULL THEN
+        results := results || jsonb_build_array(jsonb_build_object(
+          'ok', false,
+          'status', 409,
+          'error', format('Document already registered with ID: %s. Status: %s', existing_id, existing_status),
+          'document_id', existing_id
+        ));
+        CONTINUE;
+      END IF;
+
+      parent_document_id := (item->>'parent_document_id')::uuid;
+      parent_lineage := NULL;
+      parent_version := NULL;
+
+      IF parent_document_id IS NULL AND item->>'parent_hash' IS NOT NULL THEN
+        SELECT document_id INTO parent_document_id
+        FROM document_digests
+        WHERE digest = item->>'parent_hash'
+          AND algorithm IN (SELECT jsonb_array_elements_text(item->'parent_algorithms'))
+        LIMIT 1;
+
+        IF parent_document_id IS NULL THEN
+          results := results || jsonb_build_array(jsonb_build_object(
+            'ok', false, 'status', 404, 'error', 'Parent document not found'
+          ));
+          CONTINUE;
+        END IF;
+      END IF;
+
+      IF parent_document_id IS NOT NULL THEN
+        SELECT lineage_id, version, lower(uploader_address)
+        INTO parent_lineage, parent_version, parent_owner
+        FROM documents
+        WHERE id = parent_document_id;
+
+        IF parent_lineage IS NULL THEN
+          results := results || jsonb_build_array(jsonb_build_object(
+            'ok', false, 'status', 404, 'error', 'Parent document not found'
+          ));
+          CONTINUE;
+        END IF;
+
+        IF parent_owner <> p_owner THEN
+          results := results || jsonb_build_array(jsonb_build_object(
+            'ok', false, 'status', 403, 'error', 'Only the owner of a document can register a new version of it'
+          ));
+          CONTINUE;
+        END IF;
+
+        SELECT id, version INTO latest_id, latest_version
+        FROM documents
+        WHERE lineage_id = parent_lineage
+        ORDER BY version DESC
+        LIMIT 1;
+
+        IF latest_id <> parent_document_id THEN
+          results := results || jsonb_build_array(jsonb_build_object(
+            'ok', false,
+            'status', 409,
+            'error', format(
+              'Only the latest version can be revised. Latest is version %s (ID: %s)', latest_version, latest_id
+            )
+          ));
+          CONTINUE;
+        END IF;
+      END IF;
+
+      INSERT INTO documents (
+        filename, file_hash, hash_algorithm, file_size, mime_type, uploader_address, tags,
+        status, parent_id, lineage_id, version
+      )
+      VALUES (
+        item->>'filename',
+        item->>'file_hash',
+        item->>'hash_algorithm',
+        (item->>'file_size')::bigint,
+        item->>'mime_type',
+        p_owner,
+        ARRAY(SELECT jsonb_array_elements_text(COALESCE(item->'tags', '[]'::jsonb))),
+        'pending',
+        parent_document_id,
+        parent_lineage,
+        COALESCE(parent_version + 1, 1)
+      )
+      RETURNING id, version INTO new_id, new_version;
+
+      INSERT INTO document_digests (document_id, algorithm, digest)
+      SELECT new_id, given.algorithm, given.digest
+      FROM jsonb_to_recordset(item->'digests') AS given(algorithm text, digest text);
+
+      INSERT INTO blockchain_records (document_id, document_hash, owner_address, status)
+      VALUES (new_id, item->>'file_hash', p_owner, 'pending');
+
+      INSERT INTO anchor_jobs (document_id) VALUES (new_id);
+
+      results := results || jsonb_build_array(jsonb_build_object(
+        'ok', true, 'document_id', new_id, 'version', new_version, 'parent_id', parent_document_id
+      ));
+    EXCEPTION
+      -- Another request registered the same digest, or the same next version,
+      -- between the checks above and the inserts.
+      WHEN unique_violation THEN
+        results := results || jsonb_build_array(jsonb_build_object(
+          'ok', false,
+          'status', 409,
+          'error', 'The document, one of its digests or this version was registered concurrently. Refresh and try again.'
+        ));
+    END;
+  END LOOP;
+
+  RETURN results;
+END;
+$$;
@@ -0,0 +1,74 @@
+/*
+  # Repair records of anchored batches
+
+  1. Changes
+    - `reconcile_pending_anchors` first copies the transaction of an anchored
+      batch to the blockchain records of its documents that are still pending.
+      The anchor worker never queues an anchored batch again, so this is what
+      finishes a batch whose record or document updates failed after its
+      transaction was saved. Those documents are then confirmed as usual
+      instead of being queued for a second anchor.
+*/
+
+CREATE OR REPLACE FUNCTION reconcile_pending_anchors(
+  p_stale_after interval DEFAULT interval '2 minutes'
+)
+RETURNS integer
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  enqueued integer;
+  revocations integer;
+BEGIN
+  UPDATE blockchain_records br
+  SET transaction_hash = ab.transaction_hash,
+      block_number = ab.block_number,
+      block_timestamp = ab.block_timestamp,
+      batch_id = ab.id,
+      status = ab.status,
+      confirmations = ab.confirmations,
+      finalized_at = ab.finalized_at
+  FROM merkle_proofs mp
+  JOIN anchor_batches ab ON ab.id = mp.batch_id
+  WHERE mp.document_id = br.document_id
+    AND ab.status IN ('confirmed', 'finalized')
+    AND ab.transaction_hash IS NOT NULL
+    AND br.status = 'pending';
+
+  UPDATE documents d
+  SET status = 'confirmed', updated_at = now()
+  FROM blockchain_records br
+  WHERE br.document_id = d.id
+    AND br.status IN ('confirmed', 'finalized')
+    AND d.status = 'pending';
+
+  INSERT INTO anchor_jobs (document_id, kind)
+  SELECT d.id, 'register'
+  FROM documents d
+  WHERE d.status = 'pending'
+    AND d.created_at < now() - p_stale_after
+    AND NOT EXISTS (
+      SELECT 1 FROM anchor_jobs j
+      WHERE j.document_id = d.id AND j.kind = 'register' AND j.status IN ('queued', 'running', 'dead')
+    )
+  ON CONFLICT DO NOTHING;
+
+  GET DIAGNOSTICS enqueued = ROW_COUNT;
+
+  INSERT INTO anchor_jobs (document_id, kind)
+  SELECT d.id, 'revoke'
+  FROM documents d
+  JOIN blockchain_records br ON br.document_id = d.id
+  WHERE d.status = 'revoked'
+    AND br.revocation_transaction_hash IS NULL
+    AND d.revoked_at < now() - p_stale_after
+    AND NOT EXISTS (
+      SELECT 1 FROM anchor_jobs j
+      WHERE j.document_id = d.id AND j.kind = 'revoke' AND j.status IN ('queued', 'running', 'dead')
+    )
+  ON CONFLICT DO NOTHING;
+
+  GET DIAGNOSTICS revocations = ROW_COUNT;
+  RETURN enqueued + revocations;
+END;
+$$;
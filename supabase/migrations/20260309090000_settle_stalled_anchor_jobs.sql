@@ -0,0 +1,114 @@
+/*
+  # Dead-letter stalled anchor jobs and finish sent revocations
+
+  1. Changes
+    - `claim_anchor_jobs` marks a running job whose lock has expired `dead`
+      instead of claiming it again once it has used all its attempts, so a job
+      whose worker keeps crashing stops being retried.
+    - `reconcile_pending_anchors` queues a revocation again until it is mined.
+      The anchor worker records a revocation transaction as soon as it is sent,
+      so `revocation_block_number` rather than `revocation_transaction_hash`
+      marks a finished one.
+*/
+
+CREATE OR REPLACE FUNCTION claim_anchor_jobs(
+  p_worker text,
+  p_limit integer DEFAULT 10,
+  p_lock_timeout interval DEFAULT interval '5 minutes'
+)
+RETURNS SETOF anchor_jobs
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  UPDATE anchor_jobs
+  SET status = 'dead',
+      last_error = 'Worker stopped during the last attempt',
+      locked_by = NULL,
+      locked_at = NULL,
+      completed_at = now(),
+      updated_at = now()
+  WHERE status = 'running'
+    AND locked_at < now() - p_lock_timeout
+    AND attempts >= max_attempts;
+
+  RETURN QUERY
+  UPDATE anchor_jobs
+  SET status = 'running',
+      attempts = attempts + 1,
+      locked_by = p_worker,
+      locked_at = now(),
+      updated_at = now()
+  WHERE id IN (
+    SELECT id FROM anchor_jobs
+    WHERE (status = 'queued' AND run_after <= now())
+       OR (status = 'running' AND locked_at < now() - p_lock_timeout)
+    ORDER BY run_after
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION reconcile_pending_anchors(
+  p_stale_after interval DEFAULT interval '2 minutes'
+)
+RETURNS integer
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  enqueued integer;
+  revocations integer;
+BEGIN
+  UPDATE blockchain_records br
+  SET transaction_hash = ab.transaction_hash,
+      block_number = ab.block_number,
+      block_timestamp = ab.block_timestamp,
+      batch_id = ab.id,
+      status = ab.status,
+      confirmations = ab.confirmations,
+      finalized_at = ab.finalized_at
+  FROM merkle_proofs mp
+  JOIN anchor_batches ab ON ab.id = mp.batch_id
+  WHERE mp.document_id = br.document_id
+    AND ab.status IN ('confirmed', 'finalized')
+    AND ab.transaction_hash IS NOT NULL
+    AND br.status = 'pending';
+
+  UPDATE documents d
+  SET status = 'confirmed', updated_at = now()
+  FROM blockchain_records br
+  WHERE br.document_id = d.id
+    AND br.status IN ('confirmed', 'finalized')
+    AND d.status = 'pending';
+
+  INSERT INTO anchor_jobs (document_id, kind)
+  SELECT d.id, 'register'
+  FROM documents d
+  WHERE d.status = 'pending'
+    AND d.created_at < now() - p_stale_after
+    AND NOT EXISTS (
+      SELECT 1 FROM anchor_jobs j
+      WHERE j.document_id = d.id AND j.kind = 'register' AND j.status IN ('queued', 'running', 'dead')
+    )
+  ON CONFLICT DO NOTHING;
+
+  GET DIAGNOSTICS enqueued = ROW_COUNT;
+
+  INSERT INTO anchor_jobs (document_id, kind)
+  SELECT d.id, 'revoke'
+  FROM documents d
+  JOIN blockchain_records br ON br.document_id = d.id
+  WHERE d.status = 'revoked'
+    AND br.revocation_block_number IS NULL
+    AND d.revoked_at < now() - p_stale_after
+    AND NOT EXISTS (
+      SELECT 1 FROM anchor_jobs j
+      WHERE j.document_id = d.id AND j.kind = 'revoke' AND j.status IN ('queued', 'running', 'dead')
+    )
+  ON CONFLICT DO NOTHING;
+
+  GET DIAGNOSTICS revocations = ROW_COUNT;
+  RETURN enqueued + revocations;
+END;
+$$;
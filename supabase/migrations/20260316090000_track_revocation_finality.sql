@@ -0,0 +1,56 @@
+/*
+  # Confirmation depth and finality of revocations
+
+  1. Changes
+    - `blockchain_records.revocation_confirmations` (integer, blocks on top of
+      and including the revocation block)
+    - `blockchain_records.revocation_finalized_at` (timestamp)
+    - `blockchain_records.revocation_checked_at` (timestamp, last time the
+      finality worker looked the revocation transaction up)
+
+  2. Functions
+    - `rerevoke_document` - Forgets a revocation transaction that left the
+      chain and queues the revocation to be sent again. The document stays
+      revoked; only its anchor on chain is redone.
+*/
+
+ALTER TABLE blockchain_records
+  ADD COLUMN IF NOT EXISTS revocation_confirmations integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS revocation_finalized_at timestamptz,
+  ADD COLUMN IF NOT EXISTS revocation_checked_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_blockchain_records_unfinalized_revocations
+  ON blockchain_records(revocation_checked_at NULLS FIRST)
+  WHERE revocation_block_number IS NOT NULL AND revocation_finalized_at IS NULL;
+
+CREATE OR REPLACE FUNCTION rerevoke_document(p_document_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  requeued integer;
+BEGIN
+  UPDATE blockchain_records
+  SET revocation_transaction_hash = NULL,
+      revocation_block_number = NULL,
+      revocation_block_timestamp = NULL,
+      revocation_confirmations = 0,
+      revocation_finalized_at = NULL,
+      revocation_checked_at = now()
+  WHERE document_id = p_document_id
+    AND revocation_block_number IS NOT NULL;
+
+  IF NOT FOUND THEN
+    RETURN 0;
+  END IF;
+
+  INSERT INTO anchor_jobs (document_id, kind)
+  SELECT id, 'revoke'
+  FROM documents
+  WHERE id = p_document_id AND status = 'revoked'
+  ON CONFLICT DO NOTHING;
+
+  GET DIAGNOSTICS requeued = ROW_COUNT;
+  RETURN requeued;
+END;
+$$;
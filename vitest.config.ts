@@ -0,0 +1,13 @@
+import { defineConfig } from 'vitest/config';
+
+// The edge functions import npm packages by Deno specifier; the tests resolve
+// them from node_modules instead, pinned to the same versions.
+export default defineConfig({
+  resolve: {
+    alias: [{ find: /^npm:(@?[^@]+)@[^/]+(.*)$/, replacement: '$1$2' }],
+  },
+  test: {
+    include: ['src/**/*.test.ts', 'packages/*/src/**/*.test.ts', 'supabase/functions/**/*.test.ts'],
+    setupFiles: ['./vitest.setup.ts'],
+  },
+});
@@ -0,0 +1,7 @@
+// The edge functions read their configuration through `Deno.env`; in tests it
+// is backed by `process.env`, so `vi.stubEnv` configures them.
+Object.assign(globalThis, {
+  Deno: {
+    env: { get: (name: string) => process.env[name] },
+  },
+});